@@ -0,0 +1,172 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { useRouter } from 'next/navigation';
+import { formatDistanceToNow } from 'date-fns';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { DataTable, Column, createTypedRender } from '@/components/data-table';
+import { useAdminAuthorized, useStuckJobs, reapStuckJobs } from '@/hooks/api/admin';
+import { useToast } from '@/hooks/use-toast';
+import { ArrowLeft, RotateCcw } from 'lucide-react';
+import type { StuckJob } from '@/lib/types';
+
+export default function AdminStuckJobsPage() {
+  const router = useRouter();
+  const { authorized, isLoading: authLoading } = useAdminAuthorized();
+  const { jobs, isLoading: jobsLoading, mutate } = useStuckJobs();
+  const [reaping, setReaping] = useState(false);
+  const { toast } = useToast();
+
+  // Redirect if not authorized
+  useEffect(() => {
+    if (!authLoading && !authorized) {
+      router.push('/admin/register');
+    }
+  }, [authLoading, authorized, router]);
+
+  if (authLoading) {
+    return (
+      <div className="flex items-center justify-center min-h-screen">
+        <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600"></div>
+      </div>
+    );
+  }
+
+  if (!authorized) {
+    return null; // Will redirect
+  }
+
+  const handleReap = async () => {
+    setReaping(true);
+    try {
+      const { requeued, deadLettered } = await reapStuckJobs();
+      toast({
+        title: 'Stuck jobs released',
+        description: `${requeued} re-queued, ${deadLettered} moved to dead letter.`,
+      });
+      mutate();
+    } catch (error) {
+      toast({
+        title: 'Error',
+        description: error instanceof Error ? error.message : 'Failed to release stuck jobs',
+        variant: 'destructive',
+      });
+    } finally {
+      setReaping(false);
+    }
+  };
+
+  const columns: Column<StuckJob>[] = [
+    {
+      key: 'type',
+      header: 'Type',
+      sortable: true,
+      searchable: true,
+      render: createTypedRender<StuckJob, 'type'>((value) => (
+        <span className="font-mono text-xs">{String(value)}</span>
+      )),
+    },
+    {
+      key: 'ownerName',
+      header: 'Teacher',
+      sortable: true,
+      searchable: true,
+      render: createTypedRender<StuckJob, 'ownerName'>((value, row) => (
+        <div>
+          <div className="font-medium">{String(value)}</div>
+          <div className="text-xs text-slate-500">{row.ownerEmail}</div>
+        </div>
+      )),
+    },
+    {
+      key: 'attempts',
+      header: 'Attempt',
+      sortable: true,
+      render: createTypedRender<StuckJob, 'attempts'>((value, row) => {
+        const isLastAttempt = row.attempts >= row.maxAttempts;
+        return (
+          <Badge variant={isLastAttempt ? 'destructive' : 'outline'}>
+            {String(value)} / {row.maxAttempts}
+          </Badge>
+        );
+      }),
+    },
+    {
+      key: 'lockedBy',
+      header: 'Worker',
+      render: createTypedRender<StuckJob, 'lockedBy'>((value) => (
+        <span className="font-mono text-xs text-slate-600">{value ? String(value) : 'Unknown'}</span>
+      )),
+    },
+    {
+      key: 'lockedUntil',
+      header: 'Lease Expired',
+      sortable: true,
+      render: createTypedRender<StuckJob, 'lockedUntil'>((value) =>
+        value ? formatDistanceToNow(new Date(String(value)), { addSuffix: true }) : 'Never leased'
+      ),
+    },
+    {
+      key: 'createdAt',
+      header: 'Created',
+      sortable: true,
+      render: createTypedRender<StuckJob, 'createdAt'>((value) =>
+        formatDistanceToNow(new Date(String(value)), { addSuffix: true })
+      ),
+    },
+  ];
+
+  return (
+    <div className="min-h-screen bg-slate-50 p-6">
+      <div className="max-w-7xl mx-auto space-y-6">
+        <div className="flex items-center justify-between">
+          <div>
+            <h1 className="text-3xl font-bold text-gray-900">Stuck Jobs</h1>
+            <p className="text-gray-600">
+              Running jobs whose worker stopped sending heartbeats. The next worker run re-queues them automatically.
+            </p>
+          </div>
+          <div className="flex gap-2">
+            <Button variant="outline" onClick={() => router.push('/admin/teachers')}>
+              <ArrowLeft className="w-4 h-4 mr-2" />
+              Teachers
+            </Button>
+            <Button
+              onClick={handleReap}
+              disabled={reaping || jobs.length === 0}
+              className="bg-blue-600 hover:bg-blue-700"
+            >
+              <RotateCcw className="w-4 h-4 mr-2" />
+              {reaping ? 'Releasing...' : 'Release Now'}
+            </Button>
+          </div>
+        </div>
+
+        <Card>
+          <CardHeader>
+            <CardTitle>Stuck Jobs ({jobs.length})</CardTitle>
+          </CardHeader>
+          <CardContent>
+            {jobsLoading ? (
+              <div className="flex items-center justify-center py-8">
+                <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600"></div>
+              </div>
+            ) : jobs.length === 0 ? (
+              <p className="text-center py-8 text-slate-500">No stuck jobs. All running jobs hold a live lease.</p>
+            ) : (
+              <DataTable
+                data={jobs}
+                columns={columns}
+                pageSize={10}
+                searchable={true}
+                sortable={true}
+              />
+            )}
+          </CardContent>
+        </Card>
+      </div>
+    </div>
+  );
+}
@@ -13,7 +13,7 @@ import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
 import { Calendar } from '@/components/ui/calendar';
 import { format } from 'date-fns';
-import { CalendarIcon, Clock, Plus } from 'lucide-react';
+import { AlertTriangle, CalendarIcon, Clock, Plus } from 'lucide-react';
 import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
 import { cn } from '@/lib/utils';
 
@@ -328,13 +328,19 @@ export default function AdminTeachersPage() {
             <h1 className="text-3xl font-bold text-gray-900">Admin Dashboard</h1>
             <p className="text-gray-600">Manage teacher accounts and validity periods</p>
           </div>
-          <Button 
-            onClick={() => router.push('/admin/register')}
-            className="bg-blue-600 hover:bg-blue-700"
-          >
-            <Plus className="w-4 h-4 mr-2" />
-            Create Teacher
-          </Button>
+          <div className="flex gap-2">
+            <Button variant="outline" onClick={() => router.push('/admin/jobs')}>
+              <AlertTriangle className="w-4 h-4 mr-2" />
+              Stuck Jobs
+            </Button>
+            <Button 
+              onClick={() => router.push('/admin/register')}
+              className="bg-blue-600 hover:bg-blue-700"
+            >
+              <Plus className="w-4 h-4 mr-2" />
+              Create Teacher
+            </Button>
+          </div>
         </div>
 
         <Card>
@@ -0,0 +1,19 @@
+import { NextRequest } from 'next/server';
+import { apiResponse, handleApiError } from '@/lib/api-utils';
+import { requireAdminReg } from '@/lib/auth';
+import { JobService } from '@/lib/actions/jobs';
+
+/**
+ * POST /api/admin/jobs/reap
+ * Returns jobs with expired leases to the queue right away instead of waiting
+ * for the next worker run.
+ */
+export async function POST(req: NextRequest) {
+  try {
+    requireAdminReg(req);
+    const result = await JobService._reapExpiredLeases();
+    return apiResponse(200, result, null);
+  } catch (error) {
+    return handleApiError(error);
+  }
+}
@@ -0,0 +1,18 @@
+import { NextRequest } from 'next/server';
+import { apiResponse, handleApiError } from '@/lib/api-utils';
+import { requireAdminReg } from '@/lib/auth';
+import { JobService } from '@/lib/actions/jobs';
+
+/**
+ * GET /api/admin/jobs/stuck
+ * Lists RUNNING jobs whose worker lease has expired.
+ */
+export async function GET(req: NextRequest) {
+  try {
+    requireAdminReg(req);
+    const jobs = await JobService.getStuckJobs();
+    return apiResponse(200, jobs, null);
+  } catch (error) {
+    return handleApiError(error);
+  }
+}
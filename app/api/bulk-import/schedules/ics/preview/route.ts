@@ -0,0 +1,24 @@
+import { NextRequest } from 'next/server';
+import { CalendarService } from '@/lib/actions/calendar';
+import { apiResponse, handleApiError } from '@/lib/api-utils';
+import { IcsScheduleImportSchema } from '@/lib/schemas';
+import { requireAuth } from '@/lib/auth';
+
+/**
+ * POST /api/bulk-import/schedules/ics/preview
+ * Reads an .ics file and lists the classes importing it would create, the
+ * student each event is assigned to, and the classes they would overlap with.
+ */
+export async function POST(req: NextRequest) {
+  try {
+    const teacherId = await requireAuth(req);
+
+    const body = await req.json();
+    const input = IcsScheduleImportSchema.parse(body);
+
+    const preview = await CalendarService.previewIcsImport(teacherId, input);
+    return apiResponse(200, preview, null);
+  } catch (error) {
+    return handleApiError(error);
+  }
+}
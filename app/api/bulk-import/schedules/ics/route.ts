@@ -0,0 +1,26 @@
+import { NextRequest } from 'next/server';
+import { CalendarService } from '@/lib/actions/calendar';
+import { apiResponse, handleApiError } from '@/lib/api-utils';
+import { IcsScheduleImportSchema } from '@/lib/schemas';
+import { requireAuth } from '@/lib/auth';
+
+/**
+ * POST /api/bulk-import/schedules/ics
+ * Imports the classes of an .ics file through a BULK_IMPORT_SCHEDULES job.
+ */
+export async function POST(req: NextRequest) {
+  try {
+    const teacherId = await requireAuth(req);
+
+    const body = await req.json();
+    const input = IcsScheduleImportSchema.parse(body);
+
+    const job = await CalendarService.importIcsSchedules(teacherId, input);
+    if (!job) {
+      return apiResponse(400, null, 'None of the events has upcoming classes for one of your students.');
+    }
+    return apiResponse(200, job, null);
+  } catch (error) {
+    return handleApiError(error);
+  }
+}
@@ -0,0 +1,33 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { CalendarService } from '@/lib/actions/calendar';
+import { handleApiError } from '@/lib/api-utils';
+
+/**
+ * GET /api/calendar/[token].ics
+ * The teacher's iCalendar feed for calendar apps to subscribe to. It is
+ * protected by the secret token in the URL instead of a session.
+ */
+export async function GET(
+  _req: NextRequest,
+  { params }: { params: Promise<{ token: string }> }
+) {
+  try {
+    const { token } = await params;
+
+    const content = await CalendarService.getFeedByToken(token.replace(/\.ics$/, ''));
+    if (content === null) {
+      return new NextResponse('Calendar feed not found', { status: 404 });
+    }
+
+    return new NextResponse(content, {
+      status: 200,
+      headers: {
+        'Content-Type': 'text/calendar; charset=utf-8',
+        'Content-Disposition': 'inline; filename="classes.ics"',
+        'Cache-Control': 'private, no-store',
+      },
+    });
+  } catch (error) {
+    return handleApiError(error);
+  }
+}
@@ -0,0 +1,73 @@
+import { NextRequest } from 'next/server';
+import { requireAuth } from '@/lib/auth';
+import { ContentService } from '@/lib/actions/content';
+import { UpdateGrammarExerciseSchema } from '@/lib/schemas';
+import { apiResponse, handleApiError } from '@/lib/api-utils';
+import { UnitItemType } from '@prisma/client';
+
+/**
+ * GET /api/grammar-exercises/[exerciseId]
+ * Retrieves a specific grammar exercise, owned by the teacher or public.
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ exerciseId: string }> }
+) {
+  try {
+    const teacherId = await requireAuth(request);
+    const { exerciseId } = await params;
+
+    const exercise = await ContentService.getGrammarExercise(exerciseId, teacherId);
+
+    return apiResponse(200, exercise, null);
+  } catch (error) {
+    return handleApiError(error);
+  }
+}
+
+/**
+ * PUT /api/grammar-exercises/[exerciseId]
+ * Updates a grammar exercise.
+ */
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: Promise<{ exerciseId: string }> }
+) {
+  try {
+    const teacherId = await requireAuth(request);
+    const { exerciseId } = await params;
+
+    const body = await request.json();
+    const validatedData = UpdateGrammarExerciseSchema.parse(body);
+
+    const exercise = await ContentService.updateGrammarExercise(exerciseId, teacherId, validatedData);
+
+    return apiResponse(200, exercise, null);
+  } catch (error) {
+    return handleApiError(error);
+  }
+}
+
+/**
+ * DELETE /api/grammar-exercises/[exerciseId]
+ * Archives (soft-deletes) a grammar exercise.
+ */
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ exerciseId: string }> }
+) {
+  try {
+    const teacherId = await requireAuth(request);
+    const { exerciseId } = await params;
+
+    const archivedExercise = await ContentService.archiveExercise(
+      UnitItemType.GRAMMAR_EXERCISE,
+      exerciseId,
+      teacherId
+    );
+
+    return apiResponse(200, archivedExercise, null);
+  } catch (error) {
+    return handleApiError(error);
+  }
+}
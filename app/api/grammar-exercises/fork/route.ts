@@ -0,0 +1,34 @@
+import { NextRequest } from 'next/server';
+import { ContentService } from '@/lib/actions/content';
+import { apiResponse, handleApiError } from '@/lib/api-utils';
+import { z } from 'zod';
+import { UnitItemType } from '@prisma/client';
+import { requireAuth } from '@/lib/auth';
+
+const ForkGrammarExerciseBodySchema = z.object({
+  exerciseId: z.string().uuid('Invalid exercise ID format.'),
+});
+
+/**
+ * POST /api/grammar-exercises/fork
+ * Creates a private, editable copy (a "fork") of a public grammar exercise
+ * for the authenticated teacher.
+ */
+export async function POST(req: NextRequest) {
+  try {
+    const teacherId = await requireAuth(req);
+
+    const body = await req.json();
+    const { exerciseId } = ForkGrammarExerciseBodySchema.parse(body);
+
+    const forkedExercise = await ContentService.forkExercise(
+      UnitItemType.GRAMMAR_EXERCISE,
+      exerciseId,
+      teacherId
+    );
+
+    return apiResponse(201, forkedExercise, null);
+  } catch (error) {
+    return handleApiError(error);
+  }
+}
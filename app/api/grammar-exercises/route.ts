@@ -0,0 +1,43 @@
+import { NextRequest } from 'next/server';
+import { requireAuth } from '@/lib/auth';
+import { ContentService } from '@/lib/actions/content';
+import { CreateGrammarExerciseSchema } from '@/lib/schemas';
+import { apiResponse, handleApiError } from '@/lib/api-utils';
+
+/**
+ * GET /api/grammar-exercises
+ * Retrieves all grammar exercises for the authenticated teacher.
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const teacherId = await requireAuth(request);
+
+    const exercises = await ContentService.getGrammarExercisesForTeacher(teacherId);
+
+    return apiResponse(200, exercises, null);
+  } catch (error) {
+    return handleApiError(error);
+  }
+}
+
+/**
+ * POST /api/grammar-exercises
+ * Creates a new grammar exercise for the authenticated teacher.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const teacherId = await requireAuth(request);
+
+    const body = await request.json();
+    const validatedData = CreateGrammarExerciseSchema.parse(body);
+
+    const exercise = await ContentService.createGrammarExercise({
+      ...validatedData,
+      creatorId: teacherId,
+    });
+
+    return apiResponse(201, exercise, null);
+  } catch (error) {
+    return handleApiError(error);
+  }
+}
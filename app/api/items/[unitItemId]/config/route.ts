@@ -4,7 +4,8 @@ import { apiResponse, handleApiError } from '@/lib/api-utils';
 import { 
   VocabularyExerciseConfigSchema, 
   ListeningExerciseConfigSchema,
-  FillInTheBlankExerciseConfigSchema
+  FillInTheBlankExerciseConfigSchema,
+  GrammarExerciseConfigSchema
 } from '@/lib/schemas';
 import { requireAuth } from '@/lib/auth';
 import { prisma } from '@/lib/db';
@@ -42,6 +43,9 @@ export async function PUT(
       case 'FILL_IN_THE_BLANK_EXERCISE':
         config = FillInTheBlankExerciseConfigSchema.parse(body);
         break;
+      case 'GRAMMAR_EXERCISE':
+        config = GrammarExerciseConfigSchema.parse(body);
+        break;
       default:
         return apiResponse(400, null, `Unsupported exercise type: ${unitItem.type}`);
     }
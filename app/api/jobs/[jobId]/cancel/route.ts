@@ -0,0 +1,26 @@
+import { NextRequest } from 'next/server';
+import { JobService } from '@/lib/actions/jobs';
+import { apiResponse, handleApiError } from '@/lib/api-utils';
+import { requireAuth } from '@/lib/auth';
+
+/**
+ * POST /api/jobs/{jobId}/cancel
+ * Cancels a background job that is still waiting to run.
+ */
+export async function POST(
+  req: NextRequest,
+  { params }: { params: Promise<{ jobId: string }> }
+) {
+  try {
+    const teacherId = await requireAuth(req);
+
+    const { jobId } = await params;
+    const job = await JobService.cancelJob(jobId, teacherId);
+    if (!job) {
+      return apiResponse(409, null, 'Only pending or deferred jobs can be cancelled.');
+    }
+    return apiResponse(200, job, null);
+  } catch (error) {
+    return handleApiError(error);
+  }
+}
@@ -0,0 +1,31 @@
+import { NextRequest } from 'next/server';
+import { JobService } from '@/lib/actions/jobs';
+import { apiResponse, handleApiError } from '@/lib/api-utils';
+import { requireAuth } from '@/lib/auth';
+import { JobListQuerySchema } from '@/lib/schemas';
+
+/**
+ * GET /api/jobs?type=&status=&from=&to=&page=&pageSize=
+ * Lists the authenticated teacher's background jobs, newest first.
+ */
+export async function GET(req: NextRequest) {
+  try {
+    const teacherId = await requireAuth(req);
+
+    const searchParams = req.nextUrl.searchParams;
+    const query = JobListQuerySchema.parse({
+      type: searchParams.get('type') ?? undefined,
+      status: searchParams.get('status') ?? undefined,
+      studentId: searchParams.get('studentId') ?? undefined,
+      from: searchParams.get('from') ?? undefined,
+      to: searchParams.get('to') ?? undefined,
+      page: searchParams.get('page') ?? undefined,
+      pageSize: searchParams.get('pageSize') ?? undefined,
+    });
+
+    const page = await JobService.getJobsForTeacher(teacherId, query);
+    return apiResponse(200, page, null);
+  } catch (error) {
+    return handleApiError(error);
+  }
+}
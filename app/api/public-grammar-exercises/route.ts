@@ -0,0 +1,17 @@
+import { ContentService } from '@/lib/actions/content';
+import { apiResponse, handleApiError } from '@/lib/api-utils';
+
+/**
+ * GET /api/public-grammar-exercises
+ * Retrieves all public grammar exercises.
+ * This endpoint doesn't require authentication as public exercises are available to all teachers.
+ */
+export async function GET() {
+  try {
+    const exercises = await ContentService.getPublicGrammarExercises();
+
+    return apiResponse(200, exercises, null);
+  } catch (error) {
+    return handleApiError(error);
+  }
+}
@@ -1,12 +1,13 @@
 import { NextRequest } from 'next/server';
 import { StudentService } from '@/lib/actions/students';
 import { apiResponse, handleApiError } from '@/lib/api-utils';
-import { UpdateScheduleSchema } from '@/lib/schemas';
+import { ScheduleScopeQuerySchema, UpdateScheduleSchema } from '@/lib/schemas';
 import { requireAuth } from '@/lib/auth';
 
 /**
  * PUT /api/schedules/[scheduleId]
  * Updates an existing class schedule (e.g., reschedules or changes status).
+ * For a recurring class, `?scope=this|following|all` selects the occurrences to change.
  */
 export async function PUT(
   req: NextRequest,
@@ -18,11 +19,15 @@ export async function PUT(
     const { scheduleId } = await params;
     const body = await req.json();
     const updateData = UpdateScheduleSchema.parse(body);
+    const { scope } = ScheduleScopeQuerySchema.parse({
+      scope: req.nextUrl.searchParams.get('scope') ?? undefined,
+    });
 
     const updatedSchedule = await StudentService.updateSchedule(
       scheduleId,
       teacherId,
-      updateData
+      updateData,
+      scope
     );
 
     return apiResponse(200, updatedSchedule, null);
@@ -34,6 +39,7 @@ export async function PUT(
 /**
  * DELETE /api/schedules/[scheduleId]
  * Deletes a class schedule.
+ * For a recurring class, `?scope=this|following|all` selects the occurrences to delete.
  */
 export async function DELETE(
   req: NextRequest,
@@ -43,10 +49,14 @@ export async function DELETE(
     const teacherId = await requireAuth(req);
 
     const { scheduleId } = await params;
+    const { scope } = ScheduleScopeQuerySchema.parse({
+      scope: req.nextUrl.searchParams.get('scope') ?? undefined,
+    });
 
     const deletedSchedule = await StudentService.deleteSchedule(
       scheduleId,
-      teacherId
+      teacherId,
+      scope
     );
 
     return apiResponse(200, deletedSchedule, null);
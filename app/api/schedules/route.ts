@@ -0,0 +1,30 @@
+import { NextRequest } from 'next/server';
+import { ScheduleService } from '@/lib/actions/schedules';
+import { apiResponse, handleApiError } from '@/lib/api-utils';
+import { ScheduleRangeQuerySchema } from '@/lib/schemas';
+import { requireAuth } from '@/lib/auth';
+
+/**
+ * GET /api/schedules
+ * Lists the classes of all of the teacher's students between `from` and `to`,
+ * optionally narrowed to one `studentId` or `status`.
+ */
+export async function GET(req: NextRequest) {
+  try {
+    const teacherId = await requireAuth(req);
+
+    const searchParams = req.nextUrl.searchParams;
+    const query = ScheduleRangeQuerySchema.parse({
+      from: searchParams.get('from') ?? undefined,
+      to: searchParams.get('to') ?? undefined,
+      studentId: searchParams.get('studentId') ?? undefined,
+      status: searchParams.get('status') ?? undefined,
+    });
+
+    const schedules = await ScheduleService.getSchedulesForTeacher(teacherId, query);
+
+    return apiResponse(200, schedules, null);
+  } catch (error) {
+    return handleApiError(error);
+  }
+}
@@ -26,16 +26,33 @@ const SubmitAnswerBodySchema = z.discriminatedUnion('action', [
   // Schema for when the action is 'SUBMIT_RATING'
   z.object({
     action: z.literal('SUBMIT_RATING'),
-    // The data payload can contain either a numeric rating (1-4) or a boolean correctness rating
+    // The data payload can contain either a numeric rating (1-4) or a boolean correctness rating,
+    // optionally with the time from card presentation to the answer
     data: z.union([
       z.object({
         rating: z.number().min(1).max(4),
+        responseTimeMs: z.number().int().min(0).optional(),
       }),
       z.object({
         isCorrect: z.boolean(),
+        responseTimeMs: z.number().int().min(0).optional(),
       }),
     ]),
   }),
+  // Schema for when the action is 'SUBMIT_TEXT_ANSWER' (typed-answer mode)
+  z.object({
+    action: z.literal('SUBMIT_TEXT_ANSWER'),
+    // The typed answer and, optionally, how long the student took to type it
+    data: z.object({
+      answer: z.string().max(500),
+      responseTimeMs: z.number().int().min(0).optional(),
+    }),
+  }),
+  // Schema for when the action is 'UNDO' (reverts the last review of the current exercise)
+  z.object({
+    action: z.literal('UNDO'),
+    data: z.object({}).passthrough().optional(),
+  }),
 ]);
 
 export async function POST(
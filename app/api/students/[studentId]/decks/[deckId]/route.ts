@@ -0,0 +1,30 @@
+import { NextRequest } from 'next/server';
+import { StudentService } from '@/lib/actions/students';
+import { apiResponse, handleApiError } from '@/lib/api-utils';
+import { UpdateDeckLimitsSchema } from '@/lib/schemas';
+import { requireAuth } from '@/lib/auth';
+
+export async function PUT(
+  req: NextRequest,
+  { params }: { params: Promise<{ studentId: string; deckId: string }> }
+) {
+  try {
+    const teacherId = await requireAuth(req);
+    // The service method below will perform the necessary authorization check.
+
+    const { studentId, deckId } = await params;
+    const body = await req.json();
+    const limits = UpdateDeckLimitsSchema.parse(body);
+
+    const assignment = await StudentService.updateDeckLimits(
+      studentId,
+      teacherId,
+      deckId,
+      limits
+    );
+
+    return apiResponse(200, assignment, null);
+  } catch (error) {
+    return handleApiError(error);
+  }
+}
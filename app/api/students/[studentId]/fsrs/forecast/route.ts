@@ -0,0 +1,28 @@
+import { NextRequest } from 'next/server';
+import { FSRSService } from '@/lib/actions/fsrs';
+import { apiResponse, handleApiError } from '@/lib/api-utils';
+import { ReviewForecastQuerySchema } from '@/lib/schemas';
+import { requireAuth } from '@/lib/auth';
+
+export async function GET(
+  req: NextRequest,
+  { params }: { params: Promise<{ studentId: string }> }
+) {
+  try {
+    const teacherId = await requireAuth(req);
+    const { studentId } = await params;
+
+    const searchParams = req.nextUrl.searchParams;
+    const options = ReviewForecastQuerySchema.parse({
+      days: searchParams.get('days') ?? undefined,
+      includeNewCards: searchParams.get('includeNewCards') ?? undefined,
+    });
+
+    // The service method performs the authorization check.
+    const forecast = await FSRSService.getReviewForecast(studentId, teacherId, options);
+
+    return apiResponse(200, forecast, null);
+  } catch (error) {
+    return handleApiError(error);
+  }
+}
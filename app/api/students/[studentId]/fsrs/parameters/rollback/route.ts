@@ -0,0 +1,24 @@
+import { NextRequest } from 'next/server';
+import { FSRSService } from '@/lib/actions/fsrs';
+import { apiResponse, handleApiError } from '@/lib/api-utils';
+import { RollbackFsrsParamsSchema } from '@/lib/schemas';
+import { requireAuth } from '@/lib/auth';
+
+export async function POST(
+  req: NextRequest,
+  { params }: { params: Promise<{ studentId: string }> }
+) {
+  try {
+    const teacherId = await requireAuth(req);
+    const { studentId } = await params;
+    const body = await req.json();
+    const { reviewType, version } = RollbackFsrsParamsSchema.parse(body);
+
+    // The service method performs the authorization check.
+    const activeParams = await FSRSService.rollbackParameters(studentId, teacherId, reviewType, version);
+
+    return apiResponse(200, activeParams, null);
+  } catch (error) {
+    return handleApiError(error);
+  }
+}
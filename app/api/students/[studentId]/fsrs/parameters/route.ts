@@ -0,0 +1,25 @@
+import { NextRequest } from 'next/server';
+import { FSRSService } from '@/lib/actions/fsrs';
+import { apiResponse, handleApiError } from '@/lib/api-utils';
+import { FsrsReviewTypeSchema } from '@/lib/schemas';
+import { requireAuth } from '@/lib/auth';
+
+export async function GET(
+  req: NextRequest,
+  { params }: { params: Promise<{ studentId: string }> }
+) {
+  try {
+    const teacherId = await requireAuth(req);
+    const { studentId } = await params;
+    const reviewType = FsrsReviewTypeSchema.parse(
+      req.nextUrl.searchParams.get('reviewType') ?? 'VOCABULARY'
+    );
+
+    // The service method performs the authorization check.
+    const versions = await FSRSService.getParameterVersions(studentId, teacherId, reviewType);
+
+    return apiResponse(200, versions, null);
+  } catch (error) {
+    return handleApiError(error);
+  }
+}
@@ -0,0 +1,41 @@
+import { NextRequest } from 'next/server';
+import { FSRSService } from '@/lib/actions/fsrs';
+import { apiResponse, handleApiError } from '@/lib/api-utils';
+import { UpdateDesiredRetentionSchema } from '@/lib/schemas';
+import { requireAuth } from '@/lib/auth';
+
+export async function GET(
+  req: NextRequest,
+  { params }: { params: Promise<{ studentId: string }> }
+) {
+  try {
+    const teacherId = await requireAuth(req);
+    const { studentId } = await params;
+
+    // The service method performs the authorization check.
+    const settings = await FSRSService.getDesiredRetentionSettings(studentId, teacherId);
+
+    return apiResponse(200, settings, null);
+  } catch (error) {
+    return handleApiError(error);
+  }
+}
+
+export async function PUT(
+  req: NextRequest,
+  { params }: { params: Promise<{ studentId: string }> }
+) {
+  try {
+    const teacherId = await requireAuth(req);
+    const { studentId } = await params;
+    const body = await req.json();
+    const data = UpdateDesiredRetentionSchema.parse(body);
+
+    // The service method performs the authorization check.
+    const settings = await FSRSService.updateDesiredRetention(studentId, teacherId, data);
+
+    return apiResponse(200, settings, null);
+  } catch (error) {
+    return handleApiError(error);
+  }
+}
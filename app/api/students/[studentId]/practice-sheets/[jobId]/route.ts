@@ -0,0 +1,31 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { PracticeSheetService } from '@/lib/actions/practice-sheets';
+import { handleApiError } from '@/lib/api-utils';
+import { requireAuth } from '@/lib/auth';
+
+export async function GET(
+  req: NextRequest,
+  { params }: { params: Promise<{ studentId: string; jobId: string }> }
+) {
+  try {
+    const teacherId = await requireAuth(req);
+    const { studentId, jobId } = await params;
+
+    const { fileName, content } = await PracticeSheetService.getPracticeSheetFile(
+      studentId,
+      jobId,
+      teacherId
+    );
+
+    return new NextResponse(new Uint8Array(content), {
+      status: 200,
+      headers: {
+        'Content-Type': 'application/pdf',
+        'Content-Disposition': `attachment; filename="${fileName}"`,
+        'Cache-Control': 'private, no-store',
+      },
+    });
+  } catch (error) {
+    return handleApiError(error);
+  }
+}
@@ -0,0 +1,39 @@
+import { NextRequest } from 'next/server';
+import { PracticeSheetService } from '@/lib/actions/practice-sheets';
+import { apiResponse, handleApiError } from '@/lib/api-utils';
+import { CreatePracticeSheetSchema } from '@/lib/schemas';
+import { requireAuth } from '@/lib/auth';
+
+export async function GET(
+  req: NextRequest,
+  { params }: { params: Promise<{ studentId: string }> }
+) {
+  try {
+    const teacherId = await requireAuth(req);
+    const { studentId } = await params;
+
+    const jobs = await PracticeSheetService.getPracticeSheetJobs(studentId, teacherId);
+    return apiResponse(200, jobs, null);
+  } catch (error) {
+    return handleApiError(error);
+  }
+}
+
+export async function POST(
+  req: NextRequest,
+  { params }: { params: Promise<{ studentId: string }> }
+) {
+  try {
+    const teacherId = await requireAuth(req);
+    const { studentId } = await params;
+    const body = await req.json();
+    const options = CreatePracticeSheetSchema.parse(body);
+
+    const job = await PracticeSheetService.createPracticeSheetJob(studentId, teacherId, options);
+
+    // Return 202 Accepted to indicate the task was accepted for background processing.
+    return apiResponse(202, job, null);
+  } catch (error) {
+    return handleApiError(error);
+  }
+}
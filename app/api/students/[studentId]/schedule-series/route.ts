@@ -0,0 +1,35 @@
+import { NextRequest } from 'next/server';
+import { StudentService } from '@/lib/actions/students';
+import { apiResponse, handleApiError } from '@/lib/api-utils';
+import { CreateScheduleSeriesSchema } from '@/lib/schemas';
+import { requireAuth } from '@/lib/auth';
+
+/**
+ * POST /api/students/[studentId]/schedule-series
+ * Creates a recurring class series for a student, along with its classes.
+ */
+export async function POST(
+  req: NextRequest,
+  { params }: { params: Promise<{ studentId: string }> }
+) {
+  try {
+    const teacherId = await requireAuth(req);
+
+    const { studentId } = await params;
+    const body = await req.json();
+    const seriesData = CreateScheduleSeriesSchema.parse(body);
+
+    const series = await StudentService.createScheduleSeries(
+      studentId,
+      teacherId,
+      seriesData
+    );
+    if (!series) {
+      return apiResponse(400, null, 'The recurrence does not produce any classes before it ends.');
+    }
+
+    return apiResponse(201, series, null);
+  } catch (error) {
+    return handleApiError(error);
+  }
+}
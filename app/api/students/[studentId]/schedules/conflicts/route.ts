@@ -0,0 +1,27 @@
+import { NextRequest } from 'next/server';
+import { ScheduleService } from '@/lib/actions/schedules';
+import { apiResponse, handleApiError } from '@/lib/api-utils';
+import { requireAuth } from '@/lib/auth';
+
+/**
+ * GET /api/students/[studentId]/schedules/conflicts
+ * Lists the student's upcoming classes that overlap with other classes of the teacher.
+ */
+export async function GET(
+  req: NextRequest,
+  { params }: { params: Promise<{ studentId: string }> }
+) {
+  try {
+    const teacherId = await requireAuth(req);
+
+    const { studentId } = await params;
+    const conflicts = await ScheduleService.getConflictsForStudent(
+      studentId,
+      teacherId
+    );
+
+    return apiResponse(200, conflicts, null);
+  } catch (error) {
+    return handleApiError(error);
+  }
+}
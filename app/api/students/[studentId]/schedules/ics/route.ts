@@ -0,0 +1,34 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { CalendarService } from '@/lib/actions/calendar';
+import { handleApiError } from '@/lib/api-utils';
+import { requireAuth } from '@/lib/auth';
+
+/**
+ * GET /api/students/[studentId]/schedules/ics
+ * Downloads all of the student's classes as an iCalendar (.ics) file.
+ */
+export async function GET(
+  req: NextRequest,
+  { params }: { params: Promise<{ studentId: string }> }
+) {
+  try {
+    const teacherId = await requireAuth(req);
+    const { studentId } = await params;
+
+    const { fileName, content } = await CalendarService.getStudentCalendarFile(
+      studentId,
+      teacherId
+    );
+
+    return new NextResponse(content, {
+      status: 200,
+      headers: {
+        'Content-Type': 'text/calendar; charset=utf-8',
+        'Content-Disposition': `attachment; filename="${fileName}"`,
+        'Cache-Control': 'private, no-store',
+      },
+    });
+  } catch (error) {
+    return handleApiError(error);
+  }
+}
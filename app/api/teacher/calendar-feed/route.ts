@@ -0,0 +1,54 @@
+import { NextRequest } from 'next/server';
+import { CalendarService } from '@/lib/actions/calendar';
+import { apiResponse, handleApiError } from '@/lib/api-utils';
+import { requireAuth } from '@/lib/auth';
+
+/**
+ * GET /api/teacher/calendar-feed
+ * Returns whether the authenticated teacher has a calendar feed.
+ */
+export async function GET(req: NextRequest) {
+  try {
+    const teacherId = await requireAuth(req);
+
+    const enabled = await CalendarService.isFeedEnabled(teacherId);
+    return apiResponse(200, { enabled }, null);
+  } catch (error) {
+    return handleApiError(error);
+  }
+}
+
+/**
+ * POST /api/teacher/calendar-feed
+ * Creates a new feed URL for the authenticated teacher. The previous URL stops working.
+ * The URL is only returned here and cannot be retrieved again.
+ */
+export async function POST(req: NextRequest) {
+  try {
+    const teacherId = await requireAuth(req);
+
+    const token = await CalendarService.resetFeedToken(teacherId);
+    return apiResponse(
+      201,
+      { enabled: true, feedPath: `/api/calendar/${token}.ics` },
+      null
+    );
+  } catch (error) {
+    return handleApiError(error);
+  }
+}
+
+/**
+ * DELETE /api/teacher/calendar-feed
+ * Turns off the authenticated teacher's calendar feed.
+ */
+export async function DELETE(req: NextRequest) {
+  try {
+    const teacherId = await requireAuth(req);
+
+    await CalendarService.disableFeed(teacherId);
+    return apiResponse(200, { enabled: false }, null);
+  } catch (error) {
+    return handleApiError(error);
+  }
+}
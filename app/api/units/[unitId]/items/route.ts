@@ -4,6 +4,7 @@ import { apiResponse, handleApiError } from '@/lib/api-utils';
 import { z } from 'zod';
 import { NewUnitItemData } from '@/lib/types';
 import { requireAuth } from '@/lib/auth';
+import { CreateGrammarExerciseSchema, GrammarExerciseConfigSchema } from '@/lib/schemas';
 
 // This schema can be expanded as you implement more exercise types.
 const AddItemBodySchema = z.union([
@@ -44,12 +45,15 @@ const AddItemBodySchema = z.union([
   }),
   z.object({
     type: z.literal('GRAMMAR_EXERCISE'),
-    data: z.object({
-      title: z.string().min(1),
-      grammarTopic: z.string().optional(),
-      exerciseData: z.any().optional(),
-      isPublic: z.boolean().optional(),
-    }),
+    mode: z.literal('existing'),
+    existingExerciseId: z.string().uuid(),
+    config: GrammarExerciseConfigSchema,
+  }),
+  z.object({
+    type: z.literal('GRAMMAR_EXERCISE'),
+    mode: z.literal('new').optional(),
+    data: CreateGrammarExerciseSchema,
+    config: GrammarExerciseConfigSchema,
   }),
   z.object({
     type: z.literal('FILL_IN_THE_BLANK_EXERCISE'),
@@ -0,0 +1,29 @@
+import { NextResponse } from 'next/server';
+import { runMaintenance } from '@/lib/maintenance';
+
+/**
+ * Secure endpoint called daily by the scheduler to compact and prune old job
+ * history and expired login sessions.
+ *
+ * @param request The incoming Next.js request object.
+ * @returns A NextResponse object reporting what was removed.
+ */
+export async function POST(request: Request) {
+  // The scheduler MUST provide the same secret as for the worker endpoint.
+  const authHeader = request.headers.get('authorization');
+  if (authHeader !== `Bearer ${process.env.CRON_SECRET}`) {
+    return new NextResponse('Unauthorized', { status: 401 });
+  }
+
+  try {
+    const report = await runMaintenance();
+    return NextResponse.json({
+      ok: true,
+      message: `Maintenance completed. Compacted ${report.compactedJobs} and deleted ${report.deletedJobs} jobs, removed ${report.expiredSessions} expired sessions.`,
+      report,
+    });
+  } catch (error) {
+    console.error('[Maintenance Route Error]', error);
+    return new NextResponse('Internal Server Error', { status: 500 });
+  }
+}
@@ -0,0 +1,30 @@
+import { NextResponse } from 'next/server';
+import { FSRSService } from '@/lib/actions/fsrs';
+
+/**
+ * Secure endpoint called daily by the scheduler to enqueue automatic FSRS
+ * optimization jobs for students of teachers who opted in. The jobs themselves
+ * are executed by the regular worker run.
+ *
+ * @param request The incoming Next.js request object.
+ * @returns A NextResponse object listing the enqueued jobs.
+ */
+export async function POST(request: Request) {
+  // The scheduler MUST provide the same secret as for the worker endpoint.
+  const authHeader = request.headers.get('authorization');
+  if (authHeader !== `Bearer ${process.env.CRON_SECRET}`) {
+    return new NextResponse('Unauthorized', { status: 401 });
+  }
+
+  try {
+    const result = await FSRSService._enqueueAutomaticOptimizations();
+    return NextResponse.json({
+      ok: true,
+      message: `Enqueued ${result.enqueued} automatic optimization jobs.`,
+      results: result.jobs,
+    });
+  } catch (error) {
+    console.error('[Auto-Optimize Route Error]', error);
+    return new NextResponse('Internal Server Error', { status: 500 });
+  }
+}
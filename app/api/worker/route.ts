@@ -27,6 +27,7 @@ export async function POST(request: Request) {
       ok: true,
       message: `Worker run completed. Processed ${result.processedJobs} jobs.`,
       results: result.jobResults,
+      reaped: result.reaped,
     });
   } catch (error) {
     // 4. Robust Error Handling:
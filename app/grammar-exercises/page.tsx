@@ -0,0 +1,488 @@
+"use client"
+
+import { useState } from "react"
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
+import { Button } from "@/components/ui/button"
+import { Badge } from "@/components/ui/badge"
+import { Input } from "@/components/ui/input"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { DataTable, Column, typeGuards, createTypedRender } from "@/components/data-table"
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription } from "@/components/ui/dialog"
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs"
+import { Label } from "@/components/ui/label"
+import { Textarea } from "@/components/ui/textarea"
+import { Switch } from "@/components/ui/switch"
+import { FileText, Plus, Search, Globe, Lock, Pencil, Archive, Copy } from "lucide-react"
+import { useToast } from "@/hooks/use-toast"
+import {
+  useGrammarExercises,
+  usePublicGrammarExercises,
+  createGrammarExercise,
+  updateGrammarExercise,
+  archiveGrammarExercise,
+  forkGrammarExercise,
+} from "@/hooks/api/content"
+import { GrammarExerciseEditor } from "@/components/grammar-exercise-editor"
+import { CreateGrammarExerciseSchema } from "@/lib/schemas"
+import { GrammarExerciseData, GrammarExerciseWithCreator } from "@/lib/types"
+import { format } from "date-fns"
+
+type ExerciseForm = {
+  title: string
+  grammarTopic: string
+  difficultyLevel: number
+  explanation: string
+  tags: string
+  isPublic: boolean
+  exerciseData: GrammarExerciseData
+}
+
+const emptyForm: ExerciseForm = {
+  title: "",
+  grammarTopic: "",
+  difficultyLevel: 1,
+  explanation: "",
+  tags: "",
+  isPublic: false,
+  exerciseData: { questions: [] },
+}
+
+export default function GrammarExercisesPage() {
+  const [isEditorOpen, setIsEditorOpen] = useState(false)
+  const [editingExerciseId, setEditingExerciseId] = useState<string | null>(null)
+  const [form, setForm] = useState<ExerciseForm>(emptyForm)
+  const [isSubmitting, setIsSubmitting] = useState(false)
+  const [filterVisibility, setFilterVisibility] = useState<string>("all")
+  const [searchTerm, setSearchTerm] = useState("")
+
+  const { toast } = useToast()
+  const { exercises, isLoading, isError, mutate } = useGrammarExercises()
+  const { publicExercises, isLoading: publicLoading } = usePublicGrammarExercises()
+
+  const openCreateDialog = () => {
+    setEditingExerciseId(null)
+    setForm(emptyForm)
+    setIsEditorOpen(true)
+  }
+
+  const openEditDialog = (exercise: GrammarExerciseWithCreator) => {
+    setEditingExerciseId(exercise.id)
+    setForm({
+      title: exercise.title,
+      grammarTopic: exercise.grammarTopic,
+      difficultyLevel: exercise.difficultyLevel,
+      explanation: exercise.explanation || "",
+      tags: exercise.tags.join(", "),
+      isPublic: exercise.isPublic,
+      exerciseData: (exercise.exerciseData as GrammarExerciseData) || { questions: [] },
+    })
+    setIsEditorOpen(true)
+  }
+
+  const handleSave = async () => {
+    const parsed = CreateGrammarExerciseSchema.safeParse({
+      title: form.title,
+      grammarTopic: form.grammarTopic,
+      difficultyLevel: form.difficultyLevel,
+      explanation: form.explanation || undefined,
+      tags: form.tags.split(",").map((t) => t.trim()).filter(Boolean),
+      isPublic: form.isPublic,
+      exerciseData: form.exerciseData,
+    })
+
+    if (!parsed.success) {
+      toast({
+        title: "Error",
+        description: parsed.error.issues[0]?.message || "Please check the exercise details.",
+        variant: "destructive",
+      })
+      return
+    }
+
+    setIsSubmitting(true)
+    try {
+      if (editingExerciseId) {
+        await updateGrammarExercise(editingExerciseId, parsed.data)
+      } else {
+        await createGrammarExercise(parsed.data)
+      }
+      toast({
+        title: editingExerciseId ? "Exercise updated" : "Exercise created successfully",
+        description: `${form.title} has been saved.`,
+      })
+      setIsEditorOpen(false)
+      setForm(emptyForm)
+      mutate()
+    } catch (error) {
+      console.error("Failed to save grammar exercise:", error)
+      toast({
+        title: "Error",
+        description: "Failed to save exercise. Please try again.",
+        variant: "destructive",
+      })
+    } finally {
+      setIsSubmitting(false)
+    }
+  }
+
+  const handleArchive = async (exercise: GrammarExerciseWithCreator) => {
+    try {
+      await archiveGrammarExercise(exercise.id)
+      toast({
+        title: "Exercise archived",
+        description: `${exercise.title} has been archived.`,
+      })
+      mutate()
+    } catch (error) {
+      console.error("Failed to archive grammar exercise:", error)
+      toast({
+        title: "Error",
+        description: "Failed to archive exercise. Please try again.",
+        variant: "destructive",
+      })
+    }
+  }
+
+  const handleFork = async (exercise: GrammarExerciseWithCreator) => {
+    try {
+      await forkGrammarExercise(exercise.id)
+      toast({
+        title: "Exercise imported successfully",
+        description: `"${exercise.title}" has been added to your collection.`,
+      })
+      mutate()
+    } catch (error) {
+      console.error("Failed to fork grammar exercise:", error)
+      toast({
+        title: "Import failed",
+        description: "Failed to import exercise. Please try again.",
+        variant: "destructive",
+      })
+    }
+  }
+
+  const countQuestions = (exercise: GrammarExerciseWithCreator) =>
+    (exercise.exerciseData as GrammarExerciseData)?.questions?.length || 0
+
+  // Filter exercises based on visibility and search
+  const filteredExercises = exercises.filter(exercise => {
+    const matchesVisibility = filterVisibility === "all" || (filterVisibility === "public" ? exercise.isPublic : !exercise.isPublic)
+    const matchesSearch = exercise.title.toLowerCase().includes(searchTerm.toLowerCase()) ||
+      exercise.grammarTopic.toLowerCase().includes(searchTerm.toLowerCase())
+    return matchesVisibility && matchesSearch
+  })
+
+  const titleColumn: Column<GrammarExerciseWithCreator> = {
+    key: "title",
+    header: "Exercise",
+    render: createTypedRender<GrammarExerciseWithCreator, 'title'>((value, row) => {
+      const title = typeGuards.isString(value) ? value : 'Untitled Exercise';
+      return (
+        <div className="flex items-center space-x-3">
+          <div className="p-2 bg-green-100 rounded-lg">
+            <FileText className="h-5 w-5 text-green-600" />
+          </div>
+          <div>
+            <div className="font-medium text-slate-900">{title}</div>
+            <div className="text-sm text-slate-500">{countQuestions(row)} questions</div>
+          </div>
+        </div>
+      );
+    }),
+  }
+
+  const topicColumn: Column<GrammarExerciseWithCreator> = {
+    key: "grammarTopic",
+    header: "Topic",
+    render: createTypedRender<GrammarExerciseWithCreator, 'grammarTopic'>((value, row) => (
+      <div className="flex items-center space-x-2">
+        <Badge variant="outline">{typeGuards.isString(value) ? value : "—"}</Badge>
+        <span className="text-xs text-slate-500">Level {row.difficultyLevel}</span>
+      </div>
+    )),
+  }
+
+  const exerciseColumns: Column<GrammarExerciseWithCreator>[] = [
+    titleColumn,
+    topicColumn,
+    {
+      key: "isPublic",
+      header: "Visibility",
+      render: createTypedRender<GrammarExerciseWithCreator, 'isPublic'>((value) => {
+        const isPublic = typeGuards.isBoolean(value) ? value : false;
+        return (
+          <div className="flex items-center space-x-2">
+            {isPublic ? <Globe className="h-4 w-4 text-green-600" /> : <Lock className="h-4 w-4 text-slate-400" />}
+            <Badge variant={isPublic ? "default" : "secondary"}>
+              {isPublic ? "Public" : "Private"}
+            </Badge>
+          </div>
+        );
+      }),
+    },
+    {
+      key: "createdAt",
+      header: "Created",
+      render: createTypedRender<GrammarExerciseWithCreator, 'createdAt'>((value) => {
+        if (typeGuards.isString(value)) {
+          try {
+            return format(new Date(value), "MMM dd, yyyy");
+          } catch {
+            return 'Invalid date';
+          }
+        }
+        return '—';
+      }),
+    },
+    {
+      key: "actions",
+      header: "Actions",
+      render: createTypedRender<GrammarExerciseWithCreator, 'actions'>((_, row) => (
+        <div className="flex items-center space-x-2">
+          <Button variant="outline" size="sm" onClick={() => openEditDialog(row)}>
+            <Pencil className="h-4 w-4 mr-2" />
+            Edit
+          </Button>
+          <Button variant="outline" size="sm" onClick={() => handleArchive(row)}>
+            <Archive className="h-4 w-4 mr-2" />
+            Archive
+          </Button>
+        </div>
+      )),
+    },
+  ]
+
+  const publicColumns: Column<GrammarExerciseWithCreator>[] = [
+    titleColumn,
+    topicColumn,
+    {
+      key: "creator",
+      header: "Author",
+      render: createTypedRender<GrammarExerciseWithCreator, 'creator'>((_, row) => (
+        <span className="text-slate-600">{row.creator?.name || "Unknown"}</span>
+      )),
+    },
+    {
+      key: "actions",
+      header: "Actions",
+      render: createTypedRender<GrammarExerciseWithCreator, 'actions'>((_, row) => (
+        <Button variant="outline" size="sm" onClick={() => handleFork(row)}>
+          <Copy className="h-4 w-4 mr-2" />
+          Import
+        </Button>
+      )),
+    },
+  ]
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div className="flex items-center justify-between">
+        <div className="space-y-2">
+          <h1 className="text-3xl font-bold text-slate-900">Grammar Exercises</h1>
+          <p className="text-slate-600">Create and manage structured grammar question sets</p>
+        </div>
+        <Button onClick={openCreateDialog} className="bg-green-600 hover:bg-green-700">
+          <Plus className="h-4 w-4 mr-2" />
+          Create Exercise
+        </Button>
+      </div>
+
+      <Tabs defaultValue="mine">
+        <TabsList>
+          <TabsTrigger value="mine">My Exercises</TabsTrigger>
+          <TabsTrigger value="public">Public Library</TabsTrigger>
+        </TabsList>
+
+        <TabsContent value="mine" className="space-y-6 mt-6">
+          {/* Filters */}
+          <Card>
+            <CardContent className="p-4">
+              <div className="flex flex-wrap items-center gap-4">
+                <div className="flex-1 min-w-64">
+                  <div className="relative">
+                    <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 h-4 w-4 text-slate-400" />
+                    <Input
+                      placeholder="Search exercises..."
+                      value={searchTerm}
+                      onChange={(e) => setSearchTerm(e.target.value)}
+                      className="pl-10"
+                    />
+                  </div>
+                </div>
+                <Select value={filterVisibility} onValueChange={setFilterVisibility}>
+                  <SelectTrigger className="w-40">
+                    <SelectValue placeholder="Filter by visibility" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="all">All Exercises</SelectItem>
+                    <SelectItem value="private">Private</SelectItem>
+                    <SelectItem value="public">Public</SelectItem>
+                  </SelectContent>
+                </Select>
+                <Badge variant="outline" className="text-sm">
+                  {filteredExercises.length} of {exercises.length} exercises
+                </Badge>
+              </div>
+            </CardContent>
+          </Card>
+
+          <Card>
+            <CardHeader>
+              <CardTitle>All Exercises</CardTitle>
+            </CardHeader>
+            <CardContent>
+              {isError ? (
+                <div className="text-center py-8">
+                  <p className="text-slate-600">Failed to load exercises. Please try again.</p>
+                </div>
+              ) : isLoading ? (
+                <div className="space-y-4">
+                  {[...Array(5)].map((_, i) => (
+                    <div key={i} className="h-12 w-full bg-slate-200 rounded-lg animate-pulse" />
+                  ))}
+                </div>
+              ) : filteredExercises.length === 0 ? (
+                <div className="text-center py-12">
+                  <FileText className="h-12 w-12 text-slate-300 mx-auto mb-4" />
+                  <p className="text-slate-500 mb-4">
+                    {searchTerm || filterVisibility !== "all" ? "No exercises match your filters" : "No grammar exercises created yet"}
+                  </p>
+                  {!searchTerm && filterVisibility === "all" && (
+                    <Button onClick={openCreateDialog} className="bg-green-600 hover:bg-green-700">
+                      Create Your First Exercise
+                    </Button>
+                  )}
+                </div>
+              ) : (
+                <DataTable data={filteredExercises} columns={exerciseColumns} pageSize={10} />
+              )}
+            </CardContent>
+          </Card>
+        </TabsContent>
+
+        <TabsContent value="public" className="mt-6">
+          <Card>
+            <CardHeader>
+              <CardTitle>Public Grammar Exercises</CardTitle>
+            </CardHeader>
+            <CardContent>
+              {publicLoading ? (
+                <div className="h-12 w-full bg-slate-200 rounded-lg animate-pulse" />
+              ) : publicExercises.length === 0 ? (
+                <p className="text-center text-slate-500 py-8">No public grammar exercises available yet.</p>
+              ) : (
+                <DataTable data={publicExercises} columns={publicColumns} pageSize={10} />
+              )}
+            </CardContent>
+          </Card>
+        </TabsContent>
+      </Tabs>
+
+      {/* Create / Edit Exercise Dialog */}
+      <Dialog open={isEditorOpen} onOpenChange={setIsEditorOpen}>
+        <DialogContent className="max-w-3xl max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>{editingExerciseId ? "Edit Grammar Exercise" : "Create New Grammar Exercise"}</DialogTitle>
+            <DialogDescription>
+              Define the questions, answers and explanations students will work through during a session.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4">
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="exercise-title">Title</Label>
+                <Input
+                  id="exercise-title"
+                  placeholder="e.g., Present Simple Practice"
+                  value={form.title}
+                  onChange={(e) => setForm({ ...form, title: e.target.value })}
+                  disabled={isSubmitting}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="exercise-topic">Grammar Topic</Label>
+                <Input
+                  id="exercise-topic"
+                  placeholder="e.g., Present Simple"
+                  value={form.grammarTopic}
+                  onChange={(e) => setForm({ ...form, grammarTopic: e.target.value })}
+                  disabled={isSubmitting}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="exercise-difficulty">Difficulty</Label>
+                <Select
+                  value={String(form.difficultyLevel)}
+                  onValueChange={(value) => setForm({ ...form, difficultyLevel: Number(value) })}
+                  disabled={isSubmitting}
+                >
+                  <SelectTrigger id="exercise-difficulty">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {[1, 2, 3, 4, 5].map((level) => (
+                      <SelectItem key={level} value={String(level)}>Level {level}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="exercise-tags">Tags (comma separated)</Label>
+                <Input
+                  id="exercise-tags"
+                  placeholder="e.g., verbs, tenses"
+                  value={form.tags}
+                  onChange={(e) => setForm({ ...form, tags: e.target.value })}
+                  disabled={isSubmitting}
+                />
+              </div>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="exercise-explanation">Concept Explanation (Optional)</Label>
+              <Textarea
+                id="exercise-explanation"
+                placeholder="Explain the grammar concept..."
+                value={form.explanation}
+                onChange={(e) => setForm({ ...form, explanation: e.target.value })}
+                disabled={isSubmitting}
+              />
+            </div>
+            <div className="flex items-center space-x-2">
+              <Switch
+                id="exercise-public"
+                checked={form.isPublic}
+                onCheckedChange={(checked) => setForm({ ...form, isPublic: checked })}
+                disabled={isSubmitting}
+              />
+              <Label htmlFor="exercise-public">Make this exercise public</Label>
+            </div>
+
+            <GrammarExerciseEditor
+              value={form.exerciseData}
+              onChange={(exerciseData) => setForm({ ...form, exerciseData })}
+              disabled={isSubmitting}
+            />
+
+            <div className="flex justify-end space-x-2">
+              <Button
+                variant="outline"
+                onClick={() => setIsEditorOpen(false)}
+                disabled={isSubmitting}
+              >
+                Cancel
+              </Button>
+              <Button
+                onClick={handleSave}
+                disabled={isSubmitting}
+                className="bg-green-600 hover:bg-green-700"
+              >
+                {isSubmitting ? "Saving..." : editingExerciseId ? "Save Changes" : "Create Exercise"}
+              </Button>
+            </div>
+          </div>
+        </DialogContent>
+      </Dialog>
+    </div>
+  )
+}
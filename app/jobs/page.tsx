@@ -0,0 +1,5 @@
+import { BackgroundTasks } from "@/components/background-tasks"
+
+export default function BackgroundTasksPage() {
+  return <BackgroundTasks />
+}
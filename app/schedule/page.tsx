@@ -1,12 +1,15 @@
 "use client"
 
 import { useState } from "react"
+import { mutate as mutateCache } from "swr"
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
 import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar"
 import { Badge } from "@/components/ui/badge"
 import { Calendar, Users, Clock } from "lucide-react"
 import { ClassScheduler } from "@/components/class-scheduler"
+import { TeacherCalendar } from "@/components/teacher-calendar"
+import { IcsScheduleImport } from "@/components/ics-schedule-import"
 import { useStudents } from "@/hooks/api"
 
 export default function SchedulePage() {
@@ -17,8 +20,9 @@ export default function SchedulePage() {
   const activeStudents = students.filter(s => s.status === "ACTIVE")
 
   const handleScheduleUpdated = () => {
-    // Refresh student data to update schedules
+    // Refresh student data and the calendar to update schedules
     mutate()
+    mutateCache((key) => typeof key === "string" && key.includes("/schedules"))
   }
 
   if (isError) {
@@ -40,11 +44,17 @@ export default function SchedulePage() {
   return (
     <div className="space-y-6">
       {/* Header */}
-      <div className="space-y-2">
-        <h1 className="text-3xl font-bold text-slate-900">Class Scheduling</h1>
-        <p className="text-slate-600">Schedule and manage classes for your students</p>
+      <div className="flex items-center justify-between">
+        <div className="space-y-2">
+          <h1 className="text-3xl font-bold text-slate-900">Class Scheduling</h1>
+          <p className="text-slate-600">Schedule and manage classes for your students</p>
+        </div>
+        <IcsScheduleImport students={students} onImported={handleScheduleUpdated} />
       </div>
 
+      {/* Calendar of all students */}
+      <TeacherCalendar onSelectStudent={setSelectedStudentId} onScheduleUpdated={handleScheduleUpdated} />
+
       {/* Student Selection */}
       <Card>
         <CardHeader>
@@ -44,6 +44,8 @@ import {
   HelpCircle,
   PencilLine,
   Package,
+  FileText,
+  Activity,
 } from "lucide-react"
 
 type AppSidebarProps = React.ComponentProps<typeof Sidebar>
@@ -87,6 +89,12 @@ const navigationItems = [
         icon: PencilLine,
         badge: "New",
       },
+      {
+        title: "Grammar Exercises",
+        url: "/grammar-exercises",
+        icon: FileText,
+        badge: "New",
+      },
       {
         title: "Units",
         url: "/units",
@@ -133,6 +141,12 @@ const navigationItems = [
   {
     title: "System",
     items: [
+      {
+        title: "Background Tasks",
+        url: "/jobs",
+        icon: Activity,
+        badge: null,
+      },
       {
         title: "Settings",
         url: "/settings",
@@ -0,0 +1,315 @@
+"use client"
+
+import { useState } from "react"
+import { format, formatDistanceToNow } from "date-fns"
+import { Job, JobStatus, JobType } from "@prisma/client"
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
+import { Badge } from "@/components/ui/badge"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { Skeleton } from "@/components/ui/skeleton"
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table"
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog"
+import { Activity, Ban, ChevronLeft, ChevronRight, Download, Eye, RotateCcw } from "lucide-react"
+import { useToast } from "@/hooks/use-toast"
+import { JobProgressBar } from "@/components/ui/job-status-indicator"
+import { useJobs, cancelJob, retryJob } from "@/hooks/api/jobs"
+import type { JobProgress, PracticeSheetResult } from "@/lib/types"
+
+const PAGE_SIZE = 20
+
+/** Sentinel select value for "no filter". */
+const ALL = "all"
+
+export const JOB_TYPE_LABELS: Record<JobType, string> = {
+  INITIALIZE_CARD_STATES: "Assign vocabulary deck",
+  INITIALIZE_GENERIC_CARD_STATES: "Assign generic deck",
+  INITIALIZE_LISTENING_CARD_STATES: "Assign listening deck",
+  GENERATE_PRACTICE_PDF: "Practice PDF",
+  OPTIMIZE_VOCABULARY_FSRS_PARAMS: "Optimize vocabulary FSRS",
+  OPTIMIZE_GENERIC_FSRS_PARAMS: "Optimize generic FSRS",
+  OPTIMIZE_LISTENING_FSRS_PARAMS: "Optimize listening FSRS",
+  REBUILD_VOCABULARY_FSRS_CACHE: "Rebuild vocabulary cache",
+  REBUILD_GENERIC_FSRS_CACHE: "Rebuild generic cache",
+  REBUILD_LISTENING_FSRS_CACHE: "Rebuild listening cache",
+  BULK_IMPORT_VOCABULARY: "Import vocabulary",
+  BULK_IMPORT_STUDENTS: "Import students",
+  BULK_IMPORT_SCHEDULES: "Import schedules",
+  BULK_IMPORT_FILL_IN_THE_BLANK: "Import fill-in-the-blank",
+  BULK_IMPORT_GENERIC_DECK: "Import generic deck",
+}
+
+const STATUS_BADGES: Record<JobStatus, { label: string; className: string }> = {
+  PENDING: { label: "Pending", className: "bg-slate-100 text-slate-700 border-slate-200" },
+  RUNNING: { label: "Running", className: "bg-blue-100 text-blue-700 border-blue-200" },
+  COMPLETED: { label: "Completed", className: "bg-green-100 text-green-700 border-green-200" },
+  FAILED: { label: "Failed", className: "bg-red-100 text-red-700 border-red-200" },
+  DEAD_LETTER: { label: "Failed after retries", className: "bg-red-100 text-red-700 border-red-200" },
+  SKIPPED: { label: "Skipped", className: "bg-slate-100 text-slate-500 border-slate-200" },
+  CANCELLED: { label: "Cancelled", className: "bg-slate-100 text-slate-500 border-slate-200" },
+  DEFERRED: { label: "Deferred", className: "bg-amber-100 text-amber-700 border-amber-200" },
+}
+
+function JobDetailsDialog({ job }: { job: Job }) {
+  return (
+    <Dialog>
+      <DialogTrigger asChild>
+        <Button variant="ghost" size="sm">
+          <Eye className="h-4 w-4" />
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="max-w-2xl">
+        <DialogHeader>
+          <DialogTitle>{JOB_TYPE_LABELS[job.type]}</DialogTitle>
+        </DialogHeader>
+        <div className="space-y-4 text-sm">
+          <div className="grid grid-cols-2 gap-2 text-slate-600">
+            <span>Created: {format(new Date(job.createdAt), "MMM dd, yyyy HH:mm")}</span>
+            <span>Updated: {format(new Date(job.updatedAt), "MMM dd, yyyy HH:mm")}</span>
+            <span>
+              Attempts: {job.attempts} / {job.maxAttempts}
+            </span>
+            <span>Priority: {job.priority}</span>
+          </div>
+          {job.error && (
+            <div className="space-y-1">
+              <Label>Error</Label>
+              <pre className="whitespace-pre-wrap rounded-md bg-slate-950 p-4 text-xs text-white">{job.error}</pre>
+            </div>
+          )}
+          {job.lastError && job.lastError !== job.error && (
+            <div className="space-y-1">
+              <Label>Last attempt</Label>
+              <pre className="whitespace-pre-wrap rounded-md bg-slate-950 p-4 text-xs text-white">{job.lastError}</pre>
+            </div>
+          )}
+          {job.result !== null && (
+            <div className="space-y-1">
+              <Label>Result</Label>
+              <pre className="max-h-80 overflow-auto whitespace-pre-wrap rounded-md bg-slate-950 p-4 text-xs text-white">
+                {JSON.stringify(job.result, null, 2)}
+              </pre>
+            </div>
+          )}
+        </div>
+      </DialogContent>
+    </Dialog>
+  )
+}
+
+export function BackgroundTasks() {
+  const [type, setType] = useState<JobType | undefined>()
+  const [status, setStatus] = useState<JobStatus | undefined>()
+  const [from, setFrom] = useState("")
+  const [to, setTo] = useState("")
+  const [page, setPage] = useState(1)
+  const [actingJobId, setActingJobId] = useState<string | null>(null)
+  const { jobs, total, isLoading, isError, mutate } = useJobs({
+    type,
+    status,
+    from: from || undefined,
+    // Include the whole end day
+    to: to ? `${to}T23:59:59.999` : undefined,
+    page,
+    pageSize: PAGE_SIZE,
+  })
+  const { toast } = useToast()
+
+  const pageCount = Math.max(1, Math.ceil(total / PAGE_SIZE))
+
+  const updateFilter = <T,>(setter: (value: T) => void) => (value: T) => {
+    setter(value)
+    setPage(1)
+  }
+
+  const handleAction = async (job: Job, action: "cancel" | "retry") => {
+    setActingJobId(job.id)
+    try {
+      await (action === "cancel" ? cancelJob(job.id) : retryJob(job.id))
+      await mutate()
+      toast({
+        title: action === "cancel" ? "Task cancelled" : "Task queued again",
+        description: JOB_TYPE_LABELS[job.type],
+      })
+    } catch (error) {
+      console.error(`Failed to ${action} job:`, error)
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : `Failed to ${action} the task.`,
+        variant: "destructive",
+      })
+    } finally {
+      setActingJobId(null)
+    }
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="space-y-2">
+        <h1 className="text-3xl font-bold text-slate-900">Background Tasks</h1>
+        <p className="text-slate-600">Imports, FSRS optimizations and cache rebuilds running in the background</p>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center space-x-2">
+            <Activity className="h-5 w-5" />
+            <span>Tasks ({total})</span>
+          </CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
+            <div className="space-y-2">
+              <Label>Type</Label>
+              <Select
+                value={type ?? ALL}
+                onValueChange={updateFilter((value: string) => setType(value === ALL ? undefined : (value as JobType)))}
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={ALL}>All types</SelectItem>
+                  {(Object.keys(JOB_TYPE_LABELS) as JobType[]).map((jobType) => (
+                    <SelectItem key={jobType} value={jobType}>
+                      {JOB_TYPE_LABELS[jobType]}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label>Status</Label>
+              <Select
+                value={status ?? ALL}
+                onValueChange={updateFilter((value: string) =>
+                  setStatus(value === ALL ? undefined : (value as JobStatus)),
+                )}
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={ALL}>All statuses</SelectItem>
+                  {(Object.keys(STATUS_BADGES) as JobStatus[]).map((jobStatus) => (
+                    <SelectItem key={jobStatus} value={jobStatus}>
+                      {STATUS_BADGES[jobStatus].label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="jobs-from">From</Label>
+              <Input
+                id="jobs-from"
+                type="date"
+                value={from}
+                onChange={(e) => updateFilter(setFrom)(e.target.value)}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="jobs-to">To</Label>
+              <Input id="jobs-to" type="date" value={to} onChange={(e) => updateFilter(setTo)(e.target.value)} />
+            </div>
+          </div>
+
+          {isError ? (
+            <p className="text-center py-8 text-muted-foreground">Failed to load background tasks. Please try again.</p>
+          ) : isLoading ? (
+            <Skeleton className="h-64 w-full" />
+          ) : jobs.length === 0 ? (
+            <div className="text-center py-8">
+              <Activity className="h-12 w-12 text-slate-300 mx-auto mb-4" />
+              <p className="text-slate-500">No background tasks match these filters.</p>
+            </div>
+          ) : (
+            <div className="border rounded-lg">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Task</TableHead>
+                    <TableHead>Status</TableHead>
+                    <TableHead>Created</TableHead>
+                    <TableHead>Attempts</TableHead>
+                    <TableHead className="text-right">Actions</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {jobs.map((job) => (
+                    <TableRow key={job.id}>
+                      <TableCell className="font-medium text-slate-900">{JOB_TYPE_LABELS[job.type]}</TableCell>
+                      <TableCell className="min-w-48">
+                        <Badge variant="outline" className={STATUS_BADGES[job.status].className}>
+                          {STATUS_BADGES[job.status].label}
+                        </Badge>
+                        {job.status === JobStatus.RUNNING && job.progress && (
+                          <JobProgressBar progress={job.progress as JobProgress} />
+                        )}
+                      </TableCell>
+                      <TableCell className="text-sm text-slate-600">
+                        {formatDistanceToNow(new Date(job.createdAt), { addSuffix: true })}
+                      </TableCell>
+                      <TableCell className="text-sm text-slate-600">
+                        {job.attempts} / {job.maxAttempts}
+                      </TableCell>
+                      <TableCell className="text-right space-x-2">
+                        {(job.status === JobStatus.PENDING || job.status === JobStatus.DEFERRED) && (
+                          <Button
+                            variant="outline"
+                            size="sm"
+                            onClick={() => handleAction(job, "cancel")}
+                            disabled={actingJobId === job.id}
+                          >
+                            <Ban className="h-4 w-4 mr-2" />
+                            Cancel
+                          </Button>
+                        )}
+                        {(job.status === JobStatus.FAILED || job.status === JobStatus.DEAD_LETTER) && (
+                          <Button
+                            variant="outline"
+                            size="sm"
+                            onClick={() => handleAction(job, "retry")}
+                            disabled={actingJobId === job.id}
+                          >
+                            <RotateCcw className="h-4 w-4 mr-2" />
+                            Retry
+                          </Button>
+                        )}
+                        {job.type === JobType.GENERATE_PRACTICE_PDF && job.status === JobStatus.COMPLETED && (
+                          <Button variant="outline" size="sm" asChild>
+                            <a href={(job.result as PracticeSheetResult).downloadUrl}>
+                              <Download className="h-4 w-4 mr-2" />
+                              Download
+                            </a>
+                          </Button>
+                        )}
+                        <JobDetailsDialog job={job} />
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </div>
+          )}
+
+          {total > PAGE_SIZE && (
+            <div className="flex items-center justify-end gap-2">
+              <span className="text-sm text-slate-500">
+                Page {page} of {pageCount}
+              </span>
+              <Button variant="outline" size="sm" onClick={() => setPage(page - 1)} disabled={page <= 1}>
+                <ChevronLeft className="h-4 w-4" />
+              </Button>
+              <Button variant="outline" size="sm" onClick={() => setPage(page + 1)} disabled={page >= pageCount}>
+                <ChevronRight className="h-4 w-4" />
+              </Button>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  )
+}
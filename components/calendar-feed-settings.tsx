@@ -0,0 +1,134 @@
+"use client"
+
+import { useState } from "react"
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Badge } from "@/components/ui/badge"
+import { Skeleton } from "@/components/ui/skeleton"
+import { CalendarDays, Copy, Link2Off, RefreshCw } from "lucide-react"
+import { useToast } from "@/hooks/use-toast"
+import { useCalendarFeed, resetCalendarFeed, disableCalendarFeed } from "@/hooks/api"
+
+export function CalendarFeedSettings() {
+  const { feed, isLoading, mutate } = useCalendarFeed()
+  // Only known right after the URL was created; the server keeps a hash of it
+  const [feedUrl, setFeedUrl] = useState<string | null>(null)
+  const [isSubmitting, setIsSubmitting] = useState(false)
+  const { toast } = useToast()
+
+  const handleReset = async () => {
+    if (feed?.enabled && !confirm("Create a new feed URL? Calendars subscribed to the current URL stop updating.")) {
+      return
+    }
+    setIsSubmitting(true)
+    try {
+      const response = await resetCalendarFeed()
+      setFeedUrl(`${window.location.origin}${response.data.feedPath}`)
+      await mutate()
+    } catch (error) {
+      console.error("Failed to create calendar feed:", error)
+      toast({
+        title: "Error",
+        description: "Failed to create the calendar feed URL.",
+        variant: "destructive",
+      })
+    } finally {
+      setIsSubmitting(false)
+    }
+  }
+
+  const handleDisable = async () => {
+    if (!confirm("Turn off the calendar feed? Subscribed calendars stop updating.")) return
+    setIsSubmitting(true)
+    try {
+      await disableCalendarFeed()
+      setFeedUrl(null)
+      await mutate()
+      toast({ title: "Calendar feed turned off" })
+    } catch (error) {
+      console.error("Failed to turn off calendar feed:", error)
+      toast({
+        title: "Error",
+        description: "Failed to turn off the calendar feed.",
+        variant: "destructive",
+      })
+    } finally {
+      setIsSubmitting(false)
+    }
+  }
+
+  const handleCopy = async () => {
+    if (!feedUrl) return
+    try {
+      await navigator.clipboard.writeText(feedUrl)
+      toast({ title: "Feed URL copied" })
+    } catch {
+      toast({
+        title: "Error",
+        description: "Could not copy the URL. Select it and copy it manually.",
+        variant: "destructive",
+      })
+    }
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center space-x-2">
+          <CalendarDays className="h-5 w-5" />
+          <span>Calendar Feed</span>
+          {feed?.enabled && (
+            <Badge variant="secondary" className="text-xs">
+              On
+            </Badge>
+          )}
+        </CardTitle>
+        <p className="text-sm text-slate-600">
+          Subscribe to your classes from Google Calendar, Apple Calendar or Outlook. Changes and cancellations show
+          up in your calendar app the next time it refreshes the feed.
+        </p>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {isLoading ? (
+          <Skeleton className="h-10 w-full" />
+        ) : (
+          <>
+            {feedUrl ? (
+              <div className="space-y-2">
+                <div className="flex items-center gap-2">
+                  <Input value={feedUrl} readOnly onFocus={(e) => e.target.select()} className="font-mono text-xs" />
+                  <Button variant="outline" onClick={handleCopy}>
+                    <Copy className="h-4 w-4 mr-2" />
+                    Copy
+                  </Button>
+                </div>
+                <p className="text-xs text-slate-500">
+                  Anyone with this URL can see your class schedule. It is only shown now; create a new one if you lose
+                  it.
+                </p>
+              </div>
+            ) : (
+              feed?.enabled && (
+                <p className="text-sm text-slate-600">
+                  Your calendar feed is on. For security, its URL is only shown when it is created.
+                </p>
+              )
+            )}
+
+            <div className="flex items-center justify-between pt-4 border-t">
+              <Button variant="outline" onClick={handleDisable} disabled={!feed?.enabled || isSubmitting}>
+                <Link2Off className="h-4 w-4 mr-2" />
+                Turn Off Feed
+              </Button>
+              <Button onClick={handleReset} disabled={isSubmitting} className="bg-blue-600 hover:bg-blue-700">
+                <RefreshCw className="h-4 w-4 mr-2" />
+                {feed?.enabled ? "Create New Feed URL" : "Create Feed URL"}
+              </Button>
+            </div>
+          </>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
@@ -10,6 +10,10 @@ import { Calendar } from "@/components/ui/calendar"
 import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover"
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
 import { Textarea } from "@/components/ui/textarea"
+import { Input } from "@/components/ui/input"
+import { Switch } from "@/components/ui/switch"
+import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group"
+import { ToggleGroup, ToggleGroupItem } from "@/components/ui/toggle-group"
 import { Alert, AlertDescription } from "@/components/ui/alert"
 import { DropdownMenu, DropdownMenuContent, DropdownMenuItem, DropdownMenuTrigger } from "@/components/ui/dropdown-menu"
 import {
@@ -24,12 +28,23 @@ import {
   XCircle,
   RotateCcw,
   Users,
+  Repeat,
+  Download,
 } from "lucide-react"
-import { format, addDays, startOfWeek, endOfWeek, eachDayOfInterval, isSameDay } from "date-fns"
+import { format, addDays, startOfWeek, endOfWeek, eachDayOfInterval, isSameDay, endOfDay } from "date-fns"
 import { cn } from "@/lib/utils"
 import { useToast } from "@/hooks/use-toast"
-import { useStudentSchedules, createSchedule, updateSchedule, deleteSchedule } from "@/hooks/api"
+import {
+  useStudentSchedules,
+  useScheduleConflicts,
+  createSchedule,
+  createScheduleSeries,
+  updateSchedule,
+  deleteSchedule,
+} from "@/hooks/api"
+import { ApiMutationError } from "@/hooks/api/utils"
 import type { ClassSchedule, ClassStatus } from "@prisma/client"
+import type { ScheduleConflict, ScheduleScope } from "@/lib/types"
 import { DataTable, DataTableCompatible, createTypedRender } from "@/components/data-table"
 
 interface ClassSchedulerProps {
@@ -45,7 +60,16 @@ interface ScheduleFormData {
   notes: string
   recurring: boolean
   recurringPattern: string
+  recurringWeekdays: number[]
+  recurringEndType: "date" | "count"
   recurringEnd: Date | null
+  recurringCount: number
+}
+
+// An edit or deletion of a recurring class, waiting for the teacher to pick its scope
+interface PendingSeriesAction {
+  type: "update" | "delete"
+  schedule: ClassSchedule
 }
 
 
@@ -88,14 +112,42 @@ const durations = [
   { value: 120, label: "2 hours" },
 ]
 
-// recurringPatterns removed as it was unused
-// const recurringPatterns = [
-//   { value: "weekly", label: "Weekly" },
-//   { value: "biweekly", label: "Every 2 weeks" },
-//   { value: "monthly", label: "Monthly" },
-// ]
+const recurringPatterns = [
+  { value: "weekly", label: "Weekly" },
+  { value: "biweekly", label: "Every 2 weeks" },
+  { value: "custom", label: "Custom days" },
+]
+
+// Ordered Monday first, values are days of the week with 0 = Sunday
+const weekdayOptions = [
+  { value: 1, label: "Mon" },
+  { value: 2, label: "Tue" },
+  { value: 3, label: "Wed" },
+  { value: 4, label: "Thu" },
+  { value: 5, label: "Fri" },
+  { value: 6, label: "Sat" },
+  { value: 0, label: "Sun" },
+]
+
+const scopeOptions: { value: ScheduleScope; label: string }[] = [
+  { value: "this", label: "This class" },
+  { value: "following", label: "This and following classes" },
+  { value: "all", label: "All classes in the series" },
+]
 
-const statusColors = {
+// The clashing classes sent along with a 409 response, if that is what the error is
+export const getScheduleConflicts = (error: unknown): ScheduleConflict[] | null => {
+  if (error instanceof ApiMutationError && error.status === 409) {
+    return (error.data as { conflicts?: ScheduleConflict[] } | null)?.conflicts ?? null
+  }
+  return null
+}
+
+export const describeConflict = (conflict: ScheduleConflict) =>
+  `${format(new Date(conflict.scheduledTime), "MMM dd, HH:mm")} overlaps with ${conflict.conflictingStudentName} ` +
+  `(${format(new Date(conflict.conflictingScheduledTime), "MMM dd, HH:mm")}, ${conflict.conflictingDuration} min)`
+
+export const statusColors = {
   SCHEDULED: "bg-blue-100 text-blue-700 border-blue-200",
   CONFIRMED: "bg-green-100 text-green-700 border-green-200",
   IN_PROGRESS: "bg-yellow-100 text-yellow-700 border-yellow-200",
@@ -104,7 +156,7 @@ const statusColors = {
   RESCHEDULED: "bg-orange-100 text-orange-700 border-orange-200",
 }
 
-const statusIcons = {
+export const statusIcons = {
   SCHEDULED: Clock,
   CONFIRMED: CheckCircle,
   IN_PROGRESS: Users,
@@ -119,11 +171,15 @@ const initialFormData: ScheduleFormData = {
   notes: "",
   recurring: false,
   recurringPattern: "weekly",
+  recurringWeekdays: [],
+  recurringEndType: "count",
   recurringEnd: null,
+  recurringCount: 10,
 }
 
 export function ClassScheduler({ studentId, studentName, classesRemaining, onScheduleUpdated }: ClassSchedulerProps) {
   const { schedules, isLoading, isError, mutate } = useStudentSchedules(studentId)
+  const { conflicts, mutate: mutateConflicts } = useScheduleConflicts(studentId)
   const [isScheduleDialogOpen, setIsScheduleDialogOpen] = useState(false)
   const [isEditMode, setIsEditMode] = useState(false)
   const [editingSchedule, setEditingSchedule] = useState<ClassSchedule | null>(null)
@@ -132,6 +188,12 @@ export function ClassScheduler({ studentId, studentName, classesRemaining, onSch
   const [selectedDate, setSelectedDate] = useState<Date>(new Date())
   const [viewMode, setViewMode] = useState<"list" | "calendar">("list")
   const [isCalendarOpen, setIsCalendarOpen] = useState(false)
+  const [isEndCalendarOpen, setIsEndCalendarOpen] = useState(false)
+  const [pendingSeriesAction, setPendingSeriesAction] = useState<PendingSeriesAction | null>(null)
+  const [seriesScope, setSeriesScope] = useState<ScheduleScope>("this")
+  // Clashes reported when saving the form; the teacher may save anyway
+  const [formConflicts, setFormConflicts] = useState<ScheduleConflict[]>([])
+  const [formScope, setFormScope] = useState<ScheduleScope>("this")
 
   const { toast } = useToast()
 
@@ -140,7 +202,16 @@ export function ClassScheduler({ studentId, studentName, classesRemaining, onSch
   const weekEnd = endOfWeek(selectedDate, { weekStartsOn: 1 })
   const weekDays = eachDayOfInterval({ start: weekStart, end: weekEnd })
 
-  const handleCreateSchedule = async () => {
+  const conflictingScheduleIds = new Set(
+    conflicts.flatMap((conflict) => [conflict.scheduleId, conflict.conflictingScheduleId]),
+  )
+
+  const refreshSchedules = () => {
+    mutate()
+    mutateConflicts()
+  }
+
+  const handleCreateSchedule = async (allowConflicts = false) => {
     if (!formData.scheduledTime) {
       toast({
         title: "Error",
@@ -159,24 +230,71 @@ export function ClassScheduler({ studentId, studentName, classesRemaining, onSch
       return
     }
 
+    if (formData.recurring) {
+      if (formData.recurringPattern === "custom" && formData.recurringWeekdays.length === 0) {
+        toast({
+          title: "Error",
+          description: "Please select the days the class repeats on.",
+          variant: "destructive",
+        })
+        return
+      }
+      if (formData.recurringEndType === "date" && !formData.recurringEnd) {
+        toast({
+          title: "Error",
+          description: "Please select when the recurring class ends.",
+          variant: "destructive",
+        })
+        return
+      }
+    }
+
     setIsSubmitting(true)
     try {
-      await createSchedule(studentId, {
-        scheduledTime: formData.scheduledTime.toISOString(),
-        duration: formData.duration,
-        notes: formData.notes,
-      })
+      if (formData.recurring) {
+        const response = await createScheduleSeries(studentId, {
+          scheduledTime: formData.scheduledTime.toISOString(),
+          duration: formData.duration,
+          notes: formData.notes,
+          allowConflicts,
+          recurrence: {
+            interval: formData.recurringPattern === "biweekly" ? 2 : 1,
+            weekdays: formData.recurringPattern === "custom" ? formData.recurringWeekdays : undefined,
+            ...(formData.recurringEndType === "date" && formData.recurringEnd
+              ? { until: endOfDay(formData.recurringEnd).toISOString() }
+              : { count: formData.recurringCount }),
+          },
+        })
 
-      toast({
-        title: "Class scheduled successfully",
-        description: `Class scheduled for ${format(formData.scheduledTime, "PPP 'at' p")}.`,
-      })
+        toast({
+          title: "Recurring class scheduled",
+          description: `${response.data.schedules.length} classes scheduled, starting ${format(formData.scheduledTime, "PPP 'at' p")}.`,
+        })
+      } else {
+        await createSchedule(studentId, {
+          scheduledTime: formData.scheduledTime.toISOString(),
+          duration: formData.duration,
+          notes: formData.notes,
+          allowConflicts,
+        })
+
+        toast({
+          title: "Class scheduled successfully",
+          description: `Class scheduled for ${format(formData.scheduledTime, "PPP 'at' p")}.`,
+        })
+      }
 
       setFormData(initialFormData)
+      setFormConflicts([])
       setIsScheduleDialogOpen(false)
-      mutate()
+      refreshSchedules()
       onScheduleUpdated()
     } catch (error) {
+      const clashes = getScheduleConflicts(error)
+      if (clashes) {
+        setFormConflicts(clashes)
+        return
+      }
       console.error('Failed to schedule class:', error)
       toast({
         title: "Error",
@@ -188,18 +306,28 @@ export function ClassScheduler({ studentId, studentName, classesRemaining, onSch
     }
   }
 
-  const handleUpdateSchedule = async () => {
+  const handleUpdateSchedule = async (scope?: ScheduleScope, allowConflicts = false) => {
     if (!editingSchedule || !formData.scheduledTime) {
       return
     }
 
+    if (!scope && editingSchedule.seriesId) {
+      openSeriesScopeDialog("update", editingSchedule)
+      return
+    }
+
     setIsSubmitting(true)
     try {
-      await updateSchedule(editingSchedule.id, {
-        scheduledTime: formData.scheduledTime.toISOString(),
-        duration: formData.duration,
-        notes: formData.notes,
-      })
+      await updateSchedule(
+        editingSchedule.id,
+        {
+          scheduledTime: formData.scheduledTime.toISOString(),
+          duration: formData.duration,
+          notes: formData.notes,
+          allowConflicts,
+        },
+        scope,
+      )
 
       toast({
         title: "Class updated successfully",
@@ -210,9 +338,16 @@ export function ClassScheduler({ studentId, studentName, classesRemaining, onSch
       setIsScheduleDialogOpen(false)
       setIsEditMode(false)
       setEditingSchedule(null)
-      mutate()
+      setFormConflicts([])
+      refreshSchedules()
       onScheduleUpdated()
     } catch (error) {
+      const clashes = getScheduleConflicts(error)
+      if (clashes) {
+        setFormConflicts(clashes)
+        setFormScope(scope ?? "this")
+        return
+      }
       console.error('Failed to update class:', error)
       toast({
         title: "Error",
@@ -224,22 +359,31 @@ export function ClassScheduler({ studentId, studentName, classesRemaining, onSch
     }
   }
 
-  const handleDeleteSchedule = async (schedule: ClassSchedule) => {
-    if (
-      !confirm(
-        `Are you sure you want to delete the class scheduled for ${format(new Date(schedule.scheduledTime), "PPP 'at' p")}?`,
-      )
-    ) {
-      return
+  const handleDeleteSchedule = async (schedule: ClassSchedule, scope?: ScheduleScope) => {
+    if (!scope) {
+      if (schedule.seriesId) {
+        openSeriesScopeDialog("delete", schedule)
+        return
+      }
+      if (
+        !confirm(
+          `Are you sure you want to delete the class scheduled for ${format(new Date(schedule.scheduledTime), "PPP 'at' p")}?`,
+        )
+      ) {
+        return
+      }
     }
 
     try {
-      await deleteSchedule(schedule.id)
+      await deleteSchedule(schedule.id, scope)
       toast({
-        title: "Class deleted",
-        description: "The scheduled class has been removed.",
+        title: scope && scope !== "this" ? "Classes deleted" : "Class deleted",
+        description:
+          scope && scope !== "this"
+            ? "The recurring classes have been removed."
+            : "The scheduled class has been removed.",
       })
-      mutate()
+      refreshSchedules()
       onScheduleUpdated()
     } catch (error) {
       console.error('Failed to delete class:', error)
@@ -258,7 +402,7 @@ export function ClassScheduler({ studentId, studentName, classesRemaining, onSch
         title: "Status updated",
         description: `Class status changed to ${newStatus.toLowerCase()}.`,
       })
-      mutate()
+      refreshSchedules()
       onScheduleUpdated()
     } catch (error) {
       console.error('Failed to update status:', error)
@@ -270,8 +414,30 @@ export function ClassScheduler({ studentId, studentName, classesRemaining, onSch
     }
   }
 
+  const openSeriesScopeDialog = (type: PendingSeriesAction["type"], schedule: ClassSchedule) => {
+    setSeriesScope("this")
+    setPendingSeriesAction({ type, schedule })
+  }
+
+  const handleConfirmSeriesScope = async () => {
+    if (!pendingSeriesAction) {
+      return
+    }
+    if (pendingSeriesAction.type === "update") {
+      await handleUpdateSchedule(seriesScope)
+    } else {
+      await handleDeleteSchedule(pendingSeriesAction.schedule, seriesScope)
+    }
+    setPendingSeriesAction(null)
+  }
+
+  const toggleRecurringWeekdays = (values: string[]) => {
+    setFormData((prev) => ({ ...prev, recurringWeekdays: values.map(Number) }))
+  }
+
   const openEditDialog = (schedule: ClassSchedule) => {
     setEditingSchedule(schedule)
+    setFormConflicts([])
     setFormData({
       ...initialFormData,
       scheduledTime: new Date(schedule.scheduledTime),
@@ -284,6 +450,7 @@ export function ClassScheduler({ studentId, studentName, classesRemaining, onSch
 
   const openCreateDialog = () => {
     setEditingSchedule(null)
+    setFormConflicts([])
     setFormData(initialFormData)
     setIsEditMode(false)
     setIsScheduleDialogOpen(true)
@@ -311,16 +478,36 @@ export function ClassScheduler({ studentId, studentName, classesRemaining, onSch
     {
       key: "scheduledTime" as keyof ClassScheduleDataTable,
       header: "Date & Time",
-      render: createTypedRender<ClassScheduleDataTable, 'scheduledTime'>((value) => {
+      render: createTypedRender<ClassScheduleDataTable, 'scheduledTime'>((value, row) => {
         const dateValue = value instanceof Date ? value : new Date(String(value));
         return (
           <div className="space-y-1">
             <div className="font-medium">{format(dateValue, "MMM dd, yyyy")}</div>
             <div className="text-sm text-slate-500">{format(dateValue, "h:mm a")}</div>
+            {conflictingScheduleIds.has(row.id) && (
+              <Badge variant="outline" className="bg-red-50 text-red-700 border-red-200">
+                <AlertTriangle className="h-3 w-3 mr-1" />
+                Overlaps
+              </Badge>
+            )}
           </div>
         );
       }),
     },
+    {
+      key: "seriesId" as keyof ClassScheduleDataTable,
+      header: "Repeats",
+      render: createTypedRender<ClassScheduleDataTable, 'seriesId'>((value, row) =>
+        value ? (
+          <Badge variant="outline" className="text-slate-600">
+            <Repeat className="h-3 w-3 mr-1" />
+            {row.isException ? "Edited" : "Series"}
+          </Badge>
+        ) : (
+          <span className="text-sm text-slate-400">Once</span>
+        ),
+      ),
+    },
     {
       key: "status" as keyof ClassScheduleDataTable,
       header: "Status",
@@ -410,6 +597,12 @@ export function ClassScheduler({ studentId, studentName, classesRemaining, onSch
               Calendar
             </Button>
           </div>
+          <Button variant="outline" asChild>
+            <a href={`/api/students/${studentId}/schedules/ics`} download>
+              <Download className="h-4 w-4 mr-2" />
+              Export .ics
+            </a>
+          </Button>
           <Button onClick={openCreateDialog} className="bg-blue-600 hover:bg-blue-700">
             <Plus className="h-4 w-4 mr-2" />
             Schedule Class
@@ -428,6 +621,21 @@ export function ClassScheduler({ studentId, studentName, classesRemaining, onSch
         </Alert>
       )}
 
+      {/* Overlapping Classes Warning */}
+      {conflicts.length > 0 && (
+        <Alert variant="destructive">
+          <AlertTriangle className="h-4 w-4" />
+          <AlertDescription>
+            <p className="font-medium">Some upcoming classes overlap with other classes:</p>
+            <ul className="mt-1 list-disc pl-5 text-sm">
+              {conflicts.map((conflict) => (
+                <li key={`${conflict.scheduleId}-${conflict.conflictingScheduleId}`}>{describeConflict(conflict)}</li>
+              ))}
+            </ul>
+          </AlertDescription>
+        </Alert>
+      )}
+
       {/* Quick Stats */}
       <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
         <Card>
@@ -545,12 +753,14 @@ export function ClassScheduler({ studentId, studentName, classesRemaining, onSch
                             className={cn(
                               "p-2 rounded text-xs cursor-pointer hover:opacity-80",
                               statusColors[schedule.status],
+                              conflictingScheduleIds.has(schedule.id) && "ring-2 ring-red-400",
                             )}
                             onClick={() => openEditDialog(schedule)}
                           >
                             <div className="flex items-center space-x-1">
                               <Icon className="h-3 w-3" />
                               <span>{format(new Date(schedule.scheduledTime), "HH:mm")}</span>
+                              {schedule.seriesId && <Repeat className="h-3 w-3" />}
                             </div>
                           </div>
                         )
@@ -643,6 +853,108 @@ export function ClassScheduler({ studentId, studentName, classesRemaining, onSch
               </Select>
             </div>
 
+            {!isEditMode && (
+              <div className="space-y-3">
+                <div className="flex items-center space-x-2">
+                  <Switch
+                    id="recurring"
+                    checked={formData.recurring}
+                    onCheckedChange={(checked) => setFormData((prev) => ({ ...prev, recurring: checked }))}
+                  />
+                  <Label htmlFor="recurring">Repeat this class</Label>
+                </div>
+
+                {formData.recurring && (
+                  <div className="space-y-3 rounded-lg border p-3">
+                    <Select
+                      value={formData.recurringPattern}
+                      onValueChange={(value) => setFormData((prev) => ({ ...prev, recurringPattern: value }))}
+                    >
+                      <SelectTrigger>
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {recurringPatterns.map((pattern) => (
+                          <SelectItem key={pattern.value} value={pattern.value}>
+                            {pattern.label}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+
+                    {formData.recurringPattern === "custom" && (
+                      <ToggleGroup
+                        type="multiple"
+                        variant="outline"
+                        size="sm"
+                        className="justify-start flex-wrap"
+                        value={formData.recurringWeekdays.map(String)}
+                        onValueChange={toggleRecurringWeekdays}
+                      >
+                        {weekdayOptions.map((day) => (
+                          <ToggleGroupItem key={day.value} value={String(day.value)}>
+                            {day.label}
+                          </ToggleGroupItem>
+                        ))}
+                      </ToggleGroup>
+                    )}
+
+                    <RadioGroup
+                      value={formData.recurringEndType}
+                      onValueChange={(value) =>
+                        setFormData((prev) => ({ ...prev, recurringEndType: value as ScheduleFormData["recurringEndType"] }))
+                      }
+                    >
+                      <div className="flex items-center space-x-2">
+                        <RadioGroupItem value="count" id="recurring-end-count" />
+                        <Label htmlFor="recurring-end-count">After</Label>
+                        <Input
+                          type="number"
+                          min={1}
+                          max={200}
+                          className="h-8 w-20"
+                          value={formData.recurringCount}
+                          disabled={formData.recurringEndType !== "count"}
+                          onChange={(e) =>
+                            setFormData((prev) => ({ ...prev, recurringCount: Math.max(1, Number(e.target.value) || 1) }))
+                          }
+                        />
+                        <span className="text-sm text-slate-600">classes</span>
+                      </div>
+                      <div className="flex items-center space-x-2">
+                        <RadioGroupItem value="date" id="recurring-end-date" />
+                        <Label htmlFor="recurring-end-date">On</Label>
+                        <Popover open={isEndCalendarOpen} onOpenChange={setIsEndCalendarOpen}>
+                          <PopoverTrigger asChild>
+                            <Button
+                              variant="outline"
+                              size="sm"
+                              disabled={formData.recurringEndType !== "date"}
+                              className={cn("justify-start font-normal", !formData.recurringEnd && "text-muted-foreground")}
+                            >
+                              <CalendarIcon className="mr-2 h-4 w-4" />
+                              {formData.recurringEnd ? format(formData.recurringEnd, "PPP") : "Pick an end date"}
+                            </Button>
+                          </PopoverTrigger>
+                          <PopoverContent className="w-auto p-0" align="start">
+                            <Calendar
+                              mode="single"
+                              selected={formData.recurringEnd ?? undefined}
+                              onSelect={(date) => {
+                                setFormData((prev) => ({ ...prev, recurringEnd: date ?? null }))
+                                setIsEndCalendarOpen(false)
+                              }}
+                              disabled={(date) => date < formData.scheduledTime}
+                            />
+                          </PopoverContent>
+                        </Popover>
+                      </div>
+                    </RadioGroup>
+                  </div>
+                )}
+              </div>
+            )}
+
             <div className="space-y-2">
               <Label>Notes (Optional)</Label>
               <Textarea
@@ -652,12 +964,38 @@ export function ClassScheduler({ studentId, studentName, classesRemaining, onSch
               />
             </div>
 
+            {formConflicts.length > 0 && (
+              <Alert variant="destructive">
+                <AlertTriangle className="h-4 w-4" />
+                <AlertDescription>
+                  <p className="font-medium">This overlaps with other classes:</p>
+                  <ul className="mt-1 list-disc pl-5 text-sm">
+                    {formConflicts.map((conflict) => (
+                      <li key={`${conflict.scheduledTime}-${conflict.conflictingScheduleId}`}>
+                        {describeConflict(conflict)}
+                      </li>
+                    ))}
+                  </ul>
+                </AlertDescription>
+              </Alert>
+            )}
+
             <div className="flex justify-end space-x-2">
               <Button variant="outline" onClick={() => setIsScheduleDialogOpen(false)} disabled={isSubmitting}>
                 Cancel
               </Button>
+              {formConflicts.length > 0 && (
+                <Button
+                  variant="outline"
+                  onClick={() => (isEditMode ? handleUpdateSchedule(formScope, true) : handleCreateSchedule(true))}
+                  disabled={isSubmitting}
+                  className="text-red-600"
+                >
+                  {isEditMode ? "Save Anyway" : "Schedule Anyway"}
+                </Button>
+              )}
               <Button
-                onClick={isEditMode ? handleUpdateSchedule : handleCreateSchedule}
+                onClick={() => (isEditMode ? handleUpdateSchedule() : handleCreateSchedule())}
                 disabled={isSubmitting}
                 className="bg-blue-600 hover:bg-blue-700"
               >
@@ -667,6 +1005,42 @@ export function ClassScheduler({ studentId, studentName, classesRemaining, onSch
           </div>
         </DialogContent>
       </Dialog>
+
+      {/* Recurring Class Scope Dialog */}
+      <Dialog open={!!pendingSeriesAction} onOpenChange={(open) => !open && setPendingSeriesAction(null)}>
+        <DialogContent className="max-w-sm">
+          <DialogHeader>
+            <DialogTitle>
+              {pendingSeriesAction?.type === "delete" ? "Delete recurring class" : "Edit recurring class"}
+            </DialogTitle>
+          </DialogHeader>
+          <RadioGroup value={seriesScope} onValueChange={(value) => setSeriesScope(value as ScheduleScope)}>
+            {scopeOptions.map((option) => (
+              <div key={option.value} className="flex items-center space-x-2">
+                <RadioGroupItem value={option.value} id={`scope-${option.value}`} />
+                <Label htmlFor={`scope-${option.value}`}>{option.label}</Label>
+              </div>
+            ))}
+          </RadioGroup>
+          <p className="text-sm text-slate-500">
+            {pendingSeriesAction?.type === "delete"
+              ? "Classes that are in progress or completed are kept."
+              : "Classes you changed on their own, cancelled or completed keep their time."}
+          </p>
+          <div className="flex justify-end space-x-2">
+            <Button variant="outline" onClick={() => setPendingSeriesAction(null)} disabled={isSubmitting}>
+              Cancel
+            </Button>
+            <Button
+              onClick={handleConfirmSeriesScope}
+              disabled={isSubmitting}
+              className={pendingSeriesAction?.type === "delete" ? "bg-red-600 hover:bg-red-700" : "bg-blue-600 hover:bg-blue-700"}
+            >
+              {pendingSeriesAction?.type === "delete" ? "Delete" : "Save"}
+            </Button>
+          </div>
+        </DialogContent>
+      </Dialog>
     </div>
   )
 }
@@ -0,0 +1,42 @@
+"use client"
+
+import { formatDistanceToNow } from "date-fns"
+import { JobStatus } from "@prisma/client"
+import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert"
+import { PauseCircle } from "lucide-react"
+import { useJobs } from "@/hooks/api/jobs"
+import { JOB_TYPE_LABELS } from "@/components/background-tasks"
+
+interface DeferredJobsProps {
+  studentId: string
+}
+
+/**
+ * Background work the worker put on hold because the student is not active.
+ * Renders nothing when there is none.
+ */
+export function DeferredJobs({ studentId }: DeferredJobsProps) {
+  const { jobs, total } = useJobs({ studentId, status: JobStatus.DEFERRED, pageSize: 10 })
+
+  if (total === 0) return null
+
+  return (
+    <Alert className="border-amber-500/50">
+      <PauseCircle className="h-4 w-4 text-amber-500" />
+      <AlertTitle>Deferred Work ({total})</AlertTitle>
+      <AlertDescription>
+        <p>These tasks wait until the student is set back to active, then run automatically.</p>
+        <ul className="mt-2 list-disc pl-4">
+          {jobs.map((job) => (
+            <li key={job.id}>
+              {JOB_TYPE_LABELS[job.type]}{" "}
+              <span className="text-slate-500">
+                (requested {formatDistanceToNow(new Date(job.createdAt), { addSuffix: true })})
+              </span>
+            </li>
+          ))}
+        </ul>
+      </AlertDescription>
+    </Alert>
+  )
+}
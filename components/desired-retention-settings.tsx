@@ -0,0 +1,189 @@
+"use client"
+
+import { useState } from "react"
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
+import { Badge } from "@/components/ui/badge"
+import { Label } from "@/components/ui/label"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { Skeleton } from "@/components/ui/skeleton"
+import { Target } from "lucide-react"
+import { useToast } from "@/hooks/use-toast"
+import { useDesiredRetention, updateDesiredRetention } from "@/hooks/api/students"
+import { MAX_DESIRED_RETENTION, MIN_DESIRED_RETENTION } from "@/lib/schemas"
+import type { DeckRetentionOverride, FsrsReviewType } from "@/lib/types"
+
+interface DesiredRetentionSettingsProps {
+  studentId: string
+}
+
+const RETENTION_OPTIONS = [0.7, 0.75, 0.8, 0.85, 0.88, 0.9, 0.92, 0.95, 0.97].filter(
+  (value) => value >= MIN_DESIRED_RETENTION && value <= MAX_DESIRED_RETENTION,
+)
+
+const REVIEW_TYPE_LABELS: Record<FsrsReviewType, string> = {
+  VOCABULARY: "Vocabulary",
+  LISTENING: "Listening",
+  GENERIC: "Generic Decks",
+}
+
+/** Sentinel select value for a deck that follows the student's setting. */
+const INHERIT = "inherit"
+
+const formatRetention = (value: number) => `${Math.round(value * 100)}%`
+
+export function DesiredRetentionSettings({ studentId }: DesiredRetentionSettingsProps) {
+  const { settings, isLoading, mutate } = useDesiredRetention(studentId)
+  const [savingKey, setSavingKey] = useState<string | null>(null)
+  const { toast } = useToast()
+
+  const save = async (
+    key: string,
+    data: { reviewType: FsrsReviewType; desiredRetention: number | null; deckId?: string },
+  ) => {
+    setSavingKey(key)
+    try {
+      const response = await updateDesiredRetention(studentId, data)
+      await mutate(response.data, false)
+      toast({
+        title: "Desired retention updated",
+        description: "The new target applies from each card's next review.",
+      })
+    } catch (error) {
+      console.error("Failed to update desired retention:", error)
+      toast({
+        title: "Error",
+        description: "Failed to update desired retention.",
+        variant: "destructive",
+      })
+    } finally {
+      setSavingKey(null)
+    }
+  }
+
+  const optionsWith = (current: number) =>
+    Array.from(new Set([...RETENTION_OPTIONS, current])).sort((a, b) => a - b)
+
+  const renderDeckOverride = (override: DeckRetentionOverride) => {
+    const key = `${override.reviewType}:${override.deckId}`
+    const studentValue = settings!.retention[override.reviewType]
+    return (
+      <div key={key} className="flex items-center justify-between gap-4">
+        <div className="min-w-0">
+          <p className="text-sm font-medium text-slate-900 truncate">{override.deckName}</p>
+          <p className="text-xs text-slate-500">{REVIEW_TYPE_LABELS[override.reviewType]}</p>
+        </div>
+        <Select
+          value={override.desiredRetention === null ? INHERIT : String(override.desiredRetention)}
+          onValueChange={(value) =>
+            save(key, {
+              reviewType: override.reviewType,
+              deckId: override.deckId,
+              desiredRetention: value === INHERIT ? null : Number(value),
+            })
+          }
+          disabled={savingKey === key}
+        >
+          <SelectTrigger className="w-44">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value={INHERIT}>Student default ({formatRetention(studentValue)})</SelectItem>
+            {optionsWith(override.desiredRetention ?? studentValue).map((value) => (
+              <SelectItem key={value} value={String(value)}>
+                {formatRetention(value)}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+    )
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center space-x-2">
+          <Target className="h-5 w-5" />
+          <span>Desired Retention</span>
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <p className="text-sm text-slate-500">
+          The probability of recall FSRS aims for when scheduling a review. Higher targets mean shorter intervals and
+          more reviews per day.
+        </p>
+
+        {isLoading || !settings ? (
+          <Skeleton className="h-40 w-full" />
+        ) : (
+          <>
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+              {(Object.keys(REVIEW_TYPE_LABELS) as FsrsReviewType[]).map((reviewType) => (
+                <div key={reviewType} className="space-y-2">
+                  <Label>{REVIEW_TYPE_LABELS[reviewType]}</Label>
+                  <Select
+                    value={String(settings.retention[reviewType])}
+                    onValueChange={(value) => save(reviewType, { reviewType, desiredRetention: Number(value) })}
+                    disabled={savingKey === reviewType}
+                  >
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {optionsWith(settings.retention[reviewType]).map((value) => (
+                        <SelectItem key={value} value={String(value)}>
+                          {formatRetention(value)}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              ))}
+            </div>
+
+            <div className="space-y-2">
+              <h3 className="font-semibold text-slate-900">Vocabulary Workload Preview</h3>
+              <p className="text-xs text-slate-500">
+                Estimated steady-state reviews per day for the cards this student has already learned.
+              </p>
+              <div className="border rounded-lg divide-y">
+                <div className="grid grid-cols-3 px-4 py-2 text-xs font-medium text-slate-500">
+                  <span>Retention</span>
+                  <span className="text-right">Reviews / day</span>
+                  <span className="text-right">Avg interval</span>
+                </div>
+                {settings.workloadPreview.map((preview) => {
+                  const isCurrent = preview.desiredRetention === settings.retention.VOCABULARY
+                  return (
+                    <div
+                      key={preview.desiredRetention}
+                      className={`grid grid-cols-3 px-4 py-2 text-sm ${isCurrent ? "bg-blue-50" : ""}`}
+                    >
+                      <span className="flex items-center gap-2">
+                        {formatRetention(preview.desiredRetention)}
+                        {isCurrent && (
+                          <Badge variant="outline" className="text-xs">
+                            Current
+                          </Badge>
+                        )}
+                      </span>
+                      <span className="text-right font-medium text-slate-900">{preview.estimatedDailyReviews}</span>
+                      <span className="text-right text-slate-600">{preview.averageIntervalDays} days</span>
+                    </div>
+                  )
+                })}
+              </div>
+            </div>
+
+            {settings.deckOverrides.length > 0 && (
+              <div className="space-y-3">
+                <h3 className="font-semibold text-slate-900">Per-Deck Overrides</h3>
+                {settings.deckOverrides.map(renderDeckOverride)}
+              </div>
+            )}
+          </>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
@@ -12,7 +12,7 @@ import {
 import { Badge } from "../ui/badge"
 import { Button } from "../ui/button"
 import { Card, CardContent, CardHeader, CardTitle } from "../ui/card"
-
+import { TypedAnswerInput, TypedAnswerResult } from "./TypedAnswer"
 
 import { ExerciseProps } from "./VocabularyExercise"
 
@@ -20,10 +20,16 @@ export function FillInTheBlankExercise({
   sessionState,
   onRevealAnswer,
   onSubmitRating,
+  onSubmitTextAnswer,
   isLoading,
 }: ExerciseProps) {
   const progress = sessionState.progress as FillInTheBlankProgress
   const currentCard = progress.payload.currentCardData
+  const isTypedMode = progress.payload.config.answerMode === "TYPED" && !!onSubmitTextAnswer
+  const grade = progress.payload.grade
+  // Highlights the correctness proposed by automatic grading
+  const suggestedClass = (isCorrect: boolean) =>
+    grade && grade.isCorrect === isCorrect ? "ring-2 ring-offset-2 ring-orange-500" : ""
 
   if (!currentCard) {
     return (
@@ -104,6 +110,7 @@ export function FillInTheBlankExercise({
           {/* Show explanation when answer is revealed */}
           {progress.stage === "AWAITING_CORRECTNESS" && (
             <>
+              {grade && <TypedAnswerResult grade={grade} />}
               <div className="p-4 bg-orange-50 rounded-lg">
                 <p className="text-lg font-medium text-orange-900 mb-2">
                   Answer: <span className="font-bold">{currentCard.answer}</span>
@@ -145,7 +152,17 @@ export function FillInTheBlankExercise({
 
       {/* Action Buttons */}
       <div className="space-y-4">
-        {progress.stage === "PRESENTING_CARD" && (
+        {progress.stage === "PRESENTING_CARD" && isTypedMode && (
+          <TypedAnswerInput
+            key={currentCard.id}
+            onSubmit={onSubmitTextAnswer!}
+            onGiveUp={onRevealAnswer}
+            isLoading={isLoading}
+            placeholder="Type the missing word (or the option number)..."
+          />
+        )}
+
+        {progress.stage === "PRESENTING_CARD" && !isTypedMode && (
           <Button
             onClick={onRevealAnswer}
             disabled={isLoading}
@@ -161,7 +178,7 @@ export function FillInTheBlankExercise({
               onClick={() => onSubmitRating(1)} // Rating 1 = Again (incorrect)
               disabled={isLoading}
               variant="outline"
-              className="h-16 flex flex-col items-center justify-center gap-1 border-red-200 hover:bg-red-50"
+              className={`h-16 flex flex-col items-center justify-center gap-1 border-red-200 hover:bg-red-50 ${suggestedClass(false)}`}
             >
               <XCircle className="h-5 w-5 text-red-600" />
               <span className="font-medium text-sm">Incorrect</span>
@@ -171,7 +188,7 @@ export function FillInTheBlankExercise({
               onClick={() => onSubmitRating(4)} // Rating 4 = Easy (correct)
               disabled={isLoading}
               variant="outline"
-              className="h-16 flex flex-col items-center justify-center gap-1 border-green-200 hover:bg-green-50"
+              className={`h-16 flex flex-col items-center justify-center gap-1 border-green-200 hover:bg-green-50 ${suggestedClass(true)}`}
             >
               <CheckCircle className="h-5 w-5 text-green-600" />
               <span className="font-medium text-sm">Correct</span>
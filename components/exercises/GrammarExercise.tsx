@@ -1,8 +1,148 @@
 "use client"
 
-import { UnitItemType } from "@prisma/client"
-import { UnsupportedExercise } from "./UnsupportedExercise"
+import {
+  GrammarExerciseProgress,
+} from "@/lib/types"
+import {
+  FileText,
+  CheckCircle,
+  XCircle,
+  Lightbulb,
+} from "lucide-react"
+import { Badge } from "../ui/badge"
+import { Button } from "../ui/button"
+import { Card, CardContent, CardHeader, CardTitle } from "../ui/card"
 
-export function GrammarExercise() {
-  return <UnsupportedExercise type={UnitItemType.GRAMMAR_EXERCISE} />
+import { ExerciseProps } from "./VocabularyExercise"
+
+export function GrammarExercise({
+  sessionState,
+  onRevealAnswer,
+  onSubmitRating,
+  isLoading,
+}: ExerciseProps) {
+  const progress = sessionState.progress as GrammarExerciseProgress
+  const currentQuestion = progress.payload.currentCardData
+  const grammarExercise = sessionState.currentUnitItem?.grammarExercise
+
+  if (!currentQuestion) {
+    return (
+      <Card className="text-center">
+        <CardContent className="p-8">
+          <p className="text-slate-600">No more questions to answer!</p>
+        </CardContent>
+      </Card>
+    )
+  }
+
+  const isRevealed = progress.stage === "AWAITING_CORRECTNESS"
+  const { results, initialCardIds, settings, instructions } = progress.payload
+  const correctCount = results.filter((r) => r.isCorrect).length
+
+  return (
+    <>
+      {/* Current Question */}
+      <Card className="text-center">
+        <CardHeader>
+          <div className="flex items-center justify-center space-x-2 mb-2">
+            <FileText className="h-5 w-5 text-green-600" />
+            <Badge variant="outline" className="border-green-200 text-green-700">
+              {grammarExercise?.grammarTopic || "Grammar"}
+            </Badge>
+          </div>
+          {instructions && (
+            <p className="text-sm text-slate-600 mb-2">{instructions}</p>
+          )}
+          <CardTitle className="text-2xl font-bold text-slate-900 leading-relaxed">
+            {currentQuestion.question}
+          </CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          {/* Multiple choice options, with the correct one highlighted once revealed */}
+          {currentQuestion.options && currentQuestion.options.length > 0 && (
+            <div className="space-y-2">
+              {!isRevealed && (
+                <p className="text-sm text-slate-600 mb-3">Choose from the options below:</p>
+              )}
+              <div className="flex flex-wrap justify-center gap-2">
+                {currentQuestion.options.map((option, index) => (
+                  <Badge
+                    key={index}
+                    variant="outline"
+                    className={`text-sm py-1 px-3 cursor-default ${
+                      isRevealed && option === currentQuestion.correctAnswer
+                        ? "border-green-400 bg-green-50 text-green-800"
+                        : "border-slate-300"
+                    }`}
+                  >
+                    {option}
+                  </Badge>
+                ))}
+              </div>
+            </div>
+          )}
+
+          {isRevealed && (
+            <div className="p-4 bg-green-50 rounded-lg space-y-2">
+              <p className="text-lg font-medium text-green-900">
+                Answer: <span className="font-bold">{currentQuestion.correctAnswer}</span>
+              </p>
+              {settings.showExplanations && currentQuestion.explanation && (
+                <div className="flex items-start justify-center space-x-2 text-sm text-slate-700">
+                  <Lightbulb className="h-4 w-4 mt-0.5 text-yellow-600 shrink-0" />
+                  <span>{currentQuestion.explanation}</span>
+                </div>
+              )}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      {/* Action Buttons */}
+      <div className="space-y-4">
+        {progress.stage === "PRESENTING_QUESTION" && (
+          <Button
+            onClick={onRevealAnswer}
+            disabled={isLoading}
+            className="w-full h-12 text-lg bg-green-600 hover:bg-green-700"
+          >
+            {isLoading ? "Loading..." : "Reveal Answer"}
+          </Button>
+        )}
+
+        {isRevealed && (
+          <div className="grid grid-cols-2 gap-4">
+            <Button
+              onClick={() => onSubmitRating(1)} // Rating 1 = incorrect
+              disabled={isLoading}
+              variant="outline"
+              className="h-16 flex flex-col items-center justify-center gap-1 border-red-200 hover:bg-red-50"
+            >
+              <XCircle className="h-5 w-5 text-red-600" />
+              <span className="font-medium text-sm">Incorrect</span>
+              <span className="text-xs text-slate-500">Student got it wrong</span>
+            </Button>
+            <Button
+              onClick={() => onSubmitRating(4)} // Rating 4 = correct
+              disabled={isLoading}
+              variant="outline"
+              className="h-16 flex flex-col items-center justify-center gap-1 border-green-200 hover:bg-green-50"
+            >
+              <CheckCircle className="h-5 w-5 text-green-600" />
+              <span className="font-medium text-sm">Correct</span>
+              <span className="text-xs text-slate-500">Student got it right</span>
+            </Button>
+          </div>
+        )}
+      </div>
+
+      {/* Progress indicator */}
+      <div className="text-center text-sm text-slate-500">
+        Question {results.length + 1} of {initialCardIds.length}
+        {results.length > 0 && (
+          <span> • {correctCount} / {results.length} correct</span>
+        )}
+      </div>
+    </>
+  )
 }
@@ -0,0 +1,86 @@
+"use client"
+
+import { useRef, useState } from "react"
+import { TypedAnswerGrade } from "@/lib/types"
+import { CheckCircle, Keyboard, XCircle } from "lucide-react"
+import { Button } from "../ui/button"
+import { Input } from "../ui/input"
+
+interface TypedAnswerInputProps {
+  onSubmit: (answer: string, responseTimeMs: number) => void
+  onGiveUp: () => void
+  isLoading: boolean
+  placeholder?: string
+}
+
+/**
+ * Answer box for typed-answer mode. The response time is measured from the
+ * moment the input is shown, so render it with a `key` per card to reset it.
+ */
+export function TypedAnswerInput({ onSubmit, onGiveUp, isLoading, placeholder }: TypedAnswerInputProps) {
+  const [answer, setAnswer] = useState("")
+  const shownAt = useRef(Date.now())
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault()
+    if (!answer.trim()) return
+    onSubmit(answer, Date.now() - shownAt.current)
+  }
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-3">
+      <div className="flex items-center gap-2">
+        <Keyboard className="h-5 w-5 text-slate-400 shrink-0" />
+        <Input
+          autoFocus
+          value={answer}
+          onChange={(e) => setAnswer(e.target.value)}
+          placeholder={placeholder ?? "Type the answer..."}
+          disabled={isLoading}
+          className="h-12 text-lg"
+        />
+      </div>
+      <div className="grid grid-cols-2 gap-3">
+        <Button type="button" variant="outline" onClick={onGiveUp} disabled={isLoading}>
+          I don&apos;t know
+        </Button>
+        <Button type="submit" disabled={isLoading || !answer.trim()}>
+          {isLoading ? "Checking..." : "Check Answer"}
+        </Button>
+      </div>
+    </form>
+  )
+}
+
+/**
+ * Shows the automatic grade of a typed answer. The grade is a proposal the
+ * teacher confirms or overrides with the rating buttons.
+ */
+export function TypedAnswerResult({ grade }: { grade: TypedAnswerGrade }) {
+  return (
+    <div
+      className={`p-3 rounded-lg border text-left ${
+        grade.isCorrect ? "border-green-200 bg-green-50" : "border-red-200 bg-red-50"
+      }`}
+    >
+      <div className="flex items-center gap-2">
+        {grade.isCorrect ? (
+          <CheckCircle className="h-4 w-4 text-green-600" />
+        ) : (
+          <XCircle className="h-4 w-4 text-red-600" />
+        )}
+        <span className="text-sm text-slate-600">Student answered:</span>
+        <span className="font-medium text-slate-900">{grade.submittedAnswer}</span>
+      </div>
+      <p className="text-xs text-slate-500 mt-1">
+        {grade.isCorrect
+          ? grade.isExactMatch
+            ? "Exact match."
+            : `Accepted with ${grade.distance} typo${grade.distance === 1 ? "" : "s"} (matched "${grade.matchedAnswer}").`
+          : "Not accepted."}
+        {grade.responseTimeMs !== undefined && ` Answered in ${(grade.responseTimeMs / 1000).toFixed(1)}s.`}
+        {" "}The suggested grade is highlighted; pick another to override it.
+      </p>
+    </div>
+  )
+}
@@ -14,12 +14,13 @@ import {
 import { Badge } from "../ui/badge"
 import { Button } from "../ui/button"
 import { Card, CardContent, CardHeader, CardTitle } from "../ui/card"
-
+import { TypedAnswerInput, TypedAnswerResult } from "./TypedAnswer"
 
 export interface ExerciseProps {
   sessionState: FullSessionState
   onRevealAnswer: () => void
   onSubmitRating: (rating: number) => void // FSRS rating: 1=Again, 2=Hard, 3=Good, 4=Easy
+  onSubmitTextAnswer?: (answer: string, responseTimeMs: number) => void // Typed-answer mode only
   isLoading: boolean
 }
 
@@ -27,10 +28,16 @@ export function VocabularyExercise({
   sessionState,
   onRevealAnswer,
   onSubmitRating,
+  onSubmitTextAnswer,
   isLoading,
 }: ExerciseProps) {
   const progress = sessionState.progress as VocabularyDeckProgress
   const currentCard = progress.payload.currentCardData
+  const isTypedMode = progress.payload.config.answerMode === "TYPED" && !!onSubmitTextAnswer
+  const grade = progress.payload.grade
+  // Highlights the rating proposed by automatic grading
+  const suggestedClass = (rating: number) =>
+    grade?.proposedRating === rating ? "ring-2 ring-offset-2 ring-blue-500" : ""
 
   if (!currentCard) {
     return (
@@ -58,6 +65,7 @@ export function VocabularyExercise({
         <CardContent className="space-y-4">
           {progress.stage === "AWAITING_RATING" && (
             <>
+              {grade && <TypedAnswerResult grade={grade} />}
               <div className="p-4 bg-slate-50 rounded-lg">
                 <p className="text-2xl font-medium text-slate-900 mb-2">
                   {currentCard.card.chineseTranslation}
@@ -81,7 +89,17 @@ export function VocabularyExercise({
 
       {/* Action Buttons */}
       <div className="space-y-4">
-        {progress.stage === "PRESENTING_CARD" && (
+        {progress.stage === "PRESENTING_CARD" && isTypedMode && (
+          <TypedAnswerInput
+            key={currentCard.cardId}
+            onSubmit={onSubmitTextAnswer!}
+            onGiveUp={onRevealAnswer}
+            isLoading={isLoading}
+            placeholder="Type the Chinese translation or pinyin..."
+          />
+        )}
+
+        {progress.stage === "PRESENTING_CARD" && !isTypedMode && (
           <Button
             onClick={onRevealAnswer}
             disabled={isLoading}
@@ -97,7 +115,7 @@ export function VocabularyExercise({
               onClick={() => onSubmitRating(1)}
               disabled={isLoading}
               variant="outline"
-              className="h-16 flex-col space-y-1 border-red-200 hover:bg-red-50"
+              className={`h-16 flex-col space-y-1 border-red-200 hover:bg-red-50 ${suggestedClass(1)}`}
             >
               <XCircle className="h-5 w-5 text-red-600" />
               <span className="text-sm">Again</span>
@@ -106,7 +124,7 @@ export function VocabularyExercise({
               onClick={() => onSubmitRating(2)}
               disabled={isLoading}
               variant="outline"
-              className="h-16 flex-col space-y-1 border-orange-200 hover:bg-orange-50"
+              className={`h-16 flex-col space-y-1 border-orange-200 hover:bg-orange-50 ${suggestedClass(2)}`}
             >
               <RotateCcw className="h-5 w-5 text-orange-600" />
               <span className="text-sm">Hard</span>
@@ -115,7 +133,7 @@ export function VocabularyExercise({
               onClick={() => onSubmitRating(3)}
               disabled={isLoading}
               variant="outline"
-              className="h-16 flex-col space-y-1 border-blue-200 hover:bg-blue-50"
+              className={`h-16 flex-col space-y-1 border-blue-200 hover:bg-blue-50 ${suggestedClass(3)}`}
             >
               <CheckCircle className="h-5 w-5 text-blue-600" />
               <span className="text-sm">Good</span>
@@ -124,7 +142,7 @@ export function VocabularyExercise({
               onClick={() => onSubmitRating(4)}
               disabled={isLoading}
               variant="outline"
-              className="h-16 flex-col space-y-1 border-green-200 hover:bg-green-50"
+              className={`h-16 flex-col space-y-1 border-green-200 hover:bg-green-50 ${suggestedClass(4)}`}
             >
               <CheckCircle className="h-5 w-5 text-green-600" />
               <span className="text-sm">Easy</span>
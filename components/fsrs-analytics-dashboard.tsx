@@ -24,6 +24,7 @@ import { format } from "date-fns"
 import { useToast } from "@/hooks/use-toast"
 import {
   useDueCards,
+  useSlowRecallCards,
   useListeningCandidates,
   useFsrsStats,
   optimizeFsrsParameters,
@@ -32,6 +33,9 @@ import { JobStatusIndicator } from "@/components/ui/job-status-indicator"
 import type { FullStudentProfile } from "@/lib/types"
 import type { StudentCardState, VocabularyCard } from "@prisma/client"
 import { DataTable } from "@/components/data-table"
+import { DesiredRetentionSettings } from "@/components/desired-retention-settings"
+import { ReviewForecastChart } from "@/components/review-forecast-chart"
+import { FsrsParameterHistory } from "@/components/fsrs-parameter-history"
 
 interface FSRSAnalyticsDashboardProps {
   student: FullStudentProfile
@@ -64,6 +68,11 @@ export function FSRSAnalyticsDashboard({ student }: FSRSAnalyticsDashboardProps)
     isError: isListeningError,
   } = useListeningCandidates(student.id)
   const { stats, isLoading: isStatsLoading, isError: isStatsError } = useFsrsStats(student.id)
+  const {
+    slowRecallCards,
+    isLoading: isSlowRecallLoading,
+    isError: isSlowRecallError,
+  } = useSlowRecallCards(student.id)
 
   const [optimizationJobId, setOptimizationJobId] = useState<string | null>(null)
 
@@ -155,6 +164,24 @@ export function FSRSAnalyticsDashboard({ student }: FSRSAnalyticsDashboardProps)
     },
   ]
 
+  const slowRecallColumns = [
+    dueCardColumns[0],
+    {
+      key: "averageResponseTimeMs",
+      header: "Avg Response",
+      render: (value: unknown) => (
+        <div className="text-sm font-medium text-orange-700">{(Number(value) / 1000).toFixed(1)}s</div>
+      ),
+    },
+    {
+      key: "consecutiveCorrect",
+      header: "Correct Streak",
+      render: (value: unknown) => <div className="text-sm text-slate-600">{Number(value)}</div>,
+    },
+    dueCardColumns[1],
+    dueCardColumns[4],
+  ]
+
   const listeningCandidateColumns = [
     {
       key: "englishWord",
@@ -201,7 +228,7 @@ export function FSRSAnalyticsDashboard({ student }: FSRSAnalyticsDashboardProps)
     },
   ]
 
-  if (isDueCardsError || isListeningError || isStatsError) {
+  if (isDueCardsError || isListeningError || isStatsError || isSlowRecallError) {
     return (
       <Card>
         <CardContent className="p-6">
@@ -258,7 +285,7 @@ export function FSRSAnalyticsDashboard({ student }: FSRSAnalyticsDashboardProps)
             <div>
               <h3 className="font-semibold">Optimize Parameters</h3>
               <p className="text-sm text-slate-500">
-                Recalculate the optimal FSRS parameters based on the student&apos;s review history. (Weekly automatic job)
+                Recalculate the optimal FSRS parameters based on the student&apos;s review history. Runs automatically when enabled in Settings.
               </p>
             </div>
             <Button onClick={handleOptimizeParameters} disabled={!!optimizationJobId}>
@@ -276,6 +303,12 @@ export function FSRSAnalyticsDashboard({ student }: FSRSAnalyticsDashboardProps)
         </CardContent>
       </Card>
 
+      <ReviewForecastChart studentId={student.id} />
+
+      <DesiredRetentionSettings studentId={student.id} />
+
+      <FsrsParameterHistory studentId={student.id} />
+
       {/* Detailed Analytics */}
       <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
         {/* Card State Distribution */}
@@ -370,6 +403,13 @@ export function FSRSAnalyticsDashboard({ student }: FSRSAnalyticsDashboardProps)
                   </span>
                 </div>
 
+                <div className="flex items-center justify-between">
+                  <span className="text-sm text-slate-600">Slow Recall Cards</span>
+                  <span className="text-lg font-semibold text-orange-600">
+                    {stats?.slowRecallCards ?? 0}
+                  </span>
+                </div>
+
                 <div className="flex items-center justify-between">
                   <span className="text-sm text-slate-600">Cards Due This Week</span>
                   <span className="text-lg font-semibold text-slate-900">
@@ -393,6 +433,7 @@ export function FSRSAnalyticsDashboard({ student }: FSRSAnalyticsDashboardProps)
       <Tabs defaultValue="due-cards" className="space-y-4">
         <TabsList>
           <TabsTrigger value="due-cards">Due Cards</TabsTrigger>
+          <TabsTrigger value="slow-recall">Slow Recall</TabsTrigger>
           <TabsTrigger value="listening-candidates">Listening Candidates</TabsTrigger>
         </TabsList>
 
@@ -425,6 +466,35 @@ export function FSRSAnalyticsDashboard({ student }: FSRSAnalyticsDashboardProps)
           </Card>
         </TabsContent>
 
+        <TabsContent value="slow-recall">
+          <Card>
+            <CardHeader>
+              <CardTitle>Slow Recall Cards</CardTitle>
+            </CardHeader>
+            <CardContent>
+              {isSlowRecallLoading ? (
+                <div className="space-y-4">
+                  {[...Array(5)].map((_, i) => (
+                    <div key={i} className="flex items-center space-x-4">
+                      <Skeleton className="h-4 w-32" />
+                      <Skeleton className="h-4 w-24" />
+                      <Skeleton className="h-4 w-16" />
+                      <Skeleton className="h-4 w-20" />
+                    </div>
+                  ))}
+                </div>
+              ) : slowRecallCards.length === 0 ? (
+                <div className="text-center py-8">
+                  <Clock className="h-12 w-12 text-slate-300 mx-auto mb-4" />
+                  <p className="text-slate-500">No slow recalls recorded yet</p>
+                </div>
+              ) : (
+                <DataTable data={slowRecallCards} columns={slowRecallColumns} pageSize={10} />
+              )}
+            </CardContent>
+          </Card>
+        </TabsContent>
+
         <TabsContent value="listening-candidates">
           <Card>
             <CardHeader>
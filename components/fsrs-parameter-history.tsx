@@ -0,0 +1,158 @@
+"use client"
+
+import { useState } from "react"
+import { format } from "date-fns"
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
+import { Badge } from "@/components/ui/badge"
+import { Button } from "@/components/ui/button"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { Skeleton } from "@/components/ui/skeleton"
+import { History, RotateCcw } from "lucide-react"
+import { useToast } from "@/hooks/use-toast"
+import { useFsrsParameterVersions, rollbackFsrsParameters } from "@/hooks/api/students"
+import { DataTable } from "@/components/data-table"
+import type { FsrsParamsVersion, FsrsReviewType } from "@/lib/types"
+
+interface FsrsParameterHistoryProps {
+  studentId: string
+}
+
+const REVIEW_TYPE_LABELS: Record<FsrsReviewType, string> = {
+  VOCABULARY: "Vocabulary",
+  LISTENING: "Listening",
+  GENERIC: "Generic Decks",
+}
+
+const formatScore = (value: number | null) => (value === null ? "—" : value.toFixed(4))
+
+export function FsrsParameterHistory({ studentId }: FsrsParameterHistoryProps) {
+  const [reviewType, setReviewType] = useState<FsrsReviewType>("VOCABULARY")
+  const [rollingBackVersion, setRollingBackVersion] = useState<number | null>(null)
+  const { versions, isLoading, mutate } = useFsrsParameterVersions(studentId, reviewType)
+  const { toast } = useToast()
+
+  const handleRollback = async (version: number) => {
+    setRollingBackVersion(version)
+    try {
+      await rollbackFsrsParameters(studentId, reviewType, version)
+      await mutate()
+      toast({
+        title: "Parameters rolled back",
+        description: `Version ${version} is now active. Rebuild the cache to reschedule past reviews with it.`,
+      })
+    } catch (error) {
+      console.error("Failed to roll back FSRS parameters:", error)
+      toast({
+        title: "Error",
+        description: "Failed to roll back FSRS parameters.",
+        variant: "destructive",
+      })
+    } finally {
+      setRollingBackVersion(null)
+    }
+  }
+
+  const columns = [
+    {
+      key: "version",
+      header: "Version",
+      render: (value: unknown) => <span className="font-medium text-slate-900">v{String(value)}</span>,
+    },
+    {
+      key: "lastOptimized",
+      header: "Optimized",
+      render: (value: unknown) => format(new Date(String(value)), "MMM dd, yyyy HH:mm"),
+    },
+    {
+      key: "optimizationScore",
+      header: "Log Loss",
+      render: (_: unknown, row: FsrsParamsVersion) => (
+        <div className="text-sm">
+          <span className="text-slate-900">{formatScore(row.optimizationScore)}</span>
+          {row.baselineScore !== null && (
+            <span className="text-slate-500"> vs {formatScore(row.baselineScore)}</span>
+          )}
+        </div>
+      ),
+    },
+    {
+      key: "rmse",
+      header: "RMSE",
+      render: (value: unknown) => <span className="text-sm text-slate-600">{formatScore(value as number | null)}</span>,
+    },
+    {
+      key: "trainingDataSize",
+      header: "Reviews",
+      render: (value: unknown) => <span className="text-sm text-slate-600">{value === null ? "—" : String(value)}</span>,
+    },
+    {
+      key: "isActive",
+      header: "Status",
+      render: (_: unknown, row: FsrsParamsVersion) =>
+        row.isActive ? (
+          <Badge className="bg-green-100 text-green-700 border-green-200" variant="outline">Active</Badge>
+        ) : row.isAccepted ? (
+          <Badge variant="secondary">Inactive</Badge>
+        ) : (
+          <Badge className="bg-orange-100 text-orange-700 border-orange-200" variant="outline">Rejected</Badge>
+        ),
+    },
+    {
+      key: "id",
+      header: "",
+      render: (_: unknown, row: FsrsParamsVersion) =>
+        !row.isActive && (
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={() => handleRollback(row.version)}
+            disabled={rollingBackVersion !== null}
+          >
+            <RotateCcw className="h-4 w-4 mr-2" />
+            {rollingBackVersion === row.version ? "Activating..." : "Roll back"}
+          </Button>
+        ),
+    },
+  ]
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center justify-between">
+          <CardTitle className="flex items-center space-x-2">
+            <History className="h-5 w-5" />
+            <span>Parameter Versions</span>
+          </CardTitle>
+          <Select value={reviewType} onValueChange={(value) => setReviewType(value as FsrsReviewType)}>
+            <SelectTrigger className="w-40">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {(Object.keys(REVIEW_TYPE_LABELS) as FsrsReviewType[]).map((type) => (
+                <SelectItem key={type} value={type}>
+                  {REVIEW_TYPE_LABELS[type]}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <p className="text-sm text-slate-500">
+          New weights are scored on reviews held out of training and only activated when they predict them better than
+          the active weights. Lower scores are better.
+        </p>
+        {isLoading ? (
+          <Skeleton className="h-32 w-full" />
+        ) : versions.length === 0 ? (
+          <div className="text-center py-8">
+            <History className="h-12 w-12 text-slate-300 mx-auto mb-4" />
+            <p className="text-slate-500">No optimizations yet. The default FSRS weights are in use.</p>
+          </div>
+        ) : (
+          <DataTable data={versions} columns={columns} pageSize={5} />
+        )}
+      </CardContent>
+    </Card>
+  )
+}
@@ -1,133 +1,209 @@
 "use client"
 
-import React, { useState } from "react"
+import React from "react"
 import { Input } from "@/components/ui/input"
 import { Button } from "@/components/ui/button"
 import { Label } from "@/components/ui/label"
-import { Trash2, PlusCircle } from "lucide-react"
+import { Switch } from "@/components/ui/switch"
+import { Badge } from "@/components/ui/badge"
+import { Trash2, PlusCircle, X } from "lucide-react"
 import { Textarea } from "@/components/ui/textarea"
+import type { GrammarExerciseData } from "@/lib/types"
 
-type ExerciseData = Record<string, unknown>
+type GrammarQuestionDraft = NonNullable<GrammarExerciseData["questions"]>[number]
+type GrammarSettingKey = keyof NonNullable<GrammarExerciseData["settings"]>
 
 interface GrammarExerciseEditorProps {
-  value: ExerciseData
-  onChange: (value: ExerciseData) => void
+  value: GrammarExerciseData
+  onChange: (value: GrammarExerciseData) => void
   disabled?: boolean
 }
 
+const settingLabels: { key: GrammarSettingKey; label: string; description: string; defaultValue: boolean }[] = [
+  { key: "randomizeQuestions", label: "Randomize questions", description: "Shuffle question order each session", defaultValue: false },
+  { key: "randomizeOptions", label: "Randomize options", description: "Shuffle multiple-choice options", defaultValue: false },
+  { key: "showExplanations", label: "Show explanations", description: "Reveal explanations with the answer", defaultValue: true },
+]
+
 export function GrammarExerciseEditor({ value, onChange, disabled }: GrammarExerciseEditorProps) {
-  const [newKey, setNewKey] = useState("")
+  const questions = value.questions || []
+
+  const updateQuestions = (next: GrammarQuestionDraft[]) => {
+    onChange({ ...value, questions: next })
+  }
+
+  const handleQuestionChange = (index: number, updates: Partial<GrammarQuestionDraft>) => {
+    updateQuestions(questions.map((q, i) => (i === index ? { ...q, ...updates } : q)))
+  }
 
-  // Convert object to an array of [key, value] pairs for easier mapping
-  const entries = Object.entries(value || {})
+  const handleAddQuestion = () => {
+    updateQuestions([...questions, { question: "", correctAnswer: "" }])
+  }
+
+  const handleRemoveQuestion = (index: number) => {
+    updateQuestions(questions.filter((_, i) => i !== index))
+  }
 
-  const handleAddEntry = () => {
-    if (newKey && !(newKey in value)) {
-      onChange({ ...value, [newKey]: "" })
-      setNewKey("")
-    }
+  const handleOptionChange = (questionIndex: number, optionIndex: number, option: string) => {
+    const options = [...(questions[questionIndex].options || [])]
+    options[optionIndex] = option
+    handleQuestionChange(questionIndex, { options })
   }
 
-  const handleRemoveEntry = (keyToRemove: string) => {
-    // eslint-disable-next-line @typescript-eslint/no-unused-vars
-    const { [keyToRemove]: _, ...rest } = value
-    onChange(rest)
+  const handleAddOption = (questionIndex: number) => {
+    handleQuestionChange(questionIndex, { options: [...(questions[questionIndex].options || []), ""] })
   }
 
-  const handleKeyChange = (oldKey: string, newKey: string) => {
-    if (newKey && !(newKey in value)) {
-      const newEntries = entries.map(([key, val]) => {
-        if (key === oldKey) {
-          return [newKey, val]
-        }
-        return [key, val]
-      })
-      onChange(Object.fromEntries(newEntries))
-    }
+  const handleRemoveOption = (questionIndex: number, optionIndex: number) => {
+    const options = (questions[questionIndex].options || []).filter((_, i) => i !== optionIndex)
+    handleQuestionChange(questionIndex, { options: options.length > 0 ? options : undefined })
   }
 
-  const handleValueChange = (key: string, newValue: string) => {
-    // Attempt to parse as JSON if it looks like an object or array
-    try {
-        if ((newValue.startsWith('{') && newValue.endsWith('}')) || (newValue.startsWith('[') && newValue.endsWith(']'))) {
-            const parsed = JSON.parse(newValue);
-            onChange({ ...value, [key]: parsed });
-            return;
-        }
-    } catch {
-        // Not valid JSON, treat as string
-    }
-    onChange({ ...value, [key]: newValue })
+  const handleSettingChange = (key: GrammarSettingKey, checked: boolean) => {
+    onChange({ ...value, settings: { ...value.settings, [key]: checked } })
   }
 
   return (
-    <div className="space-y-4">
-      <Label>Exercise Data</Label>
-      <p className="text-sm text-slate-500">
-        Define the structure of your grammar exercise, e.g., &quot;instructions&quot;, &quot;questions&quot;. Values can be text or JSON.
-      </p>
-      
-      {entries.length === 0 && (
-        <div className="text-center text-sm text-slate-500 py-4 border-2 border-dashed rounded-lg">
-          No exercise data defined.
-        </div>
-      )}
+    <div className="space-y-6">
+      <div className="space-y-2">
+        <Label htmlFor="grammar-instructions">Instructions (Optional)</Label>
+        <Textarea
+          id="grammar-instructions"
+          value={value.instructions || ""}
+          onChange={(e) => onChange({ ...value, instructions: e.target.value || undefined })}
+          placeholder="e.g., Choose the correct form of the verb."
+          disabled={disabled}
+          rows={2}
+        />
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-3">
+        {settingLabels.map(({ key, label, description, defaultValue }) => (
+          <div key={key} className="flex items-start space-x-2 p-3 bg-slate-50 rounded-lg">
+            <Switch
+              id={`grammar-setting-${key}`}
+              checked={value.settings?.[key] ?? defaultValue}
+              onCheckedChange={(checked) => handleSettingChange(key, checked)}
+              disabled={disabled}
+            />
+            <div>
+              <Label htmlFor={`grammar-setting-${key}`} className="text-sm">{label}</Label>
+              <p className="text-xs text-slate-500">{description}</p>
+            </div>
+          </div>
+        ))}
+      </div>
 
       <div className="space-y-3">
-        {entries.map(([key, val]) => (
-          <div key={key} className="grid grid-cols-[1fr_2fr_auto] gap-2 items-start p-3 bg-slate-50 rounded-lg">
+        <div className="flex items-center justify-between">
+          <Label>Questions</Label>
+          <Badge variant="outline">{questions.length} questions</Badge>
+        </div>
+
+        {questions.length === 0 && (
+          <div className="text-center text-sm text-slate-500 py-4 border-2 border-dashed rounded-lg">
+            No questions yet. Add at least one question.
+          </div>
+        )}
+
+        {questions.map((question, index) => (
+          <div key={index} className="space-y-3 p-4 bg-slate-50 rounded-lg border">
+            <div className="flex items-center justify-between">
+              <span className="text-sm font-medium text-slate-700">Question {index + 1}</span>
+              <Button
+                type="button"
+                variant="ghost"
+                size="icon"
+                onClick={() => handleRemoveQuestion(index)}
+                disabled={disabled}
+                className="text-red-500 hover:text-red-600 hover:bg-red-50"
+              >
+                <Trash2 className="h-4 w-4" />
+              </Button>
+            </div>
+
+            <div className="space-y-1">
+              <Label htmlFor={`question-${index}`} className="text-xs">Question</Label>
+              <Textarea
+                id={`question-${index}`}
+                value={question.question}
+                onChange={(e) => handleQuestionChange(index, { question: e.target.value })}
+                placeholder="e.g., She ___ to school every day. (go)"
+                disabled={disabled}
+                rows={2}
+              />
+            </div>
+
             <div className="space-y-1">
-              <Label htmlFor={`key-${key}`} className="text-xs">Key</Label>
+              <Label htmlFor={`answer-${index}`} className="text-xs">Correct Answer</Label>
               <Input
-                id={`key-${key}`}
-                value={key}
-                onChange={(e) => handleKeyChange(key, e.target.value)}
-                placeholder="e.g., instructions"
+                id={`answer-${index}`}
+                value={question.correctAnswer}
+                onChange={(e) => handleQuestionChange(index, { correctAnswer: e.target.value })}
+                placeholder="e.g., goes"
                 disabled={disabled}
               />
             </div>
+
+            <div className="space-y-2">
+              <Label className="text-xs">Options (Optional, for multiple choice)</Label>
+              {(question.options || []).map((option, optionIndex) => (
+                <div key={optionIndex} className="flex items-center gap-2">
+                  <Input
+                    value={option}
+                    onChange={(e) => handleOptionChange(index, optionIndex, e.target.value)}
+                    placeholder={`Option ${optionIndex + 1}`}
+                    disabled={disabled}
+                  />
+                  <Button
+                    type="button"
+                    variant="ghost"
+                    size="icon"
+                    onClick={() => handleRemoveOption(index, optionIndex)}
+                    disabled={disabled}
+                  >
+                    <X className="h-4 w-4" />
+                  </Button>
+                </div>
+              ))}
+              {question.options && question.options.length > 0 && !question.options.includes(question.correctAnswer) && (
+                <p className="text-xs text-amber-600">The correct answer is not one of the options.</p>
+              )}
+              <Button
+                type="button"
+                variant="outline"
+                size="sm"
+                onClick={() => handleAddOption(index)}
+                disabled={disabled}
+              >
+                <PlusCircle className="h-4 w-4 mr-2" />
+                Add Option
+              </Button>
+            </div>
+
             <div className="space-y-1">
-              <Label htmlFor={`value-${key}`} className="text-xs">Value</Label>
+              <Label htmlFor={`explanation-${index}`} className="text-xs">Explanation (Optional)</Label>
               <Textarea
-                id={`value-${key}`}
-                value={typeof val === 'string' ? val : JSON.stringify(val, null, 2)}
-                onChange={(e) => handleValueChange(key, e.target.value)}
-                placeholder='e.g., "Complete the sentences." or [{"q": "...", "a": "..."}]'
+                id={`explanation-${index}`}
+                value={question.explanation || ""}
+                onChange={(e) => handleQuestionChange(index, { explanation: e.target.value || undefined })}
+                placeholder="Why is this the correct answer?"
                 disabled={disabled}
-                rows={typeof val === 'string' ? 1 : 4}
-                className="font-mono text-sm"
+                rows={2}
               />
             </div>
-            <Button
-              type="button"
-              variant="ghost"
-              size="icon"
-              onClick={() => handleRemoveEntry(key)}
-              disabled={disabled}
-              className="text-red-500 hover:text-red-600 hover:bg-red-50 self-center"
-            >
-              <Trash2 className="h-4 w-4" />
-            </Button>
           </div>
         ))}
-      </div>
 
-      <div className="flex items-center gap-2 pt-4 border-t">
-        <Input
-          value={newKey}
-          onChange={(e) => setNewKey(e.target.value)}
-          placeholder="Enter new key name"
-          onKeyDown={(e) => e.key === 'Enter' && handleAddEntry()}
-          disabled={disabled}
-        />
         <Button
           type="button"
           variant="outline"
-          onClick={handleAddEntry}
-          disabled={!newKey || newKey in value}
+          onClick={handleAddQuestion}
+          disabled={disabled}
+          className="w-full"
         >
           <PlusCircle className="h-4 w-4 mr-2" />
-          Add Key
+          Add Question
         </Button>
       </div>
     </div>
@@ -0,0 +1,303 @@
+"use client"
+
+import { useRef, useState } from "react"
+import { format } from "date-fns"
+import type { Job } from "@prisma/client"
+import { Button } from "@/components/ui/button"
+import { Badge } from "@/components/ui/badge"
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table"
+import { JobStatusIndicator } from "@/components/ui/job-status-indicator"
+import { AlertTriangle, CalendarPlus, Repeat, Upload } from "lucide-react"
+import { useToast } from "@/hooks/use-toast"
+import { previewIcsScheduleImport, importIcsSchedules } from "@/hooks/api/students"
+import { describeConflict } from "@/components/class-scheduler"
+import type { BulkImportError, IcsImportEvent, IcsImportPreview } from "@/lib/types"
+
+interface IcsScheduleImportProps {
+  students: { id: string; name: string }[]
+  onImported?: () => void
+}
+
+type ImportJobResult = { createdCount: number; errors: BulkImportError[] }
+
+/** Select value for leaving an event out of the import. */
+const NO_STUDENT = "none"
+
+const matchLabels = {
+  attendee: "Attendee email",
+  summary: "Name in title",
+  manual: "Chosen",
+}
+
+export function IcsScheduleImport({ students, onImported }: IcsScheduleImportProps) {
+  const [isOpen, setIsOpen] = useState(false)
+  const [fileName, setFileName] = useState("")
+  const [content, setContent] = useState("")
+  const [preview, setPreview] = useState<IcsImportPreview | null>(null)
+  // Students chosen by the teacher, by event UID, replacing the automatic match
+  const [mappings, setMappings] = useState<Record<string, string | null>>({})
+  const [isLoading, setIsLoading] = useState(false)
+  const [jobId, setJobId] = useState<string | null>(null)
+  const [result, setResult] = useState<ImportJobResult | null>(null)
+  const fileInputRef = useRef<HTMLInputElement>(null)
+  const { toast } = useToast()
+
+  const getStudentId = (event: IcsImportEvent) =>
+    event.uid in mappings ? mappings[event.uid] : event.studentId
+
+  const importable = (preview?.events ?? []).filter((event) => !event.skippedReason && getStudentId(event))
+  const classCount = importable.reduce((sum, event) => sum + event.occurrences.length, 0)
+  const conflictCount = importable.reduce(
+    (sum, event) => sum + event.occurrences.filter((occurrence) => occurrence.conflicts.length > 0).length,
+    0
+  )
+
+  const reset = () => {
+    setFileName("")
+    setContent("")
+    setPreview(null)
+    setMappings({})
+    setJobId(null)
+    setResult(null)
+    if (fileInputRef.current) fileInputRef.current.value = ""
+  }
+
+  const handleFileUpload = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0]
+    if (!file) return
+    if (!file.name.toLowerCase().endsWith(".ics")) {
+      toast({
+        title: "Invalid file type",
+        description: "Please upload an iCalendar (.ics) file.",
+        variant: "destructive",
+      })
+      return
+    }
+
+    setIsLoading(true)
+    try {
+      const text = await file.text()
+      const response = await previewIcsScheduleImport(text)
+      setFileName(file.name)
+      setContent(text)
+      setPreview(response.data)
+      setMappings({})
+      setResult(null)
+      if (response.data.events.length === 0) {
+        toast({ title: "No events found", description: "The file does not contain any events." })
+      }
+    } catch (error) {
+      console.error("Failed to read calendar file:", error)
+      toast({
+        title: "Error",
+        description: "Failed to read the calendar file. Please check the file.",
+        variant: "destructive",
+      })
+    } finally {
+      setIsLoading(false)
+    }
+  }
+
+  const handleImport = async () => {
+    setIsLoading(true)
+    try {
+      const response = await importIcsSchedules(content, mappings)
+      setJobId(response.data.id)
+    } catch (error) {
+      console.error("Failed to start calendar import:", error)
+      toast({
+        title: "Import failed",
+        description: error instanceof Error ? error.message : "Failed to start the import.",
+        variant: "destructive",
+      })
+    } finally {
+      setIsLoading(false)
+    }
+  }
+
+  const handleJobComplete = (job: Job) => {
+    const jobResult = job.result as ImportJobResult | null
+    setJobId(null)
+    setResult(jobResult)
+    toast({
+      title: "Import complete",
+      description: `${jobResult?.createdCount ?? 0} classes were created.`,
+    })
+    onImported?.()
+  }
+
+  return (
+    <>
+      <Button variant="outline" onClick={() => setIsOpen(true)}>
+        <CalendarPlus className="h-4 w-4 mr-2" />
+        Import .ics
+      </Button>
+
+      <Dialog
+        open={isOpen}
+        onOpenChange={(open) => {
+          setIsOpen(open)
+          if (!open && !jobId) reset()
+        }}
+      >
+        <DialogContent className="max-w-4xl">
+          <DialogHeader>
+            <DialogTitle>Import Classes from a Calendar</DialogTitle>
+            <DialogDescription>
+              Upload an .ics file exported from Google Calendar, Apple Calendar or Outlook. Events are assigned to
+              students by attendee email or by a student&apos;s name in the title; upcoming classes of the next year
+              are imported.
+            </DialogDescription>
+          </DialogHeader>
+
+          <div className="flex items-center gap-3">
+            <input ref={fileInputRef} type="file" accept=".ics,text/calendar" onChange={handleFileUpload} className="hidden" />
+            <Button variant="outline" onClick={() => fileInputRef.current?.click()} disabled={isLoading || !!jobId}>
+              <Upload className="h-4 w-4 mr-2" />
+              Choose File
+            </Button>
+            <span className="text-sm text-slate-600">{fileName || "No file chosen"}</span>
+          </div>
+
+          {preview && preview.events.length > 0 && (
+            <div className="max-h-[50vh] overflow-y-auto border rounded-lg">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Event</TableHead>
+                    <TableHead>Classes</TableHead>
+                    <TableHead>Student</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {preview.events.map((event) => {
+                    const studentId = getStudentId(event)
+                    const conflicts = event.occurrences.flatMap((occurrence) => occurrence.conflicts)
+                    const [first] = event.occurrences
+                    return (
+                      <TableRow key={event.uid}>
+                        <TableCell className="align-top">
+                          <div className="font-medium">{event.summary || "(No title)"}</div>
+                          {event.recurrence && (
+                            <div className="flex items-center text-xs text-slate-500">
+                              <Repeat className="h-3 w-3 mr-1" />
+                              {event.recurrence}
+                            </div>
+                          )}
+                          {event.skippedReason && <p className="text-xs text-red-600">{event.skippedReason}</p>}
+                          {conflicts.length > 0 && (
+                            <ul className="mt-1 space-y-0.5 text-xs text-orange-700">
+                              {conflicts.slice(0, 3).map((conflict) => (
+                                <li key={`${conflict.scheduledTime}-${conflict.conflictingScheduleId}`}>
+                                  {describeConflict(conflict)}
+                                </li>
+                              ))}
+                              {conflicts.length > 3 && <li>and {conflicts.length - 3} more</li>}
+                            </ul>
+                          )}
+                        </TableCell>
+                        <TableCell className="align-top whitespace-nowrap">
+                          {first ? (
+                            <>
+                              <div>{event.occurrences.length}</div>
+                              <div className="text-xs text-slate-500">
+                                from {format(new Date(first.scheduledTime), "MMM dd, yyyy HH:mm")}
+                              </div>
+                              {conflicts.length > 0 && (
+                                <Badge variant="outline" className="mt-1 text-orange-700 border-orange-200">
+                                  <AlertTriangle className="h-3 w-3 mr-1" />
+                                  {conflicts.length} overlap{conflicts.length === 1 ? "" : "s"}
+                                </Badge>
+                              )}
+                            </>
+                          ) : (
+                            <span className="text-slate-400">—</span>
+                          )}
+                        </TableCell>
+                        <TableCell className="align-top">
+                          <Select
+                            value={studentId ?? NO_STUDENT}
+                            onValueChange={(value) =>
+                              setMappings((prev) => ({ ...prev, [event.uid]: value === NO_STUDENT ? null : value }))
+                            }
+                            disabled={!!event.skippedReason || !!jobId}
+                          >
+                            <SelectTrigger className="w-48">
+                              <SelectValue />
+                            </SelectTrigger>
+                            <SelectContent>
+                              <SelectItem value={NO_STUDENT}>Don&apos;t import</SelectItem>
+                              {students.map((student) => (
+                                <SelectItem key={student.id} value={student.id}>
+                                  {student.name}
+                                </SelectItem>
+                              ))}
+                            </SelectContent>
+                          </Select>
+                          {event.matchedBy && !(event.uid in mappings) && (
+                            <div className="mt-1 text-xs text-slate-500">{matchLabels[event.matchedBy]}</div>
+                          )}
+                        </TableCell>
+                      </TableRow>
+                    )
+                  })}
+                </TableBody>
+              </Table>
+            </div>
+          )}
+
+          {jobId && (
+            <JobStatusIndicator
+              jobId={jobId}
+              title="Importing Classes"
+              description="Creating the classes in the background."
+              onComplete={handleJobComplete}
+            />
+          )}
+
+          {result && result.errors.length > 0 && (
+            <div className="rounded-lg border border-orange-200 bg-orange-50 p-3 text-sm text-orange-800">
+              <p className="font-medium">{result.errors.length} classes were skipped:</p>
+              <ul className="mt-1 max-h-32 overflow-y-auto space-y-0.5 text-xs">
+                {result.errors.map((error) => (
+                  <li key={`${error.rowNumber}-${error.fieldName}`}>{error.errorMessage}</li>
+                ))}
+              </ul>
+            </div>
+          )}
+
+          <DialogFooter className="items-center">
+            {preview && !result && (
+              <span className="mr-auto text-sm text-slate-600">
+                {classCount} class{classCount === 1 ? "" : "es"} for {importable.length} event
+                {importable.length === 1 ? "" : "s"}
+                {conflictCount > 0 && `, ${conflictCount} overlapping will be skipped`}
+              </span>
+            )}
+            <Button variant="outline" onClick={() => setIsOpen(false)}>
+              {result ? "Close" : "Cancel"}
+            </Button>
+            {!result && (
+              <Button
+                onClick={handleImport}
+                disabled={classCount === 0 || isLoading || !!jobId}
+                className="bg-blue-600 hover:bg-blue-700"
+              >
+                {jobId ? "Importing..." : `Import ${classCount} Class${classCount === 1 ? "" : "es"}`}
+              </Button>
+            )}
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </>
+  )
+}
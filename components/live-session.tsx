@@ -1,12 +1,12 @@
 "use client"
 
-import { useEffect, useMemo } from "react"
+import { useEffect, useMemo, useRef } from "react"
 import { Button } from "@/components/ui/button"
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
 import { Progress } from "@/components/ui/progress"
 import { Badge } from "@/components/ui/badge"
 import { Skeleton } from "@/components/ui/skeleton"
-import { Clock, ArrowLeft, Pause, Play, CheckCircle } from "lucide-react"
+import { Clock, ArrowLeft, Pause, Play, CheckCircle, Undo2 } from "lucide-react"
 import { useRouter } from "next/navigation"
 import { useToast } from "@/hooks/use-toast"
 import { useSession, submitAnswer, endSession } from "@/hooks/api/sessions"
@@ -26,6 +26,9 @@ type CorrectnessRating = { isCorrect: boolean }
 type AnyRating = Rating | CorrectnessRating
 type EnrichedStudentCardState = StudentCardState & { card: VocabularyCard };
 
+// Exercise types whose reviews are recorded in the FSRS ledger and can be undone
+const UNDOABLE_PROGRESS_TYPES: SessionProgress['type'][] = ['VOCABULARY_DECK', 'GENERIC_DECK', 'LISTENING_EXERCISE']
+
 export function LiveSession({ sessionId }: LiveSessionProps) {
   const { session, isLoading: sessionLoading, isError } = useSession(sessionId)
   const router = useRouter()
@@ -39,16 +42,40 @@ export function LiveSession({ sessionId }: LiveSessionProps) {
     pauseSession,
     resumeSession,
     incrementReviewCount,
+    decrementReviewCount,
+    setCanUndo,
     setElapsedTime,
     initializeSession,
     setProgress,
     reset,
     progress,
     reviewCount,
+    canUndo,
     encounteredCards,
     sessionId: storeSessionId,
   } = useLiveSessionStore()
 
+  // Response timing: measured from the moment a card is presented until the answer
+  // is revealed (self-graded) or, failing that, until the rating is submitted.
+  const presentedAtRef = useRef(Date.now())
+  const responseTimeRef = useRef<number | null>(null)
+  const currentCardData = progress?.payload.currentCardData
+  const currentCardKey = currentCardData
+    ? String('cardId' in currentCardData ? currentCardData.cardId : currentCardData.id)
+    : null
+  const isPresentingStage = progress?.stage === 'PRESENTING_CARD' ||
+    progress?.stage === 'PLAYING_AUDIO' ||
+    progress?.stage === 'PRESENTING_QUESTION'
+  // reviewCount distinguishes repeated presentations of the same card
+  const presentationKey = isPresentingStage && currentCardKey ? `${currentCardKey}:${reviewCount}` : null
+
+  useEffect(() => {
+    if (presentationKey) {
+      presentedAtRef.current = Date.now()
+      responseTimeRef.current = null
+    }
+  }, [presentationKey])
+
   const progressData = useMemo(() => {
     if (!progress) {
       return {
@@ -96,11 +123,11 @@ export function LiveSession({ sessionId }: LiveSessionProps) {
         learningCards: queue.filter(c => 'state' in c && (c.state === 'LEARNING' || c.state === 'RELEARNING')).length,
         reviewCards: queue.filter(c => 'state' in c && c.state === 'REVIEW').length,
       };
-    } else if (progress.type === 'FILL_IN_THE_BLANK_EXERCISE') {
-      // Fill in the blank exercises have a simple queue structure
+    } else if (progress.type === 'FILL_IN_THE_BLANK_EXERCISE' || progress.type === 'GRAMMAR_EXERCISE') {
+      // Fill in the blank and grammar exercises have a simple queue structure
       queueAnalysis = {
         totalInQueue: queue.length,
-        newCards: 0, // Fill in the blank cards don't have FSRS states
+        newCards: 0, // These items don't have FSRS states
         learningCards: 0,
         reviewCards: queue.length, // All cards are considered review
       };
@@ -149,6 +176,7 @@ export function LiveSession({ sessionId }: LiveSessionProps) {
   const handleRevealAnswer = async () => {
     if (!session) return
 
+    responseTimeRef.current = Date.now() - presentedAtRef.current
     setActionLoading(true)
     try {
       // Determine the correct action based on exercise type
@@ -179,23 +207,26 @@ export function LiveSession({ sessionId }: LiveSessionProps) {
     try {
       incrementReviewCount() // Optimistic update
       
+      const responseTimeMs = responseTimeRef.current ?? Date.now() - presentedAtRef.current
+
       // Convert rating to the expected backend format
-      let data: { rating: number } | { isCorrect: boolean };
+      let data: { rating: number; responseTimeMs: number } | { isCorrect: boolean; responseTimeMs: number };
       
-      // Fill-in-the-blank exercises expect isCorrect format instead of rating format
-      const isFillInTheBlank = session.currentUnitItem?.type === 'FILL_IN_THE_BLANK_EXERCISE';
+      // Fill-in-the-blank and grammar exercises expect isCorrect format instead of rating format
+      const isCorrectnessBased = session.currentUnitItem?.type === 'FILL_IN_THE_BLANK_EXERCISE' ||
+        session.currentUnitItem?.type === 'GRAMMAR_EXERCISE';
       
       if (typeof rating === 'number') {
-        if (isFillInTheBlank) {
-          // Convert numeric rating to boolean for fill-in-the-blank
+        if (isCorrectnessBased) {
+          // Convert numeric rating to boolean for correctness-based exercises
           // Rating 1 = incorrect, Rating 4 = correct
-          data = { isCorrect: rating === 4 };
+          data = { isCorrect: rating === 4, responseTimeMs };
         } else {
           // Use numeric rating for other exercise types
-          data = { rating };
+          data = { rating, responseTimeMs };
         }
       } else if (typeof rating === 'object' && 'isCorrect' in rating) {
-        data = { isCorrect: rating.isCorrect };
+        data = { isCorrect: rating.isCorrect, responseTimeMs };
       } else {
         throw new Error('Invalid rating format');
       }
@@ -205,6 +236,14 @@ export function LiveSession({ sessionId }: LiveSessionProps) {
       if (result.data.newState.progress) {
         setProgress(result.data.newState.progress as SessionProgress)
       }
+      // Undo is only possible while the student is still in the same exercise
+      const newType = (result.data.newState.progress as SessionProgress | null)?.type
+      setCanUndo(
+        !!progress &&
+        UNDOABLE_PROGRESS_TYPES.includes(progress.type) &&
+        newType === progress.type &&
+        result.data.newState.currentUnitItemId === session.currentUnitItemId
+      )
     } catch (error) {
       console.error("Failed to submit rating:", error)
       toast({
@@ -217,6 +256,56 @@ export function LiveSession({ sessionId }: LiveSessionProps) {
     }
   }
 
+  const handleSubmitTextAnswer = async (answer: string, responseTimeMs: number) => {
+    if (!session) return
+
+    setActionLoading(true)
+    try {
+      const payload: AnswerPayload = { action: 'SUBMIT_TEXT_ANSWER', data: { answer, responseTimeMs } }
+      const result = await submitAnswer(sessionId, payload)
+      if (result.data.newState.progress) {
+        setProgress(result.data.newState.progress as SessionProgress)
+      }
+    } catch (error) {
+      console.error("Failed to submit typed answer:", error)
+      toast({
+        title: "Error",
+        description: "Failed to check the answer. Please try again.",
+        variant: "destructive",
+      })
+    } finally {
+      setActionLoading(false)
+    }
+  }
+
+  const handleUndo = async () => {
+    if (!session) return
+
+    setActionLoading(true)
+    try {
+      const payload: AnswerPayload = { action: 'UNDO', data: {} }
+      const result = await submitAnswer(sessionId, payload)
+      if (result.data.newState.progress) {
+        setProgress(result.data.newState.progress as SessionProgress)
+      }
+      decrementReviewCount()
+      setCanUndo(false)
+      toast({
+        title: "Review undone",
+        description: "The last rating was reverted. Submit the correct rating.",
+      })
+    } catch (error) {
+      console.error("Failed to undo review:", error)
+      toast({
+        title: "Error",
+        description: "Failed to undo the last review. Please try again.",
+        variant: "destructive",
+      })
+    } finally {
+      setActionLoading(false)
+    }
+  }
+
   const handleEndSession = async () => {
     if (!session) return
 
@@ -352,6 +441,12 @@ export function LiveSession({ sessionId }: LiveSessionProps) {
               <Clock className="h-4 w-4" />
               <span>{formatTime(elapsedTime)}</span>
             </div>
+            {canUndo && (
+              <Button variant="outline" size="sm" onClick={handleUndo} disabled={isActionLoading}>
+                <Undo2 className="h-4 w-4 mr-2" />
+                Undo
+              </Button>
+            )}
             <Button variant="outline" size="sm" onClick={togglePause}>
               {isPaused ? <Play className="h-4 w-4" /> : <Pause className="h-4 w-4" />}
             </Button>
@@ -478,6 +573,7 @@ export function LiveSession({ sessionId }: LiveSessionProps) {
               sessionState={session}
               onRevealAnswer={handleRevealAnswer}
               onSubmitRating={handleRating}
+              onSubmitTextAnswer={handleSubmitTextAnswer}
               isLoading={isActionLoading}
             />
           </div>
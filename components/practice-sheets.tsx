@@ -0,0 +1,145 @@
+"use client"
+
+import { useState } from "react"
+import { format } from "date-fns"
+import { JobStatus } from "@prisma/client"
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
+import { Badge } from "@/components/ui/badge"
+import { Button } from "@/components/ui/button"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { Skeleton } from "@/components/ui/skeleton"
+import { Download, FileText, Printer } from "lucide-react"
+import { useToast } from "@/hooks/use-toast"
+import { JobStatusIndicator } from "@/components/ui/job-status-indicator"
+import { usePracticeSheets, generatePracticeSheet } from "@/hooks/api/students"
+import type { PracticeSheetResult } from "@/lib/types"
+
+interface PracticeSheetsProps {
+  studentId: string
+  disabled?: boolean
+}
+
+const ITEMS_PER_SECTION_OPTIONS = [20, 40, 60, 100]
+
+const describeSheet = (result: PracticeSheetResult) =>
+  [
+    `${result.vocabularyCount} words`,
+    `${result.genericCount} flashcards`,
+    `${result.fillInTheBlankCount} sentences`,
+  ].join(" · ")
+
+export function PracticeSheets({ studentId, disabled }: PracticeSheetsProps) {
+  const { sheets, isLoading, mutate } = usePracticeSheets(studentId)
+  const [itemsPerSection, setItemsPerSection] = useState(40)
+  const [jobId, setJobId] = useState<string | null>(null)
+  const [isSubmitting, setIsSubmitting] = useState(false)
+  const { toast } = useToast()
+
+  const handleGenerate = async () => {
+    setIsSubmitting(true)
+    try {
+      const response = await generatePracticeSheet(studentId, { maxItemsPerSection: itemsPerSection })
+      setJobId(response.data.id)
+      await mutate()
+    } catch (error) {
+      console.error("Failed to queue practice sheet:", error)
+      toast({
+        title: "Error",
+        description: "Failed to queue the practice sheet.",
+        variant: "destructive",
+      })
+    } finally {
+      setIsSubmitting(false)
+    }
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center justify-between">
+          <CardTitle className="flex items-center space-x-2">
+            <Printer className="h-5 w-5" />
+            <span>Practice Sheets</span>
+          </CardTitle>
+          <div className="flex items-center gap-2">
+            <Select value={String(itemsPerSection)} onValueChange={(value) => setItemsPerSection(Number(value))}>
+              <SelectTrigger className="w-40">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {ITEMS_PER_SECTION_OPTIONS.map((value) => (
+                  <SelectItem key={value} value={String(value)}>
+                    {value} per section
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Button
+              onClick={handleGenerate}
+              disabled={disabled || isSubmitting || !!jobId}
+              className="bg-blue-600 hover:bg-blue-700"
+            >
+              <FileText className="h-4 w-4 mr-2" />
+              Generate PDF
+            </Button>
+          </div>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <p className="text-sm text-slate-500">
+          A printable sheet with the student&apos;s due vocabulary and flashcards and the fill-in-the-blank sentences
+          they have not finished yet. The answer key is on a separate page.
+        </p>
+
+        {jobId && (
+          <JobStatusIndicator
+            jobId={jobId}
+            title="Generating Practice Sheet"
+            description="Rendering the PDF in the background."
+            onComplete={() => {
+              setJobId(null)
+              mutate()
+            }}
+          />
+        )}
+
+        {isLoading ? (
+          <Skeleton className="h-24 w-full" />
+        ) : sheets.length === 0 ? (
+          <div className="text-center py-8">
+            <FileText className="h-12 w-12 text-slate-300 mx-auto mb-4" />
+            <p className="text-slate-500">No practice sheets generated yet.</p>
+          </div>
+        ) : (
+          <div className="border rounded-lg divide-y">
+            {sheets.map((sheet) => {
+              const result = sheet.status === JobStatus.COMPLETED ? (sheet.result as PracticeSheetResult) : null
+              return (
+                <div key={sheet.id} className="flex items-center justify-between gap-4 px-4 py-3">
+                  <div className="min-w-0">
+                    <p className="text-sm font-medium text-slate-900">
+                      {format(new Date(sheet.createdAt), "MMM dd, yyyy HH:mm")}
+                    </p>
+                    <p className="text-xs text-slate-500">
+                      {result ? describeSheet(result) : sheet.error ?? "Waiting for the worker..."}
+                    </p>
+                  </div>
+                  {result ? (
+                    <Button variant="outline" size="sm" asChild>
+                      <a href={result.downloadUrl} download={result.fileName}>
+                        <Download className="h-4 w-4 mr-2" />
+                        Download
+                      </a>
+                    </Button>
+                  ) : (
+                    <Badge variant="outline">{sheet.status}</Badge>
+                  )}
+                </div>
+              )
+            })}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
@@ -0,0 +1,131 @@
+"use client"
+
+import { useState } from "react"
+import { Bar, BarChart, CartesianGrid, XAxis, YAxis } from "recharts"
+import { format, parseISO } from "date-fns"
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
+import { Label } from "@/components/ui/label"
+import { Switch } from "@/components/ui/switch"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { Skeleton } from "@/components/ui/skeleton"
+import { Alert, AlertDescription } from "@/components/ui/alert"
+import {
+  ChartContainer,
+  ChartLegend,
+  ChartLegendContent,
+  ChartTooltip,
+  ChartTooltipContent,
+  type ChartConfig,
+} from "@/components/ui/chart"
+import { AlertTriangle, CalendarDays } from "lucide-react"
+import { useReviewForecast } from "@/hooks/api/students"
+
+interface ReviewForecastChartProps {
+  studentId: string
+}
+
+const FORECAST_RANGES = [7, 14, 30, 90]
+
+const chartConfig = {
+  vocabulary: { label: "Vocabulary", color: "#3b82f6" },
+  generic: { label: "Generic", color: "#8b5cf6" },
+  listening: { label: "Listening", color: "#10b981" },
+  newCards: { label: "New Cards", color: "#f59e0b" },
+} satisfies ChartConfig
+
+export function ReviewForecastChart({ studentId }: ReviewForecastChartProps) {
+  const [days, setDays] = useState(30)
+  const [includeNewCards, setIncludeNewCards] = useState(false)
+  const { forecast, isLoading, isError } = useReviewForecast(studentId, { days, includeNewCards })
+
+  const series = (Object.keys(chartConfig) as (keyof typeof chartConfig)[]).filter(
+    (key) => key !== "newCards" || includeNewCards,
+  )
+  const totalReviews = forecast?.forecast.reduce((sum, day) => sum + day.total, 0) ?? 0
+  const busiestDay = forecast?.forecast.reduce((max, day) => (day.total > max.total ? day : max), forecast.forecast[0])
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex flex-col gap-4 md:flex-row md:items-center md:justify-between">
+          <CardTitle className="flex items-center space-x-2">
+            <CalendarDays className="h-5 w-5" />
+            <span>Review Forecast</span>
+          </CardTitle>
+          <div className="flex items-center gap-4">
+            <div className="flex items-center space-x-2">
+              <Switch id="forecast-new-cards" checked={includeNewCards} onCheckedChange={setIncludeNewCards} />
+              <Label htmlFor="forecast-new-cards" className="text-sm">
+                Include new cards
+              </Label>
+            </div>
+            <Select value={String(days)} onValueChange={(value) => setDays(Number(value))}>
+              <SelectTrigger className="w-32">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {FORECAST_RANGES.map((range) => (
+                  <SelectItem key={range} value={String(range)}>
+                    Next {range} days
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {isError ? (
+          <Alert>
+            <AlertTriangle className="h-4 w-4" />
+            <AlertDescription>Failed to load the review forecast.</AlertDescription>
+          </Alert>
+        ) : isLoading || !forecast ? (
+          <Skeleton className="h-64 w-full" />
+        ) : (
+          <>
+            <div className="flex flex-wrap gap-6 text-sm text-slate-600">
+              <span>
+                <span className="font-semibold text-slate-900">{totalReviews.toLocaleString()}</span> reviews in the
+                next {forecast.days} days
+              </span>
+              {busiestDay && busiestDay.total > 0 && (
+                <span>
+                  Busiest day:{" "}
+                  <span className="font-semibold text-slate-900">
+                    {format(parseISO(busiestDay.date), "MMM d")} ({busiestDay.total})
+                  </span>
+                </span>
+              )}
+              {forecast.overdue > 0 && (
+                <span className="text-red-600">{forecast.overdue} overdue, included in today</span>
+              )}
+            </div>
+            <ChartContainer config={chartConfig} className="h-64 w-full">
+              <BarChart data={forecast.forecast}>
+                <CartesianGrid vertical={false} />
+                <XAxis
+                  dataKey="date"
+                  tickLine={false}
+                  axisLine={false}
+                  minTickGap={16}
+                  tickFormatter={(value: string) => format(parseISO(value), "MMM d")}
+                />
+                <YAxis tickLine={false} axisLine={false} allowDecimals={false} width={32} />
+                <ChartTooltip
+                  content={
+                    <ChartTooltipContent labelFormatter={(value: string) => format(parseISO(value), "EEE, MMM d")} />
+                  }
+                />
+                <ChartLegend content={<ChartLegendContent />} />
+                {series.map((key) => (
+                  <Bar key={key} dataKey={key} stackId="reviews" fill={`var(--color-${key})`} />
+                ))}
+              </BarChart>
+            </ChartContainer>
+          </>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
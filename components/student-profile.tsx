@@ -39,6 +39,7 @@ import {
   useStudent,
   useAvailableUnits,
   assignDeck,
+  updateDeckLimits,
   updateStudent,
   archiveStudent,
   updateStudentNotes,
@@ -57,6 +58,9 @@ import {
 import { PaymentManager } from "@/components/payment-manager"
 import { ClassScheduler } from "@/components/class-scheduler"
 import { JobStatusIndicator } from "@/components/ui/job-status-indicator"
+import { PracticeSheets } from "@/components/practice-sheets"
+import { DeferredJobs } from "@/components/deferred-jobs"
+import type { StudentStatus } from "@prisma/client"
 
 
 interface StudentProfileProps {
@@ -88,9 +92,17 @@ export function StudentProfile({ studentId }: StudentProfileProps) {
     phone: "",
     proficiencyLevel: "",
     notes: "",
+    status: "ACTIVE" as StudentStatus,
   })
   const [isUpdating, setIsUpdating] = useState(false)
   const [isArchiving, setIsArchiving] = useState(false)
+  const [editingLimitsDeck, setEditingLimitsDeck] = useState<{
+    deckId: string
+    deckName: string
+    type: "Vocabulary" | "Generic"
+  } | null>(null)
+  const [limitsFormData, setLimitsFormData] = useState({ dailyNewCards: "", dailyReviewLimit: "" })
+  const [isSavingLimits, setIsSavingLimits] = useState(false)
   const { toast } = useToast()
 
   React.useEffect(() => {
@@ -107,6 +119,7 @@ export function StudentProfile({ studentId }: StudentProfileProps) {
         phone: student.phone || "",
         proficiencyLevel: student.proficiencyLevel || "",
         notes: student.notes || "",
+        status: student.status,
       })
     }
   }, [student])
@@ -195,6 +208,7 @@ export function StudentProfile({ studentId }: StudentProfileProps) {
         phone: editFormData.phone || undefined,
         proficiencyLevel: editFormData.proficiencyLevel || undefined,
         notes: editFormData.notes || undefined,
+        status: editFormData.status,
       })
       toast({
         title: "Student updated",
@@ -238,10 +252,56 @@ export function StudentProfile({ studentId }: StudentProfileProps) {
     }
   }
 
+  const handleOpenLimits = (deck: { deckId: string; deck: { name: string }; type: "Vocabulary" | "Generic"; dailyNewCards: number; dailyReviewLimit: number }) => {
+    setEditingLimitsDeck({ deckId: deck.deckId, deckName: deck.deck.name, type: deck.type })
+    setLimitsFormData({
+      dailyNewCards: String(deck.dailyNewCards),
+      dailyReviewLimit: String(deck.dailyReviewLimit),
+    })
+  }
+
+  const handleSaveLimits = async () => {
+    if (!student || !editingLimitsDeck) return
+
+    const dailyNewCards = Number.parseInt(limitsFormData.dailyNewCards, 10)
+    const dailyReviewLimit = Number.parseInt(limitsFormData.dailyReviewLimit, 10)
+    if (Number.isNaN(dailyNewCards) || Number.isNaN(dailyReviewLimit) || dailyNewCards < 0 || dailyReviewLimit < 0) {
+      toast({
+        title: "Error",
+        description: "Daily limits must be whole numbers of zero or more.",
+        variant: "destructive",
+      })
+      return
+    }
+
+    setIsSavingLimits(true)
+    try {
+      await updateDeckLimits(student.id, editingLimitsDeck.deckId, editingLimitsDeck.type, {
+        dailyNewCards,
+        dailyReviewLimit,
+      })
+      toast({
+        title: "Daily limits updated",
+        description: `Limits for ${editingLimitsDeck.deckName} have been saved.`,
+      })
+      setEditingLimitsDeck(null)
+      mutate()
+    } catch (error) {
+      console.error("Failed to update daily limits:", error)
+      toast({
+        title: "Error",
+        description: "Failed to update daily limits. Please try again.",
+        variant: "destructive",
+      })
+    } finally {
+      setIsSavingLimits(false)
+    }
+  }
+
   // Combine vocabulary and generic decks for display
   const allAssignedDecks = [
-    ...(student?.studentDecks.map(sd => ({ ...sd, type: 'Vocabulary' })) || []),
-    ...(student?.studentGenericDecks.map(sgd => ({ ...sgd, type: 'Generic' })) || [])
+    ...(student?.studentDecks.map(sd => ({ ...sd, type: 'Vocabulary' as const })) || []),
+    ...(student?.studentGenericDecks.map(sgd => ({ ...sgd, type: 'Generic' as const })) || [])
   ]
 
   const assignedVocabDeckIds = new Set(student?.studentDecks.map((sd) => sd.deckId))
@@ -285,6 +345,20 @@ export function StudentProfile({ studentId }: StudentProfileProps) {
         );
       },
     },
+    {
+      key: "dailyNewCards",
+      header: "Daily Limits",
+      render: (_: unknown, row: (typeof allAssignedDecks)[number]) => (
+        <div className="flex items-center space-x-2">
+          <span className="text-sm text-slate-600">
+            {row.dailyNewCards} new / {row.dailyReviewLimit} reviews
+          </span>
+          <Button variant="ghost" size="sm" onClick={() => handleOpenLimits(row)}>
+            <Edit className="h-4 w-4" />
+          </Button>
+        </div>
+      ),
+    },
   ]
 
   if (isError) {
@@ -412,6 +486,7 @@ export function StudentProfile({ studentId }: StudentProfileProps) {
         </TabsList>
 
         <TabsContent value="overview" className="space-y-4">
+          <DeferredJobs studentId={student.id} />
           <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
             <Card>
               <CardHeader className="pb-3">
@@ -525,7 +600,7 @@ export function StudentProfile({ studentId }: StudentProfileProps) {
           </Card>
         </TabsContent>
 
-        <TabsContent value="learning">
+        <TabsContent value="learning" className="space-y-4">
           <Card>
             <CardHeader>
               <div className="flex items-center justify-between">
@@ -570,6 +645,7 @@ export function StudentProfile({ studentId }: StudentProfileProps) {
               )}
             </CardContent>
           </Card>
+          <PracticeSheets studentId={student.id} disabled={student.status !== "ACTIVE"} />
         </TabsContent>
 
         <TabsContent value="available-units">
@@ -735,6 +811,32 @@ export function StudentProfile({ studentId }: StudentProfileProps) {
                 </SelectContent>
               </Select>
             </div>
+            <div className="space-y-2">
+              <Label htmlFor="edit-status">Status</Label>
+              <Select
+                value={editFormData.status}
+                onValueChange={(value) =>
+                  setEditFormData((prev) => ({
+                    ...prev,
+                    status: value as StudentStatus,
+                  }))
+                }
+              >
+                <SelectTrigger id="edit-status">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="ACTIVE">Active</SelectItem>
+                  <SelectItem value="PAUSED">Paused</SelectItem>
+                  <SelectItem value="COMPLETED">Completed</SelectItem>
+                </SelectContent>
+              </Select>
+              {editFormData.status === "ACTIVE" && student.status !== "ACTIVE" && (
+                <p className="text-xs text-slate-500">
+                  Background work deferred while the student was not active will be queued again.
+                </p>
+              )}
+            </div>
             <div className="space-y-2">
               <Label htmlFor="edit-notes">Notes</Label>
               <Textarea
@@ -768,6 +870,51 @@ export function StudentProfile({ studentId }: StudentProfileProps) {
         </DialogContent>
       </Dialog>
 
+      <Dialog open={!!editingLimitsDeck} onOpenChange={(open) => !open && setEditingLimitsDeck(null)}>
+        <DialogContent className="max-w-md">
+          <DialogHeader>
+            <DialogTitle>Daily Limits</DialogTitle>
+            <DialogDescription>
+              Caps for {editingLimitsDeck?.deckName} shared by all of {student?.name}&apos;s sessions on the same day.
+              Days start at midnight in your time zone.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4 py-4">
+            <div className="space-y-2">
+              <Label htmlFor="limit-new-cards">New cards per day</Label>
+              <Input
+                id="limit-new-cards"
+                type="number"
+                min={0}
+                value={limitsFormData.dailyNewCards}
+                onChange={(e) => setLimitsFormData((prev) => ({ ...prev, dailyNewCards: e.target.value }))}
+                disabled={isSavingLimits}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="limit-reviews">Reviews per day</Label>
+              <Input
+                id="limit-reviews"
+                type="number"
+                min={0}
+                value={limitsFormData.dailyReviewLimit}
+                onChange={(e) => setLimitsFormData((prev) => ({ ...prev, dailyReviewLimit: e.target.value }))}
+                disabled={isSavingLimits}
+              />
+              <p className="text-xs text-slate-500">Cards still in learning steps are not counted.</p>
+            </div>
+          </div>
+          <div className="flex justify-end space-x-2">
+            <Button variant="outline" onClick={() => setEditingLimitsDeck(null)} disabled={isSavingLimits}>
+              Cancel
+            </Button>
+            <Button onClick={handleSaveLimits} disabled={isSavingLimits} className="bg-blue-600 hover:bg-blue-700">
+              {isSavingLimits ? "Saving..." : "Save Limits"}
+            </Button>
+          </div>
+        </DialogContent>
+      </Dialog>
+
       <Dialog
         open={isArchiveConfirmOpen}
         onOpenChange={setIsArchiveConfirmOpen}
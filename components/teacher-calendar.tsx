@@ -0,0 +1,343 @@
+"use client"
+
+import { useState, type CSSProperties, type DragEvent } from "react"
+import {
+  addDays,
+  addMonths,
+  addWeeks,
+  eachDayOfInterval,
+  endOfDay,
+  endOfMonth,
+  endOfWeek,
+  format,
+  isSameDay,
+  isSameMonth,
+  startOfDay,
+  startOfMonth,
+  startOfWeek,
+} from "date-fns"
+import type { ClassStatus } from "@prisma/client"
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
+import { Button } from "@/components/ui/button"
+import { Badge } from "@/components/ui/badge"
+import { Alert, AlertDescription } from "@/components/ui/alert"
+import { AlertTriangle, CalendarDays, ChevronLeft, ChevronRight, Repeat } from "lucide-react"
+import { cn } from "@/lib/utils"
+import { useToast } from "@/hooks/use-toast"
+import { useTeacherSchedules, updateSchedule } from "@/hooks/api"
+import { describeConflict, getScheduleConflicts, statusColors, statusIcons } from "@/components/class-scheduler"
+import type { TeacherClassSchedule } from "@/lib/types"
+
+type CalendarView = "day" | "week" | "month"
+
+interface TeacherCalendarProps {
+  onSelectStudent?: (studentId: string) => void
+  onScheduleUpdated?: () => void
+}
+
+// Hours shown in the day and week layouts
+const FIRST_HOUR = 7
+const LAST_HOUR = 22
+const HOUR_HEIGHT = 48
+const SNAP_MINUTES = 15
+const hours = Array.from({ length: LAST_HOUR - FIRST_HOUR }, (_, i) => FIRST_HOUR + i)
+
+// Only classes that have not taken place can be moved
+const MOVABLE_STATUSES: ClassStatus[] = ["SCHEDULED", "CONFIRMED"]
+
+const views: { value: CalendarView; label: string }[] = [
+  { value: "day", label: "Day" },
+  { value: "week", label: "Week" },
+  { value: "month", label: "Month" },
+]
+
+const getRange = (view: CalendarView, date: Date) => {
+  switch (view) {
+    case "day":
+      return { start: startOfDay(date), end: endOfDay(date) }
+    case "week":
+      return { start: startOfWeek(date, { weekStartsOn: 1 }), end: endOfWeek(date, { weekStartsOn: 1 }) }
+    case "month":
+      return {
+        start: startOfWeek(startOfMonth(date), { weekStartsOn: 1 }),
+        end: endOfWeek(endOfMonth(date), { weekStartsOn: 1 }),
+      }
+  }
+}
+
+const shiftDate = (view: CalendarView, date: Date, amount: number) => {
+  switch (view) {
+    case "day":
+      return addDays(date, amount)
+    case "week":
+      return addWeeks(date, amount)
+    case "month":
+      return addMonths(date, amount)
+  }
+}
+
+const minutesIntoDay = (date: Date) => date.getHours() * 60 + date.getMinutes()
+
+export function TeacherCalendar({ onSelectStudent, onScheduleUpdated }: TeacherCalendarProps) {
+  const [view, setView] = useState<CalendarView>("week")
+  const [anchorDate, setAnchorDate] = useState(new Date())
+  // The class being dragged, and how far below its start it was grabbed
+  const [dragging, setDragging] = useState<{ schedule: TeacherClassSchedule; grabMinutes: number } | null>(null)
+  const { toast } = useToast()
+
+  const range = getRange(view, anchorDate)
+  const { schedules, isLoading, isError, mutate } = useTeacherSchedules(range.start, range.end)
+  const days = eachDayOfInterval(range)
+
+  const getSchedulesForDate = (date: Date) =>
+    schedules.filter((schedule) => isSameDay(new Date(schedule.scheduledTime), date))
+
+  const moveSchedule = async (schedule: TeacherClassSchedule, scheduledTime: Date, allowConflicts = false) => {
+    if (scheduledTime.getTime() === new Date(schedule.scheduledTime).getTime()) {
+      return
+    }
+
+    try {
+      await updateSchedule(schedule.id, { scheduledTime: scheduledTime.toISOString(), allowConflicts })
+      toast({
+        title: "Class rescheduled",
+        description: `${schedule.studentName}'s class moved to ${format(scheduledTime, "PPP 'at' p")}.`,
+      })
+      mutate()
+      onScheduleUpdated?.()
+    } catch (error) {
+      const clashes = getScheduleConflicts(error)
+      if (clashes) {
+        if (confirm(`${clashes.map(describeConflict).join("\n")}\n\nMove the class anyway?`)) {
+          await moveSchedule(schedule, scheduledTime, true)
+        }
+        return
+      }
+      console.error("Failed to reschedule class:", error)
+      toast({
+        title: "Error",
+        description: "Failed to reschedule class. Please try again.",
+        variant: "destructive",
+      })
+    }
+  }
+
+  const handleDragStart = (e: DragEvent<HTMLDivElement>, schedule: TeacherClassSchedule) => {
+    const rect = e.currentTarget.getBoundingClientRect()
+    e.dataTransfer.effectAllowed = "move"
+    setDragging({ schedule, grabMinutes: ((e.clientY - rect.top) / HOUR_HEIGHT) * 60 })
+  }
+
+  const handleDragOver = (e: DragEvent<HTMLDivElement>) => {
+    if (dragging) {
+      e.preventDefault()
+      e.dataTransfer.dropEffect = "move"
+    }
+  }
+
+  // Day and week layouts: the drop position picks the time, snapped to SNAP_MINUTES
+  const handleDropOnTimeGrid = (e: DragEvent<HTMLDivElement>, day: Date) => {
+    e.preventDefault()
+    if (!dragging) return
+    const rect = e.currentTarget.getBoundingClientRect()
+    const minutes = ((e.clientY - rect.top) / HOUR_HEIGHT) * 60 - dragging.grabMinutes
+    const snapped = Math.max(0, Math.round(minutes / SNAP_MINUTES) * SNAP_MINUTES) + FIRST_HOUR * 60
+    const scheduledTime = new Date(day)
+    scheduledTime.setHours(0, snapped, 0, 0)
+    setDragging(null)
+    moveSchedule(dragging.schedule, scheduledTime)
+  }
+
+  // Month layout: the class keeps its time of day
+  const handleDropOnDay = (e: DragEvent<HTMLDivElement>, day: Date) => {
+    e.preventDefault()
+    if (!dragging) return
+    const current = new Date(dragging.schedule.scheduledTime)
+    const scheduledTime = new Date(day)
+    scheduledTime.setHours(current.getHours(), current.getMinutes(), 0, 0)
+    setDragging(null)
+    moveSchedule(dragging.schedule, scheduledTime)
+  }
+
+  const renderEvent = (schedule: TeacherClassSchedule, style?: CSSProperties) => {
+    const Icon = statusIcons[schedule.status]
+    const movable = MOVABLE_STATUSES.includes(schedule.status)
+    return (
+      <div
+        key={schedule.id}
+        draggable={movable}
+        onDragStart={(e) => handleDragStart(e, schedule)}
+        onDragEnd={() => setDragging(null)}
+        onClick={() => onSelectStudent?.(schedule.studentId)}
+        style={style}
+        className={cn(
+          "rounded border px-2 py-1 text-xs overflow-hidden hover:opacity-80",
+          statusColors[schedule.status],
+          movable ? "cursor-move" : "cursor-pointer",
+          dragging?.schedule.id === schedule.id && "opacity-50",
+        )}
+        title={`${schedule.studentName} · ${schedule.classesRemaining} classes left`}
+      >
+        <div className="flex items-center space-x-1">
+          <Icon className="h-3 w-3 shrink-0" />
+          <span className="font-medium">{format(new Date(schedule.scheduledTime), "HH:mm")}</span>
+          {schedule.seriesId && <Repeat className="h-3 w-3 shrink-0" />}
+          {schedule.classesRemaining <= 0 && <AlertTriangle className="h-3 w-3 shrink-0 text-red-600" />}
+        </div>
+        <div className="truncate">{schedule.studentName}</div>
+      </div>
+    )
+  }
+
+  const renderTimeGrid = () => (
+    <div className="flex overflow-x-auto">
+      <div className="w-14 shrink-0 pt-8">
+        {hours.map((hour) => (
+          <div key={hour} className="text-xs text-slate-500 text-right pr-2" style={{ height: HOUR_HEIGHT }}>
+            {String(hour).padStart(2, "0")}:00
+          </div>
+        ))}
+      </div>
+      {days.map((day) => {
+        const isToday = isSameDay(day, new Date())
+        return (
+          <div key={day.toISOString()} className="flex-1 min-w-28 border-l border-slate-200">
+            <div
+              className={cn(
+                "h-8 text-sm font-medium text-center",
+                isToday ? "text-blue-700" : "text-slate-900",
+              )}
+            >
+              {format(day, view === "day" ? "EEEE, MMM dd" : "EEE dd")}
+            </div>
+            <div
+              className={cn("relative", isToday && "bg-blue-50/50")}
+              style={{ height: hours.length * HOUR_HEIGHT }}
+              onDragOver={handleDragOver}
+              onDrop={(e) => handleDropOnTimeGrid(e, day)}
+            >
+              {hours.map((hour) => (
+                <div
+                  key={hour}
+                  className="absolute inset-x-0 border-t border-slate-100"
+                  style={{ top: (hour - FIRST_HOUR) * HOUR_HEIGHT }}
+                />
+              ))}
+              {getSchedulesForDate(day).map((schedule) => {
+                const start = minutesIntoDay(new Date(schedule.scheduledTime)) - FIRST_HOUR * 60
+                const duration =
+                  (new Date(schedule.endTime).getTime() - new Date(schedule.scheduledTime).getTime()) / 60000
+                const top = Math.min(Math.max(start, 0), hours.length * 60 - SNAP_MINUTES)
+                return renderEvent(schedule, {
+                  position: "absolute",
+                  left: 2,
+                  right: 2,
+                  top: (top / 60) * HOUR_HEIGHT,
+                  height: Math.max((duration / 60) * HOUR_HEIGHT, 24),
+                })
+              })}
+            </div>
+          </div>
+        )
+      })}
+    </div>
+  )
+
+  const renderMonthGrid = () => (
+    <div className="grid grid-cols-7 gap-1">
+      {days.slice(0, 7).map((day) => (
+        <div key={day.toISOString()} className="text-xs font-medium text-slate-500 text-center pb-1">
+          {format(day, "EEE")}
+        </div>
+      ))}
+      {days.map((day) => {
+        const isToday = isSameDay(day, new Date())
+        return (
+          <div
+            key={day.toISOString()}
+            onDragOver={handleDragOver}
+            onDrop={(e) => handleDropOnDay(e, day)}
+            className={cn(
+              "p-1 border rounded-lg min-h-24 space-y-1",
+              isToday ? "bg-blue-50 border-blue-200" : "bg-white border-slate-200",
+              !isSameMonth(day, anchorDate) && "opacity-50",
+            )}
+          >
+            <div className={cn("text-xs font-medium", isToday ? "text-blue-900" : "text-slate-900")}>
+              {format(day, "d")}
+            </div>
+            {getSchedulesForDate(day).map((schedule) => renderEvent(schedule))}
+          </div>
+        )
+      })}
+    </div>
+  )
+
+  const title =
+    view === "month"
+      ? format(anchorDate, "MMMM yyyy")
+      : view === "week"
+        ? `${format(range.start, "MMM dd")} - ${format(range.end, "MMM dd, yyyy")}`
+        : format(anchorDate, "PPP")
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex flex-wrap items-center justify-between gap-2">
+          <CardTitle className="flex items-center space-x-2">
+            <CalendarDays className="h-5 w-5" />
+            <span>{title}</span>
+          </CardTitle>
+          <div className="flex items-center space-x-2">
+            <div className="flex items-center space-x-1 bg-slate-100 rounded-lg p-1">
+              {views.map((option) => (
+                <Button
+                  key={option.value}
+                  variant={view === option.value ? "default" : "ghost"}
+                  size="sm"
+                  onClick={() => setView(option.value)}
+                >
+                  {option.label}
+                </Button>
+              ))}
+            </div>
+            <Button variant="outline" size="sm" onClick={() => setAnchorDate(shiftDate(view, anchorDate, -1))}>
+              <ChevronLeft className="h-4 w-4" />
+            </Button>
+            <Button variant="outline" size="sm" onClick={() => setAnchorDate(new Date())}>
+              Today
+            </Button>
+            <Button variant="outline" size="sm" onClick={() => setAnchorDate(shiftDate(view, anchorDate, 1))}>
+              <ChevronRight className="h-4 w-4" />
+            </Button>
+          </div>
+        </div>
+        <div className="flex flex-wrap gap-2 pt-2">
+          {(Object.keys(statusColors) as ClassStatus[]).map((status) => (
+            <Badge key={status} variant="outline" className={statusColors[status]}>
+              {status.charAt(0) + status.slice(1).toLowerCase().replace("_", " ")}
+            </Badge>
+          ))}
+        </div>
+      </CardHeader>
+      <CardContent>
+        {isError ? (
+          <Alert>
+            <AlertTriangle className="h-4 w-4" />
+            <AlertDescription>Failed to load classes. Please try again.</AlertDescription>
+          </Alert>
+        ) : isLoading ? (
+          <div className="h-96 bg-slate-100 rounded animate-pulse" />
+        ) : (
+          <>
+            {view === "month" ? renderMonthGrid() : renderTimeGrid()}
+            <p className="text-xs text-slate-500 mt-3">
+              Drag a scheduled or confirmed class to reschedule it. Click a class to manage the student&apos;s
+              schedule.
+            </p>
+          </>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
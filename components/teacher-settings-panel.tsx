@@ -10,6 +10,7 @@ import { Label } from "@/components/ui/label"
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
 import { Alert, AlertDescription } from "@/components/ui/alert"
 import { Badge } from "@/components/ui/badge"
+import { Switch } from "@/components/ui/switch"
 import {
   Save,
   RotateCcw,
@@ -18,6 +19,7 @@ import {
   Monitor,
 } from "lucide-react"
 import { useToast } from "@/hooks/use-toast"
+import { CalendarFeedSettings } from "@/components/calendar-feed-settings"
 import { useTeacherSettings, updateTeacherSettings } from "@/hooks/api"
 import {
   loadUIPreferences,
@@ -29,6 +31,8 @@ import {
 interface BackendSettingsData {
   paymentAlertThreshold: number
   preferredLessonDuration: number
+  autoOptimizeFsrs: boolean
+  autoOptimizeMinReviews: number
 }
 
 export function TeacherSettingsPanel() {
@@ -38,6 +42,8 @@ export function TeacherSettingsPanel() {
   const [backendSettings, setBackendSettings] = useState<BackendSettingsData>({
     paymentAlertThreshold: 3,
     preferredLessonDuration: 60,
+    autoOptimizeFsrs: false,
+    autoOptimizeMinReviews: 100,
   })
 
   // UI preferences state
@@ -55,11 +61,13 @@ export function TeacherSettingsPanel() {
       setBackendSettings({
         paymentAlertThreshold: settings.paymentAlertThreshold,
         preferredLessonDuration: settings.preferredLessonDuration,
+        autoOptimizeFsrs: settings.autoOptimizeFsrs,
+        autoOptimizeMinReviews: settings.autoOptimizeMinReviews,
       })
     }
   }, [settings])
 
-  const handleBackendSettingChange = (field: keyof BackendSettingsData, value: number) => {
+  const handleBackendSettingChange = <K extends keyof BackendSettingsData>(field: K, value: BackendSettingsData[K]) => {
     setBackendSettings((prev) => ({ ...prev, [field]: value }))
     setHasUnsavedBackendChanges(true)
   }
@@ -117,6 +125,8 @@ export function TeacherSettingsPanel() {
       setBackendSettings({
         paymentAlertThreshold: settings.paymentAlertThreshold,
         preferredLessonDuration: settings.preferredLessonDuration,
+        autoOptimizeFsrs: settings.autoOptimizeFsrs,
+        autoOptimizeMinReviews: settings.autoOptimizeMinReviews,
       })
       setHasUnsavedBackendChanges(false)
     }
@@ -210,6 +220,39 @@ export function TeacherSettingsPanel() {
               </Select>
               <p className="text-xs text-slate-500">Default duration for new lesson sessions</p>
             </div>
+
+            <div className="space-y-2">
+              <div className="flex items-center space-x-2">
+                <Switch
+                  id="autoOptimize"
+                  checked={backendSettings.autoOptimizeFsrs}
+                  onCheckedChange={(checked) => handleBackendSettingChange("autoOptimizeFsrs", checked)}
+                />
+                <Label htmlFor="autoOptimize">Automatic FSRS Optimization</Label>
+              </div>
+              <p className="text-xs text-slate-500">
+                Re-optimize each student&apos;s scheduling parameters nightly once they have enough new reviews
+              </p>
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="autoOptimizeMinReviews">Reviews Before Re-optimizing</Label>
+              <div className="flex items-center space-x-2">
+                <Input
+                  id="autoOptimizeMinReviews"
+                  type="number"
+                  min="50"
+                  value={backendSettings.autoOptimizeMinReviews}
+                  onChange={(e) =>
+                    handleBackendSettingChange("autoOptimizeMinReviews", Number.parseInt(e.target.value) || 50)
+                  }
+                  disabled={!backendSettings.autoOptimizeFsrs}
+                  className="w-24"
+                />
+                <span className="text-sm text-slate-600">new reviews</span>
+              </div>
+              <p className="text-xs text-slate-500">Minimum new reviews since the last optimization (at least 50)</p>
+            </div>
           </div>
 
           {/* Account Settings Actions */}
@@ -235,6 +278,9 @@ export function TeacherSettingsPanel() {
         </CardContent>
       </Card>
 
+      {/* Calendar Feed (Backend Synced) */}
+      <CalendarFeedSettings />
+
       {/* Browser Preferences (Local Storage) */}
       <Card>
         <CardHeader>
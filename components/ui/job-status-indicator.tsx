@@ -7,8 +7,14 @@ import {
   AlertTriangle,
   Loader2,
   Info,
+  XCircle,
+  Ban,
+  PauseCircle,
 } from "lucide-react"
+import { Progress } from "@/components/ui/progress"
+import { formatDistanceStrict } from "date-fns"
 import { useJobStatus } from "@/hooks/api/jobs"
+import type { JobProgress } from "@/lib/types"
 
 interface JobStatusIndicatorProps {
   jobId: string | null
@@ -23,6 +29,9 @@ const statusIcons = {
   [JobStatus.COMPLETED]: <CheckCircle className="h-4 w-4 text-green-500" />,
   [JobStatus.FAILED]: <AlertTriangle className="h-4 w-4 text-red-500" />,
   [JobStatus.SKIPPED]: <Info className="h-4 w-4 text-slate-500" />,
+  [JobStatus.DEAD_LETTER]: <XCircle className="h-4 w-4 text-red-500" />,
+  [JobStatus.CANCELLED]: <Ban className="h-4 w-4 text-slate-500" />,
+  [JobStatus.DEFERRED]: <PauseCircle className="h-4 w-4 text-amber-500" />,
 }
 
 const statusTitles = {
@@ -31,6 +40,55 @@ const statusTitles = {
   [JobStatus.COMPLETED]: "Job Completed",
   [JobStatus.FAILED]: "Job Failed",
   [JobStatus.SKIPPED]: "Job Skipped",
+  [JobStatus.DEAD_LETTER]: "Job Failed After Retries",
+  [JobStatus.CANCELLED]: "Job Cancelled",
+  [JobStatus.DEFERRED]: "Job Deferred",
+}
+
+/** Extrapolates the time left in the current phase from its rate so far; null until it has made progress. */
+const estimateRemainingMs = (progress: JobProgress): number | null => {
+  if (!progress.phaseStartedAt || progress.processed <= 0 || progress.processed >= progress.total) {
+    return null
+  }
+  const elapsedMs = Date.now() - new Date(progress.phaseStartedAt).getTime()
+  return (elapsedMs / progress.processed) * (progress.total - progress.processed)
+}
+
+/**
+ * Live progress of a running job: current phase, processed/total, ETA and
+ * the first row errors reported so far.
+ */
+export function JobProgressBar({ progress }: { progress: JobProgress }) {
+  const percent = progress.total > 0 ? Math.round((progress.processed / progress.total) * 100) : 0
+  const remainingMs = estimateRemainingMs(progress)
+  const errors = progress.errors ?? []
+
+  return (
+    <div className="mt-2 space-y-1">
+      <div className="flex justify-between gap-4 text-xs text-slate-600">
+        <span>{progress.phase}</span>
+        <span>
+          {progress.processed.toLocaleString()} / {progress.total.toLocaleString()}
+          {remainingMs !== null && ` · about ${formatDistanceStrict(0, remainingMs)} left`}
+        </span>
+      </div>
+      <Progress value={percent} className="h-2" />
+      {!!progress.errorCount && (
+        <div className="text-xs text-red-600">
+          <p>
+            {progress.errorCount} row{progress.errorCount === 1 ? "" : "s"} could not be imported so far
+          </p>
+          <ul className="list-disc pl-4">
+            {errors.slice(0, 3).map((error) => (
+              <li key={`${error.rowNumber}:${error.fieldName}`}>
+                Row {error.rowNumber} ({error.fieldName}): {error.errorMessage}
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+    </div>
+  )
 }
 
 export function JobStatusIndicator({
@@ -69,20 +127,29 @@ export function JobStatusIndicator({
     onComplete(job)
   }
 
+  const isFailed = job.status === JobStatus.FAILED || job.status === JobStatus.DEAD_LETTER
+  const isRetrying = job.status === JobStatus.PENDING && job.attempts > 0
+
   return (
     <Alert
       className={
         job.status === JobStatus.COMPLETED
           ? "border-green-500/50"
-          : job.status === JobStatus.FAILED
+          : isFailed
           ? "border-red-500/50"
+          : isRetrying
+          ? "border-amber-500/50"
           : ""
       }
     >
       {statusIcons[job.status]}
-      <AlertTitle>{statusTitles[job.status]}</AlertTitle>
+      <AlertTitle>
+        {isRetrying
+          ? `Retrying (attempt ${job.attempts + 1} of ${job.maxAttempts})`
+          : statusTitles[job.status]}
+      </AlertTitle>
       <AlertDescription>
-        {job.status === JobStatus.FAILED && job.error ? (
+        {isFailed && job.error ? (
           <pre className="mt-2 whitespace-pre-wrap rounded-md bg-slate-950 p-4 text-xs text-white">
             {JSON.stringify(job.error, null, 2)}
           </pre>
@@ -90,6 +157,21 @@ export function JobStatusIndicator({
           <pre className="mt-2 whitespace-pre-wrap rounded-md bg-slate-950 p-4 text-xs text-white">
             {JSON.stringify(job.result, null, 2)}
           </pre>
+        ) : job.status === JobStatus.RUNNING && job.progress ? (
+          <>
+            {description}
+            <JobProgressBar progress={job.progress as JobProgress} />
+          </>
+        ) : job.status === JobStatus.DEFERRED ? (
+          <>The student is not active. This job runs automatically once the student is set back to active.</>
+        ) : isRetrying && job.lastError ? (
+          <>
+            The last attempt failed and will be retried at{" "}
+            {new Date(job.nextRunAt).toLocaleTimeString()}.
+            <pre className="mt-2 whitespace-pre-wrap rounded-md bg-slate-950 p-4 text-xs text-white">
+              {job.lastError}
+            </pre>
+          </>
         ) : (
           description
         )}
@@ -525,6 +525,64 @@ export function UnitBuilder({ unitId, onUnitSaved }: UnitBuilderProps) {
   const renderItemConfigDialog = () => {
     if (!editingItem) return null
 
+    // Shared by vocabulary and fill-in-the-blank items, which both support typed answers
+    const renderAnswerModeConfig = (
+      config: Pick<VocabularyExerciseConfig, "answerMode" | "typedAnswer">,
+      onChange: (updates: Pick<VocabularyExerciseConfig, "answerMode" | "typedAnswer">) => void
+    ) => (
+      <div className="space-y-4 border-t pt-4">
+        <div className="space-y-2">
+          <Label htmlFor="answerMode">Answer Mode</Label>
+          <Select
+            value={config.answerMode || "SELF_GRADED"}
+            onValueChange={(value) => onChange({ answerMode: value as VocabularyExerciseConfig["answerMode"] })}
+          >
+            <SelectTrigger id="answerMode">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="SELF_GRADED">Reveal and grade manually</SelectItem>
+              <SelectItem value="TYPED">Student types the answer (auto-graded)</SelectItem>
+            </SelectContent>
+          </Select>
+          <p className="text-sm text-slate-500">
+            Typed answers are checked automatically and a grade is suggested, which you can override before it is recorded.
+          </p>
+        </div>
+
+        {config.answerMode === "TYPED" && (
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="maxTypoDistance">Typo Tolerance</Label>
+              <Input
+                id="maxTypoDistance"
+                type="number"
+                min="0"
+                max="5"
+                value={config.typedAnswer?.maxTypoDistance ?? 1}
+                onChange={(e) =>
+                  onChange({ typedAnswer: { ...config.typedAnswer, maxTypoDistance: Number.parseInt(e.target.value) || 0 } })
+                }
+              />
+              <p className="text-xs text-slate-500">Maximum misspelled letters still accepted</p>
+            </div>
+            <div className="flex items-center justify-between">
+              <div className="space-y-1">
+                <Label>Case Sensitive</Label>
+                <p className="text-xs text-slate-500">Require matching capitalization</p>
+              </div>
+              <Switch
+                checked={config.typedAnswer?.caseSensitive ?? false}
+                onCheckedChange={(checked) =>
+                  onChange({ typedAnswer: { ...config.typedAnswer, caseSensitive: checked } })
+                }
+              />
+            </div>
+          </div>
+        )}
+      </div>
+    )
+
     const renderVocabularyDeckConfig = () => (
       <div className="space-y-4">
         <div className="space-y-2">
@@ -619,6 +677,10 @@ export function UnitBuilder({ unitId, onUnitSaved }: UnitBuilderProps) {
             />
           </div>
         </div>
+
+        {renderAnswerModeConfig(getSafeConfig(editingItem) as VocabularyExerciseConfig, (updates) =>
+          setEditingItem(updateVocabularyConfig(editingItem, updates))
+        )}
       </div>
     )
 
@@ -808,6 +870,10 @@ export function UnitBuilder({ unitId, onUnitSaved }: UnitBuilderProps) {
             </div>
           )
         })()}
+
+        {renderAnswerModeConfig(getSafeConfig(editingItem) as FillInTheBlankExerciseConfig, (updates) =>
+          setEditingItem(updateFillInTheBlankConfig(editingItem, updates))
+        )}
       </div>
     )
 
@@ -1,6 +1,7 @@
 import useSWR from 'swr';
 import { fetcher, mutateWithOptimistic } from './utils';
 import { DataTableCompatible } from '@/components/data-table';
+import type { StuckJob } from '@/lib/types';
 
 // Types for teacher data with admin fields
 export interface AdminTeacher extends DataTableCompatible {
@@ -92,4 +93,30 @@ export async function setTeacherValidity(teacherId: string, validityUntil: Date)
   }
 
   return result.data;
-}
\ No newline at end of file
+}
+
+// Hook to fetch jobs whose worker lease expired
+export function useStuckJobs() {
+  const { data, error, isLoading, mutate } = useSWR('/api/admin/jobs/stuck', fetcher, {
+    refreshInterval: 30000,
+  });
+
+  return {
+    jobs: (data || []) as StuckJob[],
+    isLoading,
+    isError: !!error,
+    mutate
+  };
+}
+
+// Return stuck jobs to the queue (or dead-letter them when out of attempts)
+export async function reapStuckJobs(): Promise<{ requeued: number; deadLettered: number }> {
+  const response = await fetch('/api/admin/jobs/reap', { method: 'POST' });
+
+  const result = await response.json();
+  if (!response.ok) {
+    throw new Error(result.error || `HTTP ${response.status}`);
+  }
+
+  return result.data;
+}
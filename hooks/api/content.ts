@@ -10,6 +10,9 @@ import type {
   VocabularyExerciseConfig,
   ListeningExerciseConfig,
   FillInTheBlankExerciseConfig,
+  GrammarExerciseConfig,
+  CreateGrammarExerciseInput,
+  GrammarExerciseWithCreator,
   NewUnitItemData,
 } from "@/lib/types"
 import type {
@@ -20,6 +23,7 @@ import type {
   FillInTheBlankCard,
   GenericDeck,
   GenericCard,
+  GrammarExercise,
   Job,
 } from "@prisma/client"
 import { fetcher, mutateWithOptimistic, ApiError } from "./utils"
@@ -187,7 +191,7 @@ export async function reorderUnitItems(unitId: string, itemIds: string[]) {
 
 export async function updateUnitItemConfig(
   unitItemId: string, 
-  config: VocabularyExerciseConfig | ListeningExerciseConfig | FillInTheBlankExerciseConfig
+  config: VocabularyExerciseConfig | ListeningExerciseConfig | FillInTheBlankExerciseConfig | GrammarExerciseConfig
 ) {
   return mutateWithOptimistic<any>(`/api/items/${unitItemId}/config`, "PUT", config)
 }
@@ -394,3 +398,43 @@ export async function resolveGenericBinding(deckId: string, resolutions: {
 export async function bulkImportGenericCards(deckId: string, cards: any[]) {
   return mutateWithOptimistic<Job>("/api/bulk-import/generic-deck", "POST", { deckId, cards });
 }
+
+// ============================================================================
+// GRAMMAR EXERCISE MANAGEMENT HOOKS
+// ============================================================================
+
+export function useGrammarExercises() {
+  const { data, error, isLoading, mutate } = useSWR<GrammarExerciseWithCreator[]>("/api/grammar-exercises", fetcher);
+  return { exercises: data || [], isLoading, isError: error, mutate, error: error as ApiError | undefined };
+}
+
+export function usePublicGrammarExercises() {
+  const { data, error, isLoading, mutate } = useSWR<GrammarExerciseWithCreator[]>("/api/public-grammar-exercises", fetcher);
+  return { publicExercises: data || [], isLoading, isError: error, mutate, error: error as ApiError | undefined };
+}
+
+export function useGrammarExercise(exerciseId: string) {
+  const { data, error, isLoading, mutate } = useSWR<GrammarExercise>(
+    exerciseId ? `/api/grammar-exercises/${exerciseId}` : null,
+    fetcher
+  );
+  return { exercise: data, isLoading, isError: error, mutate, error: error as ApiError | undefined };
+}
+
+// --- Action Functions ---
+
+export async function createGrammarExercise(exerciseData: CreateGrammarExerciseInput) {
+  return mutateWithOptimistic<GrammarExercise>("/api/grammar-exercises", "POST", exerciseData);
+}
+
+export async function updateGrammarExercise(exerciseId: string, exerciseData: Partial<CreateGrammarExerciseInput>) {
+  return mutateWithOptimistic<GrammarExercise>(`/api/grammar-exercises/${exerciseId}`, "PUT", exerciseData);
+}
+
+export async function archiveGrammarExercise(exerciseId: string) {
+  return mutateWithOptimistic<GrammarExercise>(`/api/grammar-exercises/${exerciseId}`, "DELETE");
+}
+
+export async function forkGrammarExercise(exerciseId: string) {
+  return mutateWithOptimistic<GrammarExercise>("/api/grammar-exercises/fork", "POST", { exerciseId });
+}
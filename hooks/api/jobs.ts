@@ -1,6 +1,20 @@
 import useSWR from 'swr';
-import { Job, JobStatus } from '@prisma/client';
-import { fetcher } from './utils';
+import { Job, JobStatus, JobType } from '@prisma/client';
+import { fetcher, mutateWithOptimistic } from './utils';
+import type { JobListPage } from '@/lib/types';
+
+/**
+ * Statuses after which a job will not change again on its own.
+ */
+export const TERMINAL_JOB_STATUSES: JobStatus[] = [
+  JobStatus.COMPLETED,
+  JobStatus.FAILED,
+  JobStatus.DEAD_LETTER,
+  JobStatus.SKIPPED,
+  JobStatus.CANCELLED,
+  // Resumes only when the teacher re-activates the student
+  JobStatus.DEFERRED,
+];
 
 /**
  * A hook to poll for the status of a specific job.
@@ -14,11 +28,8 @@ export function useJobStatus(jobId: string | null) {
     fetcher,
     {
       refreshInterval: (latestData) => {
-        // Stop polling if the job is completed or failed
-        if (
-          latestData?.status === JobStatus.COMPLETED ||
-          latestData?.status === JobStatus.FAILED
-        ) {
+        // Stop polling once the job has reached a terminal status
+        if (latestData && TERMINAL_JOB_STATUSES.includes(latestData.status)) {
           return 0;
         }
         // Poll every 2 seconds
@@ -35,3 +46,51 @@ export function useJobStatus(jobId: string | null) {
     error,
   };
 }
+
+/**
+ * A hook to fetch a page of the teacher's background jobs.
+ * Keeps polling while any job on the page is still pending or running.
+ *
+ * @param filters Optional type/status/date filters and the page to fetch.
+ */
+export function useJobs(filters: {
+  type?: JobType;
+  status?: JobStatus;
+  studentId?: string;
+  from?: string;
+  to?: string;
+  page?: number;
+  pageSize?: number;
+} = {}) {
+  const query = new URLSearchParams();
+  Object.entries(filters).forEach(([key, value]) => {
+    if (value !== undefined && value !== '') query.set(key, String(value));
+  });
+
+  const { data, error, isLoading, mutate } = useSWR<JobListPage>(
+    `/api/jobs?${query}`,
+    fetcher,
+    {
+      refreshInterval: (latestData) =>
+        latestData?.jobs.some((job) => !TERMINAL_JOB_STATUSES.includes(job.status))
+          ? 5000
+          : 0,
+    }
+  );
+
+  return {
+    jobs: data?.jobs ?? [],
+    total: data?.total ?? 0,
+    isLoading,
+    isError: !!error,
+    mutate,
+  };
+}
+
+export async function cancelJob(jobId: string) {
+  return mutateWithOptimistic<Job>(`/api/jobs/${jobId}/cancel`, 'POST');
+}
+
+export async function retryJob(jobId: string) {
+  return mutateWithOptimistic<Job>(`/api/jobs/${jobId}/retry`, 'POST');
+}
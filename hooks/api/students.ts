@@ -5,12 +5,24 @@ import type {
   FullStudentProfile,
   AvailableUnit,
   FsrsStats,
+  DesiredRetentionSettings,
+  FsrsReviewType,
+  FsrsParamsVersion,
+  ReviewForecast,
+  ClassScheduleSeriesWithSchedules,
+  ScheduleConflict,
+  ScheduleScope,
+  TeacherClassSchedule,
+  IcsImportPreview,
 } from "@/lib/types"
 import type {
   Payment,
   ClassSchedule,
   Job,
+  StudentStatus,
   StudentCardState,
+  StudentDeck,
+  StudentGenericDeck,
   VocabularyCard,
 } from "@prisma/client"
 import { fetcher, mutateWithOptimistic, ApiError } from "./utils"
@@ -77,7 +89,7 @@ export async function updateStudentNotes(studentId: string, notes: string) {
   return mutateWithOptimistic<FullStudentProfile>(`/api/students/${studentId}/notes`, "PUT", { notes })
 }
 
-export async function updateStudent(studentId: string, updateData: { name?: string; email?: string; phone?: string; proficiencyLevel?: string; notes?: string }) {
+export async function updateStudent(studentId: string, updateData: { name?: string; email?: string; phone?: string; proficiencyLevel?: string; notes?: string; status?: StudentStatus }) {
   return mutateWithOptimistic<FullStudentProfile>(`/api/students/${studentId}`, "PUT", updateData)
 }
 
@@ -130,16 +142,74 @@ export function useStudentSchedules(studentId: string) {
   }
 }
 
-export async function createSchedule(studentId: string, scheduleData: { scheduledTime: string; duration?: number; notes?: string }) {
+// Classes of all the teacher's students starting between `from` and `to`
+export function useTeacherSchedules(from: Date, to: Date) {
+  const query = new URLSearchParams({ from: from.toISOString(), to: to.toISOString() })
+  const { data, error, isLoading, mutate } = useSWR<TeacherClassSchedule[]>(`/api/schedules?${query}`, fetcher)
+
+  return {
+    schedules: data || [],
+    isLoading,
+    isError: error,
+    mutate,
+  }
+}
+
+// Upcoming classes of the student that overlap with classes of other students
+export function useScheduleConflicts(studentId: string) {
+  const { data, error, isLoading, mutate } = useSWR<ScheduleConflict[]>(
+    studentId ? `/api/students/${studentId}/schedules/conflicts` : null,
+    fetcher,
+  )
+
+  return {
+    conflicts: data || [],
+    isLoading,
+    isError: error,
+    mutate,
+  }
+}
+
+export async function createSchedule(
+  studentId: string,
+  scheduleData: { scheduledTime: string; duration?: number; notes?: string; allowConflicts?: boolean },
+) {
   return mutateWithOptimistic<ClassSchedule>(`/api/students/${studentId}/schedules`, "POST", scheduleData)
 }
 
-export async function updateSchedule(scheduleId: string, scheduleData: { scheduledTime?: string; status?: string; duration?: number; notes?: string }) {
-  return mutateWithOptimistic<ClassSchedule>(`/api/schedules/${scheduleId}`, "PUT", scheduleData)
+export async function createScheduleSeries(
+  studentId: string,
+  seriesData: {
+    scheduledTime: string
+    duration?: number
+    notes?: string
+    allowConflicts?: boolean
+    recurrence: { interval?: number; weekdays?: number[]; until?: string; count?: number }
+  },
+) {
+  return mutateWithOptimistic<ClassScheduleSeriesWithSchedules>(
+    `/api/students/${studentId}/schedule-series`,
+    "POST",
+    seriesData,
+  )
+}
+
+export async function updateSchedule(
+  scheduleId: string,
+  scheduleData: {
+    scheduledTime?: string
+    status?: string
+    duration?: number
+    notes?: string
+    allowConflicts?: boolean
+  },
+  scope: ScheduleScope = "this",
+) {
+  return mutateWithOptimistic<ClassSchedule>(`/api/schedules/${scheduleId}?scope=${scope}`, "PUT", scheduleData)
 }
 
-export async function deleteSchedule(scheduleId: string) {
-  return mutateWithOptimistic<ClassSchedule>(`/api/schedules/${scheduleId}`, "DELETE")
+export async function deleteSchedule(scheduleId: string, scope: ScheduleScope = "this") {
+  return mutateWithOptimistic<ClassSchedule>(`/api/schedules/${scheduleId}?scope=${scope}`, "DELETE")
 }
 
 // ============================================================================
@@ -161,6 +231,21 @@ export function useDueCards(studentId: string) {
   }
 }
 
+export function useSlowRecallCards(studentId: string) {
+  const { data, error, isLoading, mutate } = useSWR<(StudentCardState & { card: VocabularyCard })[]>(
+    studentId ? `/api/students/${studentId}/fsrs/slow-recall` : null,
+    fetcher,
+  )
+
+  return {
+    slowRecallCards: data || [],
+    isLoading,
+    isError: error,
+    mutate,
+    error: error as ApiError | undefined,
+  }
+}
+
 export function useListeningCandidates(studentId: string) {
   const { data, error, isLoading, mutate } = useSWR<VocabularyCard[]>(
     studentId ? `/api/students/${studentId}/fsrs/listening-candidates` : null,
@@ -206,6 +291,55 @@ export function useGenericFsrsStats(studentId: string) {
   };
 }
 
+export function useDesiredRetention(studentId: string) {
+  const { data, error, isLoading, mutate } = useSWR<DesiredRetentionSettings>(
+    studentId ? `/api/students/${studentId}/fsrs/retention` : null,
+    fetcher
+  );
+
+  return {
+    settings: data,
+    isLoading,
+    isError: error,
+    mutate,
+    error: error as ApiError | undefined,
+  };
+}
+
+export function useReviewForecast(studentId: string, options: { days: number; includeNewCards: boolean }) {
+  const query = new URLSearchParams({
+    days: String(options.days),
+    includeNewCards: String(options.includeNewCards),
+  })
+  const { data, error, isLoading, mutate } = useSWR<ReviewForecast>(
+    studentId ? `/api/students/${studentId}/fsrs/forecast?${query}` : null,
+    fetcher
+  );
+
+  return {
+    forecast: data,
+    isLoading,
+    isError: error,
+    mutate,
+    error: error as ApiError | undefined,
+  };
+}
+
+export function useFsrsParameterVersions(studentId: string, reviewType: FsrsReviewType) {
+  const { data, error, isLoading, mutate } = useSWR<FsrsParamsVersion[]>(
+    studentId ? `/api/students/${studentId}/fsrs/parameters?reviewType=${reviewType}` : null,
+    fetcher
+  );
+
+  return {
+    versions: data || [],
+    isLoading,
+    isError: error,
+    mutate,
+    error: error as ApiError | undefined,
+  };
+}
+
 export function useAvailableUnits(studentId: string, options?: { skip?: boolean }) {
   const { data, error, isLoading, mutate } = useSWR<AvailableUnit[]>(
     studentId && !options?.skip ? `/api/students/${studentId}/available-units` : null,
@@ -233,6 +367,39 @@ export async function rebuildFsrsCache(studentId: string) {
   return mutateWithOptimistic<Job>(`/api/students/${studentId}/fsrs/rebuild-cache`, "POST")
 }
 
+export function usePracticeSheets(studentId: string) {
+  const { data, error, isLoading, mutate } = useSWR<Job[]>(
+    studentId ? `/api/students/${studentId}/practice-sheets` : null,
+    fetcher
+  );
+
+  return {
+    sheets: data || [],
+    isLoading,
+    isError: error,
+    mutate,
+    error: error as ApiError | undefined,
+  };
+}
+
+export async function generatePracticeSheet(studentId: string, options: { maxItemsPerSection?: number } = {}) {
+  return mutateWithOptimistic<Job>(`/api/students/${studentId}/practice-sheets`, "POST", options)
+}
+
+export async function rollbackFsrsParameters(studentId: string, reviewType: FsrsReviewType, version: number) {
+  return mutateWithOptimistic<FsrsParamsVersion>(`/api/students/${studentId}/fsrs/parameters/rollback`, "POST", {
+    reviewType,
+    version,
+  })
+}
+
+export async function updateDesiredRetention(
+  studentId: string,
+  data: { reviewType: FsrsReviewType; desiredRetention: number | null; deckId?: string },
+) {
+  return mutateWithOptimistic<DesiredRetentionSettings>(`/api/students/${studentId}/fsrs/retention`, "PUT", data)
+}
+
 // ============================================================================
 // DECK ASSIGNMENT HOOKS
 // ============================================================================
@@ -245,6 +412,20 @@ export async function assignGenericDeck(studentId: string, deckId: string) {
   return mutateWithOptimistic<{ studentGenericDeck: any; job: Job }>(`/api/students/${studentId}/generic-decks`, "POST", { deckId })
 }
 
+export async function updateDeckLimits(
+  studentId: string,
+  deckId: string,
+  deckType: "Vocabulary" | "Generic",
+  limits: { dailyNewCards?: number; dailyReviewLimit?: number },
+) {
+  const collection = deckType === "Vocabulary" ? "decks" : "generic-decks"
+  return mutateWithOptimistic<StudentDeck | StudentGenericDeck>(
+    `/api/students/${studentId}/${collection}/${deckId}`,
+    "PUT",
+    limits,
+  )
+}
+
 export async function bulkImportStudents(students: any[]) {
   return mutateWithOptimistic<Job>("/api/bulk-import/students", "POST", {
     students,
@@ -256,3 +437,17 @@ export async function bulkImportSchedules(schedules: any[]) {
     schedules,
   });
 }
+
+export async function previewIcsScheduleImport(content: string, mappings?: Record<string, string | null>) {
+  return mutateWithOptimistic<IcsImportPreview>("/api/bulk-import/schedules/ics/preview", "POST", {
+    content,
+    mappings,
+  })
+}
+
+export async function importIcsSchedules(content: string, mappings?: Record<string, string | null>) {
+  return mutateWithOptimistic<Job>("/api/bulk-import/schedules/ics", "POST", {
+    content,
+    mappings,
+  })
+}
@@ -2,6 +2,7 @@
 
 import useSWR from "swr"
 import type { TeacherSettings } from "@prisma/client"
+import type { CalendarFeedStatus } from "@/lib/types"
 import { fetcher, mutateWithOptimistic, ApiError } from "./utils"
 
 // ============================================================================
@@ -23,6 +24,32 @@ export function useTeacherSettings() {
 export async function updateTeacherSettings(settingsData: {
   paymentAlertThreshold?: number
   preferredLessonDuration?: number
+  autoOptimizeFsrs?: boolean
+  autoOptimizeMinReviews?: number
 }) {
   return mutateWithOptimistic<TeacherSettings>("/api/teacher/settings", "PUT", settingsData)
 }
+
+// ============================================================================
+// CALENDAR FEED HOOKS
+// ============================================================================
+
+export function useCalendarFeed() {
+  const { data, error, isLoading, mutate } = useSWR<CalendarFeedStatus>("/api/teacher/calendar-feed", fetcher)
+
+  return {
+    feed: data,
+    isLoading,
+    isError: error,
+    mutate,
+    error: error as ApiError | undefined,
+  }
+}
+
+export async function resetCalendarFeed() {
+  return mutateWithOptimistic<CalendarFeedStatus>("/api/teacher/calendar-feed", "POST")
+}
+
+export async function disableCalendarFeed() {
+  return mutateWithOptimistic<CalendarFeedStatus>("/api/teacher/calendar-feed", "DELETE")
+}
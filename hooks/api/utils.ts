@@ -9,6 +9,18 @@ export type ApiError = {
   code?: string
 }
 
+// Thrown by mutations; carries the status and any `data` the API sent with the error
+export class ApiMutationError extends Error {
+  constructor(
+    message: string,
+    public status: number,
+    public data: unknown = null,
+  ) {
+    super(message)
+    this.name = "ApiMutationError"
+  }
+}
+
 export type ApiResponse<T> = {
   ok: boolean
   data: T
@@ -61,7 +73,7 @@ export const mutateWithOptimistic = async <T>(
       if (optimisticData) {
         mutate(url)
       }
-      throw new Error(data.error || `HTTP ${response.status}`)
+      throw new ApiMutationError(data.error || `HTTP ${response.status}`, response.status, data.data)
     }
 
     // Update cache with real data
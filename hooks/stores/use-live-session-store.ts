@@ -10,6 +10,7 @@ interface LiveSessionState {
   isPaused: boolean;
   elapsedTime: number; // in seconds
   reviewCount: number;
+  canUndo: boolean; // Whether the last submitted review can still be reverted
   encounteredCards: Set<string>;
   progress: SessionProgress | null;
 
@@ -19,6 +20,8 @@ interface LiveSessionState {
   resumeSession: () => void;
   setElapsedTime: (time: number) => void;
   incrementReviewCount: () => void;
+  decrementReviewCount: () => void;
+  setCanUndo: (canUndo: boolean) => void;
   setProgress: (progress: SessionProgress) => void;
   setActionLoading: (isLoading: boolean) => void;
   reset: () => void;
@@ -30,6 +33,7 @@ const initialState = {
   isPaused: false,
   elapsedTime: 0,
   reviewCount: 0,
+  canUndo: false,
   encounteredCards: new Set<string>(),
   progress: null,
 };
@@ -43,6 +47,7 @@ export const useLiveSessionStore = create<LiveSessionState>((set, get) => ({
       sessionId: session.id,
       progress,
       reviewCount: 0,
+      canUndo: false,
       encounteredCards: new Set<string>(),
       isPaused: false,
       elapsedTime: session.startTime ? Math.floor((new Date().getTime() - new Date(session.startTime).getTime()) / 1000) : 0,
@@ -68,6 +73,10 @@ export const useLiveSessionStore = create<LiveSessionState>((set, get) => ({
       return { reviewCount: state.reviewCount + 1 };
     }),
 
+  decrementReviewCount: () =>
+    set((state) => ({ reviewCount: Math.max(0, state.reviewCount - 1) })),
+
+  setCanUndo: (canUndo) => set({ canUndo }),
   setProgress: (progress) => set({ progress }),
   setActionLoading: (isLoading) => set({ isActionLoading: isLoading }),
   reset: () => set(initialState),
@@ -58,3 +58,50 @@ resource "alicloud_fc_trigger" "yingyu_worker_trigger" {
   }
 }
 
+
+# Enqueues automatic FSRS optimization jobs once a day, at 03:00 when few
+# lessons take place. Only students of teachers who opted in are considered.
+resource "alicloud_fc_trigger" "yingyu_auto_optimize_trigger" {
+  service  = var.service_name
+  function = var.function_name
+  name     = "yingyu-auto-optimize-trigger-daily"
+  type     = "timer"
+
+  config_mns = jsonencode({
+    "cronExpression": "CRON_TZ=Asia/Shanghai 0 0 3 * * *",
+    "payload": "{\"trigger\": \"timer\"}",
+    "enable": true
+  })
+
+  http_config {
+    path   = "/api/worker/optimize"
+    method = "POST"
+    headers = {
+      "Authorization" = "Bearer ${var.cron_secret}"
+    }
+  }
+}
+
+
+# Compacts and prunes old job history and expired login sessions once a day,
+# an hour after the optimization run so the two don't compete for the database.
+resource "alicloud_fc_trigger" "yingyu_maintenance_trigger" {
+  service  = var.service_name
+  function = var.function_name
+  name     = "yingyu-maintenance-trigger-daily"
+  type     = "timer"
+
+  config_mns = jsonencode({
+    "cronExpression": "CRON_TZ=Asia/Shanghai 0 0 4 * * *",
+    "payload": "{\"trigger\": \"timer\"}",
+    "enable": true
+  })
+
+  http_config {
+    path   = "/api/worker/maintenance"
+    method = "POST"
+    headers = {
+      "Authorization" = "Bearer ${var.cron_secret}"
+    }
+  }
+}
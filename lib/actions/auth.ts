@@ -98,4 +98,15 @@ export const AuthService = {
       validityUntil: t.validityUntil 
     };
   },
+
+  /**
+   * INTERNAL: Deletes sessions that have expired; they can no longer be used to log in.
+   * @returns The number of sessions removed.
+   */
+  async _deleteExpiredSessions(): Promise<number> {
+    const { count } = await prisma.authSession.deleteMany({
+      where: { expiresAt: { lte: new Date() } },
+    });
+    return count;
+  },
 };
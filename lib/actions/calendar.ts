@@ -0,0 +1,350 @@
+import { prisma } from '@/lib/db';
+import { AuthorizationError, authorizeTeacherForStudent, hashToken } from '@/lib/auth';
+import { ClassSchedule, ClassStatus, Job } from '@prisma/client';
+import { randomBytes } from 'crypto';
+import { z } from 'zod';
+import {
+  ICalEvent,
+  ICalEventStatus,
+  ParsedICalEvent,
+  expandICalEvent,
+  parseICalendar,
+  renderICalendar,
+} from '../ical';
+import { IcsScheduleImportSchema } from '../schemas';
+import { IcsImportEvent, IcsImportMatch, IcsImportPreview } from '../types';
+import { JobService } from './jobs';
+import { ScheduleService, getClassEnd, isActiveClassStatus } from './schedules';
+
+type IcsScheduleImportInput = z.infer<typeof IcsScheduleImportSchema>;
+
+/** How far back the teacher's feed reaches; later classes are always included. */
+const FEED_PAST_DAYS = 90;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/** Suffix of event UIDs. A class keeps its UID across exports, so updates replace it. */
+const EVENT_UID_DOMAIN = 'yingyu';
+
+/** How far ahead repeating events are expanded when importing. */
+const IMPORT_HORIZON_DAYS = 365;
+
+/** The most classes a single .ics import creates. */
+const MAX_IMPORTED_CLASSES = 1000;
+
+/** An exported calendar file. */
+export type CalendarFile = {
+  fileName: string;
+  content: string;
+};
+
+/**
+ * Maps a class status to the status of its calendar event. Cancelled and
+ * rescheduled classes are kept in the calendar as cancelled events.
+ */
+function getEventStatus(status: ClassStatus): ICalEventStatus {
+  if (!isActiveClassStatus(status)) return 'CANCELLED';
+  return status === ClassStatus.SCHEDULED ? 'TENTATIVE' : 'CONFIRMED';
+}
+
+function toEvent(
+  schedule: ClassSchedule,
+  studentName: string,
+  defaultDuration: number
+): ICalEvent {
+  return {
+    uid: `${schedule.id}@${EVENT_UID_DOMAIN}`,
+    start: schedule.scheduledTime,
+    end: new Date(getClassEnd(schedule, defaultDuration)),
+    summary: `English class: ${studentName}`,
+    description: schedule.notes,
+    status: getEventStatus(schedule.status),
+    lastModified: schedule.updatedAt,
+  };
+}
+
+/** Turns a name into a safe file name stem. */
+function toFileNameStem(name: string): string {
+  return name.replace(/[^a-zA-Z0-9-_]+/g, '-').replace(/^-+|-+$/g, '') || 'student';
+}
+
+type ImportableStudent = { id: string; name: string; email: string | null };
+
+function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+/**
+ * Finds the student an imported event is for: an attendee with the student's
+ * email, or else the one student whose name appears in the event's title.
+ * Names only match whole Latin words, so "Al" does not match "Algebra", while
+ * Chinese names match anywhere in the title.
+ */
+function matchStudent(
+  event: ParsedICalEvent,
+  students: ImportableStudent[]
+): { student: ImportableStudent; matchedBy: IcsImportMatch } | null {
+  const emails = new Set(event.attendees.map((attendee) => attendee.email));
+  const byEmail = students.filter((student) => student.email && emails.has(student.email.toLowerCase()));
+  if (byEmail.length === 1) return { student: byEmail[0], matchedBy: 'attendee' };
+
+  const byName = students.filter((student) => {
+    const name = student.name.trim();
+    return (
+      name !== '' &&
+      new RegExp(`(?<![\\p{Script=Latin}\\d])${escapeRegExp(name)}(?![\\p{Script=Latin}\\d])`, 'iu').test(
+        event.summary
+      )
+    );
+  });
+  // Of "Li" and "Li Wei", the longer name is the more specific match
+  const longest = Math.max(0, ...byName.map((student) => student.name.trim().length));
+  const best = byName.filter((student) => student.name.trim().length === longest);
+  return best.length === 1 ? { student: best[0], matchedBy: 'summary' } : null;
+}
+
+/**
+ * Service responsible for exporting class schedules as iCalendar files, the
+ * teacher's subscribable calendar feed, and importing classes from .ics files.
+ */
+export const CalendarService = {
+  /**
+   * Returns whether the teacher has a calendar feed.
+   * @param teacherId The UUID of the teacher.
+   */
+  async isFeedEnabled(teacherId: string): Promise<boolean> {
+    const teacher = await prisma.teacher.findUniqueOrThrow({
+      where: { id: teacherId },
+      select: { calendarFeedTokenHash: true },
+    });
+    return teacher.calendarFeedTokenHash !== null;
+  },
+
+  /**
+   * Creates a new secret token for the teacher's calendar feed. A previous
+   * token stops working. Only a hash of the token is stored, so it cannot be
+   * shown again later.
+   * @param teacherId The UUID of the teacher.
+   * @returns A promise that resolves to the token for the feed URL.
+   */
+  async resetFeedToken(teacherId: string): Promise<string> {
+    const token = randomBytes(32).toString('base64url');
+    await prisma.teacher.update({
+      where: { id: teacherId },
+      data: { calendarFeedTokenHash: hashToken(token) },
+    });
+    return token;
+  },
+
+  /**
+   * Turns off the teacher's calendar feed. Subscribed calendar apps stop receiving updates.
+   * @param teacherId The UUID of the teacher.
+   */
+  async disableFeed(teacherId: string): Promise<void> {
+    await prisma.teacher.update({
+      where: { id: teacherId },
+      data: { calendarFeedTokenHash: null },
+    });
+  },
+
+  /**
+   * Renders the calendar feed a token belongs to: the classes of all of the
+   * teacher's students from the last 90 days on, in the teacher's time zone.
+   * @param token The secret token from the feed URL.
+   * @returns A promise that resolves to the iCalendar document, or null if the token is unknown.
+   */
+  async getFeedByToken(token: string): Promise<string | null> {
+    const teacher = await prisma.teacher.findUnique({
+      where: { calendarFeedTokenHash: hashToken(token) },
+      select: { id: true, name: true, timezone: true },
+    });
+    if (!teacher) return null;
+
+    const schedules = await prisma.classSchedule.findMany({
+      where: {
+        scheduledTime: { gte: new Date(Date.now() - FEED_PAST_DAYS * DAY_MS) },
+        student: { teacherId: teacher.id, isArchived: false },
+      },
+      include: { student: { select: { name: true } } },
+      orderBy: { scheduledTime: 'asc' },
+    });
+    const defaultDuration = await ScheduleService._getDefaultLessonDuration(prisma, teacher.id);
+
+    return renderICalendar({
+      name: `${teacher.name} - Classes`,
+      timeZone: teacher.timezone,
+      events: schedules.map(({ student, ...schedule }) =>
+        toEvent(schedule, student.name, defaultDuration)
+      ),
+    });
+  },
+
+  /**
+   * Exports all classes of a student as an iCalendar file in the teacher's time zone.
+   * @param studentId The UUID of the student.
+   * @param teacherId The UUID of the teacher for authorization.
+   * @returns A promise that resolves to the file name and the iCalendar document.
+   */
+  async getStudentCalendarFile(studentId: string, teacherId: string): Promise<CalendarFile> {
+    await authorizeTeacherForStudent(teacherId, studentId);
+    const [student, teacher, schedules, defaultDuration] = await Promise.all([
+      prisma.student.findUniqueOrThrow({ where: { id: studentId }, select: { name: true } }),
+      prisma.teacher.findUniqueOrThrow({ where: { id: teacherId }, select: { timezone: true } }),
+      prisma.classSchedule.findMany({ where: { studentId }, orderBy: { scheduledTime: 'asc' } }),
+      ScheduleService._getDefaultLessonDuration(prisma, teacherId),
+    ]);
+
+    return {
+      fileName: `${toFileNameStem(student.name)}-classes.ics`,
+      content: renderICalendar({
+        name: `${student.name} - Classes`,
+        timeZone: teacher.timezone,
+        events: schedules.map((schedule) => toEvent(schedule, student.name, defaultDuration)),
+      }),
+    };
+  },
+
+  /**
+   * Reads an .ics file and shows what importing it would do: the upcoming
+   * classes of each event, with repeating events expanded for up to a year,
+   * the student each event is assigned to, and the existing classes they
+   * would overlap with. Nothing is saved.
+   * @param teacherId The UUID of the teacher.
+   * @param input The file's content and the students chosen for events by the teacher.
+   * @returns A promise that resolves to the events of the file.
+   * @throws AuthorizationError if an event is mapped to an archived student or one of another teacher.
+   */
+  async previewIcsImport(
+    teacherId: string,
+    input: IcsScheduleImportInput
+  ): Promise<IcsImportPreview> {
+    const [teacher, students] = await Promise.all([
+      prisma.teacher.findUniqueOrThrow({ where: { id: teacherId }, select: { timezone: true } }),
+      prisma.student.findMany({
+        where: { teacherId, isArchived: false },
+        select: { id: true, name: true, email: true },
+      }),
+    ]);
+    for (const studentId of Object.values(input.mappings ?? {})) {
+      if (studentId && !students.some((student) => student.id === studentId)) {
+        throw new AuthorizationError(
+          'Access denied: The specified student does not exist or you do not have permission to access them.'
+        );
+      }
+    }
+    const parsed = parseICalendar(input.content, teacher.timezone);
+    const now = new Date();
+    const horizon = new Date(now.getTime() + IMPORT_HORIZON_DAYS * DAY_MS);
+
+    // Edited occurrences share the UID of their recurring event
+    const masters = new Map<string, ParsedICalEvent>();
+    const overrides = parsed.filter((event) => event.recurrenceId);
+    for (const event of parsed) {
+      if (!event.recurrenceId && !masters.has(event.uid)) masters.set(event.uid, event);
+    }
+    // An edited occurrence without its recurring event is imported on its own
+    for (const override of overrides) {
+      if (!masters.has(override.uid)) masters.set(override.uid, { ...override, recurrenceId: null });
+    }
+
+    let classCount = 0;
+    const events: IcsImportEvent[] = [...masters.values()].map((event) => {
+      const mapping = input.mappings?.[event.uid];
+      const chosen = mapping ? students.find((student) => student.id === mapping) : undefined;
+      const match =
+        mapping === undefined
+          ? matchStudent(event, students)
+          : chosen
+            ? { student: chosen, matchedBy: 'manual' as const }
+            : null;
+
+      const preview: IcsImportEvent = {
+        uid: event.uid,
+        summary: event.summary,
+        description: event.description,
+        recurrence: event.rrule,
+        studentId: match?.student.id ?? null,
+        studentName: match?.student.name ?? null,
+        matchedBy: match?.matchedBy ?? null,
+        occurrences: [],
+        skippedReason: null,
+      };
+
+      if (event.status === 'CANCELLED') {
+        preview.skippedReason = 'The event is cancelled.';
+        return preview;
+      }
+      if (event.allDay) {
+        preview.skippedReason = 'All-day events are not classes.';
+        return preview;
+      }
+
+      let starts: Date[];
+      try {
+        // A daily event fills the whole horizon; the import as a whole is capped below
+        starts = expandICalEvent(event, now, horizon, MAX_IMPORTED_CLASSES);
+      } catch (error) {
+        preview.skippedReason = (error as Error).message;
+        return preview;
+      }
+
+      const edited = event.rrule ? overrides.filter((override) => override.uid === event.uid) : [];
+      const editedTimes = new Set(edited.map((override) => override.recurrenceId?.getTime()));
+      const occurrences = [
+        ...starts
+          .filter((start) => !editedTimes.has(start.getTime()))
+          .map((start) => ({ scheduledTime: start, duration: event.duration })),
+        ...edited
+          .filter((override) => override.status !== 'CANCELLED')
+          .map((override) => ({ scheduledTime: override.start, duration: override.duration })),
+      ]
+        .filter((occurrence) => occurrence.scheduledTime >= now && occurrence.scheduledTime <= horizon)
+        .sort((a, b) => a.scheduledTime.getTime() - b.scheduledTime.getTime());
+
+      if (occurrences.length === 0) {
+        preview.skippedReason = 'The event has no upcoming classes.';
+      } else if (preview.studentId && classCount + occurrences.length > MAX_IMPORTED_CLASSES) {
+        preview.skippedReason = `A single import can create at most ${MAX_IMPORTED_CLASSES} classes.`;
+      } else {
+        if (preview.studentId) classCount += occurrences.length;
+        preview.occurrences = occurrences.map((occurrence) => ({ ...occurrence, conflicts: [] }));
+      }
+      return preview;
+    });
+
+    const slots = events.flatMap((event) => event.occurrences);
+    const conflictsBySlot = await ScheduleService._findConflictsBySlot(prisma, teacherId, slots);
+    slots.forEach((slot, index) => {
+      slot.conflicts = conflictsBySlot[index];
+    });
+
+    return { events, timeZone: teacher.timezone };
+  },
+
+  /**
+   * Imports the classes of an .ics file through a `BULK_IMPORT_SCHEDULES` job.
+   * Events without a student are left out; the job skips classes that overlap
+   * with existing classes or with each other and reports them as row errors.
+   * @param teacherId The UUID of the teacher.
+   * @param input The file's content and the students chosen for events by the teacher.
+   * @returns A promise that resolves to the queued job, or null if there is nothing to import.
+   */
+  async importIcsSchedules(teacherId: string, input: IcsScheduleImportInput): Promise<Job | null> {
+    const { events } = await this.previewIcsImport(teacherId, input);
+
+    const schedules = events.flatMap((event) => {
+      const { studentId } = event;
+      if (!studentId) return [];
+      const notes = event.description ?? (event.summary || undefined);
+      return event.occurrences.map((occurrence) => ({
+        studentId,
+        scheduledTime: occurrence.scheduledTime.toISOString(),
+        duration: occurrence.duration ?? undefined,
+        notes,
+      }));
+    });
+    if (schedules.length === 0) return null;
+
+    return JobService.createBulkImportSchedulesJob(teacherId, { schedules });
+  },
+};
@@ -5,6 +5,9 @@ import {
   VocabularyExerciseConfig,
   ListeningExerciseConfig,
   FillInTheBlankExerciseConfig,
+  GrammarExerciseConfig,
+  BulkImportError,
+  JobProgressReporter,
 } from '@/lib/types';
 import {
   Unit,
@@ -22,6 +25,7 @@ import {
 } from '@prisma/client';
 import { AuthorizationError } from '../auth';
 import { TransactionClient } from '@/lib/exercises/operators/base';
+import { BULK_IMPORT_TRANSACTION_TIMEOUT_MS, BULK_INSERT_BATCH_SIZE } from './jobs';
 
 // ================================================================= //
 // TYPE DEFINITIONS FOR CONTENT OPERATIONS
@@ -140,6 +144,9 @@ import {
   VocabularyExerciseConfigSchema,
   ListeningExerciseConfigSchema,
   FillInTheBlankExerciseConfigSchema,
+  GrammarExerciseConfigSchema,
+  CreateGrammarExerciseSchema,
+  UpdateGrammarExerciseSchema,
 } from '../schemas';
 import { z } from 'zod';
 
@@ -355,6 +362,112 @@ export const ContentService = {
     });
   },
 
+  /**
+   * Retrieves all grammar exercises for a given teacher.
+   *
+   * @param teacherId The UUID of the teacher.
+   * @returns A promise that resolves to an array of grammar exercises created by the teacher.
+   */
+  async getGrammarExercisesForTeacher(teacherId: string): Promise<GrammarExercise[]> {
+    return prisma.grammarExercise.findMany({
+      where: {
+        creatorId: teacherId,
+        isArchived: false
+      },
+      orderBy: { createdAt: 'desc' },
+    });
+  },
+
+  /**
+   * Retrieves all public grammar exercises.
+   *
+   * @returns A promise that resolves to an array of public grammar exercises.
+   */
+  async getPublicGrammarExercises(): Promise<GrammarExercise[]> {
+    return prisma.grammarExercise.findMany({
+      where: {
+        isPublic: true,
+        isArchived: false
+      },
+      include: {
+        creator: { select: { id: true, name: true } },
+      },
+      orderBy: { createdAt: 'desc' },
+    });
+  },
+
+  /**
+   * Retrieves a single grammar exercise. Teachers can read their own exercises and any public one.
+   *
+   * @param exerciseId The UUID of the grammar exercise.
+   * @param teacherId The UUID of the teacher making the request.
+   * @returns A promise that resolves to the grammar exercise.
+   */
+  async getGrammarExercise(exerciseId: string, teacherId: string): Promise<GrammarExercise> {
+    const exercise = await prisma.grammarExercise.findUnique({
+      where: { id: exerciseId },
+    });
+
+    if (!exercise) {
+      throw new Error('Grammar exercise not found.');
+    }
+
+    if (!exercise.isPublic && exercise.creatorId !== teacherId) {
+      throw new AuthorizationError('You do not have access to this grammar exercise.');
+    }
+
+    return exercise;
+  },
+
+  /**
+   * Creates a new grammar exercise for a given teacher.
+   *
+   * @param data An object containing the necessary data to create the exercise.
+   * @returns A promise that resolves to the newly created GrammarExercise object.
+   */
+  async createGrammarExercise(
+    data: z.infer<typeof CreateGrammarExerciseSchema> & { creatorId: string }
+  ): Promise<GrammarExercise> {
+    return prisma.grammarExercise.create({
+      data: {
+        ...data,
+        exerciseData: data.exerciseData as Prisma.InputJsonValue,
+      },
+    });
+  },
+
+  /**
+   * Updates an existing grammar exercise. Only the creator can update it.
+   *
+   * @param exerciseId The UUID of the exercise to update.
+   * @param teacherId The UUID of the teacher making the request.
+   * @param updateData The data to update.
+   * @returns A promise that resolves to the updated GrammarExercise object.
+   */
+  async updateGrammarExercise(
+    exerciseId: string,
+    teacherId: string,
+    updateData: z.infer<typeof UpdateGrammarExerciseSchema>
+  ): Promise<GrammarExercise> {
+    const exercise = await prisma.grammarExercise.findUnique({
+      where: { id: exerciseId },
+      select: { creatorId: true },
+    });
+
+    if (!exercise || exercise.creatorId !== teacherId) {
+      throw new AuthorizationError('Grammar exercise not found or you cannot edit it.');
+    }
+
+    const { exerciseData, ...rest } = updateData;
+    return prisma.grammarExercise.update({
+      where: { id: exerciseId },
+      data: {
+        ...rest,
+        ...(exerciseData && { exerciseData: exerciseData as Prisma.InputJsonValue }),
+      },
+    });
+  },
+
   /**
    * Creates a new vocabulary deck for a given teacher.
    * 
@@ -513,15 +626,38 @@ export const ContentService = {
           break;
         }
         case 'GRAMMAR_EXERCISE': {
-          const exercise = await tx.grammarExercise.create({
-            data: { ...itemData.data, creatorId },
-          });
+          let exerciseId: string;
+
+          if (itemData.mode === 'existing') {
+            // Link existing grammar exercise
+            const existingExercise = await tx.grammarExercise.findUnique({
+              where: { id: itemData.existingExerciseId },
+              select: { id: true, creatorId: true, isPublic: true },
+            });
+
+            if (!existingExercise) {
+              throw new Error('Selected grammar exercise not found.');
+            }
+
+            // Check if the teacher has access to this exercise
+            if (!existingExercise.isPublic && existingExercise.creatorId !== creatorId) {
+              throw new AuthorizationError('You do not have permission to use this grammar exercise.');
+            }
+
+            exerciseId = existingExercise.id;
+          } else {
+            const exercise = await tx.grammarExercise.create({
+              data: { ...itemData.data, creatorId },
+            });
+            exerciseId = exercise.id;
+          }
+
           newUnitItem = await tx.unitItem.create({
             data: {
               unitId,
               order: newOrder,
               type: 'GRAMMAR_EXERCISE',
-              grammarExerciseId: exercise.id,
+              grammarExerciseId: exerciseId,
               exerciseConfig: itemData.config || Prisma.JsonNull,
             },
           });
@@ -685,7 +821,10 @@ export const ContentService = {
         const newExercise = await modelOpsForCreate.create({
           data: {
             ...cleanDataToCopy,
-            name: `${original.name || original.title} (Copy)`, // Append (Copy) to the name
+            // Exercises are titled, decks are named. Append (Copy) to whichever applies.
+            ...(original.title !== undefined
+              ? { title: `${original.title} (Copy)` }
+              : { name: `${original.name} (Copy)` }),
             creatorId: newCreatorId,
             isPublic: false, // Forks are always private
             originExerciseId: original.id,
@@ -874,7 +1013,7 @@ export const ContentService = {
   async updateUnitItemConfig(
     unitItemId: string,
     teacherId: string,
-    config: VocabularyExerciseConfig | ListeningExerciseConfig | FillInTheBlankExerciseConfig
+    config: VocabularyExerciseConfig | ListeningExerciseConfig | FillInTheBlankExerciseConfig | GrammarExerciseConfig
   ): Promise<UnitItem> {
     const unitItem = await prisma.unitItem.findUnique({
       where: { id: unitItemId },
@@ -900,6 +1039,9 @@ export const ContentService = {
       case 'FILL_IN_THE_BLANK_EXERCISE':
         validatedConfig = FillInTheBlankExerciseConfigSchema.parse(config);
         break;
+      case 'GRAMMAR_EXERCISE':
+        validatedConfig = GrammarExerciseConfigSchema.parse(config);
+        break;
       default:
         throw new Error(`Unsupported exercise type: ${unitItem.type}`);
     }
@@ -917,10 +1059,12 @@ export const ContentService = {
    * This method is called by the worker and is not exposed through the API.
    *
    * @param payload The payload from the job, containing the deckId and cards.
+   * @param onProgress Optional callback receiving the number of rows imported so far.
    * @returns A promise that resolves to an object with the count of created cards.
    */
   async _bulkAddVocabularyCards(
-    payload: z.infer<typeof BulkImportVocabularyPayloadSchema>
+    payload: z.infer<typeof BulkImportVocabularyPayloadSchema>,
+    onProgress?: JobProgressReporter
   ) {
     const { deckId, cards } = payload;
 
@@ -930,12 +1074,25 @@ export const ContentService = {
       deckId,
     }));
 
-    const result = await prisma.vocabularyCard.createMany({
-      data: cardsToCreate,
-      skipDuplicates: true,
-    });
+    // Batches share one transaction, so a failed import still adds nothing.
+    const createdCount = await prisma.$transaction(async (tx) => {
+      let created = 0;
+      for (let i = 0; i < cardsToCreate.length; i += BULK_INSERT_BATCH_SIZE) {
+        const result = await tx.vocabularyCard.createMany({
+          data: cardsToCreate.slice(i, i + BULK_INSERT_BATCH_SIZE),
+          skipDuplicates: true,
+        });
+        created += result.count;
+        await onProgress?.({
+          phase: 'Importing cards',
+          processed: Math.min(i + BULK_INSERT_BATCH_SIZE, cardsToCreate.length),
+          total: cardsToCreate.length,
+        });
+      }
+      return created;
+    }, { timeout: BULK_IMPORT_TRANSACTION_TIMEOUT_MS });
 
-    return { createdCount: result.count };
+    return { createdCount };
   },
 
   /**
@@ -1284,7 +1441,8 @@ export const ContentService = {
    * Bulk import method for Fill in the Blank cards.
    */
   async _bulkAddFillInTheBlankCards(
-    payload: z.infer<typeof BulkImportFillInTheBlankPayloadSchema>
+    payload: z.infer<typeof BulkImportFillInTheBlankPayloadSchema>,
+    onProgress?: JobProgressReporter
   ) {
     const { deckId, cards } = payload;
 
@@ -1294,12 +1452,24 @@ export const ContentService = {
       deckId,
     }));
 
-    const result = await prisma.fillInTheBlankCard.createMany({
-      data: cardsToCreate,
-      skipDuplicates: true,
-    });
+    const createdCount = await prisma.$transaction(async (tx) => {
+      let created = 0;
+      for (let i = 0; i < cardsToCreate.length; i += BULK_INSERT_BATCH_SIZE) {
+        const result = await tx.fillInTheBlankCard.createMany({
+          data: cardsToCreate.slice(i, i + BULK_INSERT_BATCH_SIZE),
+          skipDuplicates: true,
+        });
+        created += result.count;
+        await onProgress?.({
+          phase: 'Importing cards',
+          processed: Math.min(i + BULK_INSERT_BATCH_SIZE, cardsToCreate.length),
+          total: cardsToCreate.length,
+        });
+      }
+      return created;
+    }, { timeout: BULK_IMPORT_TRANSACTION_TIMEOUT_MS });
 
-    return { createdCount: result.count };
+    return { createdCount };
   },
 
   /**
@@ -1864,7 +2034,8 @@ export const ContentService = {
    * This implementation mirrors _bulkAddVocabularyCards.
    */
   async _bulkAddGenericCards(
-    payload: BulkImportGenericCardPayload
+    payload: BulkImportGenericCardPayload,
+    onProgress?: JobProgressReporter
   ): Promise<{ cardsAdded: number; errors: string[] }> {
     const typedPayload = payload as {
       deckId: string;
@@ -1893,6 +2064,7 @@ export const ContentService = {
     }
 
     const errors: string[] = [];
+    const rowErrors: BulkImportError[] = [];
     let cardsAdded = 0;
 
     // Process cards in batches of 100 to avoid memory issues
@@ -1903,7 +2075,13 @@ export const ContentService = {
       try {
         const validCards = batch.filter(card => {
           if (!card.front?.trim() || !card.back?.trim()) {
-            errors.push(`Card ${i + batch.indexOf(card) + 1}: front and back fields are required`);
+            const rowNumber = i + batch.indexOf(card) + 1;
+            errors.push(`Card ${rowNumber}: front and back fields are required`);
+            rowErrors.push({
+              rowNumber,
+              fieldName: card.front?.trim() ? 'back' : 'front',
+              errorMessage: 'Front and back fields are required.',
+            });
             return false;
           }
           return true;
@@ -1930,7 +2108,15 @@ export const ContentService = {
       } catch (error) {
         const errorMessage = error instanceof Error ? error.message : 'Unknown error';
         errors.push(`Batch ${Math.floor(i / batchSize) + 1}: ${errorMessage}`);
+        rowErrors.push({ rowNumber: i + 1, fieldName: 'batch', errorMessage });
       }
+
+      await onProgress?.({
+        phase: 'Importing cards',
+        processed: Math.min(i + batchSize, cards.length),
+        total: cards.length,
+        errors: rowErrors,
+      });
     }
 
     return { cardsAdded, errors };
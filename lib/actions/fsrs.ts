@@ -7,6 +7,7 @@ import {
   FSRS_DEFAULT_PARAMETERS,
   DEFAULT_DESIRED_RETENTION,
   MemoryState,
+  intervalForRetention,
 } from '@/lib/fsrs/engine';
 import {
   ReviewHistory,
@@ -19,12 +20,28 @@ import {
   CardState,
   ReviewType,
   Job,
+  JobStatus,
+  JobType,
   Prisma,
 } from '@prisma/client';
 import { authorizeTeacherForStudent } from '../auth';
 import { JobService } from './jobs';
-import { FsrsStats, VocabularyExerciseConfig } from '../types';
-import { RebuildCachePayloadSchema } from '../schemas';
+import {
+  DeckRetentionOverride,
+  DesiredRetentionSettings,
+  FsrsParamsVersion,
+  FsrsStats,
+  FsrsReviewType,
+  JobProgressReporter,
+  RetentionWorkloadPreview,
+  ReviewForecast,
+  ReviewForecastDay,
+  VocabularyExerciseConfig,
+} from '../types';
+import { RebuildCachePayloadSchema, UpdateDesiredRetentionSchema } from '../schemas';
+import { z } from 'zod';
+import type { TransactionClient } from '../exercises/operators/base';
+import { fromWallClockTime, startOfDayInTimeZone, toWallClockTime } from '../server-utils';
 
 // ================================================================= //
 // FSRS SERVICE TYPE DEFINITIONS
@@ -87,10 +104,17 @@ interface FsrsOptimizationResult {
     id: string;
     studentId: string;
     w: number[];
+    version: number;
     isActive: boolean;
+    isAccepted: boolean;
     trainingDataSize: number;
     lastOptimized: Date;
   };
+  evaluation?: {
+    heldOutItems: number;
+    candidate: { logLoss: number; rmse: number };
+    baseline: { logLoss: number; rmse: number };
+  };
 }
 
 /**
@@ -185,6 +209,71 @@ const LISTENING_CANDIDATE_RETRIEVABILITY_THRESHOLD = 0.36;
  */
 const DEFAULT_LEARNING_STEPS = ['3m', '15m', '30m'];
 
+/**
+ * Weight of the newest timing in a card's rolling (exponentially weighted)
+ * average response time. Higher values react faster to recent reviews.
+ */
+const RESPONSE_TIME_SMOOTHING = 0.3;
+
+/**
+ * Upper bound for a recorded response time. Longer timings usually mean the
+ * card was left on screen (e.g. while talking), not a genuinely slow recall.
+ */
+const MAX_RESPONSE_TIME_MS = 5 * 60 * 1000;
+
+/**
+ * Cards whose average response time exceeds this are reported as slow recalls.
+ */
+const SLOW_RECALL_THRESHOLD_MS = 8000;
+
+/**
+ * Share of a student's cards held out of training to compare newly optimized
+ * weights against the active ones. New weights are only activated if they
+ * predict the held-out reviews better (lower log loss).
+ */
+const HELD_OUT_FRACTION = 0.2;
+
+/**
+ * Minimum number of held-out cards for the comparison to be meaningful.
+ */
+const MIN_HELD_OUT_ITEMS = 5;
+
+/**
+ * Version of the parameters row that only holds a desired retention set before
+ * the student's first optimization. It keeps the default weights, is not an
+ * optimization, and is therefore left out of the version history.
+ */
+const UNOPTIMIZED_PARAMS_VERSION = 0;
+
+/**
+ * Folds a new timing into a rolling average response time.
+ * An average of 0 means no timing has been recorded yet.
+ */
+function nextAverageResponseTime(currentAverageMs: number, responseTimeMs: number): number {
+  if (currentAverageMs <= 0) return responseTimeMs;
+  return Math.round(
+    currentAverageMs * (1 - RESPONSE_TIME_SMOOTHING) + responseTimeMs * RESPONSE_TIME_SMOOTHING
+  );
+}
+
+/**
+ * Replays a card's chronological review history to derive the response-time
+ * statistics cached on its state, so rebuilds and undos agree with live reviews.
+ */
+function computeResponseStats(
+  history: Pick<ReviewHistory, 'rating' | 'responseTimeMs'>[]
+): { averageResponseTimeMs: number; consecutiveCorrect: number } {
+  let averageResponseTimeMs = 0;
+  let consecutiveCorrect = 0;
+  for (const review of history) {
+    if (review.responseTimeMs !== null) {
+      averageResponseTimeMs = nextAverageResponseTime(averageResponseTimeMs, review.responseTimeMs);
+    }
+    consecutiveCorrect = review.rating === 1 ? 0 : consecutiveCorrect + 1;
+  }
+  return { averageResponseTimeMs, consecutiveCorrect };
+}
+
 /**
  * Parses a learning step duration string (e.g., '3m', '15m', '1h', '2d') into milliseconds.
  * @param step The duration string to parse.
@@ -214,27 +303,56 @@ function parseLearningStepDuration(step: string): number {
 type FsrsContextConfig = {
   stateModel: 'studentCardState' | 'listeningCardState' | 'studentGenericCardState';
   paramsModel: 'studentFsrsParams' | 'listeningFsrsParams' | 'genericFsrsParams';
+  paramsTable: 'StudentFsrsParams' | 'ListeningFsrsParams' | 'GenericFsrsParams'; // Table of paramsModel, for raw queries
   reviewType: ReviewType;
+  optimizeJobType: JobType;
+  /**
+   * The card and deck-assignment models used to look up a per-deck desired
+   * retention override. Contexts without deck assignments omit it.
+   */
+  deckAssignment?: {
+    cardModel: 'vocabularyCard' | 'genericCard';
+    assignmentModel: 'studentDeck' | 'studentGenericDeck';
+  };
 };
 
 const VOCABULARY_CONTEXT: FsrsContextConfig = {
   stateModel: 'studentCardState',
   paramsModel: 'studentFsrsParams',
+  paramsTable: 'StudentFsrsParams',
   reviewType: 'VOCABULARY',
+  optimizeJobType: JobType.OPTIMIZE_VOCABULARY_FSRS_PARAMS,
+  deckAssignment: { cardModel: 'vocabularyCard', assignmentModel: 'studentDeck' },
 };
 
 const LISTENING_CONTEXT: FsrsContextConfig = {
   stateModel: 'listeningCardState',
   paramsModel: 'listeningFsrsParams',
+  paramsTable: 'ListeningFsrsParams',
   reviewType: 'LISTENING',
+  optimizeJobType: JobType.OPTIMIZE_LISTENING_FSRS_PARAMS,
 };
 
 const GENERIC_CONTEXT: FsrsContextConfig = {
   stateModel: 'studentGenericCardState',
   paramsModel: 'genericFsrsParams',
+  paramsTable: 'GenericFsrsParams',
   reviewType: 'GENERIC',
+  optimizeJobType: JobType.OPTIMIZE_GENERIC_FSRS_PARAMS,
+  deckAssignment: { cardModel: 'genericCard', assignmentModel: 'studentGenericDeck' },
+};
+
+const CONTEXTS_BY_REVIEW_TYPE: Record<FsrsReviewType, FsrsContextConfig> = {
+  VOCABULARY: VOCABULARY_CONTEXT,
+  LISTENING: LISTENING_CONTEXT,
+  GENERIC: GENERIC_CONTEXT,
 };
 
+/**
+ * Desired retention values previewed on the analytics dashboard.
+ */
+const RETENTION_PREVIEW_VALUES = [0.8, 0.85, 0.9, 0.95];
+
 // --- REFACTORING: Generic FSRS Core Logic ---
 
 /**
@@ -247,6 +365,7 @@ const GENERIC_CONTEXT: FsrsContextConfig = {
  * @param cardId The UUID of the card being reviewed.
  * @param rating The student's performance rating (1-4).
  * @param sessionId Optional session ID.
+ * @param responseTimeMs Optional time the student took to answer, in milliseconds.
  * @returns A promise that resolves to the updated card state.
  */
 async function _recordReviewInternal(
@@ -254,10 +373,13 @@ async function _recordReviewInternal(
   studentId: string,
   cardId: string,
   rating: FsrsRating,
-  sessionId?: string
+  sessionId?: string,
+  responseTimeMs?: number
 ): Promise<StudentCardState | StudentGenericCardState | ListeningCardState> {
   return prisma.$transaction(async (tx) => {
     const now = new Date();
+    const recordedResponseTimeMs =
+      responseTimeMs === undefined ? null : Math.min(Math.round(responseTimeMs), MAX_RESPONSE_TIME_MS);
     // Use type-safe delegates for dynamic model access with proper type assertions
     const stateDelegate = tx[context.stateModel] as unknown as FsrsTransactionDelegate<StudentCardState | StudentGenericCardState | ListeningCardState>;
     const paramsDelegate = tx[context.paramsModel] as unknown as FsrsTransactionDelegate<Record<string, unknown>>;
@@ -294,6 +416,14 @@ async function _recordReviewInternal(
       );
     }
 
+    // Response statistics are maintained the same way for learning steps and FSRS reviews
+    const responseStatsUpdate = {
+      averageResponseTimeMs: recordedResponseTimeMs === null
+        ? undefined
+        : nextAverageResponseTime(previousCardState.averageResponseTimeMs, recordedResponseTimeMs),
+      consecutiveCorrect: rating === 1 ? 0 : { increment: 1 },
+    };
+
     // 3. Check if this card should use learning steps
     const shouldUseLearningSteps = await _shouldUseLearningStepsInternal(
       context,
@@ -329,6 +459,7 @@ async function _recordReviewInternal(
             lastReview: now,
             lapses: rating === 1 ? { increment: 1 } : undefined,
             state: newState,
+            ...responseStatsUpdate,
           },
         });
 
@@ -340,6 +471,7 @@ async function _recordReviewInternal(
             reviewType: context.reviewType,
             sessionId,
             reviewedAt: now,
+            responseTimeMs: recordedResponseTimeMs,
             previousState: previousCardState.state,
             previousDifficulty: previousCardState.difficulty,
             previousStability: previousCardState.stability,
@@ -359,6 +491,13 @@ async function _recordReviewInternal(
     });
     const w = (studentParams?.w as number[]) ?? FSRS_DEFAULT_PARAMETERS;
     const engine = new FSRS(w);
+    const desiredRetention = await _resolveDesiredRetentionInternal(
+      context,
+      studentId,
+      cardId,
+      studentParams,
+      tx as Prisma.TransactionClient
+    );
 
     // 5. Determine memory state
     const currentMemory =
@@ -380,7 +519,7 @@ async function _recordReviewInternal(
     // 7. Get next states from FSRS engine
     const nextStates = engine.nextStates(
       currentMemory,
-      DEFAULT_DESIRED_RETENTION,
+      desiredRetention,
       daysSinceLastReview
     );
 
@@ -419,6 +558,7 @@ async function _recordReviewInternal(
         reps: { increment: 1 },
         lapses: rating === 1 ? { increment: 1 } : undefined,
         state: rating === 1 ? 'RELEARNING' : 'REVIEW',
+        ...responseStatsUpdate,
       },
     });
 
@@ -431,6 +571,7 @@ async function _recordReviewInternal(
         reviewType: context.reviewType,
         sessionId,
         reviewedAt: now,
+        responseTimeMs: recordedResponseTimeMs,
         previousState: previousCardState.state,
         previousDifficulty: previousCardState.difficulty,
         previousStability: previousCardState.stability,
@@ -443,6 +584,198 @@ async function _recordReviewInternal(
   });
 }
 
+/**
+ * [INTERNAL GENERIC IMPLEMENTATION]
+ * Resolves the desired retention used to schedule a card: the override on the
+ * student's deck assignment wins, then the student's FSRS parameters for the
+ * context, then the global default.
+ */
+async function _resolveDesiredRetentionInternal(
+  context: FsrsContextConfig,
+  studentId: string,
+  cardId: string,
+  studentParams: Record<string, unknown> | null,
+  tx: Prisma.TransactionClient
+): Promise<number> {
+  if (context.deckAssignment) {
+    const cardDelegate = tx[context.deckAssignment.cardModel] as unknown as FsrsTransactionDelegate<{ deckId: string }>;
+    const card = await cardDelegate.findUnique({
+      where: { id: cardId },
+      select: { deckId: true },
+    });
+    if (card) {
+      const assignmentDelegate = tx[context.deckAssignment.assignmentModel] as unknown as FsrsTransactionDelegate<{ desiredRetention: number | null }>;
+      const assignment = await assignmentDelegate.findUnique({
+        where: { studentId_deckId: { studentId, deckId: card.deckId } },
+        select: { desiredRetention: true },
+      });
+      if (assignment?.desiredRetention != null) {
+        return assignment.desiredRetention;
+      }
+    }
+  }
+  return (studentParams?.desiredRetention as number | undefined) ?? DEFAULT_DESIRED_RETENTION;
+}
+
+/**
+ * [INTERNAL GENERIC IMPLEMENTATION]
+ * Computes how many new and review cards of a deck a student may still study
+ * today under the limits of their deck assignment. Days start at midnight in the
+ * teacher's time zone, so several sessions on one day share the same allowance.
+ * Returns `null` when the context has no deck assignments, no deck is given, or
+ * the deck is not assigned to the student.
+ */
+async function _getDailyAllowanceInternal(
+  context: FsrsContextConfig,
+  studentId: string,
+  deckId: string | undefined
+): Promise<{ newCards: number; reviews: number } | null> {
+  if (!context.deckAssignment || !deckId) return null;
+
+  const assignmentDelegate = prisma[context.deckAssignment.assignmentModel] as unknown as FsrsTransactionDelegate<{
+    dailyNewCards: number;
+    dailyReviewLimit: number;
+  }>;
+  const cardDelegate = prisma[context.deckAssignment.cardModel] as unknown as FsrsTransactionDelegate<{ id: string }>;
+  const [assignment, student, deckCards] = await Promise.all([
+    assignmentDelegate.findUnique({
+      where: { studentId_deckId: { studentId, deckId } },
+      select: { dailyNewCards: true, dailyReviewLimit: true },
+    }),
+    prisma.student.findUnique({
+      where: { id: studentId },
+      select: { teacher: { select: { timezone: true } } },
+    }),
+    cardDelegate.findMany({ where: { deckId }, select: { id: true } }),
+  ]);
+  if (!assignment || !student) return null;
+
+  const startOfToday = startOfDayInTimeZone(new Date(), student.teacher.timezone);
+  const reviewsToday = await prisma.reviewHistory.findMany({
+    where: {
+      studentId,
+      reviewType: context.reviewType,
+      reviewedAt: { gte: startOfToday },
+      cardId: { in: deckCards.map((c) => c.id) },
+      previousState: { in: [CardState.NEW, CardState.REVIEW] },
+    },
+    select: { cardId: true, previousState: true },
+  });
+
+  // A review of a NEW card introduces it; a review of a REVIEW card uses up the review limit.
+  // Learning and relearning steps are never capped, so a card is never left half-learned.
+  const introducedCards = new Set(reviewsToday.filter((r) => r.previousState === CardState.NEW).map((r) => r.cardId));
+  const reviewedCards = new Set(reviewsToday.filter((r) => r.previousState === CardState.REVIEW).map((r) => r.cardId));
+
+  return {
+    newCards: Math.max(0, assignment.dailyNewCards - introducedCards.size),
+    reviews: Math.max(0, assignment.dailyReviewLimit - reviewedCards.size),
+  };
+}
+
+/**
+ * Caps the REVIEW-state cards of a due queue at the remaining daily review
+ * allowance, keeping learning and relearning cards and the original order.
+ */
+function _applyReviewAllowance<T extends { state: CardState }>(cards: T[], allowance: number): T[] {
+  let remaining = allowance;
+  return cards.filter((card) => {
+    if (card.state !== CardState.REVIEW) return true;
+    if (remaining <= 0) return false;
+    remaining--;
+    return true;
+  });
+}
+
+/**
+ * [INTERNAL GENERIC IMPLEMENTATION]
+ * Reverts the most recent review recorded in a session for any FSRS context.
+ * The ReviewHistory row is deleted and the card state is restored from the
+ * `previous*` columns captured when the review was recorded, so the cached
+ * state stays consistent with what a rebuild from the ledger would produce.
+ *
+ * @param context The FSRS context configuration (models and review type).
+ * @param studentId The UUID of the student.
+ * @param sessionId The session in which the review was recorded.
+ * @param cardIds The cards eligible for undo (the scope of the current exercise).
+ * @param tx The transaction client to run the undo in.
+ * @returns A promise that resolves to the deleted ReviewHistory entry.
+ */
+async function _undoLastReviewInternal(
+  context: FsrsContextConfig,
+  studentId: string,
+  sessionId: string,
+  cardIds: string[],
+  tx: TransactionClient
+): Promise<ReviewHistory> {
+  const stateDelegate = tx[context.stateModel] as unknown as FsrsTransactionDelegate<StudentCardState | StudentGenericCardState | ListeningCardState>;
+
+  const lastReview = await tx.reviewHistory.findFirst({
+    where: {
+      studentId,
+      sessionId,
+      reviewType: context.reviewType,
+      cardId: { in: cardIds },
+    },
+    orderBy: { id: 'desc' },
+  });
+
+  if (!lastReview) {
+    throw new Error('There is no review to undo in the current exercise.');
+  }
+
+  if (
+    lastReview.previousState === null ||
+    lastReview.previousStability === null ||
+    lastReview.previousDifficulty === null ||
+    lastReview.previousDue === null
+  ) {
+    throw new Error('This review cannot be undone because its previous card state was not recorded.');
+  }
+
+  // Only the latest review of a card can be reverted without corrupting the ledger.
+  const newerReview = await tx.reviewHistory.findFirst({
+    where: {
+      studentId,
+      cardId: lastReview.cardId,
+      reviewType: context.reviewType,
+      id: { gt: lastReview.id },
+    },
+    select: { id: true },
+  });
+  if (newerReview) {
+    throw new Error('This review cannot be undone because the card has been reviewed again since.');
+  }
+
+  await tx.reviewHistory.delete({ where: { id: lastReview.id } });
+
+  // lastReview and the response statistics are not snapshotted in the ledger,
+  // so they are derived from the reviews that remain.
+  const remainingHistory = await tx.reviewHistory.findMany({
+    where: { studentId, cardId: lastReview.cardId, reviewType: context.reviewType },
+    orderBy: { id: 'asc' },
+    select: { reviewedAt: true, rating: true, responseTimeMs: true },
+  });
+  const priorReview = remainingHistory[remainingHistory.length - 1];
+
+  await stateDelegate.update({
+    where: { studentId_cardId: { studentId, cardId: lastReview.cardId } },
+    data: {
+      stability: lastReview.previousStability,
+      difficulty: lastReview.previousDifficulty,
+      due: lastReview.previousDue,
+      state: lastReview.previousState,
+      lastReview: priorReview?.reviewedAt ?? null,
+      // Mirrors the increments applied in _recordReviewInternal.
+      reps: lastReview.isLearningStep ? undefined : { decrement: 1 },
+      lapses: lastReview.rating === 1 ? { decrement: 1 } : undefined,
+      ...computeResponseStats(remainingHistory),
+    },
+  });
+
+  return lastReview;
+}
+
 /**
  * [INTERNAL GENERIC IMPLEMENTATION]
  * Determines if a card should use learning steps for a given context.
@@ -550,6 +883,14 @@ async function _optimizeParametersInternal(
     orderBy: { reviewedAt: 'asc' },
   });
 
+  // Recorded before the checks below, so a student skipped for lack of data is
+  // only picked up by automatic optimization again once they have new reviews.
+  await prisma.fsrsOptimizationAttempt.upsert({
+    where: { studentId_reviewType: { studentId, reviewType: context.reviewType } },
+    update: { attemptedAt: new Date() },
+    create: { studentId, reviewType: context.reviewType },
+  });
+
   // FSRS optimization requires a meaningful amount of FSRS data.
   if (allHistory.length < 50) {
     const message = `Skipping optimization for student ${studentId} (${context.reviewType}): insufficient FSRS review history (${allHistory.length} reviews). At least 50 FSRS reviews are recommended.`;
@@ -563,42 +904,87 @@ async function _optimizeParametersInternal(
     return acc;
   }, {} as Record<string, ReviewHistory[]>);
 
-  const trainingSet = Object.values(reviewsByCard).map((history) => {
+  // Cards are ordered by their first review, so the held-out set is the most
+  // recently started cards and the weights are judged on reviews they never saw.
+  const items = Object.values(reviewsByCard).map((history) => {
     const fsrsReviews = _mapHistoryToFsrsReviews(history as ReviewHistory[]);
     return new FSRSItem(fsrsReviews);
   });
+  const heldOutCount = Math.max(MIN_HELD_OUT_ITEMS, Math.round(items.length * HELD_OUT_FRACTION));
+  const trainingSet = items.slice(0, items.length - heldOutCount);
+  // Only reviews on a later day than the previous one can be predicted
+  const heldOutSet = items.slice(items.length - heldOutCount).filter((item) => item.longTermReviewCnt() > 0);
+
+  if (trainingSet.length === 0 || heldOutSet.length < MIN_HELD_OUT_ITEMS) {
+    const message = `Skipping optimization for student ${studentId} (${context.reviewType}): not enough cards to hold out for evaluation (${items.length} cards reviewed).`;
+    console.log(message);
+    return { message };
+  }
+
+  const contextParamsDelegate = prisma[context.paramsModel] as unknown as FsrsTransactionDelegate<Record<string, unknown>>;
+  const activeParams = await contextParamsDelegate.findFirst({
+    where: { studentId, isActive: true },
+  });
+  const baselineWeights = (activeParams?.w as number[]) ?? FSRS_DEFAULT_PARAMETERS;
 
   const engine = new FSRS();
   const newWeights = await engine.computeParameters(trainingSet, true);
 
+  const candidateEvaluation = new FSRS(newWeights).evaluate(heldOutSet);
+  const baselineEvaluation = new FSRS(baselineWeights).evaluate(heldOutSet);
+  const isAccepted = candidateEvaluation.logLoss < baselineEvaluation.logLoss;
+
   const result = await prisma.$transaction(async (tx) => {
-    const contextParamsDelegate = tx[context.paramsModel] as unknown as FsrsTransactionDelegate<Record<string, unknown>>;
-    await contextParamsDelegate.updateMany({
+    const txParamsDelegate = tx[context.paramsModel] as unknown as FsrsTransactionDelegate<Record<string, unknown>>;
+    const latestVersion = await txParamsDelegate.findFirst({
       where: { studentId },
-      data: { isActive: false },
+      orderBy: { version: 'desc' },
+      select: { version: true },
     });
-    const newParams = await contextParamsDelegate.create({
+    if (isAccepted) {
+      await txParamsDelegate.updateMany({
+        where: { studentId },
+        data: { isActive: false },
+      });
+    }
+    // Rejected weights are still stored so the version history shows every attempt
+    return txParamsDelegate.create({
       data: {
         studentId,
         w: newWeights,
-        isActive: true,
+        version: ((latestVersion?.version as number | undefined) ?? 0) + 1,
+        // The desired retention is a teacher setting, not a trained weight, so it carries over
+        desiredRetention: activeParams?.desiredRetention ?? DEFAULT_DESIRED_RETENTION,
+        isActive: isAccepted,
+        isAccepted,
+        optimizationScore: candidateEvaluation.logLoss,
+        rmse: candidateEvaluation.rmseBins,
+        baselineScore: baselineEvaluation.logLoss,
         trainingDataSize: allHistory.length,
         lastOptimized: new Date(),
       },
     });
-    return newParams;
   });
 
   return {
-    message: `Successfully optimized parameters for student ${studentId} (${context.reviewType}).`,
+    message: isAccepted
+      ? `Successfully optimized parameters for student ${studentId} (${context.reviewType}).`
+      : `Optimized parameters for student ${studentId} (${context.reviewType}) did not improve on the active parameters and were not activated.`,
     params: result as {
       id: string;
       studentId: string;
       w: number[];
+      version: number;
       isActive: boolean;
+      isAccepted: boolean;
       trainingDataSize: number;
       lastOptimized: Date;
     },
+    evaluation: {
+      heldOutItems: heldOutSet.length,
+      candidate: { logLoss: candidateEvaluation.logLoss, rmse: candidateEvaluation.rmseBins },
+      baseline: { logLoss: baselineEvaluation.logLoss, rmse: baselineEvaluation.rmseBins },
+    },
   };
 }
 
@@ -678,7 +1064,8 @@ export const FSRSService = {
     cardId: string,
     rating: FsrsRating,
     reviewType: ReviewType, // reviewType is kept for signature compatibility, but we use the context's type
-    sessionId?: string
+    sessionId?: string,
+    responseTimeMs?: number
   ): Promise<StudentCardState> {
     // We ignore the passed `reviewType` and use the one from our static context
     // to ensure the correct logic is always applied for this method.
@@ -687,10 +1074,30 @@ export const FSRSService = {
       studentId,
       cardId,
       rating,
-      sessionId
+      sessionId,
+      responseTimeMs
     );
   },
 
+  /**
+   * Reverts the most recent vocabulary review recorded in a session.
+   * This is a facade that calls the generic internal implementation.
+   *
+   * @param studentId The UUID of the student.
+   * @param sessionId The UUID of the session the review belongs to.
+   * @param cardIds The cards in scope of the current exercise.
+   * @param tx The transaction client of the session submission.
+   * @returns A promise that resolves to the deleted ReviewHistory entry.
+   */
+  async undoLastReview(
+    studentId: string,
+    sessionId: string,
+    cardIds: string[],
+    tx: TransactionClient
+  ): Promise<ReviewHistory> {
+    return _undoLastReviewInternal(VOCABULARY_CONTEXT, studentId, sessionId, cardIds, tx);
+  },
+
   /**
    * [INTERNAL] Asynchronously computes and saves optimal FSRS parameters for a student.
    * This is now a facade that calls the generic internal implementation.
@@ -704,7 +1111,8 @@ export const FSRSService = {
   /**
    * Assembles the initial review queue for a unified vocabulary session based on student
    * status and session configuration. Properly distinguishes between truly new cards
-   * and relearning cards.
+   * and relearning cards. The session configuration is further capped by the daily
+   * limits of the student's deck assignment, counting reviews from earlier sessions today.
    * @param studentId The ID of the student.
    * @param config The configuration for this specific session.
    * @returns An object containing separate arrays for due and new card queue items.
@@ -719,6 +1127,7 @@ export const FSRSService = {
     const now = new Date();
     const defaults = { newCards: 10, maxDue: 50, minDue: 10 };
     const finalConfig = { ...defaults, ...config };
+    const allowance = await _getDailyAllowanceInternal(VOCABULARY_CONTEXT, studentId, finalConfig.deckId);
 
     let dueCards = await prisma.studentCardState.findMany({
       where: {
@@ -749,6 +1158,9 @@ export const FSRSService = {
       });
       dueCards = [...dueCards, ...supplementalCards];
     }
+    if (allowance) {
+      dueCards = _applyReviewAllowance(dueCards, allowance.reviews);
+    }
 
     // Get truly NEW cards (never reviewed)
     const newCards = await prisma.studentCardState.findMany({
@@ -757,7 +1169,7 @@ export const FSRSService = {
         state: 'NEW',
         card: { deckId: finalConfig.deckId },
       },
-      take: finalConfig.newCards,
+      take: allowance ? Math.min(finalConfig.newCards, allowance.newCards) : finalConfig.newCards,
       orderBy: { card: { createdAt: 'asc' } },
     });
 
@@ -787,6 +1199,273 @@ export const FSRSService = {
     });
   },
 
+  /**
+   * Retrieves the vocabulary cards a student recalls most slowly, based on the
+   * rolling average response time maintained on each card state.
+   */
+  async getSlowRecallCards(
+    studentId: string,
+    limit = 20
+  ): Promise<(StudentCardState & { card: VocabularyCard })[]> {
+    return prisma.studentCardState.findMany({
+      where: { studentId, averageResponseTimeMs: { gte: SLOW_RECALL_THRESHOLD_MS } },
+      include: { card: true },
+      orderBy: { averageResponseTimeMs: 'desc' },
+      take: limit,
+    });
+  },
+
+  /**
+   * Retrieves a student's desired retention per review type, their per-deck
+   * overrides, and a preview of the vocabulary workload at common retention values.
+   * @param studentId The ID of the student.
+   * @param teacherId The ID of the teacher, for authorization.
+   */
+  async getDesiredRetentionSettings(
+    studentId: string,
+    teacherId: string
+  ): Promise<DesiredRetentionSettings> {
+    await authorizeTeacherForStudent(teacherId, studentId);
+
+    const [vocabularyParams, listeningParams, genericParams, studentDecks, studentGenericDecks, cardStates] =
+      await Promise.all([
+        prisma.studentFsrsParams.findFirst({ where: { studentId, isActive: true } }),
+        prisma.listeningFsrsParams.findFirst({ where: { studentId, isActive: true } }),
+        prisma.genericFsrsParams.findFirst({ where: { studentId, isActive: true } }),
+        prisma.studentDeck.findMany({
+          where: { studentId, isActive: true },
+          include: { deck: { select: { name: true } } },
+          orderBy: { assignedAt: 'asc' },
+        }),
+        prisma.studentGenericDeck.findMany({
+          where: { studentId, isActive: true },
+          include: { deck: { select: { name: true } } },
+          orderBy: { assignedAt: 'asc' },
+        }),
+        prisma.studentCardState.findMany({
+          where: { studentId, state: { not: 'NEW' }, stability: { gt: 0 } },
+          select: { stability: true },
+        }),
+      ]);
+
+    const retention: Record<FsrsReviewType, number> = {
+      VOCABULARY: vocabularyParams?.desiredRetention ?? DEFAULT_DESIRED_RETENTION,
+      LISTENING: listeningParams?.desiredRetention ?? DEFAULT_DESIRED_RETENTION,
+      GENERIC: genericParams?.desiredRetention ?? DEFAULT_DESIRED_RETENTION,
+    };
+
+    const deckOverrides: DeckRetentionOverride[] = [
+      ...studentDecks.map((sd) => ({
+        deckId: sd.deckId,
+        deckName: sd.deck.name,
+        reviewType: 'VOCABULARY' as const,
+        desiredRetention: sd.desiredRetention,
+      })),
+      ...studentGenericDecks.map((sd) => ({
+        deckId: sd.deckId,
+        deckName: sd.deck.name,
+        reviewType: 'GENERIC' as const,
+        desiredRetention: sd.desiredRetention,
+      })),
+    ];
+
+    const previewValues = Array.from(new Set([...RETENTION_PREVIEW_VALUES, retention.VOCABULARY])).sort(
+      (a, b) => a - b
+    );
+    // In steady state each card is reviewed once per interval, so the daily
+    // workload is the sum of the reciprocal intervals.
+    const workloadPreview: RetentionWorkloadPreview[] = previewValues.map((desiredRetention) => {
+      const intervals = cardStates.map((cs) => Math.max(1, intervalForRetention(cs.stability, desiredRetention)));
+      const estimatedDailyReviews = intervals.reduce((sum, interval) => sum + 1 / interval, 0);
+      const averageIntervalDays =
+        intervals.length > 0 ? intervals.reduce((sum, interval) => sum + interval, 0) / intervals.length : 0;
+      return {
+        desiredRetention,
+        estimatedDailyReviews: Math.round(estimatedDailyReviews * 10) / 10,
+        averageIntervalDays: Math.round(averageIntervalDays * 10) / 10,
+      };
+    });
+
+    return { retention, deckOverrides, workloadPreview };
+  },
+
+  /**
+   * Changes a student's desired retention. Without a `deckId` the setting applies
+   * to every card of the review type and is stored on the student's active FSRS
+   * parameters; with one it overrides the setting for that deck only.
+   * Existing due dates are not changed; the new retention applies from each card's next review.
+   * @param studentId The ID of the student.
+   * @param teacherId The ID of the teacher, for authorization.
+   * @param data The validated retention update.
+   */
+  async updateDesiredRetention(
+    studentId: string,
+    teacherId: string,
+    data: z.infer<typeof UpdateDesiredRetentionSchema>
+  ): Promise<DesiredRetentionSettings> {
+    await authorizeTeacherForStudent(teacherId, studentId);
+    const { reviewType, desiredRetention, deckId } = data;
+    const context = CONTEXTS_BY_REVIEW_TYPE[reviewType];
+
+    if (deckId) {
+      if (!context.deckAssignment) {
+        throw new Error(`${reviewType} practice has no per-deck retention.`);
+      }
+      const assignmentDelegate = prisma[context.deckAssignment.assignmentModel] as unknown as FsrsTransactionDelegate<unknown>;
+      const { count } = await assignmentDelegate.updateMany({
+        where: { studentId, deckId },
+        data: { desiredRetention },
+      });
+      if (count === 0) {
+        throw new Error('Deck assignment not found for this student.');
+      }
+    } else {
+      const paramsDelegate = prisma[context.paramsModel] as unknown as FsrsTransactionDelegate<unknown>;
+      const { count } = await paramsDelegate.updateMany({
+        where: { studentId, isActive: true },
+        data: { desiredRetention },
+      });
+      if (count === 0) {
+        // The student has never been optimized, so keep the default weights. The row
+        // must not count as an optimization for the history or automatic optimization.
+        await paramsDelegate.create({
+          data: {
+            studentId,
+            w: FSRS_DEFAULT_PARAMETERS,
+            version: UNOPTIMIZED_PARAMS_VERSION,
+            lastOptimized: new Date(0),
+            desiredRetention,
+            isActive: true,
+          },
+        });
+      }
+    }
+
+    return this.getDesiredRetentionSettings(studentId, teacherId);
+  },
+
+  /**
+   * Lists every optimization of a student's FSRS parameters for a review type,
+   * newest first, including weights that were rejected by the held-out evaluation.
+   * @param studentId The ID of the student.
+   * @param teacherId The ID of the teacher, for authorization.
+   * @param reviewType The review type whose parameters to list.
+   */
+  async getParameterVersions(
+    studentId: string,
+    teacherId: string,
+    reviewType: FsrsReviewType
+  ): Promise<FsrsParamsVersion[]> {
+    await authorizeTeacherForStudent(teacherId, studentId);
+    const paramsDelegate = prisma[CONTEXTS_BY_REVIEW_TYPE[reviewType].paramsModel] as unknown as FsrsTransactionDelegate<FsrsParamsVersion>;
+    return paramsDelegate.findMany({
+      where: { studentId, version: { gt: UNOPTIMIZED_PARAMS_VERSION } },
+      orderBy: { version: 'desc' },
+    });
+  },
+
+  /**
+   * Reactivates an earlier version of a student's FSRS parameters. The student's
+   * current desired retention is kept, as it is a teacher setting rather than part
+   * of the trained weights. Card states are not rescheduled; run a cache rebuild
+   * to apply the weights to past reviews.
+   * @param studentId The ID of the student.
+   * @param teacherId The ID of the teacher, for authorization.
+   * @param reviewType The review type whose parameters to roll back.
+   * @param version The version number to reactivate.
+   */
+  async rollbackParameters(
+    studentId: string,
+    teacherId: string,
+    reviewType: FsrsReviewType,
+    version: number
+  ): Promise<FsrsParamsVersion> {
+    await authorizeTeacherForStudent(teacherId, studentId);
+    const context = CONTEXTS_BY_REVIEW_TYPE[reviewType];
+
+    return prisma.$transaction(async (tx) => {
+      const paramsDelegate = tx[context.paramsModel] as unknown as FsrsTransactionDelegate<FsrsParamsVersion & { desiredRetention: number }>;
+      const [target, active] = await Promise.all([
+        paramsDelegate.findFirst({ where: { studentId, version } }),
+        paramsDelegate.findFirst({ where: { studentId, isActive: true } }),
+      ]);
+      if (!target || target.version === UNOPTIMIZED_PARAMS_VERSION) {
+        throw new Error(`FSRS parameter version ${version} not found for this student.`);
+      }
+
+      await paramsDelegate.updateMany({
+        where: { studentId },
+        data: { isActive: false },
+      });
+      return paramsDelegate.update({
+        where: { id: target.id },
+        data: {
+          isActive: true,
+          desiredRetention: active?.desiredRetention ?? target.desiredRetention,
+        },
+      });
+    });
+  },
+
+  /**
+   * [INTERNAL] Enqueues optimization jobs for every active student of an opted-in
+   * teacher who has made at least the teacher's `autoOptimizeMinReviews` FSRS
+   * reviews of a review type since its last optimization attempt. Students with an
+   * optimization of that type already pending or running are skipped.
+   * Called periodically by the scheduler.
+   */
+  async _enqueueAutomaticOptimizations(): Promise<{
+    enqueued: number;
+    jobs: { jobId: string; studentId: string; type: JobType }[];
+  }> {
+    const jobs: { jobId: string; studentId: string; type: JobType }[] = [];
+
+    for (const context of Object.values(CONTEXTS_BY_REVIEW_TYPE)) {
+      // The last optimization counts even when its weights were rejected or it was
+      // skipped for lack of data, so a student is only retried once enough new
+      // reviews have accumulated.
+      const eligibleStudents = await prisma.$queryRaw<{ studentId: string; teacherId: string }[]>`
+        SELECT s.id AS "studentId", s."teacherId"
+        FROM "Student" s
+        JOIN "TeacherSettings" ts ON ts."teacherId" = s."teacherId"
+        JOIN "ReviewHistory" rh ON rh."studentId" = s.id
+        WHERE ts."autoOptimizeFsrs" = true
+          AND s.status = 'ACTIVE'
+          AND s."isArchived" = false
+          AND rh."reviewType" = ${context.reviewType}::"ReviewType"
+          AND rh."isLearningStep" = false
+          AND rh."reviewedAt" > GREATEST(
+            (SELECT MAX(p."lastOptimized") FROM ${Prisma.raw(`"${context.paramsTable}"`)} p WHERE p."studentId" = s.id),
+            (SELECT a."attemptedAt" FROM "FsrsOptimizationAttempt" a
+              WHERE a."studentId" = s.id AND a."reviewType" = ${context.reviewType}::"ReviewType"),
+            'epoch'::timestamp
+          )
+        GROUP BY s.id, s."teacherId", ts."autoOptimizeMinReviews"
+        HAVING COUNT(rh.id) >= ts."autoOptimizeMinReviews"
+      `;
+      if (eligibleStudents.length === 0) continue;
+
+      const activeJobs = await prisma.job.findMany({
+        where: {
+          type: context.optimizeJobType,
+          status: { in: [JobStatus.PENDING, JobStatus.RUNNING] },
+        },
+        select: { payload: true },
+      });
+      const studentsWithActiveJobs = new Set(
+        activeJobs.map((job) => (job.payload as { studentId?: string } | null)?.studentId)
+      );
+
+      for (const { studentId, teacherId } of eligibleStudents) {
+        if (studentsWithActiveJobs.has(studentId)) continue;
+        const job = await JobService.createStudentJob(teacherId, context.optimizeJobType, studentId);
+        jobs.push({ jobId: job.id, studentId, type: context.optimizeJobType });
+      }
+    }
+
+    return { enqueued: jobs.length, jobs };
+  },
+
   /**
    * Finds cards suitable for listening practice. This operation is status-aware.
    */
@@ -878,19 +1557,32 @@ export const FSRSService = {
       },
       _avg: {
         retrievability: true,
-        averageResponseTimeMs: true,
       },
       _count: {
         _all: true,
       },
     });
 
-    const [stateCounts, dueToday, dueThisWeek, overdue, aggregateStats] = await prisma.$transaction([
+    // Cards that were never timed have an average of 0 and must not drag the mean down
+    const responseTimeQuery = prisma.studentCardState.aggregate({
+      where: { studentId, averageResponseTimeMs: { gt: 0 } },
+      _avg: {
+        averageResponseTimeMs: true,
+      },
+    });
+
+    const slowRecallQuery = prisma.studentCardState.count({
+      where: { studentId, averageResponseTimeMs: { gte: SLOW_RECALL_THRESHOLD_MS } },
+    });
+
+    const [stateCounts, dueToday, dueThisWeek, overdue, aggregateStats, responseTimeStats, slowRecallCards] = await prisma.$transaction([
       stateCountsQuery,
       dueTodayQuery,
       dueThisWeekQuery,
       overdueQuery,
       aggregateStatsQuery,
+      responseTimeQuery,
+      slowRecallQuery,
     ]);
 
     const statsMap = stateCounts.reduce((acc, record) => {
@@ -909,18 +1601,126 @@ export const FSRSService = {
       overdue: overdue,
       totalReviews: aggregateStats._sum.reps ?? 0,
       averageRetention: (aggregateStats._avg.retrievability ?? 0) * 100,
-      averageResponseTime: aggregateStats._avg.averageResponseTimeMs ?? 0,
+      averageResponseTime: responseTimeStats._avg.averageResponseTimeMs ?? 0,
+      slowRecallCards,
     };
   },
 
+  /**
+   * Forecasts a student's review workload as a day-by-day histogram of due
+   * reviews across vocabulary, generic and listening cards. Overdue reviews are
+   * counted on the first day, as that is when they will be reviewed. Days start
+   * at midnight in the teacher's time zone.
+   * @param studentId The ID of the student.
+   * @param teacherId The ID of the teacher, for authorization.
+   * @param options.days The number of days to forecast, starting today.
+   * @param options.includeNewCards Whether to simulate the introduction of new
+   * cards at each deck's `dailyNewCards` rate.
+   */
+  async getReviewForecast(
+    studentId: string,
+    teacherId: string,
+    options: { days: number; includeNewCards: boolean }
+  ): Promise<ReviewForecast> {
+    await authorizeTeacherForStudent(teacherId, studentId);
+    const { days, includeNewCards } = options;
+
+    const dayMs = 24 * 60 * 60 * 1000;
+    const now = new Date();
+    // Days are counted in the teacher's time zone, like the daily limits
+    const { timezone } = await prisma.teacher.findUniqueOrThrow({
+      where: { id: teacherId },
+      select: { timezone: true },
+    });
+    const localDay = (date: Date) => Math.floor(toWallClockTime(date, timezone) / dayMs);
+    const today = localDay(now);
+    const horizon = fromWallClockTime((today + days) * dayMs, timezone);
+
+    const dueWhere = { studentId, state: { not: CardState.NEW }, due: { lt: horizon } };
+    const [vocabularyDue, genericDue, listeningDue] = await Promise.all([
+      prisma.studentCardState.findMany({ where: dueWhere, select: { due: true } }),
+      prisma.studentGenericCardState.findMany({ where: dueWhere, select: { due: true } }),
+      prisma.listeningCardState.findMany({ where: dueWhere, select: { due: true } }),
+    ]);
+
+    const forecast: ReviewForecastDay[] = Array.from({ length: days }, (_, i) => ({
+      // The wall-clock midnight of the day, so its UTC date is the local date
+      date: new Date((today + i) * dayMs).toISOString().slice(0, 10),
+      vocabulary: 0,
+      generic: 0,
+      listening: 0,
+      newCards: 0,
+      total: 0,
+    }));
+
+    const dayIndex = (due: Date) => Math.max(0, localDay(due) - today);
+    const addDue = (states: { due: Date }[], key: 'vocabulary' | 'generic' | 'listening') => {
+      for (const { due } of states) {
+        const index = dayIndex(due);
+        if (index < days) forecast[index][key]++;
+      }
+    };
+    addDue(vocabularyDue, 'vocabulary');
+    addDue(genericDue, 'generic');
+    addDue(listeningDue, 'listening');
+
+    if (includeNewCards) {
+      const [studentDecks, studentGenericDecks] = await Promise.all([
+        prisma.studentDeck.findMany({
+          where: { studentId, isActive: true },
+          select: { deckId: true, dailyNewCards: true },
+        }),
+        prisma.studentGenericDeck.findMany({
+          where: { studentId, isActive: true },
+          select: { deckId: true, dailyNewCards: true },
+        }),
+      ]);
+      const [newVocabularyCounts, newGenericCounts] = await Promise.all([
+        Promise.all(
+          studentDecks.map((sd) =>
+            prisma.studentCardState.count({
+              where: { studentId, state: CardState.NEW, card: { deckId: sd.deckId } },
+            })
+          )
+        ),
+        Promise.all(
+          studentGenericDecks.map((sd) =>
+            prisma.studentGenericCardState.count({
+              where: { studentId, state: CardState.NEW, card: { deckId: sd.deckId } },
+            })
+          )
+        ),
+      ]);
+
+      // Each deck introduces up to its daily limit until it runs out of new cards
+      const introductions = [
+        ...studentDecks.map((sd, i) => ({ remaining: newVocabularyCounts[i], perDay: sd.dailyNewCards })),
+        ...studentGenericDecks.map((sd, i) => ({ remaining: newGenericCounts[i], perDay: sd.dailyNewCards })),
+      ];
+      for (const day of forecast) {
+        for (const deck of introductions) {
+          const introduced = Math.min(deck.remaining, deck.perDay);
+          day.newCards += introduced;
+          deck.remaining -= introduced;
+        }
+      }
+    }
+
+    for (const day of forecast) {
+      day.total = day.vocabulary + day.generic + day.listening + day.newCards;
+    }
+
+    const overdue = [...vocabularyDue, ...genericDue, ...listeningDue].filter(({ due }) => due < now).length;
+
+    return { days, includesNewCards: includeNewCards, overdue, forecast };
+  },
+
   async createRebuildCacheJob(
     studentId: string,
     teacherId: string
   ): Promise<Job> {
     await authorizeTeacherForStudent(teacherId, studentId);
-    return JobService.createJob(teacherId, 'REBUILD_VOCABULARY_FSRS_CACHE', {
-      studentId,
-    });
+    return JobService.createStudentJob(teacherId, 'REBUILD_VOCABULARY_FSRS_CACHE', studentId);
   },
 
   /**
@@ -937,9 +1737,7 @@ export const FSRSService = {
     await authorizeTeacherForStudent(teacherId, studentId, {
       checkIsActive: true,
     });
-    return JobService.createJob(teacherId, 'OPTIMIZE_VOCABULARY_FSRS_PARAMS', {
-      studentId,
-    });
+    return JobService.createStudentJob(teacherId, 'OPTIMIZE_VOCABULARY_FSRS_PARAMS', studentId);
   },
 
   /**
@@ -948,7 +1746,8 @@ export const FSRSService = {
    * FSRS scheduling and learning steps, ensuring accurate reconstruction of card states.
    */
   async _rebuildCacheForStudent(
-    payload: Prisma.JsonValue
+    payload: Prisma.JsonValue,
+    onProgress?: JobProgressReporter
   ): Promise<CacheRebuildResult> {
     const validatedPayload = validateFsrsOptimizationPayload(payload);
     const { studentId } = validatedPayload;
@@ -966,6 +1765,13 @@ export const FSRSService = {
     const allAssignedCardIds = new Set(
       studentDecks.flatMap((sd) => sd.deck.cards.map((c) => c.id))
     );
+    const studentRetention = studentParams?.desiredRetention ?? DEFAULT_DESIRED_RETENTION;
+    const retentionByCard = new Map<string, number>();
+    for (const sd of studentDecks) {
+      for (const card of sd.deck.cards) {
+        retentionByCard.set(card.id, sd.desiredRetention ?? studentRetention);
+      }
+    }
 
     // Get ALL history (learning steps + FSRS) for complete reconstruction
     const allHistory = await prisma.reviewHistory.findMany({
@@ -984,7 +1790,13 @@ export const FSRSService = {
     const statesFromHistory: Prisma.StudentCardStateCreateManyInput[] = [];
     const reviewedCardIds = new Set<string>();
 
+    const reviewedCardCount = Object.keys(historyByCard).length;
     for (const cardId in historyByCard) {
+      await onProgress?.({
+        phase: 'Replaying review history',
+        processed: reviewedCardIds.size,
+        total: reviewedCardCount,
+      });
       reviewedCardIds.add(cardId);
       const cardHistory = historyByCard[cardId];
       const lastReview = cardHistory[cardHistory.length - 1];
@@ -1027,6 +1839,7 @@ export const FSRSService = {
             reps: cardHistory.filter(h => !h.isLearningStep).length, // Only count FSRS reviews
             lapses: cardHistory.filter((h) => h.rating === 1).length,
             state: cardHistory.some(h => !h.isLearningStep) ? 'RELEARNING' : 'NEW', // NEW if never graduated, RELEARNING if failed
+            ...computeResponseStats(cardHistory.filter((h) => h.reviewType === 'VOCABULARY')),
           });
           continue; // Skip FSRS calculation
         }
@@ -1041,7 +1854,7 @@ export const FSRSService = {
 
       const nextStates = engine.nextStates(
         finalMemoryState,
-        DEFAULT_DESIRED_RETENTION,
+        retentionByCard.get(cardId) ?? studentRetention,
         0
       );
       let nextState;
@@ -1077,6 +1890,7 @@ export const FSRSService = {
         reps: fsrsOnlyHistory.length, // Only count FSRS reviews for reps
         lapses: cardHistory.filter((h) => h.rating === 1).length,
         state: lastReview.rating === 1 ? 'RELEARNING' : 'REVIEW',
+        ...computeResponseStats(cardHistory.filter((h) => h.reviewType === 'VOCABULARY')),
       });
     }
 
@@ -1097,6 +1911,11 @@ export const FSRSService = {
 
     const allStatesToCreate: Prisma.StudentCardStateCreateManyInput[] = [...statesFromHistory, ...newCardStates];
 
+    await onProgress?.({
+      phase: 'Saving card states',
+      processed: 0,
+      total: allStatesToCreate.length,
+    });
     await prisma.$transaction([
       prisma.studentCardState.deleteMany({ where: { studentId } }),
       prisma.studentCardState.createMany({ data: allStatesToCreate }),
@@ -1336,17 +2155,32 @@ export const FSRSService = {
     studentId: string,
     cardId: string,
     rating: FsrsRating,
-    sessionId?: string
+    sessionId?: string,
+    responseTimeMs?: number
   ): Promise<ListeningCardState> {
     return _recordReviewInternal(
       LISTENING_CONTEXT,
       studentId,
       cardId,
       rating,
-      sessionId
+      sessionId,
+      responseTimeMs
     );
   },
 
+  /**
+   * Reverts the most recent listening review recorded in a session.
+   * This is a facade that calls the generic internal implementation.
+   */
+  async undoLastListeningReview(
+    studentId: string,
+    sessionId: string,
+    cardIds: string[],
+    tx: TransactionClient
+  ): Promise<ReviewHistory> {
+    return _undoLastReviewInternal(LISTENING_CONTEXT, studentId, sessionId, cardIds, tx);
+  },
+
   /**
    * Get listening-specific FSRS statistics.
    */
@@ -1381,7 +2215,7 @@ export const FSRSService = {
         COUNT(CASE WHEN due < CURRENT_DATE THEN 1 END) as "overdue",
         (SELECT COUNT(*) FROM "ReviewHistory" WHERE "studentId" = ${studentId}::uuid AND "reviewType" = 'LISTENING') as "totalReviews",
         AVG(CASE WHEN stability > 0 THEN stability END) as "averageRetention",
-        AVG("averageResponseTimeMs") as "averageResponseTime"
+        AVG(NULLIF("averageResponseTimeMs", 0)) as "averageResponseTime"
       FROM "ListeningCardState"
       WHERE "studentId" = ${studentId}::uuid
     `;
@@ -1415,10 +2249,10 @@ export const FSRSService = {
       throw new Error('Student not found');
     }
 
-    return JobService.createJob(
+    return JobService.createStudentJob(
       teacherId.teacherId,
       'OPTIMIZE_LISTENING_FSRS_PARAMS',
-      { studentId }
+      studentId
     );
   },
 
@@ -1445,10 +2279,10 @@ export const FSRSService = {
       throw new Error('Student not found');
     }
 
-    return JobService.createJob(
+    return JobService.createStudentJob(
       teacherId.teacherId,
       'REBUILD_LISTENING_FSRS_CACHE',
-      { studentId }
+      studentId
     );
   },
 
@@ -1456,7 +2290,8 @@ export const FSRSService = {
    * Internal: Rebuild listening FSRS cache from review history (called by worker).
    */
   async _rebuildListeningCacheForStudent(
-    payload: Prisma.JsonValue
+    payload: Prisma.JsonValue,
+    onProgress?: JobProgressReporter
   ): Promise<CacheRebuildResult> {
     const parsedPayload = RebuildCachePayloadSchema.parse(payload);
     const { studentId } = parsedPayload;
@@ -1471,7 +2306,12 @@ export const FSRSService = {
     const cardStateMap = new Map<string, Partial<Prisma.ListeningCardStateCreateManyInput>>();
 
     // Process listening reviews chronologically per card
-    for (const review of listeningReviews) {
+    for (const [index, review] of listeningReviews.entries()) {
+      await onProgress?.({
+        phase: 'Replaying review history',
+        processed: index,
+        total: listeningReviews.length,
+      });
       if (!cardStateMap.has(review.cardId)) {
         cardStateMap.set(review.cardId, {
           studentId,
@@ -1492,6 +2332,16 @@ export const FSRSService = {
         });
       }
 
+      // Response statistics include learning-step reviews, as when recording live
+      const responseStats = cardStateMap.get(review.cardId)!;
+      if (review.responseTimeMs !== null) {
+        responseStats.averageResponseTimeMs = nextAverageResponseTime(
+          responseStats.averageResponseTimeMs ?? 0,
+          review.responseTimeMs
+        );
+      }
+      responseStats.consecutiveCorrect = review.rating === 1 ? 0 : (responseStats.consecutiveCorrect ?? 0) + 1;
+
       if (!review.isLearningStep) {
         const state = cardStateMap.get(review.cardId);
         if (!state) {
@@ -1572,6 +2422,11 @@ export const FSRSService = {
 
     const allStatesToCreate: Prisma.ListeningCardStateCreateManyInput[] = [...statesFromHistory, ...newCardStates];
 
+    await onProgress?.({
+      phase: 'Saving card states',
+      processed: 0,
+      total: allStatesToCreate.length,
+    });
     await prisma.$transaction([
       prisma.listeningCardState.deleteMany({ where: { studentId } }),
       prisma.listeningCardState.createMany({ data: allStatesToCreate }),
@@ -1595,6 +2450,7 @@ export const FSRSService = {
     const now = new Date();
     const defaults = { newCards: 10, maxDue: 50, minDue: 10 };
     const finalConfig = { ...defaults, ...config };
+    const allowance = await _getDailyAllowanceInternal(GENERIC_CONTEXT, studentId, finalConfig.deckId);
 
     let dueCards = await prisma.studentGenericCardState.findMany({
       where: {
@@ -1627,6 +2483,9 @@ export const FSRSService = {
       });
       dueCards = [...dueCards, ...supplementalCards];
     }
+    if (allowance) {
+      dueCards = _applyReviewAllowance(dueCards, allowance.reviews);
+    }
 
     // Get truly NEW cards (never reviewed)
     const newCards = await prisma.studentGenericCardState.findMany({
@@ -1635,7 +2494,7 @@ export const FSRSService = {
         state: 'NEW',
         card: { deckId: finalConfig.deckId },
       },
-      take: finalConfig.newCards,
+      take: allowance ? Math.min(finalConfig.newCards, allowance.newCards) : finalConfig.newCards,
       orderBy: { card: { createdAt: 'asc' } },
       include: { card: true },
     });
@@ -1653,17 +2512,32 @@ export const FSRSService = {
     studentId: string,
     cardId: string,
     rating: FsrsRating,
-    sessionId?: string
+    sessionId?: string,
+    responseTimeMs?: number
   ): Promise<StudentGenericCardState> {
     return _recordReviewInternal(
       GENERIC_CONTEXT,
       studentId,
       cardId,
       rating,
-      sessionId
+      sessionId,
+      responseTimeMs
     );
   },
 
+  /**
+   * Reverts the most recent generic review recorded in a session
+   * (wrapper for the internal generic implementation).
+   */
+  async undoLastGenericReview(
+    studentId: string,
+    sessionId: string,
+    cardIds: string[],
+    tx: TransactionClient
+  ): Promise<ReviewHistory> {
+    return _undoLastReviewInternal(GENERIC_CONTEXT, studentId, sessionId, cardIds, tx);
+  },
+
   /**
    * Get generic-specific FSRS statistics.
    * This implementation mirrors getFsrsStats but queries StudentGenericCardState.
@@ -1718,19 +2592,32 @@ export const FSRSService = {
       },
       _avg: {
         retrievability: true,
-        averageResponseTimeMs: true,
       },
       _count: {
         _all: true,
       },
     });
 
-    const [stateCounts, dueToday, dueThisWeek, overdue, aggregateStats] = await prisma.$transaction([
+    // Cards that were never timed have an average of 0 and must not drag the mean down
+    const responseTimeQuery = prisma.studentGenericCardState.aggregate({
+      where: { studentId, averageResponseTimeMs: { gt: 0 } },
+      _avg: {
+        averageResponseTimeMs: true,
+      },
+    });
+
+    const slowRecallQuery = prisma.studentGenericCardState.count({
+      where: { studentId, averageResponseTimeMs: { gte: SLOW_RECALL_THRESHOLD_MS } },
+    });
+
+    const [stateCounts, dueToday, dueThisWeek, overdue, aggregateStats, responseTimeStats, slowRecallCards] = await prisma.$transaction([
       stateCountsQuery,
       dueTodayQuery,
       dueThisWeekQuery,
       overdueQuery,
       aggregateStatsQuery,
+      responseTimeQuery,
+      slowRecallQuery,
     ]);
 
     const statsMap = stateCounts.reduce((acc, record) => {
@@ -1749,7 +2636,8 @@ export const FSRSService = {
       overdue: overdue,
       totalReviews: aggregateStats._sum.reps ?? 0,
       averageRetention: (aggregateStats._avg.retrievability ?? 0) * 100,
-      averageResponseTime: aggregateStats._avg.averageResponseTimeMs ?? 0,
+      averageResponseTime: responseTimeStats._avg.averageResponseTimeMs ?? 0,
+      slowRecallCards,
     };
   },
 
@@ -1761,9 +2649,7 @@ export const FSRSService = {
     teacherId: string
   ): Promise<Job> {
     await authorizeTeacherForStudent(teacherId, studentId, { checkIsActive: true });
-    return JobService.createJob(teacherId, 'OPTIMIZE_GENERIC_FSRS_PARAMS', {
-      studentId,
-    });
+    return JobService.createStudentJob(teacherId, 'OPTIMIZE_GENERIC_FSRS_PARAMS', studentId);
   },
 
   /**
@@ -1783,9 +2669,7 @@ export const FSRSService = {
     teacherId: string
   ): Promise<Job> {
     await authorizeTeacherForStudent(teacherId, studentId);
-    return JobService.createJob(teacherId, 'REBUILD_GENERIC_FSRS_CACHE', {
-      studentId,
-    });
+    return JobService.createStudentJob(teacherId, 'REBUILD_GENERIC_FSRS_CACHE', studentId);
   },
 
   /**
@@ -1793,15 +2677,20 @@ export const FSRSService = {
    * This implementation mirrors _rebuildCacheForStudent but works with StudentGenericCardState.
    */
   async _rebuildGenericCacheForStudent(
-    payload: Prisma.JsonValue
+    payload: Prisma.JsonValue,
+    onProgress?: JobProgressReporter
   ): Promise<CacheRebuildResult> {
     const validatedPayload = validateFsrsOptimizationPayload(payload);
     const { studentId } = validatedPayload;
 
-    const [studentParams] = await Promise.all([
+    const [studentParams, deckOverrides] = await Promise.all([
       prisma.genericFsrsParams.findFirst({
         where: { studentId, isActive: true },
       }),
+      prisma.studentGenericDeck.findMany({
+        where: { studentId, desiredRetention: { not: null } },
+        select: { deckId: true, desiredRetention: true },
+      }),
     ]);
 
     // Get all assigned generic cards for this student
@@ -1817,10 +2706,15 @@ export const FSRSService = {
           }
         }
       },
-      select: { id: true }
+      select: { id: true, deckId: true }
     });
 
     const allAssignedCardIds = new Set(assignedGenericCards.map(c => c.id));
+    const studentRetention = studentParams?.desiredRetention ?? DEFAULT_DESIRED_RETENTION;
+    const retentionByDeck = new Map(deckOverrides.map((o) => [o.deckId, o.desiredRetention!]));
+    const retentionByCard = new Map(
+      assignedGenericCards.map((c) => [c.id, retentionByDeck.get(c.deckId) ?? studentRetention])
+    );
 
     // Get ALL history (learning steps + FSRS) for complete reconstruction
     const allHistory = await prisma.reviewHistory.findMany({
@@ -1842,7 +2736,13 @@ export const FSRSService = {
     const statesFromHistory: Prisma.StudentGenericCardStateCreateManyInput[] = [];
     const reviewedCardIds = new Set<string>();
 
+    const reviewedCardCount = Object.keys(historyByCard).length;
     for (const cardId in historyByCard) {
+      await onProgress?.({
+        phase: 'Replaying review history',
+        processed: reviewedCardIds.size,
+        total: reviewedCardCount,
+      });
       reviewedCardIds.add(cardId);
       const cardHistory = historyByCard[cardId];
       const lastReview = cardHistory[cardHistory.length - 1];
@@ -1885,6 +2785,7 @@ export const FSRSService = {
             reps: cardHistory.filter(h => !h.isLearningStep).length, // Only count FSRS reviews
             lapses: cardHistory.filter((h) => h.rating === 1).length,
             state: cardHistory.some(h => !h.isLearningStep) ? 'RELEARNING' : 'NEW', // NEW if never graduated, RELEARNING if failed
+            ...computeResponseStats(cardHistory.filter((h) => h.reviewType === 'GENERIC')),
           });
           continue; // Skip FSRS calculation
         }
@@ -1899,7 +2800,7 @@ export const FSRSService = {
 
       const nextStates = engine.nextStates(
         finalMemoryState,
-        DEFAULT_DESIRED_RETENTION,
+        retentionByCard.get(cardId) ?? studentRetention,
         0
       );
       let nextState;
@@ -1935,6 +2836,7 @@ export const FSRSService = {
         reps: fsrsOnlyHistory.length, // Only count FSRS reviews for reps
         lapses: cardHistory.filter((h) => h.rating === 1).length,
         state: lastReview.rating === 1 ? 'RELEARNING' : 'REVIEW',
+        ...computeResponseStats(cardHistory.filter((h) => h.reviewType === 'GENERIC')),
       });
     }
 
@@ -1955,6 +2857,11 @@ export const FSRSService = {
 
     const allStatesToCreate: Prisma.StudentGenericCardStateCreateManyInput[] = [...statesFromHistory, ...newCardStates];
 
+    await onProgress?.({
+      phase: 'Saving card states',
+      processed: 0,
+      total: allStatesToCreate.length,
+    });
     await prisma.$transaction([
       prisma.studentGenericCardState.deleteMany({ where: { studentId } }),
       prisma.studentGenericCardState.createMany({ data: allStatesToCreate }),
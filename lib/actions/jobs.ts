@@ -1,12 +1,50 @@
 import { prisma } from '@/lib/db';
-import { Job, JobType, Prisma } from '@prisma/client';
+import { Job, JobStatus, JobType, Prisma } from '@prisma/client';
 import {
   BulkImportSchedulesPayloadSchema,
   BulkImportStudentsPayloadSchema,
   BulkImportVocabularyPayloadSchema,
   BulkImportGenericDeckPayloadSchema,
+  JobListQuerySchema,
 } from '../schemas';
-import { toJobPayload } from '../types';
+import { JobListPage, StuckJob, toJobPayload } from '../types';
+import { TransactionClient } from '@/lib/exercises/operators/base';
+import { z } from 'zod';
+
+type JobListQuery = z.infer<typeof JobListQuerySchema>;
+
+/** Rows inserted per statement by bulk imports; progress is reported after each batch. */
+export const BULK_INSERT_BATCH_SIZE = 500;
+/** Bulk imports insert all batches in one transaction, which may take a while. */
+export const BULK_IMPORT_TRANSACTION_TIMEOUT_MS = 5 * 60 * 1000;
+
+/** Jobs that finished without needing attention; their history may be compacted and pruned. */
+const PRUNABLE_JOB_STATUSES: JobStatus[] = [JobStatus.COMPLETED, JobStatus.SKIPPED, JobStatus.CANCELLED];
+/** Finished jobs deleted per statement by the maintenance run. */
+const JOB_DELETE_BATCH_SIZE = 1000;
+
+/**
+ * Queue priority per job type; higher runs first. Interactive jobs a student or
+ * teacher is waiting on (card-state initialization, practice PDFs) go ahead of
+ * cache rebuilds, which go ahead of bulk imports and FSRS optimizations.
+ */
+export const JOB_PRIORITIES: Record<JobType, number> = {
+  INITIALIZE_CARD_STATES: 100,
+  INITIALIZE_GENERIC_CARD_STATES: 100,
+  INITIALIZE_LISTENING_CARD_STATES: 100,
+  GENERATE_PRACTICE_PDF: 100,
+  REBUILD_VOCABULARY_FSRS_CACHE: 50,
+  REBUILD_GENERIC_FSRS_CACHE: 50,
+  REBUILD_LISTENING_FSRS_CACHE: 50,
+  BULK_IMPORT_VOCABULARY: 0,
+  BULK_IMPORT_STUDENTS: 0,
+  BULK_IMPORT_SCHEDULES: 0,
+  BULK_IMPORT_FILL_IN_THE_BLANK: 0,
+  BULK_IMPORT_GENERIC_DECK: 0,
+  OPTIMIZE_VOCABULARY_FSRS_PARAMS: 0,
+  OPTIMIZE_GENERIC_FSRS_PARAMS: 0,
+  OPTIMIZE_LISTENING_FSRS_PARAMS: 0,
+};
 
 /**
  * Service responsible for managing asynchronous jobs.
@@ -21,26 +59,55 @@ export const JobService = {
    * @param ownerId The UUID of the Teacher who is initiating the job.
    * @param type The type of job to be executed.
    * @param payload The JSON data required by the worker to execute the job.
-   * @returns A promise that resolves to the newly created Job object.
+   * @param options.idempotencyKey When set and the owner already has a PENDING job
+   *   with the same key, that job is returned instead of creating a new one.
+   *   Concurrent calls with the same key are serialized, so only one job is created.
+   * @returns A promise that resolves to the newly created (or existing pending) Job object.
    */
   async createJob(
     ownerId: string,
     type: JobType,
-    payload: Prisma.InputJsonValue
+    payload: Prisma.InputJsonValue,
+    { idempotencyKey }: { idempotencyKey?: string } = {}
   ): Promise<Job> {
     if (!ownerId) {
       throw new Error('Job creation requires a valid ownerId.');
     }
 
-    return prisma.job.create({
-      data: {
-        ownerId,
-        type,
-        payload,
-      },
+    const data = {
+      ownerId,
+      type,
+      payload,
+      priority: JOB_PRIORITIES[type],
+      idempotencyKey,
+    };
+    if (!idempotencyKey) {
+      return prisma.job.create({ data });
+    }
+
+    // Concurrent requests would both miss the pending job and each create one, so
+    // the lookup and insert run under a transaction-scoped advisory lock on the key.
+    // (A unique index on pending keys is not an option: retries and re-queued jobs
+    // move a job back to PENDING even if a newer one with the same key is waiting.)
+    return prisma.$transaction(async (tx) => {
+      await tx.$executeRaw`SELECT pg_advisory_xact_lock(hashtext(${ownerId}::text), hashtext(${idempotencyKey}::text))`;
+      const pendingJob = await tx.job.findFirst({
+        where: { ownerId, idempotencyKey, status: JobStatus.PENDING },
+        orderBy: { createdAt: 'asc' },
+      });
+      return pendingJob ?? tx.job.create({ data });
     });
   },
 
+  /**
+   * Creates a job whose payload is just `{ studentId }` (cache rebuilds and
+   * FSRS optimizations). Repeated requests for the same student are coalesced
+   * into the job that is still waiting to run.
+   */
+  async createStudentJob(ownerId: string, type: JobType, studentId: string): Promise<Job> {
+    return this.createJob(ownerId, type, { studentId }, { idempotencyKey: `${type}:${studentId}` });
+  },
+
   async createBulkImportVocabularyJob(
     ownerId: string,
     payload: Prisma.InputJsonValue
@@ -127,4 +194,226 @@ export const JobService = {
       orderBy: { createdAt: 'desc' },
     });
   },
+
+  /**
+   * Retrieves one page of a teacher's jobs, newest first, optionally filtered
+   * by type, status and creation time.
+   *
+   * @param ownerId The UUID of the Teacher whose jobs to retrieve.
+   * @param query The validated filters and pagination.
+   * @returns A promise that resolves to the page of jobs and the total match count.
+   */
+  async getJobsForTeacher(ownerId: string, query: JobListQuery): Promise<JobListPage> {
+    const where: Prisma.JobWhereInput = {
+      ownerId,
+      type: query.type,
+      status: query.status,
+      createdAt:
+        query.from || query.to ? { gte: query.from, lte: query.to } : undefined,
+      payload: query.studentId ? { path: ['studentId'], equals: query.studentId } : undefined,
+    };
+
+    const [jobs, total] = await prisma.$transaction([
+      prisma.job.findMany({
+        where,
+        orderBy: { createdAt: 'desc' },
+        skip: (query.page - 1) * query.pageSize,
+        take: query.pageSize,
+      }),
+      prisma.job.count({ where }),
+    ]);
+
+    return { jobs, total, page: query.page, pageSize: query.pageSize };
+  },
+
+  /**
+   * Cancels a job that has not started yet, including one deferred until its student is active.
+   *
+   * @param jobId The UUID of the job to cancel.
+   * @param ownerId The UUID of the Teacher who owns the job.
+   * @returns The cancelled job, or null if the job is no longer PENDING or DEFERRED.
+   * @throws An error if the job does not exist or belongs to another teacher.
+   */
+  async cancelJob(jobId: string, ownerId: string): Promise<Job | null> {
+    // The status condition makes this atomic with respect to the worker's lock.
+    const { count } = await prisma.job.updateMany({
+      where: { id: jobId, ownerId, status: { in: [JobStatus.PENDING, JobStatus.DEFERRED] } },
+      data: { status: JobStatus.CANCELLED },
+    });
+    const job = await this.getJobStatus(jobId, ownerId);
+    if (!job) {
+      throw new Error('Job not found.');
+    }
+    return count > 0 ? job : null;
+  },
+
+  /**
+   * Queues a failed or dead-lettered job to run again with a fresh set of attempts.
+   *
+   * @param jobId The UUID of the job to retry.
+   * @param ownerId The UUID of the Teacher who owns the job.
+   * @returns The re-queued job, or null if the job has not failed.
+   * @throws An error if the job does not exist or belongs to another teacher.
+   */
+  async retryJob(jobId: string, ownerId: string): Promise<Job | null> {
+    const { count } = await prisma.job.updateMany({
+      where: {
+        id: jobId,
+        ownerId,
+        status: { in: [JobStatus.FAILED, JobStatus.DEAD_LETTER] },
+      },
+      data: {
+        status: JobStatus.PENDING,
+        attempts: 0,
+        nextRunAt: new Date(),
+        error: null,
+        lastError: null,
+        result: Prisma.DbNull,
+        progress: Prisma.DbNull,
+      },
+    });
+    const job = await this.getJobStatus(jobId, ownerId);
+    if (!job) {
+      throw new Error('Job not found.');
+    }
+    return count > 0 ? job : null;
+  },
+
+  /**
+   * Retrieves RUNNING jobs across all teachers whose worker lease has expired,
+   * i.e. jobs whose worker crashed or was killed mid-batch. These are returned
+   * to the queue by the next worker run; this view exists for the admin dashboard.
+   *
+   * @returns A promise that resolves to the stuck jobs, oldest lease first.
+   */
+  async getStuckJobs(): Promise<StuckJob[]> {
+    const jobs = await prisma.job.findMany({
+      where: {
+        status: JobStatus.RUNNING,
+        OR: [{ lockedUntil: { lt: new Date() } }, { lockedUntil: null }],
+      },
+      include: { owner: { select: { name: true, email: true } } },
+      orderBy: { lockedUntil: 'asc' },
+    });
+    return jobs.map(({ owner, ...job }) => ({
+      id: job.id,
+      type: job.type,
+      ownerId: job.ownerId,
+      ownerName: owner.name,
+      ownerEmail: owner.email,
+      attempts: job.attempts,
+      maxAttempts: job.maxAttempts,
+      lockedBy: job.lockedBy,
+      lockedUntil: job.lockedUntil,
+      createdAt: job.createdAt,
+      updatedAt: job.updatedAt,
+    }));
+  },
+
+  /**
+   * INTERNAL: Releases RUNNING jobs whose worker lease has expired.
+   * The interrupted attempt counts against the job's retry limit: jobs with
+   * attempts left go back to PENDING, the rest move to DEAD_LETTER.
+   *
+   * @returns The number of jobs re-queued and dead-lettered.
+   */
+  async _reapExpiredLeases(): Promise<{ requeued: number; deadLettered: number }> {
+    const now = new Date();
+    const message = 'The worker processing this job stopped before it finished.';
+    const expired: Prisma.JobWhereInput = {
+      status: JobStatus.RUNNING,
+      lockedUntil: { lt: now },
+    };
+
+    const [deadLettered, requeued] = await prisma.$transaction([
+      prisma.job.updateMany({
+        where: { ...expired, attempts: { gte: prisma.job.fields.maxAttempts } },
+        data: {
+          status: JobStatus.DEAD_LETTER,
+          error: `Gave up after the final attempt: ${message}`,
+          lastError: message,
+          lockedBy: null,
+          lockedUntil: null,
+        },
+      }),
+      prisma.job.updateMany({
+        where: expired,
+        data: {
+          status: JobStatus.PENDING,
+          nextRunAt: now,
+          lastError: message,
+          lockedBy: null,
+          lockedUntil: null,
+        },
+      }),
+    ]);
+
+    return { requeued: requeued.count, deadLettered: deadLettered.count };
+  },
+
+  /**
+   * INTERNAL: Re-queues the jobs the worker deferred while the student was not
+   * active. Called when the student becomes ACTIVE again.
+   *
+   * @param studentId The UUID of the re-activated student.
+   * @param db The transaction to run in, if any.
+   * @returns The number of jobs re-queued.
+   */
+  async _resumeDeferredJobs(studentId: string, db: TransactionClient = prisma): Promise<number> {
+    const { count } = await db.job.updateMany({
+      where: {
+        status: JobStatus.DEFERRED,
+        payload: { path: ['studentId'], equals: studentId },
+      },
+      data: { status: JobStatus.PENDING, nextRunAt: new Date(), result: Prisma.DbNull },
+    });
+    return count;
+  },
+
+  /**
+   * INTERNAL: Shrinks the payload of finished jobs last updated before `olderThan`.
+   * Array values (e.g. the rows of a bulk import) are replaced by
+   * `{ compactedItems: <length> }`; scalar fields and `result` are kept so the
+   * job history still shows what was done. Failed jobs are left untouched.
+   *
+   * @returns The number of jobs compacted.
+   */
+  async _compactFinishedJobs(olderThan: Date): Promise<number> {
+    return prisma.$executeRaw`
+      UPDATE "Job" SET payload = (
+        SELECT jsonb_object_agg(
+          key,
+          CASE WHEN jsonb_typeof(value) = 'array'
+            THEN jsonb_build_object('compactedItems', jsonb_array_length(value))
+            ELSE value
+          END
+        )
+        FROM jsonb_each(payload)
+      )
+      WHERE status::text IN (${Prisma.join(PRUNABLE_JOB_STATUSES)})
+        AND "updatedAt" < ${olderThan}
+        AND jsonb_typeof(payload) = 'object'
+        AND EXISTS (SELECT 1 FROM jsonb_each(payload) WHERE jsonb_typeof(value) = 'array')
+    `;
+  },
+
+  /**
+   * INTERNAL: Deletes finished jobs last updated before `olderThan`, in batches.
+   * Failed jobs are kept for inspection. Practice sheets are deleted with their job.
+   *
+   * @returns The number of jobs deleted.
+   */
+  async _deleteFinishedJobs(olderThan: Date): Promise<number> {
+    let deleted = 0;
+    for (;;) {
+      const batch = await prisma.job.findMany({
+        where: { status: { in: PRUNABLE_JOB_STATUSES }, updatedAt: { lt: olderThan } },
+        select: { id: true },
+        take: JOB_DELETE_BATCH_SIZE,
+      });
+      if (batch.length === 0) return deleted;
+      const { count } = await prisma.job.deleteMany({ where: { id: { in: batch.map((job) => job.id) } } });
+      deleted += count;
+    }
+  },
 };
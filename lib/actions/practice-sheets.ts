@@ -0,0 +1,291 @@
+import { prisma } from '@/lib/db';
+import { Job, JobStatus, JobType, Prisma } from '@prisma/client';
+import PDFDocument from 'pdfkit';
+import { existsSync } from 'fs';
+import { format } from 'date-fns';
+import { authorizeTeacherForStudent } from '@/lib/auth';
+import { GeneratePracticePdfPayloadSchema } from '@/lib/schemas';
+import { JobProgressReporter, PracticeSheetResult, toJobPayload } from '@/lib/types';
+import { JobService } from './jobs';
+import { z } from 'zod';
+
+/** Number of recent sheets listed on the student profile. */
+const RECENT_PRACTICE_SHEETS = 10;
+
+/**
+ * Fonts able to render Chinese characters and pinyin, tried in order. PDFKit's
+ * built-in fonts only cover Latin-1. `family` picks the face inside a .ttc file.
+ */
+const UNICODE_FONT_CANDIDATES = [
+  { path: process.env.PRACTICE_SHEET_FONT_PATH, family: process.env.PRACTICE_SHEET_FONT_FAMILY },
+  // Alpine `font-noto-cjk`
+  { path: '/usr/share/fonts/noto/NotoSansCJK-Regular.ttc', family: 'NotoSansCJKsc-Regular' },
+  // Debian/Ubuntu `fonts-noto-cjk`
+  { path: '/usr/share/fonts/opentype/noto/NotoSansCJK-Regular.ttc', family: 'NotoSansCJKsc-Regular' },
+];
+
+type PracticeItem = { prompt: string; answer: string; options?: string[] };
+
+type PracticeSheetContent = {
+  studentName: string;
+  generatedAt: Date;
+  vocabulary: PracticeItem[];
+  generic: PracticeItem[];
+  fillInTheBlank: PracticeItem[];
+};
+
+const practiceSheetWhere = (studentId: string, ownerId: string): Prisma.JobWhereInput => ({
+  ownerId,
+  type: JobType.GENERATE_PRACTICE_PDF,
+  payload: { path: ['studentId'], equals: studentId },
+});
+
+/**
+ * Renders the sheet: word lists and cloze questions with blanks to fill in,
+ * followed by the answer key on a separate page.
+ */
+function renderPracticeSheet(content: PracticeSheetContent): Promise<Buffer> {
+  const doc = new PDFDocument({ size: 'A4', margin: 50 });
+  const chunks: Buffer[] = [];
+  const done = new Promise<Buffer>((resolve, reject) => {
+    doc.on('data', (chunk: Buffer) => chunks.push(chunk));
+    doc.on('end', () => resolve(Buffer.concat(chunks)));
+    doc.on('error', reject);
+  });
+
+  const font = UNICODE_FONT_CANDIDATES.find((candidate) => candidate.path && existsSync(candidate.path));
+  if (font?.path) {
+    doc.registerFont('Unicode', font.path, font.family);
+    doc.font('Unicode');
+  }
+
+  const left = doc.page.margins.left;
+  const width = doc.page.width - doc.page.margins.left - doc.page.margins.right;
+  const ensureSpace = (height: number) => {
+    if (doc.y + height > doc.page.height - doc.page.margins.bottom) doc.addPage();
+  };
+  const heading = (text: string, instructions?: string) => {
+    ensureSpace(60);
+    doc.moveDown().fontSize(14).fillColor('black').text(text, left);
+    if (instructions) doc.fontSize(9).fillColor('gray').text(instructions, left);
+    doc.moveDown(0.5).fontSize(11).fillColor('black');
+  };
+  const wordList = (items: PracticeItem[]) => {
+    items.forEach((item, index) => {
+      ensureSpace(24);
+      const y = doc.y;
+      doc.text(`${index + 1}. ${item.prompt}`, left, y, { width: width / 2 - 10 });
+      const lineY = y + 12;
+      doc.moveTo(left + width / 2, lineY).lineTo(left + width, lineY).strokeColor('#94a3b8').stroke();
+      doc.y = Math.max(doc.y, lineY) + 10;
+    });
+  };
+
+  doc.fontSize(20).text('Practice Sheet', left);
+  doc
+    .fontSize(10)
+    .fillColor('gray')
+    .text(`${content.studentName} · ${format(content.generatedAt, 'MMMM d, yyyy')}`, left);
+  doc.fillColor('black');
+
+  const isEmpty =
+    content.vocabulary.length + content.generic.length + content.fillInTheBlank.length === 0;
+  if (isEmpty) {
+    doc.moveDown(2).fontSize(11).text('No cards are due for practice right now.', left);
+  }
+
+  if (content.vocabulary.length > 0) {
+    heading('Vocabulary', 'Write the translation of each word.');
+    wordList(content.vocabulary);
+  }
+  if (content.generic.length > 0) {
+    heading('Flashcards', 'Write the answer for each card.');
+    wordList(content.generic);
+  }
+  if (content.fillInTheBlank.length > 0) {
+    heading('Fill in the Blanks', 'Complete each sentence.');
+    content.fillInTheBlank.forEach((item, index) => {
+      ensureSpace(48);
+      doc.fontSize(11).text(`${index + 1}. ${item.prompt}`, left, doc.y, { width });
+      if (item.options?.length) {
+        doc.fontSize(9).fillColor('gray').text(`Options: ${item.options.join(' / ')}`, left + 14);
+        doc.fillColor('black');
+      }
+      doc.moveDown(0.8);
+    });
+  }
+
+  if (!isEmpty) {
+    doc.addPage();
+    doc.fontSize(20).fillColor('black').text('Answer Key', left);
+    const answers = (title: string, items: PracticeItem[]) => {
+      if (items.length === 0) return;
+      heading(title);
+      items.forEach((item, index) => {
+        ensureSpace(16);
+        doc.fontSize(10).text(`${index + 1}. ${item.prompt} — ${item.answer}`, left, doc.y, { width });
+      });
+    };
+    answers('Vocabulary', content.vocabulary);
+    answers('Flashcards', content.generic);
+    answers('Fill in the Blanks', content.fillInTheBlank);
+  }
+
+  doc.end();
+  return done;
+}
+
+/**
+ * Service for printable practice sheets. Sheets are generated by the
+ * GENERATE_PRACTICE_PDF job and stored in the database with the job, so
+ * whichever instance serves the download can read them.
+ */
+export const PracticeSheetService = {
+  /**
+   * Queues a practice sheet for a student.
+   *
+   * @param studentId The UUID of the student.
+   * @param teacherId The UUID of the teacher, for authorization.
+   * @param options.maxItemsPerSection Cap on the items printed per section.
+   * @returns The created GENERATE_PRACTICE_PDF job.
+   */
+  async createPracticeSheetJob(
+    studentId: string,
+    teacherId: string,
+    options: { maxItemsPerSection?: number } = {}
+  ): Promise<Job> {
+    await authorizeTeacherForStudent(teacherId, studentId, { checkIsActive: true });
+    const payload = GeneratePracticePdfPayloadSchema.parse({ studentId, ...options });
+    return JobService.createJob(teacherId, JobType.GENERATE_PRACTICE_PDF, toJobPayload(payload));
+  },
+
+  /**
+   * Returns the student's most recent practice sheet jobs, newest first.
+   */
+  async getPracticeSheetJobs(studentId: string, teacherId: string): Promise<Job[]> {
+    await authorizeTeacherForStudent(teacherId, studentId);
+    return prisma.job.findMany({
+      where: practiceSheetWhere(studentId, teacherId),
+      orderBy: { createdAt: 'desc' },
+      take: RECENT_PRACTICE_SHEETS,
+    });
+  },
+
+  /**
+   * Reads a generated practice sheet for download.
+   *
+   * @throws Error('Practice sheet not found.') if the job did not complete or has no sheet.
+   */
+  async getPracticeSheetFile(
+    studentId: string,
+    jobId: string,
+    teacherId: string
+  ): Promise<{ fileName: string; content: Uint8Array }> {
+    await authorizeTeacherForStudent(teacherId, studentId);
+    const job = await prisma.job.findFirst({
+      where: { ...practiceSheetWhere(studentId, teacherId), id: jobId, status: JobStatus.COMPLETED },
+      include: { practiceSheet: true },
+    });
+    if (!job?.practiceSheet) {
+      throw new Error('Practice sheet not found.');
+    }
+    const { fileName } = job.result as PracticeSheetResult;
+    return { fileName, content: job.practiceSheet.content };
+  },
+
+  /**
+   * Internal: renders a practice sheet (called by worker). It contains the
+   * student's due vocabulary and generic cards from active decks, and the
+   * fill-in-the-blank cards they have not completed yet.
+   */
+  async _generatePracticeSheet(
+    jobId: string,
+    payload: z.infer<typeof GeneratePracticePdfPayloadSchema>,
+    onProgress?: JobProgressReporter
+  ): Promise<PracticeSheetResult> {
+    const { studentId, maxItemsPerSection } = payload;
+    const now = new Date();
+
+    const student = await prisma.student.findUniqueOrThrow({
+      where: { id: studentId },
+      select: { name: true },
+    });
+
+    const [vocabularyStates, genericStates, fillInTheBlankCards] = await Promise.all([
+      prisma.studentCardState.findMany({
+        where: {
+          studentId,
+          state: { not: 'NEW' },
+          due: { lte: now },
+          card: { deck: { studentDecks: { some: { studentId, isActive: true } } } },
+        },
+        include: { card: true },
+        orderBy: { due: 'asc' },
+        take: maxItemsPerSection,
+      }),
+      prisma.studentGenericCardState.findMany({
+        where: {
+          studentId,
+          state: { not: 'NEW' },
+          due: { lte: now },
+          card: { deck: { studentGenericDecks: { some: { studentId, isActive: true } } } },
+        },
+        include: { card: true },
+        orderBy: { due: 'asc' },
+        take: maxItemsPerSection,
+      }),
+      // Decks bound to an assigned vocabulary deck, or already started in a session
+      prisma.fillInTheBlankCard.findMany({
+        where: {
+          studentDoneRecords: { none: { studentId } },
+          deck: {
+            isArchived: false,
+            OR: [
+              { boundVocabularyDeck: { studentDecks: { some: { studentId, isActive: true } } } },
+              { cards: { some: { studentDoneRecords: { some: { studentId } } } } },
+            ],
+          },
+        },
+        orderBy: [{ deckId: 'asc' }, { createdAt: 'asc' }],
+        take: maxItemsPerSection,
+      }),
+    ]);
+
+    const content: PracticeSheetContent = {
+      studentName: student.name,
+      generatedAt: now,
+      vocabulary: vocabularyStates.map(({ card }) => ({
+        prompt: card.englishWord,
+        answer: card.pinyin ? `${card.chineseTranslation} (${card.pinyin})` : card.chineseTranslation,
+      })),
+      generic: genericStates.map(({ card }) => ({ prompt: card.front, answer: card.back })),
+      fillInTheBlank: fillInTheBlankCards.map((card) => ({
+        prompt: card.question,
+        answer: card.answer,
+        options: Array.isArray(card.options) ? card.options.map(String) : undefined,
+      })),
+    };
+    const itemCount =
+      content.vocabulary.length + content.generic.length + content.fillInTheBlank.length;
+
+    await onProgress?.({ phase: 'Rendering practice sheet', processed: 0, total: itemCount });
+    const pdf = await renderPracticeSheet(content);
+    // A retried job replaces the sheet of its interrupted attempt
+    await prisma.practiceSheet.upsert({
+      where: { jobId },
+      create: { jobId, content: pdf },
+      update: { content: pdf },
+    });
+    await onProgress?.({ phase: 'Rendering practice sheet', processed: itemCount, total: itemCount });
+
+    const nameSlug = student.name.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '');
+    return {
+      fileName: `practice-sheet-${nameSlug || 'student'}-${format(now, 'yyyy-MM-dd')}.pdf`,
+      downloadUrl: `/api/students/${studentId}/practice-sheets/${jobId}`,
+      sizeBytes: pdf.length,
+      vocabularyCount: content.vocabulary.length,
+      genericCount: content.generic.length,
+      fillInTheBlankCount: content.fillInTheBlank.length,
+    };
+  },
+};
@@ -0,0 +1,262 @@
+import { prisma } from '@/lib/db';
+import { authorizeTeacherForStudent } from '@/lib/auth';
+import { ClassStatus } from '@prisma/client';
+import { z } from 'zod';
+import type { TransactionClient } from '../exercises/operators/base';
+import { ScheduleRangeQuerySchema } from '@/lib/schemas';
+import { ScheduleConflict, TeacherClassSchedule } from '@/lib/types';
+
+type ScheduleRangeQuery = z.infer<typeof ScheduleRangeQuerySchema>;
+
+/**
+ * Thrown when a class would overlap with other classes of the teacher.
+ * The API responds with 409 and lists the clashing classes.
+ */
+export class ScheduleConflictError extends Error {
+  constructor(public readonly conflicts: ScheduleConflict[]) {
+    const count = new Set(conflicts.map((conflict) => conflict.conflictingScheduleId)).size;
+    super(`The class overlaps with ${count} other class${count === 1 ? '' : 'es'}.`);
+    this.name = 'ScheduleConflictError';
+  }
+}
+
+/** Statuses of classes that no longer occupy their time slot. */
+const FREE_CLASS_STATUSES: ClassStatus[] = [ClassStatus.CANCELLED, ClassStatus.RESCHEDULED];
+
+/** Lesson duration used when neither the class nor the teacher's settings have one. */
+const DEFAULT_LESSON_DURATION_MINUTES = 60;
+
+/** The longest class looked for before a slot when checking for overlaps. */
+const MAX_LESSON_DURATION_MINUTES = 24 * 60;
+
+const MINUTE_MS = 60 * 1000;
+
+/** A class to check for overlaps; classes that are not saved yet have no id. */
+export type ScheduleSlot = {
+  id?: string;
+  scheduledTime: Date;
+  duration: number | null;
+};
+
+/**
+ * Returns whether a class still occupies its time slot.
+ */
+export function isActiveClassStatus(status: ClassStatus): boolean {
+  return !FREE_CLASS_STATUSES.includes(status);
+}
+
+/**
+ * Returns the time at which a class ends, in milliseconds.
+ */
+export function getClassEnd(slot: ScheduleSlot, defaultDuration: number): number {
+  return slot.scheduledTime.getTime() + (slot.duration ?? defaultDuration) * MINUTE_MS;
+}
+
+/**
+ * Returns whether two classes overlap. Back-to-back classes do not.
+ */
+export function classesOverlap(a: ScheduleSlot, b: ScheduleSlot, defaultDuration: number): boolean {
+  return (
+    a.scheduledTime.getTime() < getClassEnd(b, defaultDuration) &&
+    b.scheduledTime.getTime() < getClassEnd(a, defaultDuration)
+  );
+}
+
+/**
+ * Service responsible for looking at class schedules across all students of a teacher.
+ */
+export const ScheduleService = {
+  /**
+   * Retrieves the classes of all of a teacher's students that start within a time range.
+   * @param teacherId The UUID of the teacher.
+   * @param query The range, and optionally a student or status to narrow it to.
+   * @returns A promise that resolves to the classes ordered by time, each with its
+   *   student's name, status and remaining class credits.
+   */
+  async getSchedulesForTeacher(
+    teacherId: string,
+    query: ScheduleRangeQuery
+  ): Promise<TeacherClassSchedule[]> {
+    const schedules = await prisma.classSchedule.findMany({
+      where: {
+        scheduledTime: { gte: query.from, lt: query.to },
+        studentId: query.studentId,
+        status: query.status,
+        student: { teacherId, isArchived: false },
+      },
+      include: { student: { select: { name: true, status: true } } },
+      orderBy: { scheduledTime: 'asc' },
+    });
+    if (schedules.length === 0) return [];
+
+    const defaultDuration = await this._getDefaultLessonDuration(prisma, teacherId);
+    const credits = await prisma.payment.groupBy({
+      by: ['studentId'],
+      where: { studentId: { in: [...new Set(schedules.map((schedule) => schedule.studentId))] } },
+      _sum: { classesPurchased: true, classesUsed: true },
+    });
+    const classesRemaining = new Map(
+      credits.map((credit) => [
+        credit.studentId,
+        (credit._sum.classesPurchased ?? 0) - (credit._sum.classesUsed ?? 0),
+      ])
+    );
+
+    return schedules.map(({ student, ...schedule }) => ({
+      ...schedule,
+      studentName: student.name,
+      studentStatus: student.status,
+      classesRemaining: classesRemaining.get(schedule.studentId) ?? 0,
+      endTime: new Date(getClassEnd(schedule, defaultDuration)),
+    }));
+  },
+
+  /**
+   * Lists the upcoming classes of a student that overlap with other classes of the teacher.
+   * @param studentId The UUID of the student.
+   * @param teacherId The UUID of the teacher for authorization.
+   * @returns A promise that resolves to the conflicts, one per pair of overlapping classes.
+   */
+  async getConflictsForStudent(
+    studentId: string,
+    teacherId: string
+  ): Promise<ScheduleConflict[]> {
+    await authorizeTeacherForStudent(teacherId, studentId);
+    const upcoming = await prisma.classSchedule.findMany({
+      where: {
+        studentId,
+        scheduledTime: { gte: new Date() },
+        status: { notIn: FREE_CLASS_STATUSES },
+      },
+      select: { id: true, scheduledTime: true, duration: true },
+    });
+    return this._findConflicts(prisma, teacherId, upcoming);
+  },
+
+  /**
+   * [INTERNAL METHOD] Returns the length of a class without a duration: the
+   * teacher's preferred lesson duration.
+   * @param db The Prisma client or transaction to read from.
+   * @param teacherId The UUID of the teacher.
+   */
+  async _getDefaultLessonDuration(db: TransactionClient, teacherId: string): Promise<number> {
+    const settings = await db.teacherSettings.findUnique({
+      where: { teacherId },
+      select: { preferredLessonDuration: true },
+    });
+    return settings?.preferredLessonDuration ?? DEFAULT_LESSON_DURATION_MINUTES;
+  },
+
+  /**
+   * [INTERNAL METHOD] Finds the classes of a teacher that overlap with the given slots.
+   * A class lasts `duration` minutes, or the teacher's preferred lesson duration.
+   * Cancelled and rescheduled classes, and classes of archived students, are ignored.
+   * Saved slots are not compared with themselves, and each overlapping pair of
+   * saved slots is reported once.
+   *
+   * @param db The Prisma client or transaction to read from.
+   * @param teacherId The UUID of the teacher whose classes are checked.
+   * @param slots The classes to check.
+   * @returns A promise that resolves to the conflicts of each slot, in the order of `slots`.
+   */
+  async _findConflictsBySlot(
+    db: TransactionClient,
+    teacherId: string,
+    slots: ScheduleSlot[]
+  ): Promise<ScheduleConflict[][]> {
+    if (slots.length === 0) return [];
+
+    const defaultDuration = await this._getDefaultLessonDuration(db, teacherId);
+    const others = await db.classSchedule.findMany({
+      where: {
+        status: { notIn: FREE_CLASS_STATUSES },
+        scheduledTime: {
+          gt: new Date(
+            Math.min(...slots.map((slot) => slot.scheduledTime.getTime())) -
+              MAX_LESSON_DURATION_MINUTES * MINUTE_MS
+          ),
+          lt: new Date(Math.max(...slots.map((slot) => getClassEnd(slot, defaultDuration)))),
+        },
+        student: { teacherId, isArchived: false },
+      },
+      select: {
+        id: true,
+        studentId: true,
+        scheduledTime: true,
+        duration: true,
+        student: { select: { name: true } },
+      },
+      orderBy: { scheduledTime: 'asc' },
+    });
+
+    const slotIds = new Set(slots.map((slot) => slot.id));
+    return slots.map((slot) =>
+      others
+        .filter(
+          (other) =>
+            other.id !== slot.id &&
+            // A pair of checked classes is reported from the earlier id only
+            !(slot.id && slotIds.has(other.id) && other.id < slot.id) &&
+            classesOverlap(slot, other, defaultDuration)
+        )
+        .map((other) => ({
+          scheduleId: slot.id ?? null,
+          scheduledTime: slot.scheduledTime,
+          conflictingScheduleId: other.id,
+          conflictingStudentId: other.studentId,
+          conflictingStudentName: other.student.name,
+          conflictingScheduledTime: other.scheduledTime,
+          conflictingDuration: other.duration ?? defaultDuration,
+        }))
+    );
+  },
+
+  /**
+   * [INTERNAL METHOD] Finds the classes of a teacher that overlap with the given
+   * slots, as a flat list. See `_findConflictsBySlot`.
+   */
+  async _findConflicts(
+    db: TransactionClient,
+    teacherId: string,
+    slots: ScheduleSlot[]
+  ): Promise<ScheduleConflict[]> {
+    return (await this._findConflictsBySlot(db, teacherId, slots)).flat();
+  },
+
+  /**
+   * [INTERNAL METHOD] Serializes writes to a teacher's classes until the
+   * transaction ends. Overlap checks only read, so without it two concurrent
+   * bookings of the same slot would both pass. Take it before writing any class.
+   *
+   * @param tx The transaction that writes the classes.
+   * @param teacherId The UUID of the teacher whose classes are written.
+   */
+  async _lockTeacherSchedule(tx: TransactionClient, teacherId: string): Promise<void> {
+    await tx.$executeRaw`SELECT pg_advisory_xact_lock(hashtext('ClassSchedule'), hashtext(${teacherId}::text))`;
+  },
+
+  /**
+   * [INTERNAL METHOD] Throws a ScheduleConflictError if any of the given saved
+   * classes overlaps with another class of the teacher. Called inside the
+   * transaction that saved them, so that the change is rolled back; that
+   * transaction must hold `_lockTeacherSchedule`.
+   *
+   * @param tx The transaction the classes were saved in.
+   * @param teacherId The UUID of the teacher whose classes are checked.
+   * @param scheduleIds The UUIDs of the saved classes.
+   */
+  async _assertNoConflicts(
+    tx: TransactionClient,
+    teacherId: string,
+    scheduleIds: string[]
+  ): Promise<void> {
+    const slots = await tx.classSchedule.findMany({
+      where: { id: { in: scheduleIds }, status: { notIn: FREE_CLASS_STATUSES } },
+      select: { id: true, scheduledTime: true, duration: true },
+    });
+    const conflicts = await this._findConflicts(tx, teacherId, slots);
+    if (conflicts.length > 0) {
+      throw new ScheduleConflictError(conflicts);
+    }
+  },
+};
@@ -1,6 +1,13 @@
 import { prisma } from '@/lib/db';
 import { authorizeTeacherForStudent, AuthorizationError } from '@/lib/auth';
-import { AvailableUnit, FullStudentProfile } from '@/lib/types';
+import {
+  AvailableUnit,
+  BulkImportError,
+  ClassScheduleSeriesWithSchedules,
+  FullStudentProfile,
+  JobProgressReporter,
+  ScheduleScope,
+} from '@/lib/types';
 import {
   CardState,
   Job,
@@ -10,26 +17,161 @@ import {
   StudentDeck,
   StudentGenericDeck,
   ClassSchedule,
+  ClassScheduleSeries,
   ClassStatus,
+  StudentStatus,
 } from '@prisma/client';
 import {
   CreateStudentSchema,
   RecordPaymentSchema,
   CreateScheduleSchema,
+  CreateScheduleSeriesSchema,
   UpdateScheduleSchema,
   UpdateStudentSchema,
+  UpdateDeckLimitsSchema,
+  MAX_SERIES_OCCURRENCES,
 } from '../schemas';
 import { z } from 'zod';
 import {
   BulkImportSchedulesPayloadSchema,
   BulkImportStudentsPayloadSchema,
 } from '../schemas';
+import {
+  BULK_IMPORT_TRANSACTION_TIMEOUT_MS,
+  BULK_INSERT_BATCH_SIZE,
+  JOB_PRIORITIES,
+  JobService,
+} from './jobs';
+import { ScheduleService, classesOverlap, isActiveClassStatus } from './schedules';
+import type { TransactionClient } from '../exercises/operators/base';
+import {
+  expandWeeklyRecurrence,
+  fromWallClockTime,
+  getWeekdayInTimeZone,
+  toWallClockTime,
+} from '../server-utils';
 
 type CreateStudentInput = z.infer<typeof CreateStudentSchema>;
 type RecordPaymentInput = z.infer<typeof RecordPaymentSchema>;
 type CreateScheduleInput = z.infer<typeof CreateScheduleSchema>;
+type CreateScheduleSeriesInput = z.infer<typeof CreateScheduleSeriesSchema>;
 type UpdateScheduleInput = z.infer<typeof UpdateScheduleSchema>;
 type UpdateStudentInput = z.infer<typeof UpdateStudentSchema>;
+type UpdateDeckLimitsInput = z.infer<typeof UpdateDeckLimitsSchema>;
+
+/**
+ * Statuses of classes that took place. Deleting their series leaves them in place.
+ */
+const HELD_CLASS_STATUSES: ClassStatus[] = [ClassStatus.IN_PROGRESS, ClassStatus.COMPLETED];
+
+/**
+ * Statuses of occurrences that still follow their series when it is edited.
+ */
+const FOLLOWING_CLASS_STATUSES: ClassStatus[] = [ClassStatus.SCHEDULED, ClassStatus.CONFIRMED];
+
+/**
+ * Editing a series moves each of its occurrences, up to MAX_SERIES_OCCURRENCES of them.
+ */
+const SERIES_TRANSACTION_TIMEOUT_MS = 30 * 1000;
+
+/**
+ * Loads a class schedule with its series, checking that it belongs to one of the teacher's students.
+ */
+async function findScheduleForTeacher(scheduleId: string, teacherId: string, action: string) {
+  const schedule = await prisma.classSchedule.findUnique({
+    where: { id: scheduleId },
+    include: { series: true, student: { select: { teacherId: true } } },
+  });
+
+  if (!schedule || schedule.student.teacherId !== teacherId) {
+    throw new AuthorizationError(
+      `Schedule not found or you are not authorized to ${action} it.`
+    );
+  }
+  return schedule;
+}
+
+/**
+ * Returns the start times of all occurrences of a series.
+ */
+function getSeriesSlots(series: ClassScheduleSeries): Date[] {
+  return expandWeeklyRecurrence(
+    {
+      start: series.startTime,
+      timeZone: series.timezone,
+      interval: series.interval,
+      weekdays: series.weekdays,
+      until: series.until,
+      count: series.count,
+    },
+    MAX_SERIES_OCCURRENCES
+  );
+}
+
+/**
+ * Creates the occurrences of a series that do not exist yet. Slots that already
+ * hold an occurrence, e.g. one that was moved or cancelled on its own, and slots
+ * that were deleted are left alone.
+ */
+async function materializeSeries(
+  tx: TransactionClient,
+  series: ClassScheduleSeries
+): Promise<number> {
+  const existing = await tx.classSchedule.findMany({
+    where: { seriesId: series.id },
+    select: { originalTime: true },
+  });
+  const taken = new Set([
+    ...existing.map((schedule) => schedule.originalTime?.getTime()),
+    ...series.excludedTimes.map((time) => time.getTime()),
+  ]);
+
+  const result = await tx.classSchedule.createMany({
+    data: getSeriesSlots(series)
+      .filter((slot) => !taken.has(slot.getTime()))
+      .map((slot) => ({
+        studentId: series.studentId,
+        seriesId: series.id,
+        scheduledTime: slot,
+        originalTime: slot,
+        duration: series.duration,
+        notes: series.notes,
+      })),
+  });
+  return result.count;
+}
+
+/**
+ * Uses up one class credit from the student's oldest payment that has some left.
+ */
+async function deductClassCredit(tx: TransactionClient, studentId: string) {
+  const paymentToUpdate = await tx.payment.findFirst({
+    where: {
+      studentId,
+      classesUsed: {
+        lt: prisma.payment.fields.classesPurchased,
+      },
+    },
+    orderBy: {
+      paymentDate: 'asc',
+    },
+  });
+
+  if (paymentToUpdate) {
+    await tx.payment.update({
+      where: { id: paymentToUpdate.id },
+      data: {
+        classesUsed: {
+          increment: 1,
+        },
+      },
+    });
+  }
+  // Note: If no payment with available classes is found, the class is still
+  // marked as completed. This is a business decision - we don't block
+  // completion if the student is out of credits. An alert system could
+  // be built on top of this.
+}
 
 /**
  * Service responsible for managing student profiles, their assignments,
@@ -72,7 +214,9 @@ export const StudentService = {
   },
 
   /**
-   * Updates student details like name, email, phone, proficiency level, and notes.
+   * Updates student details like name, email, phone, proficiency level, notes and status.
+   * When the student becomes ACTIVE again, the jobs the worker deferred while
+   * they were paused are re-queued.
    *
    * @param studentId The UUID of the student to update.
    * @param teacherId The UUID of the teacher for authorization.
@@ -86,9 +230,19 @@ export const StudentService = {
   ): Promise<Student> {
     await authorizeTeacherForStudent(teacherId, studentId);
     UpdateStudentSchema.parse(updateData);
-    return prisma.student.update({
-      where: { id: studentId },
-      data: updateData,
+    return prisma.$transaction(async (tx) => {
+      const { status: previousStatus } = await tx.student.findUniqueOrThrow({
+        where: { id: studentId },
+        select: { status: true },
+      });
+      const student = await tx.student.update({
+        where: { id: studentId },
+        data: updateData,
+      });
+      if (previousStatus !== StudentStatus.ACTIVE && student.status === StudentStatus.ACTIVE) {
+        await JobService._resumeDeferredJobs(studentId, tx);
+      }
+      return student;
     });
   },
 
@@ -242,6 +396,7 @@ export const StudentService = {
               ownerId: teacherId,
               type: 'INITIALIZE_CARD_STATES',
               payload: { studentId, deckId },
+              priority: JOB_PRIORITIES.INITIALIZE_CARD_STATES,
             },
           });
 
@@ -319,6 +474,7 @@ export const StudentService = {
               ownerId: teacherId,
               type: 'INITIALIZE_GENERIC_CARD_STATES',
               payload: { studentId, deckId },
+              priority: JOB_PRIORITIES.INITIALIZE_GENERIC_CARD_STATES,
             },
           });
 
@@ -328,6 +484,51 @@ export const StudentService = {
     });
   },
 
+  /**
+   * Updates the daily new-card and review limits of a vocabulary deck assignment.
+   * The limits apply across all of the student's sessions on a day.
+   *
+   * @param studentId The UUID of the student.
+   * @param teacherId The UUID of the teacher performing the action.
+   * @param deckId The UUID of the assigned vocabulary deck.
+   * @param limits The validated limits to change.
+   * @returns A promise that resolves to the updated StudentDeck.
+   */
+  async updateDeckLimits(
+    studentId: string,
+    teacherId: string,
+    deckId: string,
+    limits: UpdateDeckLimitsInput
+  ): Promise<StudentDeck> {
+    await authorizeTeacherForStudent(teacherId, studentId);
+    return prisma.studentDeck.update({
+      where: { studentId_deckId: { studentId, deckId } },
+      data: limits,
+    });
+  },
+
+  /**
+   * Updates the daily new-card and review limits of a generic deck assignment.
+   *
+   * @param studentId The UUID of the student.
+   * @param teacherId The UUID of the teacher performing the action.
+   * @param deckId The UUID of the assigned generic deck.
+   * @param limits The validated limits to change.
+   * @returns A promise that resolves to the updated StudentGenericDeck.
+   */
+  async updateGenericDeckLimits(
+    studentId: string,
+    teacherId: string,
+    deckId: string,
+    limits: UpdateDeckLimitsInput
+  ): Promise<StudentGenericDeck> {
+    await authorizeTeacherForStudent(teacherId, studentId);
+    return prisma.studentGenericDeck.update({
+      where: { studentId_deckId: { studentId, deckId } },
+      data: limits,
+    });
+  },
+
   /**
    * Records a new payment for a student.
    *
@@ -478,6 +679,8 @@ export const StudentService = {
 
   /**
    * Creates a new class schedule for a student.
+   * Throws a ScheduleConflictError if the class overlaps with another class of
+   * the teacher, unless `allowConflicts` is set.
    * @param studentId The UUID of the student.
    * @param teacherId The UUID of the teacher for authorization.
    * @param scheduleData The data for the new schedule.
@@ -491,103 +694,307 @@ export const StudentService = {
     await authorizeTeacherForStudent(teacherId, studentId, {
       checkIsActive: true,
     });
-    return prisma.classSchedule.create({
-      data: {
-        studentId,
-        scheduledTime: scheduleData.scheduledTime,
-        duration: scheduleData.duration,
-        notes: scheduleData.notes,
-      },
+    return prisma.$transaction(async (tx) => {
+      await ScheduleService._lockTeacherSchedule(tx, teacherId);
+      const schedule = await tx.classSchedule.create({
+        data: {
+          studentId,
+          scheduledTime: scheduleData.scheduledTime,
+          duration: scheduleData.duration,
+          notes: scheduleData.notes,
+        },
+      });
+      if (!scheduleData.allowConflicts) {
+        await ScheduleService._assertNoConflicts(tx, teacherId, [schedule.id]);
+      }
+      return schedule;
+    });
+  },
+
+  /**
+   * Creates a recurring class series for a student and materializes its occurrences.
+   * Occurrences keep the time of day of the first class in the teacher's time zone.
+   * Throws a ScheduleConflictError if any of them overlaps with another class of
+   * the teacher, unless `allowConflicts` is set.
+   * @param studentId The UUID of the student.
+   * @param teacherId The UUID of the teacher for authorization.
+   * @param seriesData The first class and the recurrence rule.
+   * @returns The series with its occurrences, or null if the rule produces no classes.
+   */
+  async createScheduleSeries(
+    studentId: string,
+    teacherId: string,
+    seriesData: CreateScheduleSeriesInput
+  ): Promise<ClassScheduleSeriesWithSchedules | null> {
+    await authorizeTeacherForStudent(teacherId, studentId, {
+      checkIsActive: true,
+    });
+    const { timezone } = await prisma.teacher.findUniqueOrThrow({
+      where: { id: teacherId },
+      select: { timezone: true },
     });
+    const { scheduledTime, duration, notes, recurrence, allowConflicts } = seriesData;
+
+    return prisma.$transaction(async (tx) => {
+      await ScheduleService._lockTeacherSchedule(tx, teacherId);
+      const series = await tx.classScheduleSeries.create({
+        data: {
+          studentId,
+          startTime: scheduledTime,
+          timezone,
+          interval: recurrence.interval,
+          weekdays: recurrence.weekdays ?? [getWeekdayInTimeZone(scheduledTime, timezone)],
+          until: recurrence.until,
+          count: recurrence.count,
+          duration,
+          notes,
+        },
+      });
+
+      if ((await materializeSeries(tx, series)) === 0) {
+        await tx.classScheduleSeries.delete({ where: { id: series.id } });
+        return null;
+      }
+      const created = await tx.classScheduleSeries.findUniqueOrThrow({
+        where: { id: series.id },
+        include: { schedules: { orderBy: { scheduledTime: 'asc' } } },
+      });
+      if (!allowConflicts) {
+        await ScheduleService._assertNoConflicts(
+          tx,
+          teacherId,
+          created.schedules.map((schedule) => schedule.id)
+        );
+      }
+      return created;
+    }, { timeout: SERIES_TRANSACTION_TIMEOUT_MS });
   },
 
   /**
    * Updates an existing class schedule.
+   *
+   * For an occurrence of a recurring series, `scope` decides what a change of
+   * time, duration or notes applies to: only this occurrence, which then no
+   * longer follows the series (`this`), this and all later occurrences, which
+   * splits the series in two (`following`), or every occurrence (`all`). Moving
+   * a class to another day moves the series' weekdays along with it. Occurrences
+   * that were edited on their own or already cancelled or held keep their time.
+   * A status change always applies to this occurrence only.
+   *
+   * Throws a ScheduleConflictError if a moved, lengthened or restored class
+   * overlaps with another class of the teacher, unless `allowConflicts` is set.
+   *
    * @param scheduleId The UUID of the schedule to update.
    * @param teacherId The UUID of the teacher for authorization.
    * @param updateData The data to update on the schedule.
+   * @param scope Which occurrences of a recurring series to update.
    * @returns A promise that resolves to the updated ClassSchedule object.
    */
   async updateSchedule(
     scheduleId: string,
     teacherId: string,
-    updateData: UpdateScheduleInput
+    updateData: UpdateScheduleInput,
+    scope: ScheduleScope = 'this'
   ): Promise<ClassSchedule> {
-    const schedule = await prisma.classSchedule.findUnique({
-      where: { id: scheduleId },
-      select: { studentId: true, student: { select: { teacherId: true } } },
-    });
-
-    if (!schedule || schedule.student.teacherId !== teacherId) {
-      throw new AuthorizationError(
-        'Schedule not found or you are not authorized to modify it.'
-      );
-    }
+    const schedule = await findScheduleForTeacher(scheduleId, teacherId, 'modify');
+    const { series } = schedule;
+    const { status, allowConflicts, ...changes } = updateData;
+    const changesOccurrence = Object.values(changes).some((value) => value !== undefined);
+    const movesSlot =
+      (changes.scheduledTime !== undefined &&
+        changes.scheduledTime.getTime() !== schedule.scheduledTime.getTime()) ||
+      (changes.duration !== undefined && changes.duration !== schedule.duration);
+    const restoresSlot =
+      status !== undefined && !isActiveClassStatus(schedule.status) && isActiveClassStatus(status);
 
     // Use a transaction to ensure atomicity of status update and payment deduction
     return prisma.$transaction(async (tx) => {
-      const updatedSchedule = await tx.classSchedule.update({
-        where: { id: scheduleId },
-        data: updateData,
-      });
+      await ScheduleService._lockTeacherSchedule(tx, teacherId);
+      if (!series || scope === 'this' || !changesOccurrence) {
+        const updatedSchedule = await tx.classSchedule.update({
+          where: { id: scheduleId },
+          data: {
+            ...changes,
+            status,
+            // An occurrence edited on its own no longer follows its series
+            isException: series && changesOccurrence ? true : undefined,
+          },
+        });
+        if (!allowConflicts && (movesSlot || restoresSlot)) {
+          await ScheduleService._assertNoConflicts(tx, teacherId, [scheduleId]);
+        }
 
-      // If the class is marked as COMPLETED, deduct a class credit
-      if (updateData.status === ClassStatus.COMPLETED) {
-        const paymentToUpdate = await tx.payment.findFirst({
-          where: {
-            studentId: schedule.studentId,
-            classesUsed: {
-              lt: prisma.payment.fields.classesPurchased,
-            },
+        // If the class is marked as COMPLETED, deduct a class credit
+        if (status === ClassStatus.COMPLETED) {
+          await deductClassCredit(tx, schedule.studentId);
+        }
+        return updatedSchedule;
+      }
+
+      const timeZone = series.timezone;
+      const slot = schedule.originalTime ?? schedule.scheduledTime;
+      const isFirstSlot = getSeriesSlots(series)[0]?.getTime() === slot.getTime();
+      const pivot = scope === 'all' || isFirstSlot ? null : slot;
+
+      // How far the class moves on the wall clock, and across how many weekdays
+      const wallClockShift = changes.scheduledTime
+        ? toWallClockTime(changes.scheduledTime, timeZone) - toWallClockTime(slot, timeZone)
+        : 0;
+      const dayShift = changes.scheduledTime
+        ? getWeekdayInTimeZone(changes.scheduledTime, timeZone) - getWeekdayInTimeZone(slot, timeZone)
+        : 0;
+      const shift = (time: Date) => fromWallClockTime(toWallClockTime(time, timeZone) + wallClockShift, timeZone);
+
+      const rule = {
+        interval: series.interval,
+        weekdays: series.weekdays.map((day) => (day + dayShift + 7) % 7),
+        excludedTimes: series.excludedTimes
+          .filter((time) => !pivot || time >= pivot)
+          .map(shift),
+        duration: changes.duration ?? series.duration,
+        notes: changes.notes ?? series.notes,
+      };
+
+      let target: ClassScheduleSeries;
+      if (pivot) {
+        // End the current series right before this occurrence and continue in a new one
+        const slotsBefore = getSeriesSlots(series).filter((time) => time < pivot).length;
+        await tx.classScheduleSeries.update({
+          where: { id: series.id },
+          data: {
+            until: new Date(pivot.getTime() - 1),
+            count: null,
+            excludedTimes: series.excludedTimes.filter((time) => time < pivot),
           },
-          orderBy: {
-            paymentDate: 'asc',
+        });
+        target = await tx.classScheduleSeries.create({
+          data: {
+            ...rule,
+            studentId: series.studentId,
+            startTime: shift(pivot),
+            timezone: timeZone,
+            until: series.until,
+            count: series.count === null ? null : series.count - slotsBefore,
           },
         });
+      } else {
+        target = await tx.classScheduleSeries.update({
+          where: { id: series.id },
+          data: { ...rule, startTime: shift(series.startTime) },
+        });
+      }
 
-        if (paymentToUpdate) {
-          await tx.payment.update({
-            where: { id: paymentToUpdate.id },
-            data: {
-              classesUsed: {
-                increment: 1,
-              },
-            },
-          });
-        }
-        // Note: If no payment with available classes is found, the class is still
-        // marked as completed. This is a business decision - we don't block
-        // completion if the student is out of credits. An alert system could
-        // be built on top of this.
+      const occurrences = await tx.classSchedule.findMany({
+        where: {
+          seriesId: series.id,
+          ...(pivot ? { originalTime: { gte: pivot } } : {}),
+        },
+      });
+      for (const occurrence of occurrences) {
+        const originalTime = shift(occurrence.originalTime ?? occurrence.scheduledTime);
+        // The edited occurrence itself always takes on the change
+        const follows =
+          occurrence.id === scheduleId ||
+          (!occurrence.isException && FOLLOWING_CLASS_STATUSES.includes(occurrence.status));
+        await tx.classSchedule.update({
+          where: { id: occurrence.id },
+          data: {
+            seriesId: target.id,
+            originalTime,
+            ...(follows
+              ? { scheduledTime: originalTime, duration: rule.duration, notes: rule.notes, isException: false }
+              : {}),
+          },
+        });
       }
+      await materializeSeries(tx, target);
 
-      return updatedSchedule;
-    });
+      if (status) {
+        await tx.classSchedule.update({ where: { id: scheduleId }, data: { status } });
+        if (status === ClassStatus.COMPLETED) {
+          await deductClassCredit(tx, schedule.studentId);
+        }
+      }
+      if (!allowConflicts && (movesSlot || restoresSlot)) {
+        const moved = await tx.classSchedule.findMany({
+          where: { seriesId: target.id },
+          select: { id: true },
+        });
+        await ScheduleService._assertNoConflicts(
+          tx,
+          teacherId,
+          moved.map((occurrence) => occurrence.id)
+        );
+      }
+      return tx.classSchedule.findUniqueOrThrow({ where: { id: scheduleId } });
+    }, { timeout: SERIES_TRANSACTION_TIMEOUT_MS });
   },
 
   /**
    * Deletes a class schedule.
+   *
+   * For an occurrence of a recurring series, `scope` decides whether only this
+   * occurrence is removed (`this`), the series ends before it (`following`) or
+   * the whole series is removed (`all`). Classes that are in progress or
+   * completed are kept as a record when their series is cut short.
+   *
    * @param scheduleId The UUID of the schedule to delete.
    * @param teacherId The UUID of the teacher for authorization.
+   * @param scope Which occurrences of a recurring series to delete.
    * @returns A promise that resolves to the deleted ClassSchedule object.
    */
   async deleteSchedule(
     scheduleId: string,
-    teacherId: string
+    teacherId: string,
+    scope: ScheduleScope = 'this'
   ): Promise<ClassSchedule> {
-    const schedule = await prisma.classSchedule.findUnique({
-      where: { id: scheduleId },
-      select: { student: { select: { teacherId: true } } },
-    });
-
-    if (!schedule || schedule.student.teacherId !== teacherId) {
-      throw new AuthorizationError(
-        'Schedule not found or you are not authorized to delete it.'
-      );
+    const schedule = await findScheduleForTeacher(scheduleId, teacherId, 'delete');
+    const { series } = schedule;
+
+    if (!series || scope === 'this') {
+      return prisma.$transaction(async (tx) => {
+        if (series && schedule.originalTime) {
+          // Remember the slot so that later edits of the series do not bring it back
+          await tx.classScheduleSeries.update({
+            where: { id: series.id },
+            data: { excludedTimes: { push: schedule.originalTime } },
+          });
+        }
+        return tx.classSchedule.delete({ where: { id: scheduleId } });
+      });
     }
 
-    return prisma.classSchedule.delete({
-      where: { id: scheduleId },
+    const slot = schedule.originalTime ?? schedule.scheduledTime;
+    const isFirstSlot = getSeriesSlots(series)[0]?.getTime() === slot.getTime();
+    const pivot = scope === 'all' || isFirstSlot ? null : slot;
+
+    return prisma.$transaction(async (tx) => {
+      const deletedSchedule = await tx.classSchedule.findUniqueOrThrow({
+        where: { id: scheduleId },
+      });
+      await tx.classSchedule.deleteMany({
+        where: {
+          seriesId: series.id,
+          status: { notIn: HELD_CLASS_STATUSES },
+          ...(pivot ? { originalTime: { gte: pivot } } : {}),
+        },
+      });
+
+      if (pivot) {
+        await tx.classScheduleSeries.update({
+          where: { id: series.id },
+          data: {
+            until: new Date(pivot.getTime() - 1),
+            count: null,
+            excludedTimes: series.excludedTimes.filter((time) => time < pivot),
+          },
+        });
+      } else {
+        // Held classes stay as one-off classes
+        await tx.classScheduleSeries.delete({ where: { id: series.id } });
+      }
+
+      return deletedSchedule;
     });
   },
 
@@ -677,11 +1084,13 @@ export const StudentService = {
    *
    * @param teacherId The UUID of the teacher.
    * @param payload The job payload, containing the students data.
+   * @param onProgress Optional callback receiving the number of rows imported so far.
    * @returns A result object indicating the number of students created.
    */
   async _bulkAddStudents(
     teacherId: string,
-    payload: z.infer<typeof BulkImportStudentsPayloadSchema>
+    payload: z.infer<typeof BulkImportStudentsPayloadSchema>,
+    onProgress?: JobProgressReporter
   ) {
     const { students } = payload;
 
@@ -690,29 +1099,69 @@ export const StudentService = {
       teacherId,
     }));
 
-    const result = await prisma.student.createMany({
-      data: studentsToCreate,
-      skipDuplicates: true,
-    });
+    const createdCount = await prisma.$transaction(async (tx) => {
+      let created = 0;
+      for (let i = 0; i < studentsToCreate.length; i += BULK_INSERT_BATCH_SIZE) {
+        const result = await tx.student.createMany({
+          data: studentsToCreate.slice(i, i + BULK_INSERT_BATCH_SIZE),
+          skipDuplicates: true,
+        });
+        created += result.count;
+        await onProgress?.({
+          phase: 'Importing students',
+          processed: Math.min(i + BULK_INSERT_BATCH_SIZE, studentsToCreate.length),
+          total: studentsToCreate.length,
+        });
+      }
+      return created;
+    }, { timeout: BULK_IMPORT_TRANSACTION_TIMEOUT_MS });
 
-    return { createdCount: result.count };
+    return { createdCount };
   },
 
   /**
-   * [INTERNAL METHOD] Bulk adds schedules for students.
+   * [INTERNAL METHOD] Bulk adds schedules for students of a teacher, who are
+   * identified by `studentId` or else by `studentEmail`.
+   * Rows that overlap with another class of the teacher, including earlier rows
+   * of the same import, are skipped and reported as row errors.
    *
+   * @param teacherId The UUID of the teacher who owns the import job.
    * @param payload The job payload, containing the schedules data.
-   * @returns A result object indicating the number of schedules created.
+   * @param onProgress Optional callback receiving the number of rows matched so far.
+   * @returns A result object with the number of schedules created and the rows skipped.
    */
   async _bulkAddSchedules(
-    payload: z.infer<typeof BulkImportSchedulesPayloadSchema>
+    teacherId: string,
+    payload: z.infer<typeof BulkImportSchedulesPayloadSchema>,
+    onProgress?: JobProgressReporter
   ) {
     const { schedules } = payload;
+    const rowErrors: BulkImportError[] = [];
+    let matched = 0;
 
     const schedulesToCreate = await Promise.all(
-      schedules.map(async (schedule) => {
+      schedules.map(async (schedule, index) => {
         const student = await prisma.student.findFirst({
-          where: { email: schedule.studentEmail },
+          where: schedule.studentId
+            ? { id: schedule.studentId, teacherId }
+            : { email: schedule.studentEmail, teacherId },
+        });
+
+        matched += 1;
+        if (!student) {
+          rowErrors.push({
+            rowNumber: index + 1,
+            fieldName: schedule.studentId ? 'studentId' : 'studentEmail',
+            errorMessage: schedule.studentId
+              ? `No student found with id ${schedule.studentId}.`
+              : `No student found with email ${schedule.studentEmail}.`,
+          });
+        }
+        await onProgress?.({
+          phase: 'Matching students',
+          processed: matched,
+          total: schedules.length,
+          errors: rowErrors,
         });
 
         if (!student) {
@@ -720,24 +1169,52 @@ export const StudentService = {
         }
 
         return {
+          rowNumber: index + 1,
           studentId: student.id,
           scheduledTime: new Date(schedule.scheduledTime),
-          duration: schedule.duration,
+          duration: schedule.duration ?? null,
           notes: schedule.notes,
         };
       })
     );
 
-    const validSchedules = schedulesToCreate.filter(
-      (schedule) => schedule !== null
-    ) as Prisma.ClassScheduleCreateManyInput[];
+    const candidates = schedulesToCreate.filter((schedule) => schedule !== null);
+
+    const createdCount = await prisma.$transaction(async (tx) => {
+      await ScheduleService._lockTeacherSchedule(tx, teacherId);
+      const defaultDuration = await ScheduleService._getDefaultLessonDuration(tx, teacherId);
+      const conflictsBySlot = await ScheduleService._findConflictsBySlot(tx, teacherId, candidates);
+
+      // Rows are accepted in order, so of two overlapping rows the first one is kept
+      const accepted: typeof candidates = [];
+      candidates.forEach((candidate, index) => {
+        const [conflict] = conflictsBySlot[index];
+        const earlierRow = accepted.find((row) => classesOverlap(row, candidate, defaultDuration));
+        if (conflict || earlierRow) {
+          rowErrors.push({
+            rowNumber: candidate.rowNumber,
+            fieldName: 'scheduledTime',
+            errorMessage: conflict
+              ? `Overlaps with the class of ${conflict.conflictingStudentName} at ${conflict.conflictingScheduledTime.toISOString()}.`
+              : `Overlaps with the class in row ${earlierRow?.rowNumber}.`,
+          });
+          return;
+        }
+        accepted.push(candidate);
+      });
+
+      const validSchedules: Prisma.ClassScheduleCreateManyInput[] = accepted.map(
+        ({ studentId, scheduledTime, duration, notes }) => ({ studentId, scheduledTime, duration, notes })
+      );
 
-    const result = await prisma.classSchedule.createMany({
-      data: validSchedules,
-      skipDuplicates: true,
-    });
+      const result = await tx.classSchedule.createMany({
+        data: validSchedules,
+        skipDuplicates: true,
+      });
+      return result.count;
+    }, { timeout: BULK_IMPORT_TRANSACTION_TIMEOUT_MS });
 
-    return { createdCount: result.count };
+    return { createdCount, errors: rowErrors };
   },
 
   /**
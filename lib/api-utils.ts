@@ -1,6 +1,7 @@
 import { NextResponse } from 'next/server';
 import { ZodError } from 'zod';
 import { AuthorizationError, AuthenticationError } from './auth';
+import { ScheduleConflictError } from './actions/schedules';
 
 /**
  * Type definition for Prisma error objects that may contain error codes.
@@ -54,6 +55,11 @@ export function handleApiError(error: unknown): NextResponse {
     return apiResponse(401, null, error.message);
   }
 
+  // The clashing classes are sent along so the client can show them.
+  if (error instanceof ScheduleConflictError) {
+    return apiResponse(409, { conflicts: error.conflicts }, error.message);
+  }
+
   if (error instanceof Error) {
     // A simple heuristic to catch Prisma's "not found" errors.
     const prismaError = error as PrismaError;
@@ -0,0 +1,170 @@
+import { FsrsRating } from '@/lib/fsrs/engine';
+import { TypedAnswerGrade, TypedAnswerSettings } from '@/lib/types';
+
+/**
+ * Pure helpers for automatically grading typed answers.
+ *
+ * Grading is deliberately forgiving about formatting (case, punctuation, accents,
+ * whitespace) and strict about content. The resulting grade is only a proposal:
+ * the teacher confirms or overrides it before anything is recorded.
+ */
+
+const DEFAULT_SETTINGS: Required<TypedAnswerSettings> = {
+  caseSensitive: false,
+  ignorePunctuation: true,
+  ignoreAccents: true,
+  maxTypoDistance: 1,
+  fastResponseMs: 5000,
+  slowResponseMs: 15000,
+};
+
+/** Separators that split a stored answer into accepted alternates, e.g. "colour / color". */
+const ALTERNATE_SEPARATORS = /\s*[/|;；、]\s*/;
+
+/** Matches ASCII and CJK punctuation. */
+const PUNCTUATION = /[\p{P}\p{S}]/gu;
+
+/** Matches combining diacritical marks left over after NFD normalization (e.g. pinyin tones). */
+const COMBINING_MARKS = /[\u0300-\u036f]/g;
+
+export function resolveTypedAnswerSettings(
+  settings?: TypedAnswerSettings
+): Required<TypedAnswerSettings> {
+  return { ...DEFAULT_SETTINGS, ...settings };
+}
+
+/**
+ * Normalizes an answer for comparison according to the grading settings.
+ */
+export function normalizeAnswer(
+  text: string,
+  settings: Required<TypedAnswerSettings>
+): string {
+  let normalized = text.normalize('NFKC');
+  if (settings.ignoreAccents) {
+    normalized = normalized.normalize('NFD').replace(COMBINING_MARKS, '').normalize('NFC');
+  }
+  if (settings.ignorePunctuation) {
+    normalized = normalized.replace(PUNCTUATION, ' ');
+  }
+  if (!settings.caseSensitive) {
+    normalized = normalized.toLocaleLowerCase();
+  }
+  return normalized.replace(/\s+/g, ' ').trim();
+}
+
+/**
+ * Splits stored answers into their accepted alternates.
+ */
+export function expandAlternates(answers: (string | null | undefined)[]): string[] {
+  return answers
+    .filter((answer): answer is string => !!answer)
+    .flatMap((answer) => answer.split(ALTERNATE_SEPARATORS))
+    .map((answer) => answer.trim())
+    .filter((answer) => answer.length > 0);
+}
+
+/**
+ * Computes the Levenshtein edit distance between two strings.
+ * Operates on code points so CJK characters count as a single edit.
+ */
+export function levenshteinDistance(a: string, b: string): number {
+  const source = Array.from(a);
+  const target = Array.from(b);
+  if (source.length === 0) return target.length;
+  if (target.length === 0) return source.length;
+
+  let previousRow = Array.from({ length: target.length + 1 }, (_, i) => i);
+  for (let i = 1; i <= source.length; i++) {
+    const currentRow = [i];
+    for (let j = 1; j <= target.length; j++) {
+      const substitutionCost = source[i - 1] === target[j - 1] ? 0 : 1;
+      currentRow[j] = Math.min(
+        previousRow[j] + 1,
+        currentRow[j - 1] + 1,
+        previousRow[j - 1] + substitutionCost
+      );
+    }
+    previousRow = currentRow;
+  }
+  return previousRow[target.length];
+}
+
+/**
+ * Proposes an FSRS rating from the correctness of a typed answer and how long
+ * the student took to produce it.
+ */
+export function proposeRating(
+  isCorrect: boolean,
+  isExactMatch: boolean,
+  responseTimeMs: number | undefined,
+  settings: Required<TypedAnswerSettings>
+): FsrsRating {
+  if (!isCorrect) return 1;
+  // A typo means the word was only partially recalled
+  if (!isExactMatch) return 2;
+  if (responseTimeMs === undefined) return 3;
+  if (responseTimeMs <= settings.fastResponseMs) return 4;
+  if (responseTimeMs >= settings.slowResponseMs) return 2;
+  return 3;
+}
+
+/**
+ * Grades a typed answer against the accepted answers.
+ *
+ * When multiple-choice `options` are given, the student may also answer with the
+ * option's number or letter, and typo tolerance is disabled so that a different
+ * option can never be accepted as a misspelling of the correct one.
+ */
+export function gradeTypedAnswer(
+  submittedAnswer: string,
+  acceptedAnswers: string[],
+  options: {
+    choices?: string[];
+    responseTimeMs?: number;
+    settings?: TypedAnswerSettings;
+  } = {}
+): TypedAnswerGrade {
+  const settings = resolveTypedAnswerSettings(options.settings);
+  const choices = options.choices?.filter((choice) => choice.trim().length > 0) ?? [];
+
+  let answer = submittedAnswer.trim();
+  if (choices.length > 0) {
+    const choiceIndex = /^\d+$/.test(answer)
+      ? Number.parseInt(answer, 10) - 1
+      : /^[a-z]$/i.test(answer)
+        ? answer.toLowerCase().charCodeAt(0) - 'a'.charCodeAt(0)
+        : -1;
+    if (choiceIndex >= 0 && choiceIndex < choices.length) {
+      answer = choices[choiceIndex];
+    }
+  }
+
+  const normalizedAnswer = normalizeAnswer(answer, settings);
+  const maxDistance = choices.length > 0 ? 0 : settings.maxTypoDistance;
+
+  let bestMatch: { answer: string; distance: number; tolerance: number } | undefined;
+  for (const accepted of acceptedAnswers) {
+    const normalizedAccepted = normalizeAnswer(accepted, settings);
+    const distance = levenshteinDistance(normalizedAnswer, normalizedAccepted);
+    // One typo per four characters, so short words (and most Chinese answers) must be exact
+    const tolerance = Math.min(maxDistance, Math.floor(Array.from(normalizedAccepted).length / 4));
+    if (!bestMatch || distance < bestMatch.distance) {
+      bestMatch = { answer: accepted, distance, tolerance };
+    }
+  }
+
+  const isCorrect =
+    normalizedAnswer.length > 0 && !!bestMatch && bestMatch.distance <= bestMatch.tolerance;
+  const isExactMatch = isCorrect && bestMatch!.distance === 0;
+
+  return {
+    submittedAnswer,
+    isCorrect,
+    isExactMatch,
+    matchedAnswer: isCorrect ? bestMatch!.answer : undefined,
+    distance: bestMatch?.distance ?? normalizedAnswer.length,
+    responseTimeMs: options.responseTimeMs,
+    proposedRating: proposeRating(isCorrect, isExactMatch, options.responseTimeMs, settings),
+  };
+}
@@ -4,6 +4,7 @@ import { vocabularyDeckHandler } from './vocabularyDeckHandler';
 import { listeningExerciseHandler } from './listeningExerciseHandler';
 import { fillInTheBlankHandler } from './fillInTheBlankHandler';
 import { genericDeckHandler } from './genericDeckHandler';
+import { grammarExerciseHandler } from './grammarExerciseHandler';
 // Other handlers would be imported here.
 
 const handlerMap: Partial<Record<UnitItemType, ExerciseHandler>> = {
@@ -11,6 +12,7 @@ const handlerMap: Partial<Record<UnitItemType, ExerciseHandler>> = {
   [UnitItemType.LISTENING_EXERCISE]: listeningExerciseHandler,
   [UnitItemType.FILL_IN_THE_BLANK_EXERCISE]: fillInTheBlankHandler,
   [UnitItemType.GENERIC_DECK]: genericDeckHandler,
+  [UnitItemType.GRAMMAR_EXERCISE]: grammarExerciseHandler,
 };
 
 export function getHandler(type: UnitItemType): ExerciseHandler {
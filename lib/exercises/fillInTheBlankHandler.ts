@@ -1,7 +1,11 @@
 import { prisma } from '@/lib/db';
 import { Prisma } from '@prisma/client';
 import { ExerciseHandler } from './handler';
-import { revealAnswerOperator, submitCorrectnessOperator } from './operators/fillInTheBlankOperators';
+import {
+  revealAnswerOperator,
+  submitTextAnswerOperator,
+  submitCorrectnessOperator,
+} from './operators/fillInTheBlankOperators';
 import { 
   FullSessionState, 
   AnswerPayload, 
@@ -27,6 +31,7 @@ import { FSRSService } from '@/lib/actions/fsrs';
 class FillInTheBlankHandler implements ExerciseHandler {
   private operators = {
     REVEAL_ANSWER: revealAnswerOperator,
+    SUBMIT_TEXT_ANSWER: submitTextAnswerOperator,
     SUBMIT_RATING: submitCorrectnessOperator, // Map SUBMIT_RATING to correctness operator
   };
 
@@ -4,6 +4,7 @@ import { ExerciseHandler } from '@/lib/exercises/handler';
 import {
   revealAnswerOperator,
   submitRatingOperator,
+  undoLastReviewOperator,
 } from '@/lib/exercises/operators/genericDeckOperators';
 import {
   FullSessionState,
@@ -24,6 +25,7 @@ class GenericDeckHandler implements ExerciseHandler {
   private operators = {
     REVEAL_ANSWER: revealAnswerOperator,
     SUBMIT_RATING: submitRatingOperator,
+    UNDO: undoLastReviewOperator,
   };
 
   /**
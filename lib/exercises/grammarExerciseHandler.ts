@@ -0,0 +1,139 @@
+import { prisma } from '@/lib/db';
+import { Prisma } from '@prisma/client';
+import { ExerciseHandler } from './handler';
+import {
+  revealGrammarAnswerOperator,
+  submitGrammarCorrectnessOperator,
+} from './operators/grammarExerciseOperators';
+import {
+  FullSessionState,
+  AnswerPayload,
+  SubmissionResult,
+  SessionProgress,
+  GrammarExerciseProgress,
+  GrammarQuestion,
+} from '@/lib/types';
+import { fullSessionStateInclude } from '@/lib/prisma-includes';
+import { GrammarExerciseConfigSchema, GrammarExerciseDataSchema } from '@/lib/schemas';
+import { TransactionClient, ProgressOperator } from './operators/base';
+import { FSRSService } from '@/lib/actions/fsrs';
+import { shuffle } from '@/lib/utils';
+
+/**
+ * Handler for Grammar exercises.
+ *
+ * This handler implements the core game logic:
+ * 1. Initialize with the questions stored on the GrammarExercise (or overridden in the unit item config)
+ * 2. Optionally randomize question order and multiple-choice options
+ * 3. Present questions one by one: "reveal answer" -> "submit correctness"
+ * 4. Every question is asked once and its correctness is recorded in the progress
+ * 5. Exercise completes when every question has been answered
+ */
+class GrammarExerciseHandler implements ExerciseHandler {
+  private operators: Record<'REVEAL_ANSWER' | 'SUBMIT_RATING', ProgressOperator> = {
+    REVEAL_ANSWER: revealGrammarAnswerOperator,
+    SUBMIT_RATING: submitGrammarCorrectnessOperator, // Map SUBMIT_RATING to correctness operator
+  };
+
+  /**
+   * Initialize a new Grammar exercise session.
+   * Settings on the unit item's config take precedence over the exercise's own settings.
+   */
+  async initialize(sessionState: FullSessionState, tx?: TransactionClient): Promise<FullSessionState> {
+    const db = tx || prisma;
+    const unitItem = sessionState.unit.items.find(i => i.id === sessionState.currentUnitItemId)!;
+
+    if (!unitItem.grammarExercise) {
+      throw new Error('Grammar exercise not found for this unit item.');
+    }
+
+    const exerciseData = GrammarExerciseDataSchema.parse(unitItem.grammarExercise.exerciseData ?? {});
+    const config = GrammarExerciseConfigSchema.parse(unitItem.exerciseConfig ?? {}) || {};
+    const overrides = config.exerciseData ?? {};
+
+    const settings = {
+      randomizeQuestions: overrides.settings?.randomizeQuestions ?? exerciseData.settings?.randomizeQuestions ?? false,
+      randomizeOptions: overrides.settings?.randomizeOptions ?? exerciseData.settings?.randomizeOptions ?? false,
+      showExplanations: overrides.settings?.showExplanations ?? exerciseData.settings?.showExplanations ?? true,
+    };
+
+    const sourceQuestions = overrides.questions ?? exerciseData.questions ?? [];
+
+    // Guarantee a stable ID for every question so results can reference it
+    let questions: GrammarQuestion[] = sourceQuestions.map((q, index) => ({
+      ...q,
+      id: q.id ?? `q${index + 1}`,
+      options: q.options && settings.randomizeOptions
+        ? shuffle(q.options)
+        : q.options,
+    }));
+
+    if (settings.randomizeQuestions) {
+      questions = shuffle(questions);
+    }
+
+    const initialProgress: GrammarExerciseProgress = {
+      type: 'GRAMMAR_EXERCISE',
+      stage: 'PRESENTING_QUESTION',
+      payload: {
+        queue: questions,
+        currentCardData: questions[0],
+        instructions: overrides.instructions ?? exerciseData.instructions,
+        settings,
+        initialCardIds: questions.map(q => q.id),
+        results: [],
+      },
+    };
+
+    const updatedSession = await db.session.update({
+      where: { id: sessionState.id },
+      data: { progress: initialProgress as Prisma.InputJsonValue },
+      include: fullSessionStateInclude,
+    });
+
+    return updatedSession as unknown as FullSessionState;
+  }
+
+  /**
+   * Handle answer submission during a Grammar exercise session.
+   * Delegates to the appropriate operator based on the action.
+   */
+  async submitAnswer(
+    sessionState: FullSessionState,
+    payload: AnswerPayload,
+    tx: TransactionClient
+  ): Promise<[SubmissionResult, SessionProgress]> {
+    const operator = this.operators[payload.action as keyof typeof this.operators];
+
+    if (!operator) {
+      throw new Error(`Unknown action: ${payload.action}`);
+    }
+
+    const services = {
+      tx,
+      fsrsService: FSRSService, // FSRS service provided but not used for Grammar exercises
+      studentId: sessionState.studentId,
+      sessionId: sessionState.id
+    };
+
+    const [newProgress, result] = await operator.execute(sessionState.progress!, payload.data, services);
+
+    return [result, newProgress];
+  }
+
+  /**
+   * Check if the Grammar exercise is complete.
+   * It's complete when every question has been answered.
+   */
+  async isComplete(sessionState: FullSessionState): Promise<boolean> {
+    const progress = sessionState.progress;
+
+    if (progress?.type !== 'GRAMMAR_EXERCISE') {
+      return true; // If no progress or wrong type, consider it complete
+    }
+
+    return progress.payload.queue.length === 0;
+  }
+}
+
+export const grammarExerciseHandler = new GrammarExerciseHandler();
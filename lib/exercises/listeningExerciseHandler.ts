@@ -4,6 +4,7 @@ import { ExerciseHandler } from '@/lib/exercises/handler';
 import {
   playAudioOperator,
   submitListeningRatingOperator,
+  undoListeningReviewOperator,
 } from '@/lib/exercises/operators/listeningExerciseOperators';
 import {
   FullSessionState,
@@ -24,6 +25,7 @@ class ListeningExerciseHandler implements ExerciseHandler {
   private operators = {
     PLAY_AUDIO: playAudioOperator,
     SUBMIT_RATING: submitListeningRatingOperator,
+    UNDO: undoListeningReviewOperator,
   };
 
   /**
@@ -1,5 +1,6 @@
 import { ProgressOperator, OperatorServices } from './base';
 import { SessionProgress, SubmissionResult, FillInTheBlankProgress } from '@/lib/types';
+import { expandAlternates, gradeTypedAnswer } from '@/lib/exercises/answerGrading';
 import { z } from 'zod';
 
 /**
@@ -21,6 +22,61 @@ class RevealAnswerOperator implements ProgressOperator {
   }
 }
 
+/**
+ * Operator for grading the answer typed by the student (typed-answer mode).
+ * This transitions the session from 'PRESENTING_CARD' to 'AWAITING_CORRECTNESS' stage
+ * with a proposed grade; the teacher confirms or overrides it via SUBMIT_RATING.
+ */
+class SubmitTextAnswerOperator implements ProgressOperator {
+  async execute(
+    currentProgress: SessionProgress,
+    payload: unknown
+  ): Promise<[SessionProgress, SubmissionResult]> {
+    if (currentProgress.type !== 'FILL_IN_THE_BLANK_EXERCISE') {
+      throw new Error('Invalid progress type for SubmitTextAnswerOperator.');
+    }
+    if (currentProgress.stage !== 'PRESENTING_CARD') {
+      throw new Error('Invalid stage for submitting an answer.');
+    }
+    if (currentProgress.payload.config.answerMode !== 'TYPED') {
+      throw new Error('Typed answers are not enabled for this exercise.');
+    }
+
+    // Validate the payload - expecting { answer: string, responseTimeMs?: number }
+    const validatedPayload = z.object({
+      answer: z.string().max(500),
+      responseTimeMs: z.number().int().min(0).optional(),
+    }).parse(payload);
+
+    const currentCard = currentProgress.payload.currentCardData;
+    if (!currentCard) {
+      throw new Error('Queue is empty - cannot submit an answer.');
+    }
+
+    const options = Array.isArray(currentCard.options)
+      ? currentCard.options.filter((option): option is string => typeof option === 'string')
+      : [];
+
+    const grade = gradeTypedAnswer(validatedPayload.answer, expandAlternates([currentCard.answer]), {
+      choices: options,
+      responseTimeMs: validatedPayload.responseTimeMs,
+      settings: currentProgress.payload.config.typedAnswer,
+    });
+
+    const newProgress: FillInTheBlankProgress = {
+      ...currentProgress,
+      stage: 'AWAITING_CORRECTNESS',
+      payload: { ...currentProgress.payload, grade },
+    };
+
+    return [newProgress, {
+      isCorrect: grade.isCorrect,
+      correctAnswer: currentCard.answer,
+      feedback: grade.isCorrect ? 'Answer accepted.' : 'Answer not accepted.',
+    }];
+  }
+}
+
 /**
  * Operator for submitting the correctness rating (Correct/Incorrect) for a Fill in the Blank card.
  * This is the core logic of the Fill in the Blank exercise - cards answered correctly are
@@ -74,6 +130,7 @@ class SubmitCorrectnessOperator implements ProgressOperator {
         ...currentProgress.payload,
         queue: newQueue,
         currentCardData: newQueue.length > 0 ? newQueue[0] : undefined,
+        grade: undefined,
       },
     };
 
@@ -90,4 +147,5 @@ class SubmitCorrectnessOperator implements ProgressOperator {
 
 // Export the operators
 export const revealAnswerOperator = new RevealAnswerOperator();
-export const submitCorrectnessOperator = new SubmitCorrectnessOperator();
\ No newline at end of file
+export const submitTextAnswerOperator = new SubmitTextAnswerOperator();
+export const submitCorrectnessOperator = new SubmitCorrectnessOperator();
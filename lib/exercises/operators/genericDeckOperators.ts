@@ -45,11 +45,14 @@ class SubmitRatingOperator implements ProgressOperator {
       throw new Error('Cannot submit rating now.');
 
     const validation = z
-      .object({ rating: z.number().min(1).max(4) })
+      .object({
+        rating: z.number().min(1).max(4),
+        responseTimeMs: z.number().int().min(0).optional(),
+      })
       .safeParse(payload);
     if (!validation.success)
       throw new Error(`Invalid payload: ${validation.error.message}`);
-    const { rating } = validation.data;
+    const { rating, responseTimeMs } = validation.data;
 
     const currentQueueItem = currentProgress.payload.queue[0];
     if (!currentQueueItem)
@@ -59,7 +62,8 @@ class SubmitRatingOperator implements ProgressOperator {
       services.studentId,
       currentQueueItem.cardId,
       rating as FsrsRating,
-      services.sessionId // Pass the sessionId
+      services.sessionId, // Pass the sessionId
+      responseTimeMs
     );
 
     // the session's scope is fixed upon initialization.
@@ -98,5 +102,57 @@ class SubmitRatingOperator implements ProgressOperator {
   }
 }
 
+class UndoLastReviewOperator implements ProgressOperator {
+  async execute(
+    currentProgress: SessionProgress,
+    _payload: unknown,
+    services: OperatorServices
+  ): Promise<[SessionProgress, SubmissionResult]> {
+    if (currentProgress.type !== 'GENERIC_DECK')
+      throw new Error('Invalid progress type.');
+
+    const undoneReview = await services.fsrsService.undoLastGenericReview(
+      services.studentId,
+      services.sessionId,
+      currentProgress.payload.initialCardIds,
+      services.tx
+    );
+
+    // Put the card whose review was undone back in front of the queue, already revealed,
+    // so the teacher can simply submit the intended rating.
+    const allCardsInSession = await services.tx.studentGenericCardState.findMany({
+      where: {
+        studentId: services.studentId,
+        cardId: { in: currentProgress.payload.initialCardIds },
+      },
+      include: { card: true },
+    });
+
+    const now = new Date();
+    const undoneCard = allCardsInSession.find((state) => state.cardId === undoneReview.cardId);
+    const dueCards = allCardsInSession
+      .filter((state) => state.due <= now && state.cardId !== undoneReview.cardId)
+      .sort((a, b) => a.due.getTime() - b.due.getTime());
+    const newQueue = undoneCard ? [undoneCard, ...dueCards] : dueCards;
+
+    const newProgress: GenericDeckProgress = {
+      ...currentProgress,
+      stage: 'AWAITING_RATING',
+      payload: {
+        ...currentProgress.payload,
+        queue: newQueue,
+        currentCardData: newQueue.length > 0 ? newQueue[0] : undefined,
+      },
+    };
+
+    const result: SubmissionResult = {
+      isCorrect: true,
+      feedback: 'Last review undone.',
+    };
+    return [newProgress, result];
+  }
+}
+
 export const revealAnswerOperator = new RevealAnswerOperator();
-export const submitRatingOperator = new SubmitRatingOperator();
\ No newline at end of file
+export const submitRatingOperator = new SubmitRatingOperator();
+export const undoLastReviewOperator = new UndoLastReviewOperator();
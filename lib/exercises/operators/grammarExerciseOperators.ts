@@ -0,0 +1,81 @@
+import { ProgressOperator } from './base';
+import { SessionProgress, SubmissionResult, GrammarExerciseProgress } from '@/lib/types';
+import { z } from 'zod';
+
+/**
+ * Operator for revealing the answer to the current grammar question.
+ * This transitions the session from 'PRESENTING_QUESTION' to 'AWAITING_CORRECTNESS' stage.
+ * The explanation is only returned as feedback when `showExplanations` is enabled.
+ */
+class RevealGrammarAnswerOperator implements ProgressOperator {
+  async execute(currentProgress: SessionProgress): Promise<[SessionProgress, SubmissionResult]> {
+    if (currentProgress.type !== 'GRAMMAR_EXERCISE') {
+      throw new Error('Invalid progress type for RevealGrammarAnswerOperator.');
+    }
+
+    const currentQuestion = currentProgress.payload.currentCardData;
+    if (!currentQuestion) {
+      throw new Error('No current question to reveal.');
+    }
+
+    const newProgress: GrammarExerciseProgress = {
+      ...currentProgress,
+      stage: 'AWAITING_CORRECTNESS',
+    };
+
+    const feedback = currentProgress.payload.settings.showExplanations && currentQuestion.explanation
+      ? currentQuestion.explanation
+      : 'Answer revealed.';
+
+    return [newProgress, { isCorrect: true, correctAnswer: currentQuestion.correctAnswer, feedback }];
+  }
+}
+
+/**
+ * Operator for recording whether the student answered the current grammar question correctly.
+ * Each question is asked exactly once; its correctness is appended to `results` and the
+ * session moves on to the next question in the queue.
+ */
+class SubmitGrammarCorrectnessOperator implements ProgressOperator {
+  async execute(
+    currentProgress: SessionProgress,
+    payload: unknown
+  ): Promise<[SessionProgress, SubmissionResult]> {
+    if (currentProgress.type !== 'GRAMMAR_EXERCISE') {
+      throw new Error('Invalid progress type for SubmitGrammarCorrectnessOperator.');
+    }
+
+    // Validate the payload - expecting { isCorrect: boolean }
+    const validatedPayload = z.object({
+      isCorrect: z.boolean()
+    }).parse(payload);
+
+    const { queue, results } = currentProgress.payload;
+    if (queue.length === 0) {
+      throw new Error('Queue is empty - cannot submit correctness.');
+    }
+
+    const [currentQuestion, ...restOfQueue] = queue;
+
+    const newProgress: GrammarExerciseProgress = {
+      ...currentProgress,
+      stage: 'PRESENTING_QUESTION',
+      payload: {
+        ...currentProgress.payload,
+        queue: restOfQueue,
+        currentCardData: restOfQueue.length > 0 ? restOfQueue[0] : undefined,
+        results: [...results, { questionId: currentQuestion.id, isCorrect: validatedPayload.isCorrect }],
+      },
+    };
+
+    return [newProgress, {
+      isCorrect: validatedPayload.isCorrect,
+      correctAnswer: currentQuestion.correctAnswer,
+      feedback: validatedPayload.isCorrect ? 'Correct!' : 'Incorrect.',
+    }];
+  }
+}
+
+// Export the operators
+export const revealGrammarAnswerOperator = new RevealGrammarAnswerOperator();
+export const submitGrammarCorrectnessOperator = new SubmitGrammarCorrectnessOperator();
@@ -43,11 +43,14 @@ class SubmitListeningRatingOperator implements ProgressOperator {
       throw new Error('Cannot submit rating now.');
 
     const validation = z
-      .object({ rating: z.number().min(1).max(4) })
+      .object({
+        rating: z.number().min(1).max(4),
+        responseTimeMs: z.number().int().min(0).optional(),
+      })
       .safeParse(payload);
     if (!validation.success)
       throw new Error(`Invalid payload: ${validation.error.message}`);
-    const { rating } = validation.data;
+    const { rating, responseTimeMs } = validation.data;
 
     const currentQueueItem = currentProgress.payload.queue[0];
     if (!currentQueueItem)
@@ -58,7 +61,8 @@ class SubmitListeningRatingOperator implements ProgressOperator {
       services.studentId,
       currentQueueItem.cardId,
       rating as FsrsRating,
-      services.sessionId
+      services.sessionId,
+      responseTimeMs
     );
 
     // Rebuild the queue from the session's fixed scope of listening cards
@@ -95,5 +99,56 @@ class SubmitListeningRatingOperator implements ProgressOperator {
   }
 }
 
+class UndoListeningReviewOperator implements ProgressOperator {
+  async execute(
+    currentProgress: SessionProgress,
+    _payload: unknown,
+    services: OperatorServices
+  ): Promise<[SessionProgress, SubmissionResult]> {
+    if (currentProgress.type !== 'LISTENING_EXERCISE')
+      throw new Error('Invalid progress type.');
+
+    const undoneReview = await services.fsrsService.undoLastListeningReview(
+      services.studentId,
+      services.sessionId,
+      currentProgress.payload.initialCardIds,
+      services.tx
+    );
+
+    // Put the undone listening card back in front of the queue, ready to be rated again
+    const allCardsInSession = await services.tx.listeningCardState.findMany({
+      where: {
+        studentId: services.studentId,
+        cardId: { in: currentProgress.payload.initialCardIds },
+      },
+      include: { card: true },
+    });
+
+    const now = new Date();
+    const undoneCard = allCardsInSession.find((state) => state.cardId === undoneReview.cardId);
+    const dueCards = allCardsInSession
+      .filter((state) => state.due <= now && state.cardId !== undoneReview.cardId)
+      .sort((a, b) => a.due.getTime() - b.due.getTime());
+    const newQueue = undoneCard ? [undoneCard, ...dueCards] : dueCards;
+
+    const newProgress: ListeningDeckProgress = {
+      ...currentProgress,
+      stage: 'AWAITING_RATING',
+      payload: {
+        ...currentProgress.payload,
+        queue: newQueue,
+        currentCardData: newQueue.length > 0 ? newQueue[0] : undefined,
+      },
+    };
+
+    const result: SubmissionResult = {
+      isCorrect: true,
+      feedback: 'Last listening review undone.',
+    };
+    return [newProgress, result];
+  }
+}
+
 export const playAudioOperator = new PlayAudioOperator();
-export const submitListeningRatingOperator = new SubmitListeningRatingOperator();
\ No newline at end of file
+export const submitListeningRatingOperator = new SubmitListeningRatingOperator();
+export const undoListeningReviewOperator = new UndoListeningReviewOperator();
@@ -13,6 +13,7 @@ import {
   ReviewType
 } from '@prisma/client';
 import { FsrsRating } from '@/lib/fsrs/engine';
+import { expandAlternates, gradeTypedAnswer } from '@/lib/exercises/answerGrading';
 import { z } from 'zod';
 
 class RevealAnswerOperator implements ProgressOperator {
@@ -36,6 +37,58 @@ class RevealAnswerOperator implements ProgressOperator {
   }
 }
 
+/**
+ * Grades the answer typed by the student (typed-answer mode) and proposes a rating.
+ * Nothing is recorded yet: the teacher confirms or overrides the proposed rating
+ * through the regular SUBMIT_RATING action.
+ */
+class SubmitTextAnswerOperator implements ProgressOperator {
+  async execute(
+    currentProgress: SessionProgress,
+    payload: unknown
+  ): Promise<[SessionProgress, SubmissionResult]> {
+    if (currentProgress.type !== 'VOCABULARY_DECK')
+      throw new Error('Invalid progress type.');
+    if (currentProgress.stage !== 'PRESENTING_CARD')
+      throw new Error('Invalid stage for submitting an answer.');
+    if (currentProgress.payload.config.answerMode !== 'TYPED')
+      throw new Error('Typed answers are not enabled for this exercise.');
+
+    const validation = z
+      .object({
+        answer: z.string().max(500),
+        responseTimeMs: z.number().int().min(0).optional(),
+      })
+      .safeParse(payload);
+    if (!validation.success)
+      throw new Error(`Invalid payload: ${validation.error.message}`);
+    const { answer, responseTimeMs } = validation.data;
+
+    const currentCard = currentProgress.payload.currentCardData;
+    if (!currentCard)
+      throw new Error('Cannot submit an answer for an empty queue.');
+
+    // The student sees the English word and types the translation (characters or pinyin)
+    const grade = gradeTypedAnswer(
+      answer,
+      expandAlternates([currentCard.card.chineseTranslation, currentCard.card.pinyin]),
+      { responseTimeMs, settings: currentProgress.payload.config.typedAnswer }
+    );
+
+    const newProgress: VocabularyDeckProgress = {
+      ...currentProgress,
+      stage: 'AWAITING_RATING',
+      payload: { ...currentProgress.payload, grade },
+    };
+    const result: SubmissionResult = {
+      isCorrect: grade.isCorrect,
+      correctAnswer: currentCard.card.chineseTranslation,
+      feedback: grade.isCorrect ? 'Answer accepted.' : 'Answer not accepted.',
+    };
+    return [newProgress, result];
+  }
+}
+
 class SubmitRatingOperator implements ProgressOperator {
   async execute(
     currentProgress: SessionProgress,
@@ -48,11 +101,17 @@ class SubmitRatingOperator implements ProgressOperator {
       throw new Error('Cannot submit rating now.');
 
     const validation = z
-      .object({ rating: z.number().min(1).max(4) })
+      .object({
+        rating: z.number().min(1).max(4),
+        responseTimeMs: z.number().int().min(0).optional(),
+      })
       .safeParse(payload);
     if (!validation.success)
       throw new Error(`Invalid payload: ${validation.error.message}`);
     const { rating } = validation.data;
+    // In typed-answer mode the time to produce the answer was measured when it was submitted
+    const responseTimeMs =
+      currentProgress.payload.grade?.responseTimeMs ?? validation.data.responseTimeMs;
 
     const currentQueueItem = currentProgress.payload.queue[0];
     if (!currentQueueItem)
@@ -63,7 +122,8 @@ class SubmitRatingOperator implements ProgressOperator {
       currentQueueItem.cardId,
       rating as FsrsRating,
       ReviewType.VOCABULARY,
-      services.sessionId // Pass the sessionId
+      services.sessionId, // Pass the sessionId
+      responseTimeMs
     );
 
     // the session's scope is fixed upon initialization.
@@ -91,6 +151,7 @@ class SubmitRatingOperator implements ProgressOperator {
         ...currentProgress.payload,
         queue: newQueue,
         currentCardData: newQueue.length > 0 ? newQueue[0] : undefined,
+        grade: undefined,
       },
     };
 
@@ -102,6 +163,60 @@ class SubmitRatingOperator implements ProgressOperator {
   }
 }
 
+class UndoLastReviewOperator implements ProgressOperator {
+  async execute(
+    currentProgress: SessionProgress,
+    _payload: unknown,
+    services: OperatorServices
+  ): Promise<[SessionProgress, SubmissionResult]> {
+    if (currentProgress.type !== 'VOCABULARY_DECK')
+      throw new Error('Invalid progress type.');
+
+    const undoneReview = await services.fsrsService.undoLastReview(
+      services.studentId,
+      services.sessionId,
+      currentProgress.payload.initialCardIds,
+      services.tx
+    );
+
+    // Put the card whose review was undone back in front of the queue, already revealed,
+    // so the teacher can simply submit the intended rating.
+    const allCardsInSession = await services.tx.studentCardState.findMany({
+      where: {
+        studentId: services.studentId,
+        cardId: { in: currentProgress.payload.initialCardIds },
+      },
+      include: { card: true },
+    });
+
+    const now = new Date();
+    const undoneCard = allCardsInSession.find((state) => state.cardId === undoneReview.cardId);
+    const dueCards = allCardsInSession
+      .filter((state) => state.due <= now && state.cardId !== undoneReview.cardId)
+      .sort((a, b) => a.due.getTime() - b.due.getTime());
+    const newQueue = undoneCard ? [undoneCard, ...dueCards] : dueCards;
+
+    const newProgress: VocabularyDeckProgress = {
+      ...currentProgress,
+      stage: 'AWAITING_RATING',
+      payload: {
+        ...currentProgress.payload,
+        queue: newQueue,
+        currentCardData: newQueue.length > 0 ? newQueue[0] : undefined,
+        grade: undefined,
+      },
+    };
+
+    const result: SubmissionResult = {
+      isCorrect: true,
+      feedback: 'Last review undone.',
+    };
+    return [newProgress, result];
+  }
+}
+
 export const revealAnswerOperator = new RevealAnswerOperator();
+export const submitTextAnswerOperator = new SubmitTextAnswerOperator();
 export const submitRatingOperator = new SubmitRatingOperator();
+export const undoLastReviewOperator = new UndoLastReviewOperator();
 
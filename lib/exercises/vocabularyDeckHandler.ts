@@ -3,7 +3,9 @@ import { FSRSService } from '@/lib/actions/fsrs';
 import { ExerciseHandler } from '@/lib/exercises/handler';
 import {
   revealAnswerOperator,
+  submitTextAnswerOperator,
   submitRatingOperator,
+  undoLastReviewOperator,
 } from '@/lib/exercises/operators/vocabularyDeckOperators';
 import {
   FullSessionState,
@@ -23,7 +25,9 @@ type EnrichedStudentCardState = StudentCardState & { card: VocabularyCard };
 class VocabularyDeckHandler implements ExerciseHandler {
   private operators = {
     REVEAL_ANSWER: revealAnswerOperator,
+    SUBMIT_TEXT_ANSWER: submitTextAnswerOperator,
     SUBMIT_RATING: submitRatingOperator,
+    UNDO: undoLastReviewOperator,
   };
 
   /**
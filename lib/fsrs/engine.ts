@@ -27,9 +27,25 @@ export const FSRS_DEFAULT_PARAMETERS = DEFAULT_PARAMETERS;
 export type FsrsRating = 1 | 2 | 3 | 4;
 
 /**
- * A constant representing the desired retention rate for scheduling.
+ * The default desired retention rate for scheduling.
  * This is a key parameter for the FSRS algorithm. A value of 0.9 means the system
  * will schedule reviews such that the user has a 90% probability of recalling the item.
- * In a future version, this could be a configurable setting per teacher or student.
+ * It is used when neither the student's FSRS parameters nor the deck assignment
+ * configure their own desired retention.
  */
 export const DEFAULT_DESIRED_RETENTION = 0.9;
+
+/**
+ * Forgetting curve constants of the FSRS-5 model used by `fsrs-rs-nodejs`.
+ */
+const FSRS_DECAY = -0.5;
+const FSRS_FACTOR = 19 / 81;
+
+/**
+ * Computes the interval (in days) FSRS schedules for a memory of the given
+ * stability so that recall probability drops to `desiredRetention` at review time.
+ * With the default retention of 0.9 the interval equals the stability.
+ */
+export function intervalForRetention(stability: number, desiredRetention: number): number {
+  return (stability / FSRS_FACTOR) * (Math.pow(desiredRetention, 1 / FSRS_DECAY) - 1);
+}
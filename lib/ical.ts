@@ -0,0 +1,562 @@
+import { expandWeeklyRecurrence, fromWallClockTime, toWallClockTime } from './server-utils';
+
+// Minimal iCalendar (RFC 5545) writer and reader for exporting and importing class schedules.
+
+const PRODUCT_ID = '-//Yingyu//Class Schedule//EN';
+const CRLF = '\r\n';
+/** Lines longer than this many octets are folded onto continuation lines. */
+const MAX_LINE_OCTETS = 75;
+const MINUTE_MS = 60 * 1000;
+const DAY_MS = 24 * 60 * MINUTE_MS;
+
+export type ICalEventStatus = 'TENTATIVE' | 'CONFIRMED' | 'CANCELLED';
+
+export type ICalEvent = {
+  /** Stays the same for every export of the same class, so calendar apps update it in place. */
+  uid: string;
+  start: Date;
+  end: Date;
+  summary: string;
+  description?: string | null;
+  status: ICalEventStatus;
+  /** Exports with a later time replace earlier ones. */
+  lastModified: Date;
+};
+
+export type ICalCalendar = {
+  name: string;
+  /** IANA time zone the event times are written in. */
+  timeZone: string;
+  events: ICalEvent[];
+};
+
+/** Escapes a TEXT property value. */
+function escapeText(value: string): string {
+  return value
+    .replace(/\\/g, '\\\\')
+    .replace(/;/g, '\\;')
+    .replace(/,/g, '\\,')
+    .replace(/\r?\n/g, '\\n');
+}
+
+/** Splits a content line into lines of at most 75 octets, without splitting characters. */
+function foldLine(line: string): string {
+  if (Buffer.byteLength(line) <= MAX_LINE_OCTETS) return line;
+  const lines: string[] = [];
+  let current = '';
+  let currentOctets = 0;
+  for (const char of line) {
+    const octets = Buffer.byteLength(char);
+    // Continuation lines start with a space, which counts towards their length
+    const limit = lines.length === 0 ? MAX_LINE_OCTETS : MAX_LINE_OCTETS - 1;
+    if (currentOctets + octets > limit) {
+      lines.push(current);
+      current = '';
+      currentOctets = 0;
+    }
+    current += char;
+    currentOctets += octets;
+  }
+  lines.push(current);
+  return lines.join(`${CRLF} `);
+}
+
+const pad = (value: number, length = 2) => String(value).padStart(length, '0');
+
+/** Formats the UTC fields of a timestamp as an iCalendar DATE-TIME without a zone suffix. */
+function formatDateTimeFields(timestamp: number): string {
+  const date = new Date(timestamp);
+  return (
+    `${date.getUTCFullYear()}${pad(date.getUTCMonth() + 1)}${pad(date.getUTCDate())}` +
+    `T${pad(date.getUTCHours())}${pad(date.getUTCMinutes())}${pad(date.getUTCSeconds())}`
+  );
+}
+
+const formatUtc = (date: Date) => `${formatDateTimeFields(date.getTime())}Z`;
+
+const formatLocal = (date: Date, timeZone: string) =>
+  formatDateTimeFields(toWallClockTime(date, timeZone));
+
+/** The offset of a time zone from UTC at an instant, in whole minutes. */
+const getOffsetMinutes = (timestamp: number, timeZone: string) =>
+  Math.round((toWallClockTime(new Date(timestamp), timeZone) - timestamp) / MINUTE_MS);
+
+const formatOffset = (minutes: number) => {
+  const sign = minutes < 0 ? '-' : '+';
+  const absolute = Math.abs(minutes);
+  return `${sign}${pad(Math.floor(absolute / 60))}${pad(absolute % 60)}`;
+};
+
+type Observance = { start: number; offsetFrom: number; offsetTo: number };
+
+/**
+ * Lists the UTC offsets a time zone uses between two instants. Transitions are
+ * found by comparing the offset day by day and narrowing down to the minute.
+ */
+function getObservances(timeZone: string, from: number, to: number): Observance[] {
+  const start = Math.floor(from / MINUTE_MS) * MINUTE_MS;
+  const initialOffset = getOffsetMinutes(start, timeZone);
+  const observances: Observance[] = [{ start, offsetFrom: initialOffset, offsetTo: initialOffset }];
+
+  let offset = initialOffset;
+  for (let dayStart = start; dayStart < to; dayStart += DAY_MS) {
+    const nextOffset = getOffsetMinutes(dayStart + DAY_MS, timeZone);
+    if (nextOffset === offset) continue;
+
+    // The offset changes at some minute in (low, high]
+    let low = dayStart;
+    let high = dayStart + DAY_MS;
+    while (high - low > MINUTE_MS) {
+      const middle = low + Math.floor((high - low) / 2 / MINUTE_MS) * MINUTE_MS;
+      if (getOffsetMinutes(middle, timeZone) === offset) low = middle;
+      else high = middle;
+    }
+    observances.push({ start: high, offsetFrom: offset, offsetTo: nextOffset });
+    offset = nextOffset;
+  }
+  return observances;
+}
+
+/**
+ * Builds a VTIMEZONE component covering the given range, so that clients
+ * which do not know the IANA zone can still place the events correctly.
+ */
+function buildTimeZone(timeZone: string, from: number, to: number): string[] {
+  const observances = getObservances(timeZone, from, to);
+  const standardOffset = Math.min(...observances.map((observance) => observance.offsetTo));
+
+  const lines = ['BEGIN:VTIMEZONE', `TZID:${timeZone}`];
+  for (const observance of observances) {
+    const component = observance.offsetTo > standardOffset ? 'DAYLIGHT' : 'STANDARD';
+    lines.push(
+      `BEGIN:${component}`,
+      // Observance start times are given in the local time before the change
+      `DTSTART:${formatDateTimeFields(observance.start + observance.offsetFrom * MINUTE_MS)}`,
+      `TZOFFSETFROM:${formatOffset(observance.offsetFrom)}`,
+      `TZOFFSETTO:${formatOffset(observance.offsetTo)}`,
+      `END:${component}`
+    );
+  }
+  lines.push('END:VTIMEZONE');
+  return lines;
+}
+
+/**
+ * Renders a calendar as an iCalendar document. Event times are written as
+ * local times in the calendar's time zone, which is included as a VTIMEZONE.
+ *
+ * @example
+ * ```typescript
+ * renderICalendar({ name: 'Classes', timeZone: 'Asia/Shanghai', events: [] })
+ * // "BEGIN:VCALENDAR\r\nVERSION:2.0\r\n..."
+ * ```
+ */
+export function renderICalendar(calendar: ICalCalendar): string {
+  const { timeZone, events } = calendar;
+  const now = Date.now();
+  const from = events.length > 0 ? Math.min(...events.map((event) => event.start.getTime())) : now;
+  const to = events.length > 0 ? Math.max(...events.map((event) => event.end.getTime())) : now;
+
+  const lines = [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    `PRODID:${PRODUCT_ID}`,
+    'CALSCALE:GREGORIAN',
+    'METHOD:PUBLISH',
+    `X-WR-CALNAME:${escapeText(calendar.name)}`,
+    `X-WR-TIMEZONE:${timeZone}`,
+    ...buildTimeZone(timeZone, from - DAY_MS, to + DAY_MS),
+  ];
+
+  for (const event of events) {
+    lines.push(
+      'BEGIN:VEVENT',
+      `UID:${event.uid}`,
+      `DTSTAMP:${formatUtc(event.lastModified)}`,
+      `LAST-MODIFIED:${formatUtc(event.lastModified)}`,
+      // Seconds since 2020 fit into the 32-bit integer many clients expect
+      `SEQUENCE:${Math.max(0, Math.floor((event.lastModified.getTime() - Date.UTC(2020, 0, 1)) / 1000))}`,
+      `DTSTART;TZID=${timeZone}:${formatLocal(event.start, timeZone)}`,
+      `DTEND;TZID=${timeZone}:${formatLocal(event.end, timeZone)}`,
+      `SUMMARY:${escapeText(event.summary)}`,
+      ...(event.description ? [`DESCRIPTION:${escapeText(event.description)}`] : []),
+      `STATUS:${event.status}`,
+      'END:VEVENT'
+    );
+  }
+  lines.push('END:VCALENDAR');
+
+  return lines.map(foldLine).join(CRLF) + CRLF;
+}
+
+// ============================================================================
+// READING
+// ============================================================================
+
+export type ICalAttendee = {
+  email: string;
+  name: string | null;
+};
+
+/** A VEVENT read from an iCalendar document. */
+export type ParsedICalEvent = {
+  uid: string;
+  summary: string;
+  description: string | null;
+  /** Upper-case STATUS, e.g. `CANCELLED`, if the event has one. */
+  status: string | null;
+  start: Date;
+  /** Minutes between DTSTART and DTEND (or DURATION), if the event has an end. */
+  duration: number | null;
+  /** All-day events have a DATE instead of a DATE-TIME start. */
+  allDay: boolean;
+  /** The time zone of DTSTART, which recurrences keep the wall-clock time in. */
+  timeZone: string;
+  attendees: ICalAttendee[];
+  rrule: string | null;
+  exdates: Date[];
+  /** Set on an edited occurrence of a recurring event: the start it replaces. */
+  recurrenceId: Date | null;
+};
+
+type ContentLine = {
+  name: string;
+  params: Record<string, string>;
+  value: string;
+};
+
+const WEEKDAY_CODES = ['SU', 'MO', 'TU', 'WE', 'TH', 'FR', 'SA'];
+
+/** Joins folded lines back together and splits the document into content lines. */
+function unfoldLines(text: string): string[] {
+  return text
+    .replace(/\r?\n[ \t]/g, '')
+    .split(/\r?\n/)
+    .filter((line) => line.trim() !== '');
+}
+
+/** Splits `NAME;PARAM=value;PARAM="quoted":value` into its parts. */
+function parseContentLine(line: string): ContentLine | null {
+  let inQuotes = false;
+  let colon = -1;
+  for (let index = 0; index < line.length; index++) {
+    if (line[index] === '"') inQuotes = !inQuotes;
+    else if (line[index] === ':' && !inQuotes) {
+      colon = index;
+      break;
+    }
+  }
+  if (colon === -1) return null;
+
+  const [name, ...rawParams] = line.slice(0, colon).match(/(?:[^;"]+|"[^"]*")+/g) ?? [];
+  if (!name) return null;
+  const params: Record<string, string> = {};
+  for (const rawParam of rawParams) {
+    const equals = rawParam.indexOf('=');
+    if (equals === -1) continue;
+    params[rawParam.slice(0, equals).toUpperCase()] = rawParam.slice(equals + 1).replace(/^"|"$/g, '');
+  }
+  return { name: name.toUpperCase(), params, value: line.slice(colon + 1) };
+}
+
+function unescapeText(value: string): string {
+  return value.replace(/\\([\\;,nN])/g, (_match, char: string) =>
+    char === 'n' || char === 'N' ? '\n' : char
+  );
+}
+
+/** Returns whether the runtime knows an IANA time zone. */
+function isKnownTimeZone(timeZone: string): boolean {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Returns the IANA zone of a TZID, or the fallback for zones the runtime does
+ * not know (such as Windows zone names written by Outlook).
+ */
+function resolveTimeZone(tzid: string | undefined, fallback: string): string {
+  const timeZone = tzid?.replace(/^\//, '');
+  return timeZone && isKnownTimeZone(timeZone) ? timeZone : fallback;
+}
+
+type ParsedDateTime = { instant: Date; allDay: boolean };
+
+/**
+ * Parses a DATE or DATE-TIME value. UTC times end with `Z`; other times are
+ * wall-clock times in `timeZone`.
+ */
+function parseDateTime(value: string, timeZone: string): ParsedDateTime | null {
+  const match = value.trim().match(/^(\d{4})(\d{2})(\d{2})(?:T(\d{2})(\d{2})(\d{2})(Z)?)?$/);
+  if (!match) return null;
+  const [, year, month, day, hours, minutes, seconds, utc] = match;
+  const wallClock = Date.UTC(
+    Number(year),
+    Number(month) - 1,
+    Number(day),
+    Number(hours ?? 0),
+    Number(minutes ?? 0),
+    Number(seconds ?? 0)
+  );
+  if (Number.isNaN(wallClock)) return null;
+  return {
+    instant: utc ? new Date(wallClock) : fromWallClockTime(wallClock, timeZone),
+    allDay: hours === undefined,
+  };
+}
+
+/** Parses a DURATION value such as `PT1H30M` into minutes. */
+function parseDurationMinutes(value: string): number | null {
+  const match = value
+    .trim()
+    .match(/^([+-])?P(?:(\d+)W)?(?:(\d+)D)?(?:T(?:(\d+)H)?(?:(\d+)M)?(?:(\d+)S)?)?$/);
+  if (!match) return null;
+  const [, sign, weeks, days, hours, minutes, seconds] = match;
+  const total =
+    Number(weeks ?? 0) * 7 * 24 * 60 +
+    Number(days ?? 0) * 24 * 60 +
+    Number(hours ?? 0) * 60 +
+    Number(minutes ?? 0) +
+    Number(seconds ?? 0) / 60;
+  return sign === '-' ? -total : total;
+}
+
+/**
+ * Reads the VEVENTs of an iCalendar document. Events without a usable UID or
+ * DTSTART are left out. Times without a known time zone are read in `defaultTimeZone`.
+ */
+export function parseICalendar(text: string, defaultTimeZone: string): ParsedICalEvent[] {
+  const events: ParsedICalEvent[] = [];
+  let lines: ContentLine[] | null = null;
+  // Components nested in a VEVENT, such as VALARM, do not describe the event
+  let nestedDepth = 0;
+
+  for (const rawLine of unfoldLines(text)) {
+    const line = parseContentLine(rawLine);
+    if (!line) continue;
+    const component = line.value.trim().toUpperCase();
+
+    if (line.name === 'BEGIN' && component === 'VEVENT') {
+      lines = [];
+      nestedDepth = 0;
+    } else if (line.name === 'END' && component === 'VEVENT') {
+      const event = lines && toParsedEvent(lines, defaultTimeZone);
+      if (event) events.push(event);
+      lines = null;
+    } else if (lines) {
+      if (line.name === 'BEGIN') nestedDepth++;
+      else if (line.name === 'END') nestedDepth--;
+      else if (nestedDepth === 0) lines.push(line);
+    }
+  }
+  return events;
+}
+
+function toParsedEvent(lines: ContentLine[], defaultTimeZone: string): ParsedICalEvent | null {
+  const get = (name: string) => lines.find((line) => line.name === name);
+  const uid = get('UID')?.value.trim();
+  const dtstart = get('DTSTART');
+  if (!uid || !dtstart) return null;
+
+  const timeZone = resolveTimeZone(dtstart.params.TZID, defaultTimeZone);
+  const start = parseDateTime(dtstart.value, timeZone);
+  if (!start) return null;
+
+  let duration: number | null = null;
+  const dtend = get('DTEND');
+  const end = dtend && parseDateTime(dtend.value, resolveTimeZone(dtend.params.TZID, defaultTimeZone));
+  const durationLine = get('DURATION');
+  if (end) duration = (end.instant.getTime() - start.instant.getTime()) / MINUTE_MS;
+  else if (durationLine) duration = parseDurationMinutes(durationLine.value);
+
+  const exdates = lines
+    .filter((line) => line.name === 'EXDATE')
+    .flatMap((line) =>
+      line.value
+        .split(',')
+        .map((value) => parseDateTime(value, resolveTimeZone(line.params.TZID, timeZone))?.instant)
+    )
+    .filter((date): date is Date => date !== undefined);
+
+  const recurrenceIdLine = get('RECURRENCE-ID');
+  const recurrenceId = recurrenceIdLine
+    ? parseDateTime(recurrenceIdLine.value, resolveTimeZone(recurrenceIdLine.params.TZID, timeZone))
+    : null;
+
+  const summary = get('SUMMARY');
+  const description = get('DESCRIPTION');
+  return {
+    uid,
+    summary: summary ? unescapeText(summary.value).trim() : '',
+    description: description ? unescapeText(description.value).trim() || null : null,
+    status: get('STATUS')?.value.trim().toUpperCase() ?? null,
+    start: start.instant,
+    duration: duration !== null && duration > 0 ? Math.round(duration) : null,
+    allDay: start.allDay,
+    timeZone,
+    attendees: lines
+      .filter((line) => line.name === 'ATTENDEE')
+      .map((line) => ({
+        email: line.value.replace(/^mailto:/i, '').trim().toLowerCase(),
+        name: line.params.CN ? unescapeText(line.params.CN) : null,
+      }))
+      .filter((attendee) => attendee.email.includes('@')),
+    rrule: get('RRULE')?.value.trim() ?? null,
+    exdates,
+    recurrenceId: recurrenceId?.instant ?? null,
+  };
+}
+
+/** Thrown for RRULEs the importer cannot expand. */
+export class UnsupportedRecurrenceError extends Error {
+  constructor(rule: string) {
+    super(`Unsupported recurrence rule: ${rule}`);
+    this.name = 'UnsupportedRecurrenceError';
+  }
+}
+
+/** RRULE parts the expander understands; any other part makes the rule unsupported. */
+const SUPPORTED_RRULE_PARTS = ['FREQ', 'INTERVAL', 'COUNT', 'UNTIL', 'BYDAY', 'BYMONTHDAY', 'WKST'];
+
+/**
+ * Expands an event into the start times of its occurrences between `from` and
+ * `horizon` (which bounds rules without COUNT or UNTIL), at most `limit` of them.
+ * Earlier occurrences are not returned but still count towards the rule's COUNT,
+ * and EXDATEs are removed after COUNT is applied, as RFC 5545 specifies.
+ * Supports DAILY, WEEKLY (with BYDAY) and MONTHLY (with BYMONTHDAY) rules;
+ * weeks start on Monday.
+ *
+ * @throws UnsupportedRecurrenceError for other rules.
+ */
+export function expandICalEvent(event: ParsedICalEvent, from: Date, horizon: Date, limit: number): Date[] {
+  if (!event.rrule) return event.start >= from && event.start <= horizon ? [event.start] : [];
+
+  const parts = new Map(
+    event.rrule.split(';').map((part) => {
+      const [key, value = ''] = part.split('=');
+      return [key.toUpperCase(), value.toUpperCase()] as const;
+    })
+  );
+  const freq = parts.get('FREQ');
+  const interval = Number(parts.get('INTERVAL') ?? 1);
+  const count = parts.has('COUNT') ? Number(parts.get('COUNT')) : null;
+  const untilValue = parts.get('UNTIL');
+  const parsedUntil = untilValue ? parseDateTime(untilValue, event.timeZone) : null;
+  const byDay = parts.get('BYDAY')?.split(',');
+  const byMonthDay = parts.get('BYMONTHDAY')?.split(',').map(Number);
+
+  if (
+    [...parts.keys()].some((key) => !SUPPORTED_RRULE_PARTS.includes(key)) ||
+    !Number.isInteger(interval) ||
+    interval < 1 ||
+    (count !== null && (!Number.isInteger(count) || count < 1)) ||
+    (untilValue && !parsedUntil) ||
+    byDay?.some((day) => !WEEKDAY_CODES.includes(day)) ||
+    byMonthDay?.some((day) => !Number.isInteger(day) || day === 0 || Math.abs(day) > 31) ||
+    (byDay && freq !== 'WEEKLY') ||
+    (byMonthDay && freq !== 'MONTHLY')
+  ) {
+    throw new UnsupportedRecurrenceError(event.rrule);
+  }
+
+  // A DATE UNTIL includes the whole day
+  const ruleUntil = parsedUntil
+    ? new Date(parsedUntil.instant.getTime() + (parsedUntil.allDay ? DAY_MS - 1 : 0))
+    : null;
+  const until = ruleUntil && ruleUntil < horizon ? ruleUntil : horizon;
+  // Each EXDATE removes at most one of the occurrences expanded
+  const expandLimit = limit + event.exdates.length;
+
+  let occurrences: Date[];
+  if (freq === 'WEEKLY') {
+    occurrences = expandWeeklyRecurrence(
+      {
+        start: event.start,
+        timeZone: event.timeZone,
+        interval,
+        weekdays: byDay
+          ? byDay.map((day) => WEEKDAY_CODES.indexOf(day))
+          : [new Date(toWallClockTime(event.start, event.timeZone)).getUTCDay()],
+        until,
+        count,
+        from,
+      },
+      expandLimit
+    );
+  } else if (freq === 'DAILY' || freq === 'MONTHLY') {
+    occurrences = expandByWallClock(event, freq, interval, byMonthDay, { from, until, count }, expandLimit);
+  } else {
+    throw new UnsupportedRecurrenceError(event.rrule);
+  }
+
+  const excluded = new Set(event.exdates.map((date) => date.getTime()));
+  return occurrences.filter((occurrence) => !excluded.has(occurrence.getTime())).slice(0, limit);
+}
+
+/**
+ * Expands DAILY and MONTHLY rules, keeping the wall-clock time of the first
+ * occurrence. Months without a given day (e.g. the 31st) are skipped.
+ * Occurrences before `from` are left out but still count towards `count`.
+ */
+function expandByWallClock(
+  event: ParsedICalEvent,
+  freq: 'DAILY' | 'MONTHLY',
+  interval: number,
+  byMonthDay: number[] | undefined,
+  { from, until, count }: { from: Date; until: Date; count: number | null },
+  limit: number
+): Date[] {
+  const localStart = toWallClockTime(event.start, event.timeZone);
+  const startDay = new Date(localStart);
+  const timeOfDay =
+    localStart - Date.UTC(startDay.getUTCFullYear(), startDay.getUTCMonth(), startDay.getUTCDate());
+  const occurrences: Date[] = [];
+  if (limit < 1) return occurrences;
+
+  // Without a COUNT, the periods before `from` do not matter and are skipped
+  // (keeping one period of margin for time zone offsets)
+  let periodsBefore = 0;
+  if (count === null) {
+    const localFrom = toWallClockTime(from, event.timeZone);
+    const fromDay = new Date(localFrom);
+    const stepsBefore =
+      freq === 'DAILY'
+        ? (localFrom - localStart) / DAY_MS
+        : (fromDay.getUTCFullYear() - startDay.getUTCFullYear()) * 12 +
+          fromDay.getUTCMonth() -
+          startDay.getUTCMonth();
+    periodsBefore = Math.floor(stepsBefore / interval) - 1;
+  }
+
+  let counted = 0;
+  for (let step = Math.max(0, periodsBefore) * interval; ; step += interval) {
+    let wallClocks: number[];
+    if (freq === 'DAILY') {
+      wallClocks = [localStart + step * DAY_MS];
+    } else {
+      const year = startDay.getUTCFullYear();
+      const month = startDay.getUTCMonth() + step;
+      const daysInMonth = new Date(Date.UTC(year, month + 1, 0)).getUTCDate();
+      wallClocks = (byMonthDay ?? [startDay.getUTCDate()])
+        .map((day) => (day < 0 ? daysInMonth + day + 1 : day))
+        .filter((day) => day >= 1 && day <= daysInMonth)
+        .sort((a, b) => a - b)
+        .map((day) => Date.UTC(year, month, day) + timeOfDay);
+      // Stop when even the first day of the month is past the end
+      if (fromWallClockTime(Date.UTC(year, month, 1), event.timeZone) > until) return occurrences;
+    }
+
+    for (const wallClock of wallClocks) {
+      if (wallClock < localStart) continue;
+      const occurrence = fromWallClockTime(wallClock, event.timeZone);
+      if (occurrence > until) return occurrences;
+      counted++;
+      if (occurrence >= from) occurrences.push(occurrence);
+      if (occurrences.length >= limit || (count !== null && counted >= count)) return occurrences;
+    }
+  }
+}
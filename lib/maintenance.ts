@@ -0,0 +1,35 @@
+import { JobService } from './actions/jobs';
+import { AuthService } from './actions/auth';
+import { MaintenanceReport } from './types';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/** Finished jobs older than this lose the bulky parts of their payload. */
+const JOB_COMPACT_AFTER_DAYS = parseInt(process.env.JOB_COMPACT_AFTER_DAYS || '30', 10);
+/** Finished jobs older than this are deleted, together with their practice sheets. */
+const JOB_RETENTION_DAYS = parseInt(process.env.JOB_RETENTION_DAYS || '180', 10);
+
+/**
+ * Housekeeping for tables that otherwise grow without bound:
+ * - compacts the payload of COMPLETED/SKIPPED/CANCELLED jobs after `JOB_COMPACT_AFTER_DAYS`,
+ * - deletes those jobs (and their practice sheet PDFs) after `JOB_RETENTION_DAYS`,
+ * - deletes expired login sessions.
+ * FAILED and DEAD_LETTER jobs are kept until a teacher retries them.
+ * Called by the scheduler through `POST /api/worker/maintenance` and
+ * periodically by the standalone worker process.
+ */
+export async function runMaintenance(): Promise<MaintenanceReport> {
+  const now = Date.now();
+
+  const deletedJobs = await JobService._deleteFinishedJobs(new Date(now - JOB_RETENTION_DAYS * DAY_MS));
+  const compactedJobs = await JobService._compactFinishedJobs(
+    new Date(now - JOB_COMPACT_AFTER_DAYS * DAY_MS)
+  );
+  const expiredSessions = await AuthService._deleteExpiredSessions();
+
+  return {
+    compactedJobs,
+    deletedJobs,
+    expiredSessions,
+  };
+}
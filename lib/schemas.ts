@@ -1,5 +1,5 @@
 import { z } from 'zod';
-import { ClassStatus } from '@prisma/client';
+import { ClassStatus, JobStatus, JobType, StudentStatus } from '@prisma/client';
 
 // Schema for creating a new student.
 // Ensures that essential data is present and correctly formatted.
@@ -76,8 +76,19 @@ export const UpdateStudentSchema = z.object({
     .enum(['BEGINNER', 'ELEMENTARY', 'INTERMEDIATE', 'ADVANCED'])
     .optional(),
   notes: z.string().max(5000, 'Notes cannot exceed 5000 characters.').optional(),
+  status: z.nativeEnum(StudentStatus).optional(),
 });
 
+// Schema for updating the daily study limits of a student's deck assignment.
+export const UpdateDeckLimitsSchema = z
+  .object({
+    dailyNewCards: z.number().int().min(0).max(500).optional(),
+    dailyReviewLimit: z.number().int().min(0).max(2000).optional(),
+  })
+  .refine((data) => data.dailyNewCards !== undefined || data.dailyReviewLimit !== undefined, {
+    message: 'At least one limit must be provided.',
+  });
+
 /**
  * Validates the payload for the job that initializes FSRS states for a new deck assignment.
  */
@@ -93,6 +104,42 @@ export const RebuildCachePayloadSchema = z.object({
   studentId: z.string().uuid({ message: 'Invalid student UUID.' }),
 });
 
+/** Largest number of items printed per section of a practice sheet. */
+export const MAX_PRACTICE_SHEET_ITEMS = 100;
+
+/**
+ * Validates the payload for the 'GENERATE_PRACTICE_PDF' job.
+ */
+export const GeneratePracticePdfPayloadSchema = z.object({
+  studentId: z.string().uuid({ message: 'Invalid student UUID.' }),
+  maxItemsPerSection: z.number().int().min(1).max(MAX_PRACTICE_SHEET_ITEMS).default(40),
+});
+
+/**
+ * Validates the request body for generating a practice sheet.
+ */
+export const CreatePracticeSheetSchema = GeneratePracticePdfPayloadSchema.pick({
+  maxItemsPerSection: true,
+}).partial();
+
+/**
+ * Schema for the automatic grading settings used by typed-answer mode.
+ */
+export const TypedAnswerSettingsSchema = z.object({
+  caseSensitive: z.boolean().optional(),
+  ignorePunctuation: z.boolean().optional(),
+  ignoreAccents: z.boolean().optional(), // Also strips pinyin tone marks
+  maxTypoDistance: z.number().int().min(0).max(5).optional(), // Levenshtein tolerance
+  fastResponseMs: z.number().int().min(0).optional(), // Correct answers faster than this propose "Easy"
+  slowResponseMs: z.number().int().min(0).optional(), // Correct answers slower than this propose "Hard"
+});
+
+/**
+ * How answers are graded: the teacher grades after revealing (default),
+ * or the student types the answer and it is graded automatically.
+ */
+export const AnswerModeSchema = z.enum(['SELF_GRADED', 'TYPED']);
+
 /**
  * Validates the configuration object for a vocabulary exercise unit item.
  */
@@ -105,6 +152,8 @@ export const VocabularyExerciseConfigSchema = z
     learningSteps: z.array(
       z.string().regex(/^\d+[smhd]$/, 'Learning step must be in format like "3m", "15m", "1h", "2d"')
     ).optional(), // Added to support configurable learning steps
+    answerMode: AnswerModeSchema.optional(),
+    typedAnswer: TypedAnswerSettingsSchema.optional(),
   })
   .optional();
 
@@ -131,9 +180,72 @@ export const ListeningExerciseConfigSchema = z
 export const FillInTheBlankExerciseConfigSchema = z
   .object({
     vocabularyConfidenceThreshold: z.number().min(0).max(1).optional(),
+    answerMode: AnswerModeSchema.optional(),
+    typedAnswer: TypedAnswerSettingsSchema.optional(),
   })
   .optional();
 
+/**
+ * Schema for a single question within a grammar exercise.
+ */
+export const GrammarQuestionSchema = z.object({
+  id: z.string().optional(),
+  question: z.string().min(1, 'Question cannot be empty.'),
+  options: z.array(z.string()).optional(), // For multiple choice
+  correctAnswer: z.string().min(1, 'Correct answer cannot be empty.'),
+  explanation: z.string().optional(),
+});
+
+/**
+ * Schema for the structured `exerciseData` of a grammar exercise.
+ */
+export const GrammarExerciseDataSchema = z.object({
+  instructions: z.string().optional(),
+  questions: z.array(GrammarQuestionSchema).optional(),
+  settings: z
+    .object({
+      randomizeQuestions: z.boolean().optional(),
+      randomizeOptions: z.boolean().optional(),
+      showExplanations: z.boolean().optional(),
+    })
+    .optional(),
+});
+
+/**
+ * Schema for grammar exercise configuration.
+ * `exerciseData.settings` here override the settings stored on the exercise itself.
+ */
+export const GrammarExerciseConfigSchema = z
+  .object({
+    title: z.string().optional(),
+    grammarTopic: z.string().optional(),
+    difficulty: z.number().int().min(1).max(5).optional(),
+    exerciseData: GrammarExerciseDataSchema.optional(),
+    explanation: z.string().optional(),
+    tags: z.array(z.string()).optional(),
+  })
+  .optional();
+
+/**
+ * Schema for creating a new grammar exercise.
+ */
+export const CreateGrammarExerciseSchema = z.object({
+  title: z.string().min(1, 'Title cannot be empty.'),
+  grammarTopic: z.string().min(1, 'Grammar topic cannot be empty.'),
+  difficultyLevel: z.number().int().min(1).max(5).optional(),
+  exerciseData: GrammarExerciseDataSchema.extend({
+    questions: z.array(GrammarQuestionSchema).min(1, 'At least one question is required.'),
+  }),
+  explanation: z.string().optional(),
+  tags: z.array(z.string()).optional(),
+  isPublic: z.boolean().optional(),
+});
+
+/**
+ * Schema for updating a grammar exercise.
+ */
+export const UpdateGrammarExerciseSchema = CreateGrammarExerciseSchema.partial();
+
 /**
  * Schema for creating a new Fill in the Blank deck.
  */
@@ -169,6 +281,62 @@ export const OptimizeParamsPayloadSchema = z.object({
   studentId: z.string().uuid({ message: 'Invalid student UUID.' }),
 });
 
+/**
+ * Validates the query string of the review workload forecast.
+ */
+export const ReviewForecastQuerySchema = z.object({
+  days: z.coerce.number().int().min(1).max(365).default(30),
+  includeNewCards: z
+    .enum(['true', 'false'])
+    .default('false')
+    .transform((value) => value === 'true'),
+});
+
+/**
+ * The review types scheduled by FSRS with their own parameters.
+ */
+export const FsrsReviewTypeSchema = z.enum(['VOCABULARY', 'LISTENING', 'GENERIC']);
+
+/**
+ * Validates the request body for reactivating an earlier version of a
+ * student's FSRS parameters.
+ */
+export const RollbackFsrsParamsSchema = z.object({
+  reviewType: FsrsReviewTypeSchema,
+  version: z.number().int().positive(),
+});
+
+/**
+ * The range of desired retention values teachers may configure.
+ * Outside of it, FSRS either schedules absurdly long intervals or daily reviews.
+ */
+export const MIN_DESIRED_RETENTION = 0.7;
+export const MAX_DESIRED_RETENTION = 0.97;
+
+/**
+ * Validates the request body for changing a student's desired retention, either
+ * for a whole review type or as an override on one of their decks.
+ * A `null` retention with a `deckId` clears the deck override.
+ */
+export const UpdateDesiredRetentionSchema = z
+  .object({
+    reviewType: FsrsReviewTypeSchema,
+    desiredRetention: z
+      .number()
+      .min(MIN_DESIRED_RETENTION, { message: `Desired retention must be at least ${MIN_DESIRED_RETENTION}.` })
+      .max(MAX_DESIRED_RETENTION, { message: `Desired retention must be at most ${MAX_DESIRED_RETENTION}.` })
+      .nullable(),
+    deckId: z.string().uuid().optional(),
+  })
+  .refine((data) => data.deckId !== undefined || data.desiredRetention !== null, {
+    message: 'A desired retention is required unless clearing a deck override.',
+    path: ['desiredRetention'],
+  })
+  .refine((data) => data.deckId === undefined || data.reviewType !== 'LISTENING', {
+    message: 'Listening practice has no per-deck retention.',
+    path: ['deckId'],
+  });
+
 /**
  * Validates the request body for creating a new class schedule.
  */
@@ -176,6 +344,84 @@ export const CreateScheduleSchema = z.object({
   scheduledTime: z.coerce.date().refine(date => !isNaN(date.getTime()), { message: 'Invalid date' }),
   duration: z.number().int().positive().optional(),
   notes: z.string().optional(),
+  // Schedule the class even if it overlaps with other classes of the teacher
+  allowConflicts: z.boolean().optional(),
+});
+
+/**
+ * The most occurrences a recurring class series materializes.
+ */
+export const MAX_SERIES_OCCURRENCES = 200;
+
+/**
+ * Validates a weekly recurrence rule. `weekdays` defaults to the weekday of the
+ * first class; the series ends on `until` or after `count` classes.
+ */
+export const RecurrenceSchema = z
+  .object({
+    interval: z.number().int().min(1).max(4).default(1),
+    weekdays: z.array(z.number().int().min(0).max(6)).min(1).max(7).optional(),
+    until: z.coerce.date().refine(date => !isNaN(date.getTime()), { message: 'Invalid date' }).optional(),
+    count: z.number().int().min(1).max(MAX_SERIES_OCCURRENCES).optional(),
+  })
+  .refine((data) => data.until !== undefined || data.count !== undefined, {
+    message: 'A recurring class needs an end date or a number of classes.',
+    path: ['until'],
+  });
+
+/**
+ * Validates the request body for creating a recurring class series.
+ */
+export const CreateScheduleSeriesSchema = CreateScheduleSchema.extend({
+  recurrence: RecurrenceSchema,
+});
+
+/**
+ * Which occurrences of a recurring class an edit or deletion applies to.
+ * Classes that are not part of a series only support `this`.
+ */
+export const ScheduleScopeSchema = z.enum(['this', 'following', 'all']);
+
+/**
+ * Validates the query parameters of schedule updates and deletions.
+ */
+export const ScheduleScopeQuerySchema = z.object({
+  scope: ScheduleScopeSchema.default('this'),
+});
+
+/**
+ * The longest range of classes the calendar can request at once.
+ */
+export const MAX_SCHEDULE_RANGE_DAYS = 92;
+
+/**
+ * Validates the query parameters for listing a teacher's classes in a time range.
+ */
+export const ScheduleRangeQuerySchema = z
+  .object({
+    from: z.coerce.date().refine(date => !isNaN(date.getTime()), { message: 'Invalid date' }),
+    to: z.coerce.date().refine(date => !isNaN(date.getTime()), { message: 'Invalid date' }),
+    studentId: z.string().uuid().optional(),
+    status: z.nativeEnum(ClassStatus).optional(),
+  })
+  .refine((data) => data.to > data.from, { message: '`to` must be after `from`.', path: ['to'] })
+  .refine(
+    (data) => data.to.getTime() - data.from.getTime() <= MAX_SCHEDULE_RANGE_DAYS * 24 * 60 * 60 * 1000,
+    { message: `The range cannot be longer than ${MAX_SCHEDULE_RANGE_DAYS} days.`, path: ['to'] }
+  );
+
+/**
+ * The largest iCalendar document accepted for importing classes, in characters.
+ */
+export const MAX_ICS_IMPORT_LENGTH = 1_000_000;
+
+/**
+ * Validates the request body for previewing or importing classes from an .ics file.
+ * `mappings` assigns the events, by UID, to students; null leaves an event out.
+ */
+export const IcsScheduleImportSchema = z.object({
+  content: z.string().min(1).max(MAX_ICS_IMPORT_LENGTH),
+  mappings: z.record(z.string(), z.string().uuid().nullable()).optional(),
 });
 
 /**
@@ -189,6 +435,7 @@ export const UpdateScheduleSchema = z.object({
   status: z.nativeEnum(ClassStatus).optional(),
   duration: z.number().int().positive().optional(),
   notes: z.string().optional(),
+  allowConflicts: z.boolean().optional(),
 });
 
 /**
@@ -197,6 +444,8 @@ export const UpdateScheduleSchema = z.object({
 export const UpdateTeacherSettingsSchema = z.object({
   paymentAlertThreshold: z.number().int().min(0).optional(),
   preferredLessonDuration: z.number().int().positive().optional(),
+  autoOptimizeFsrs: z.boolean().optional(),
+  autoOptimizeMinReviews: z.number().int().min(50).max(10000).optional(),
 });
 
 export const BulkImportVocabularyPayloadSchema = z.object({
@@ -246,13 +495,19 @@ export const BulkImportStudentsPayloadSchema = z.object({
 
 export const BulkImportSchedulesPayloadSchema = z.object({
   schedules: z.array(
-    z.object({
-      studentEmail: z.string().email(),
-      scheduledTime: z.coerce.date(),
-      duration: z.coerce.number().int().positive().optional(),
-      notes: z.string().optional(),
-      type: z.string().optional(),
-    })
+    z
+      .object({
+        studentEmail: z.string().email().optional(),
+        studentId: z.string().uuid().optional(),
+        scheduledTime: z.coerce.date(),
+        duration: z.coerce.number().int().positive().optional(),
+        notes: z.string().optional(),
+        type: z.string().optional(),
+      })
+      .refine((schedule) => schedule.studentEmail || schedule.studentId, {
+        message: 'Either studentEmail or studentId is required.',
+        path: ['studentEmail'],
+      })
   ),
 });
 
@@ -269,6 +524,20 @@ export const BulkImportFillInTheBlankPayloadSchema = z.object({
   ),
 });
 
+/**
+ * Validates the query parameters for listing a teacher's background jobs.
+ * `from`/`to` filter on the job's creation time.
+ */
+export const JobListQuerySchema = z.object({
+  type: z.nativeEnum(JobType).optional(),
+  status: z.nativeEnum(JobStatus).optional(),
+  studentId: z.string().uuid().optional(),
+  from: z.coerce.date().refine(date => !isNaN(date.getTime()), { message: 'Invalid date' }).optional(),
+  to: z.coerce.date().refine(date => !isNaN(date.getTime()), { message: 'Invalid date' }).optional(),
+  page: z.coerce.number().int().min(1).default(1),
+  pageSize: z.coerce.number().int().min(1).max(100).default(20),
+});
+
 /**
  * Validates the payload for adding a new item to a unit.
  * It's a discriminated union based on the `itemType`.
@@ -283,7 +552,8 @@ export const AddItemBodySchema = z.discriminatedUnion('itemType', [
   z.object({
     itemType: z.literal('GRAMMAR_EXERCISE'),
     exerciseId: z.string().uuid().optional(),
-    // exerciseData: CreateGrammarExerciseSchema.optional(), // Add this when the schema is created
+    exerciseData: CreateGrammarExerciseSchema.optional(),
+    exerciseConfig: GrammarExerciseConfigSchema,
   }),
   z.object({
     itemType: z.literal('FILL_IN_THE_BLANK_EXERCISE'),
@@ -304,7 +574,7 @@ export const AddItemBodySchema = z.discriminatedUnion('itemType', [
  */
 export const ForkExerciseSchema = z.object({
   exerciseId: z.string().uuid(),
-  itemType: z.enum(['VOCABULARY_DECK']), // Add other types as they become forkable
+  itemType: z.enum(['VOCABULARY_DECK', 'GRAMMAR_EXERCISE']), // Add other types as they become forkable
 });
 
 /**
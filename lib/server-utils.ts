@@ -59,4 +59,134 @@ export const decimalToNumber = (decimal: Decimal | null | undefined, fallback =
  */
 export const isDecimal = (value: unknown): value is Decimal => {
   return value instanceof Decimal;
-};
\ No newline at end of file
+};
+/**
+ * Returns the offset of a time zone from UTC at the given instant, in milliseconds.
+ * Falls back to UTC for time zones the runtime does not recognise.
+ */
+const getTimeZoneOffsetMs = (date: Date, timeZone: string): number => {
+  let parts: Intl.DateTimeFormatPart[];
+  try {
+    parts = new Intl.DateTimeFormat('en-US', {
+      timeZone,
+      hourCycle: 'h23',
+      year: 'numeric',
+      month: '2-digit',
+      day: '2-digit',
+      hour: '2-digit',
+      minute: '2-digit',
+      second: '2-digit',
+    }).formatToParts(date);
+  } catch {
+    return 0;
+  }
+  const get = (type: Intl.DateTimeFormatPartTypes) =>
+    Number(parts.find((part) => part.type === type)?.value ?? 0);
+  const asUtc = Date.UTC(get('year'), get('month') - 1, get('day'), get('hour'), get('minute'), get('second'));
+  return asUtc - Math.floor(date.getTime() / 1000) * 1000;
+};
+
+/**
+ * Returns the instant at which the calendar day containing `date` begins in
+ * the given IANA time zone (e.g. a teacher's `Asia/Shanghai`).
+ *
+ * @example
+ * ```typescript
+ * startOfDayInTimeZone(new Date('2025-03-01T20:00:00Z'), 'Asia/Shanghai')
+ * // returns 2025-03-01T16:00:00.000Z (midnight of March 2nd in Shanghai)
+ * ```
+ */
+export const startOfDayInTimeZone = (date: Date, timeZone: string): Date => {
+  const local = new Date(date.getTime() + getTimeZoneOffsetMs(date, timeZone));
+  const localMidnight = Date.UTC(local.getUTCFullYear(), local.getUTCMonth(), local.getUTCDate());
+  // The offset at midnight can differ from the offset now across a DST change
+  return new Date(localMidnight - getTimeZoneOffsetMs(new Date(localMidnight), timeZone));
+};
+
+/**
+ * Returns the wall-clock time of `date` in the given IANA time zone, expressed
+ * as a UTC timestamp (18:00 in Shanghai becomes 18:00 UTC of the same day).
+ * Wall-clock times can be shifted by whole days without running into DST gaps.
+ */
+export const toWallClockTime = (date: Date, timeZone: string): number =>
+  date.getTime() + getTimeZoneOffsetMs(date, timeZone);
+
+/**
+ * The inverse of `toWallClockTime`: the instant at which a wall-clock time
+ * occurs in the given IANA time zone.
+ */
+export const fromWallClockTime = (wallClock: number, timeZone: string): Date => {
+  const guess = new Date(wallClock - getTimeZoneOffsetMs(new Date(wallClock), timeZone));
+  return new Date(wallClock - getTimeZoneOffsetMs(guess, timeZone));
+};
+
+/**
+ * Returns the day of the week (0 = Sunday) of `date` in the given IANA time zone.
+ */
+export const getWeekdayInTimeZone = (date: Date, timeZone: string): number =>
+  new Date(toWallClockTime(date, timeZone)).getUTCDay();
+
+/**
+ * A weekly recurrence: every `interval` weeks on `weekdays` (0 = Sunday),
+ * starting with `start` and ending at `until` or after `count` occurrences.
+ * Occurrences before `from` are left out but still count towards `count`.
+ */
+export interface WeeklyRecurrence {
+  start: Date;
+  timeZone: string;
+  interval: number;
+  weekdays: number[];
+  until?: Date | null;
+  count?: number | null;
+  from?: Date | null;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Expands a weekly recurrence into the start times of its occurrences, at most
+ * `limit` of them from `from` on. Every occurrence keeps the wall-clock time of `start` in the
+ * recurrence's time zone, so an 18:00 class stays at 18:00 across DST changes.
+ * Weeks start on Monday, which is what "every two weeks" is counted from.
+ *
+ * @example
+ * ```typescript
+ * expandWeeklyRecurrence(
+ *   { start: new Date('2025-03-03T10:00:00Z'), timeZone: 'Asia/Shanghai', interval: 1, weekdays: [1, 3], count: 3 },
+ *   100
+ * )
+ * // returns 2025-03-03T10:00Z, 2025-03-05T10:00Z, 2025-03-10T10:00Z
+ * ```
+ */
+export const expandWeeklyRecurrence = (rule: WeeklyRecurrence, limit: number): Date[] => {
+  // Days from Monday, in the order they occur within a week
+  const dayOffsets = [...new Set(rule.weekdays)].map((day) => (day + 6) % 7).sort((a, b) => a - b);
+  const maxCount = rule.count ?? Infinity;
+  const occurrences: Date[] = [];
+  if (dayOffsets.length === 0 || rule.interval < 1 || maxCount < 1 || limit < 1) return occurrences;
+
+  const localStart = toWallClockTime(rule.start, rule.timeZone);
+  const startDay = new Date(localStart);
+  const localMidnight = Date.UTC(startDay.getUTCFullYear(), startDay.getUTCMonth(), startDay.getUTCDate());
+  const timeOfDay = localStart - localMidnight;
+  const weekStart = localMidnight - ((startDay.getUTCDay() + 6) % 7) * DAY_MS;
+
+  // Without a count, the weeks before `from` do not matter and are skipped (keeping
+  // one week of margin for time zone offsets)
+  const periodsBefore =
+    rule.from && rule.count == null
+      ? Math.floor((toWallClockTime(rule.from, rule.timeZone) - weekStart) / (rule.interval * 7 * DAY_MS)) - 1
+      : 0;
+  let counted = 0;
+  for (let week = Math.max(0, periodsBefore) * rule.interval; ; week += rule.interval) {
+    for (const dayOffset of dayOffsets) {
+      const wallClock = weekStart + (week * 7 + dayOffset) * DAY_MS + timeOfDay;
+      if (wallClock < localStart) continue;
+      const occurrence = fromWallClockTime(wallClock, rule.timeZone);
+      if (rule.until && occurrence > rule.until) return occurrences;
+      counted++;
+      if (!rule.from || occurrence >= rule.from) occurrences.push(occurrence);
+      if (occurrences.length >= limit || counted >= maxCount) return occurrences;
+    }
+  }
+};
@@ -14,6 +14,7 @@ import {
   StudentDeck,
   StudentGenericDeck,
   ClassSchedule,
+  ClassScheduleSeries,
   Session,
   Prisma,
   VocabularyCard,
@@ -29,10 +30,13 @@ import {
   BulkImportErrorSchema,
   BulkImportSummarySchema,
 } from './schemas/jobs';
+import { CreateGrammarExerciseSchema, GrammarExerciseDataSchema, ScheduleScopeSchema } from './schemas';
 
 export type BulkImportSummary = z.infer<typeof BulkImportSummarySchema>;
 export type BulkImportError = z.infer<typeof BulkImportErrorSchema>;
 export type BulkImportResult = z.infer<typeof BulkImportResultSchema>;
+export type GrammarExerciseData = z.infer<typeof GrammarExerciseDataSchema>;
+export type CreateGrammarExerciseInput = z.infer<typeof CreateGrammarExerciseSchema>;
 
 export type PopulatedUnitItem = UnitItem & {
   vocabularyDeck: (VocabularyDeck & { cards: { id: string }[] }) | null;
@@ -79,6 +83,11 @@ export type GenericDeckWithCount = GenericDeck & DataTableCompatible & {
   [key: string]: unknown;
 };
 
+export type GrammarExerciseWithCreator = GrammarExercise & DataTableCompatible & {
+  creator?: { id: string; name: string } | null;
+  [key: string]: unknown;
+};
+
 export type PopulatedStudentDeck = StudentDeck & {
   deck: VocabularyDeck & {
     cards?: { id: string }[];
@@ -122,6 +131,44 @@ export type VocabularyExerciseConfig = {
   minDue?: number;
   deckId?: string; // Added to support dynamic queue expansion
   learningSteps?: string[]; // Added to support configurable learning steps (e.g., ['3m', '15m', '30m'])
+  answerMode?: AnswerMode; // Defaults to 'SELF_GRADED'
+  typedAnswer?: TypedAnswerSettings;
+};
+
+/**
+ * How answers are graded in an exercise. In 'TYPED' mode the student types the
+ * answer, it is graded automatically and the teacher confirms or overrides the grade.
+ */
+export type AnswerMode = 'SELF_GRADED' | 'TYPED';
+
+/**
+ * Settings for the automatic grading of typed answers.
+ * All properties are optional; the grader falls back to forgiving defaults.
+ */
+export type TypedAnswerSettings = {
+  caseSensitive?: boolean;
+  ignorePunctuation?: boolean;
+  ignoreAccents?: boolean; // Also strips pinyin tone marks
+  maxTypoDistance?: number; // Levenshtein tolerance (default 1, disabled for multiple choice)
+  fastResponseMs?: number; // Correct answers faster than this propose "Easy"
+  slowResponseMs?: number; // Correct answers slower than this propose "Hard"
+};
+
+/**
+ * The automatic grade of a typed answer, awaiting confirmation by the teacher.
+ */
+export type TypedAnswerGrade = {
+  submittedAnswer: string;
+  isCorrect: boolean;
+  /** False when the answer was only accepted thanks to typo tolerance. */
+  isExactMatch: boolean;
+  /** The accepted answer (or alternate) the submission matched. */
+  matchedAnswer?: string;
+  /** Edit distance to the closest accepted answer after normalization. */
+  distance: number;
+  responseTimeMs?: number;
+  /** The FSRS rating proposed from correctness and response time. */
+  proposedRating: 1 | 2 | 3 | 4;
 };
 
 /**
@@ -133,13 +180,15 @@ export type AnswerPayload = {
    * The specific, enumerated action the user is performing. This determines
    * which ProgressOperator the handler will dispatch to.
    */
-  action: 'REVEAL_ANSWER' | 'SUBMIT_RATING' | 'SUBMIT_TEXT_ANSWER' | 'PLAY_AUDIO';
+  action: 'REVEAL_ANSWER' | 'SUBMIT_RATING' | 'SUBMIT_TEXT_ANSWER' | 'PLAY_AUDIO' | 'UNDO';
   /**
    * The data associated with the action, to be validated by the specific operator.
    * Frontend sends numbers/booleans which are converted to proper object format:
    * - number -> { rating: number } for FSRS ratings (vocabulary, listening, generic)
    * - number -> { isCorrect: boolean } for fill-in-the-blank (rating 1=false, 4=true)
    * - boolean -> { isCorrect: boolean } for correctness ratings
+   * - Ratings may carry `responseTimeMs`, the time from card presentation to reveal/answer
+   * - { answer: string, responseTimeMs?: number } for typed answers (SUBMIT_TEXT_ANSWER)
    */
   data?: { [key: string]: unknown } | number | boolean;
 };
@@ -164,6 +213,8 @@ export type VocabularyDeckProgress = {
      * This is used to efficiently scope the dynamic re-evaluation of the queue.
      */
     initialCardIds: string[];
+    /** The automatic grade of the current card's typed answer (typed-answer mode only). */
+    grade?: TypedAnswerGrade;
   };
 };
 
@@ -253,6 +304,8 @@ export type GrammarExerciseConfig = {
  */
 export type FillInTheBlankExerciseConfig = {
   vocabularyConfidenceThreshold?: number; // Min vocabulary retrievability (e.g., 0.8)
+  answerMode?: AnswerMode; // Defaults to 'SELF_GRADED'
+  typedAnswer?: TypedAnswerSettings;
 };
 
 /**
@@ -293,6 +346,46 @@ export type FillInTheBlankProgress = {
     config: FillInTheBlankExerciseConfig;
     /** Static list of all card IDs included at the start of the session */
     initialCardIds: string[];
+    /** The automatic grade of the current card's typed answer (typed-answer mode only). */
+    grade?: TypedAnswerGrade;
+  };
+};
+
+/**
+ * A single grammar question as presented during a session.
+ * Unlike the stored question, the `id` is always present (generated if missing).
+ */
+export type GrammarQuestion = {
+  id: string;
+  question: string;
+  options?: string[];
+  correctAnswer: string;
+  explanation?: string;
+};
+
+/**
+ * Progress state for grammar exercises.
+ */
+export type GrammarExerciseProgress = {
+  type: 'GRAMMAR_EXERCISE';
+  stage: 'PRESENTING_QUESTION' | 'AWAITING_CORRECTNESS';
+  payload: {
+    /** The queue of remaining questions. The question at index 0 is the current question. */
+    queue: GrammarQuestion[];
+    /** The full data for the current question (queue[0]) */
+    currentCardData?: GrammarQuestion;
+    /** Instructions shown to the student above every question */
+    instructions?: string;
+    /** The resolved presentation settings (exercise defaults merged with unit item overrides) */
+    settings: {
+      randomizeQuestions: boolean;
+      randomizeOptions: boolean;
+      showExplanations: boolean;
+    };
+    /** Static list of all question IDs included at the start of the session */
+    initialCardIds: string[];
+    /** Per-question correctness, in the order the questions were answered */
+    results: { questionId: string; isCorrect: boolean }[];
   };
 };
 
@@ -300,8 +393,12 @@ export type FillInTheBlankProgress = {
  * A union type representing all possible progress states for any exercise.
  * The `Session.progress` field will always conform to one of these shapes.
  */
-export type SessionProgress = VocabularyDeckProgress | ListeningDeckProgress | FillInTheBlankProgress | GenericDeckProgress;
-// | GrammarExerciseProgress etc. will be added here.
+export type SessionProgress =
+  | VocabularyDeckProgress
+  | ListeningDeckProgress
+  | FillInTheBlankProgress
+  | GenericDeckProgress
+  | GrammarExerciseProgress;
 
 /**
  * The complete state of a session, now including the typed progress object.
@@ -340,6 +437,14 @@ export type NewUnitItemData =
     type: 'GRAMMAR_EXERCISE';
     order?: number;
     config?: GrammarExerciseConfig;
+    mode: 'existing';
+    existingExerciseId: string;
+  }
+  | {
+    type: 'GRAMMAR_EXERCISE';
+    order?: number;
+    config?: GrammarExerciseConfig;
+    mode?: 'new';
     data: {
       title: string;
       grammarTopic: string;
@@ -420,7 +525,71 @@ export type FsrsStats = {
   overdue: number;
   totalReviews: number;
   averageRetention: number;
-  averageResponseTime: number;
+  averageResponseTime: number; // Mean of the per-card rolling averages, in milliseconds
+  slowRecallCards: number; // Cards whose average response time marks them as slow recalls
+};
+
+/**
+ * The review types scheduled by FSRS, each with its own parameters and card states.
+ */
+export type FsrsReviewType = 'VOCABULARY' | 'LISTENING' | 'GENERIC';
+
+/**
+ * Estimated review workload if a student's vocabulary were scheduled at a given retention.
+ */
+export type RetentionWorkloadPreview = {
+  desiredRetention: number;
+  estimatedDailyReviews: number;
+  averageIntervalDays: number;
+};
+
+export type DeckRetentionOverride = {
+  deckId: string;
+  deckName: string;
+  reviewType: Exclude<FsrsReviewType, 'LISTENING'>;
+  desiredRetention: number | null; // null when the deck follows the student's setting
+};
+
+/**
+ * Number of reviews falling due on one day of a workload forecast.
+ */
+export type ReviewForecastDay = {
+  date: string; // Calendar day in YYYY-MM-DD form
+  vocabulary: number;
+  generic: number;
+  listening: number;
+  newCards: number; // Simulated new-card introductions, 0 unless requested
+  total: number;
+};
+
+export type ReviewForecast = {
+  days: number;
+  includesNewCards: boolean;
+  overdue: number; // Already overdue reviews, also counted on the first day
+  forecast: ReviewForecastDay[];
+};
+
+export type DesiredRetentionSettings = {
+  retention: Record<FsrsReviewType, number>;
+  deckOverrides: DeckRetentionOverride[];
+  workloadPreview: RetentionWorkloadPreview[];
+};
+
+/**
+ * One optimization of a student's FSRS weights. Scores are measured on the
+ * held-out reviews of that optimization run; lower is better.
+ */
+export type FsrsParamsVersion = {
+  id: string;
+  version: number;
+  w: number[];
+  isActive: boolean;
+  isAccepted: boolean;
+  optimizationScore: number | null;
+  rmse: number | null;
+  baselineScore: number | null;
+  trainingDataSize: number | null;
+  lastOptimized: Date;
 };
 
 // ================================================================= //
@@ -433,9 +602,10 @@ import {
   BulkImportGenericDeckPayloadSchema,
   OptimizeParamsPayloadSchema,
   RebuildCachePayloadSchema,
-  InitializeCardStatesPayloadSchema
+  InitializeCardStatesPayloadSchema,
+  GeneratePracticePdfPayloadSchema
 } from './schemas';
-import { JobType, SessionStatus } from '@prisma/client';
+import { Job, JobType, SessionStatus } from '@prisma/client';
 
 /**
  * Union of all validated job payload types
@@ -447,7 +617,8 @@ export type ValidatedJobPayload =
   | z.infer<typeof BulkImportGenericDeckPayloadSchema>
   | z.infer<typeof OptimizeParamsPayloadSchema>
   | z.infer<typeof RebuildCachePayloadSchema>
-  | z.infer<typeof InitializeCardStatesPayloadSchema>;
+  | z.infer<typeof InitializeCardStatesPayloadSchema>
+  | z.infer<typeof GeneratePracticePdfPayloadSchema>;
 
 /**
  * Job payload map that connects job types to their specific payload schemas
@@ -466,8 +637,164 @@ export type JobPayloadMap = {
   [JobType.INITIALIZE_CARD_STATES]: z.infer<typeof InitializeCardStatesPayloadSchema>;
   [JobType.INITIALIZE_GENERIC_CARD_STATES]: z.infer<typeof InitializeCardStatesPayloadSchema>;
   [JobType.INITIALIZE_LISTENING_CARD_STATES]: z.infer<typeof InitializeCardStatesPayloadSchema>;
+  [JobType.GENERATE_PRACTICE_PDF]: z.infer<typeof GeneratePracticePdfPayloadSchema>;
 };
 
+/**
+ * What a maintenance run compacted and removed.
+ */
+export type MaintenanceReport = {
+  compactedJobs: number;
+  deletedJobs: number;
+  expiredSessions: number;
+};
+
+/**
+ * Which occurrences of a recurring class an edit or deletion applies to.
+ */
+export type ScheduleScope = z.infer<typeof ScheduleScopeSchema>;
+
+/**
+ * A class on the teacher-wide calendar, with what the calendar shows about its student.
+ */
+export type TeacherClassSchedule = ClassSchedule & {
+  studentName: string;
+  studentStatus: Student['status'];
+  classesRemaining: number;
+  /** When the class ends, using the teacher's preferred lesson duration if it has none. */
+  endTime: Date;
+};
+
+/**
+ * Whether a teacher's calendar feed is on. The feed's path is only included
+ * right after a new feed URL was created.
+ */
+export type CalendarFeedStatus = {
+  enabled: boolean;
+  feedPath?: string;
+};
+
+/** How an imported calendar event was assigned to a student. */
+export type IcsImportMatch = 'attendee' | 'summary' | 'manual';
+
+/** A class that importing an event would create. */
+export type IcsImportOccurrence = {
+  scheduledTime: Date;
+  duration: number | null;
+  /** Existing classes of the teacher the class would overlap with. */
+  conflicts: ScheduleConflict[];
+};
+
+/**
+ * An event of an imported .ics file with its recurrence expanded into upcoming
+ * classes, and the student it is assigned to.
+ */
+export type IcsImportEvent = {
+  uid: string;
+  summary: string;
+  /** Saved as the notes of the imported classes, or else the summary. */
+  description: string | null;
+  /** The event's RRULE, if it repeats. */
+  recurrence: string | null;
+  studentId: string | null;
+  studentName: string | null;
+  matchedBy: IcsImportMatch | null;
+  occurrences: IcsImportOccurrence[];
+  /** Why none of the event's classes can be imported, e.g. an unsupported RRULE. */
+  skippedReason: string | null;
+};
+
+/**
+ * What importing an .ics file would do. Only events with a student and without
+ * a `skippedReason` are imported.
+ */
+export type IcsImportPreview = {
+  events: IcsImportEvent[];
+  /** The time zone used for times without one: the teacher's. */
+  timeZone: string;
+};
+
+/**
+ * A class overlapping with another class of the same teacher.
+ */
+export type ScheduleConflict = {
+  /** The class being checked; null for a class that is not saved yet. */
+  scheduleId: string | null;
+  scheduledTime: Date;
+  conflictingScheduleId: string;
+  conflictingStudentId: string;
+  conflictingStudentName: string;
+  conflictingScheduledTime: Date;
+  /** In minutes, with the teacher's preferred lesson duration filled in. */
+  conflictingDuration: number;
+};
+
+/**
+ * A recurring class series together with the occurrences materialized for it.
+ */
+export type ClassScheduleSeriesWithSchedules = ClassScheduleSeries & {
+  schedules: ClassSchedule[];
+};
+
+/**
+ * Result of a completed GENERATE_PRACTICE_PDF job, stored in `Job.result`.
+ */
+export type PracticeSheetResult = {
+  fileName: string;
+  downloadUrl: string;
+  sizeBytes: number;
+  vocabularyCount: number;
+  genericCount: number;
+  fillInTheBlankCount: number;
+};
+
+/**
+ * Incremental progress of a running job, stored in `Job.progress`.
+ * `errors` holds the first row errors only; `errorCount` counts all of them.
+ * `phaseStartedAt` (ISO timestamp) is filled in by the worker to estimate the ETA.
+ */
+export type JobProgress = {
+  phase: string;
+  processed: number;
+  total: number;
+  errorCount?: number;
+  errors?: BulkImportError[];
+  phaseStartedAt?: string;
+};
+
+/**
+ * Callback through which worker-invoked service methods report their progress.
+ */
+export type JobProgressReporter = (progress: JobProgress) => Promise<void>;
+
+/**
+ * One page of a teacher's background jobs, newest first.
+ */
+export type JobListPage = {
+  jobs: Job[];
+  total: number;
+  page: number;
+  pageSize: number;
+};
+
+/**
+ * A RUNNING job whose worker lease has expired, as listed on the admin dashboard.
+ */
+export interface StuckJob extends DataTableCompatible {
+  id: string;
+  type: JobType;
+  ownerId: string;
+  ownerName: string;
+  ownerEmail: string;
+  attempts: number;
+  maxAttempts: number;
+  lockedBy: string | null;
+  lockedUntil: Date | null;
+  createdAt: Date;
+  updatedAt: Date;
+  [key: string]: unknown;
+}
+
 // ================================================================= //
 // SESSION SYSTEM TYPES (for type-safe session management)
 // ================================================================= //
@@ -526,7 +853,7 @@ export function isSessionProgress(value: unknown): value is SessionProgress {
   if (!value || typeof value !== 'object') return false;
   
   const obj = value as Record<string, unknown>;
-  const validTypes = ['VOCABULARY_DECK', 'LISTENING_EXERCISE', 'FILL_IN_THE_BLANK_EXERCISE', 'GENERIC_DECK'];
+  const validTypes = ['VOCABULARY_DECK', 'LISTENING_EXERCISE', 'FILL_IN_THE_BLANK_EXERCISE', 'GENERIC_DECK', 'GRAMMAR_EXERCISE'];
   
   return typeof obj.type === 'string' && 
          validTypes.includes(obj.type) &&
@@ -12,6 +12,20 @@ export const formatTime = (seconds: number): string => {
   return `${mins}:${secs.toString().padStart(2, "0")}`;
 };
 
+/**
+ * Returns a shuffled copy of an array (Fisher–Yates), leaving the original untouched.
+ * @param items The items to shuffle.
+ * @returns A new array with the items in uniformly random order.
+ */
+export const shuffle = <T>(items: readonly T[]): T[] => {
+  const result = [...items];
+  for (let i = result.length - 1; i > 0; i--) {
+    const j = Math.floor(Math.random() * (i + 1));
+    [result[i], result[j]] = [result[j], result[i]];
+  }
+  return result;
+};
+
 export function cn(...inputs: ClassValue[]) {
   return twMerge(clsx(inputs))
 }
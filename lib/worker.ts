@@ -1,5 +1,7 @@
+import { hostname } from 'os';
+import { randomUUID } from 'crypto';
 import { prisma } from './db';
-import { Job, JobStatus, JobType, StudentStatus } from '@prisma/client';
+import { Job, JobStatus, JobType, Prisma, StudentStatus } from '@prisma/client';
 import { StudentService } from './actions/students';
 import { FSRSService } from './actions/fsrs';
 import {
@@ -13,167 +15,412 @@ import {
   BulkImportVocabularyPayloadSchema,
   BulkImportFillInTheBlankPayloadSchema,
   BulkImportGenericDeckPayloadSchema,
+  GeneratePracticePdfPayloadSchema,
 } from './schemas';
 import { ContentService } from './actions/content';
+import { JobService } from './actions/jobs';
+import { PracticeSheetService } from './actions/practice-sheets';
+import { JobProgress, JobProgressReporter } from './types';
+import { ZodError } from 'zod';
+
+/** Postgres channel notified by a trigger whenever a job becomes PENDING. */
+export const JOB_QUEUE_CHANNEL = 'job_queue';
+
+/** Identifies this worker process in the lease of the jobs it holds. */
+const WORKER_ID = `${hostname()}:${process.pid}:${randomUUID().slice(0, 8)}`;
+/** How long a lease lasts without a heartbeat before the job is considered abandoned. */
+const LEASE_DURATION_MS = 5 * 60 * 1000;
+/** How often a live worker extends the leases of the jobs it holds. */
+const HEARTBEAT_INTERVAL_MS = 60 * 1000;
+
+/** Delay before the first retry; doubles with every further failed attempt. */
+const RETRY_BASE_DELAY_MS = 30 * 1000;
+/** Upper bound on the delay between two attempts of the same job. */
+const RETRY_MAX_DELAY_MS = 60 * 60 * 1000;
+
+/** Minimum time between two progress writes for the same job. */
+const PROGRESS_WRITE_INTERVAL_MS = 1000;
+/** Row errors kept in the stored progress; the rest are only counted. */
+const MAX_PROGRESS_ERRORS = 20;
+
+/** Outcome of one job in a worker run, as reported by the worker endpoints. */
+type JobRunResult = {
+  jobId: string;
+  status: 'COMPLETED' | 'SKIPPED' | 'DEFERRED' | 'FAILED' | 'RETRY_SCHEDULED' | 'DEAD_LETTER';
+  error?: string;
+  attempt?: number;
+  nextRunAt?: Date;
+};
+
+/**
+ * Thrown for failures that no amount of retrying can fix, such as a job type
+ * the worker does not know how to handle.
+ */
+class PermanentJobError extends Error {}
+
+/**
+ * Returns how long to wait before running a job again after its `attempt`-th
+ * failed attempt (1-based): 30s, 1m, 2m, 4m, ... capped at one hour.
+ */
+export function getRetryDelayMs(attempt: number): number {
+  return Math.min(
+    RETRY_BASE_DELAY_MS * 2 ** Math.max(attempt - 1, 0),
+    RETRY_MAX_DELAY_MS
+  );
+}
+
+/** Malformed payloads fail validation the same way on every attempt. */
+function isRetryable(error: unknown): boolean {
+  return !(error instanceof ZodError || error instanceof PermanentJobError);
+}
+
+/**
+ * Writes the outcome of a job and releases its lease. The update only applies
+ * while this worker still holds the lease, so a job that was reaped and picked
+ * up by another worker in the meantime is left alone.
+ */
+async function releaseJob(jobId: string, data: Prisma.JobUpdateManyMutationInput) {
+  await prisma.job.updateMany({
+    where: { id: jobId, lockedBy: WORKER_ID },
+    data: { ...data, lockedBy: null, lockedUntil: null },
+  });
+}
+
+/**
+ * Creates the progress callback handed to a job's service method. Writes are
+ * throttled, except for the first report of a phase and the final one.
+ */
+function createProgressReporter(jobId: string): JobProgressReporter {
+  let lastWriteAt = 0;
+  let lastPhase: string | undefined;
+  let phaseStartedAt = new Date();
+  return async ({ phase, processed, total, errors = [] }) => {
+    const now = Date.now();
+    if (phase !== lastPhase) {
+      lastPhase = phase;
+      phaseStartedAt = new Date(now);
+    } else if (processed < total && now - lastWriteAt < PROGRESS_WRITE_INTERVAL_MS) {
+      return;
+    }
+    lastWriteAt = now;
+
+    const progress: JobProgress = {
+      phase,
+      processed,
+      total,
+      errorCount: errors.length,
+      errors: errors.slice(0, MAX_PROGRESS_ERRORS),
+      phaseStartedAt: phaseStartedAt.toISOString(),
+    };
+    await prisma.job.updateMany({
+      where: { id: jobId, lockedBy: WORKER_ID },
+      data: { progress },
+    });
+  };
+}
+
+/**
+ * Extends the leases of every job this worker still holds. Runs on an interval
+ * for the whole batch, so jobs waiting their turn keep their lease as well.
+ */
+function startHeartbeat(): () => void {
+  const timer = setInterval(() => {
+    prisma.job
+      .updateMany({
+        where: { status: JobStatus.RUNNING, lockedBy: WORKER_ID },
+        data: { lockedUntil: new Date(Date.now() + LEASE_DURATION_MS) },
+      })
+      .catch((error) => console.error('[Worker Heartbeat Error]', error));
+  }, HEARTBEAT_INTERVAL_MS);
+  return () => clearInterval(timer);
+}
+
+/**
+ * Runs a single locked job and records its outcome on the Job row.
+ * Failures are caught and turned into a retry, FAILED or DEAD_LETTER outcome.
+ */
+async function processJob(job: Job): Promise<JobRunResult> {
+  try {
+    // --- Status-Aware Check ---
+    const studentId = (job.payload as { studentId?: string })?.studentId;
+    if (studentId) {
+      const student = await prisma.student.findUnique({
+        where: { id: studentId },
+        select: { status: true, isArchived: true },
+      });
+      if (!student || student.isArchived) {
+        await releaseJob(job.id, {
+          status: JobStatus.SKIPPED,
+          result: { message: `Student no longer exists or is archived.` },
+        });
+        return { jobId: job.id, status: 'SKIPPED' };
+      }
+      // Paused or inactive students keep their work: the job waits as DEFERRED
+      // until updateStudent re-activates the student. The attempt is not counted.
+      if (student.status !== StudentStatus.ACTIVE) {
+        await releaseJob(job.id, {
+          status: JobStatus.DEFERRED,
+          attempts: job.attempts,
+          result: { message: `Waiting for the student to become active (status: ${student.status}).` },
+        });
+        // The student may have been re-activated while this job was being deferred.
+        const current = await prisma.student.findUnique({
+          where: { id: studentId },
+          select: { status: true },
+        });
+        if (current?.status === StudentStatus.ACTIVE) {
+          await JobService._resumeDeferredJobs(studentId);
+        }
+        return { jobId: job.id, status: 'DEFERRED' };
+      }
+    }
+
+    const reportProgress = createProgressReporter(job.id);
+    let resultPayload;
+    // REFINEMENT: Dispatch logic now includes robust payload validation.
+    switch (job.type) {
+      case JobType.INITIALIZE_CARD_STATES: {
+        const payload = InitializeCardStatesPayloadSchema.parse(job.payload);
+        resultPayload = await StudentService._initializeCardStates(payload);
+        break;
+      }
+      case JobType.INITIALIZE_GENERIC_CARD_STATES: {
+        const payload = InitializeCardStatesPayloadSchema.parse(job.payload);
+        resultPayload = await StudentService._initializeGenericCardStates(payload);
+        break;
+      }
+      case JobType.REBUILD_VOCABULARY_FSRS_CACHE: {
+        const payload = RebuildCachePayloadSchema.parse(job.payload);
+        resultPayload = await FSRSService._rebuildCacheForStudent(payload, reportProgress);
+        break;
+      }
+      case JobType.REBUILD_GENERIC_FSRS_CACHE: {
+        const payload = RebuildCachePayloadSchema.parse(job.payload);
+        resultPayload = await FSRSService._rebuildGenericCacheForStudent(payload, reportProgress);
+        break;
+      }
+      case JobType.OPTIMIZE_VOCABULARY_FSRS_PARAMS: {
+        const payload = OptimizeParamsPayloadSchema.parse(job.payload);
+        resultPayload = await FSRSService._optimizeParameters(payload);
+        break;
+      }
+      case JobType.OPTIMIZE_GENERIC_FSRS_PARAMS: {
+        const payload = OptimizeParamsPayloadSchema.parse(job.payload);
+        resultPayload = await FSRSService._optimizeGenericParameters(payload);
+        break;
+      }
+      // --- LISTENING FSRS JOB HANDLERS ---
+      case JobType.OPTIMIZE_LISTENING_FSRS_PARAMS: {
+        const payload = OptimizeParamsPayloadSchema.parse(job.payload);
+        resultPayload = await FSRSService._optimizeListeningParameters(payload);
+        break;
+      }
+      case JobType.REBUILD_LISTENING_FSRS_CACHE: {
+        const payload = RebuildCachePayloadSchema.parse(job.payload);
+        resultPayload = await FSRSService._rebuildListeningCacheForStudent(
+          payload,
+          reportProgress
+        );
+        break;
+      }
+      case JobType.BULK_IMPORT_VOCABULARY: {
+        const payload = BulkImportVocabularyPayloadSchema.parse(job.payload);
+        resultPayload = await ContentService._bulkAddVocabularyCards(payload, reportProgress);
+        break;
+      }
+      case JobType.BULK_IMPORT_STUDENTS: {
+        const payload = BulkImportStudentsPayloadSchema.parse(job.payload);
+        resultPayload = await StudentService._bulkAddStudents(
+          job.ownerId,
+          payload,
+          reportProgress
+        );
+        break;
+      }
+      case JobType.BULK_IMPORT_SCHEDULES: {
+        const payload = BulkImportSchedulesPayloadSchema.parse(job.payload);
+        resultPayload = await StudentService._bulkAddSchedules(
+          job.ownerId,
+          payload,
+          reportProgress
+        );
+        break;
+      }
+      case JobType.BULK_IMPORT_FILL_IN_THE_BLANK: {
+        const payload = BulkImportFillInTheBlankPayloadSchema.parse(job.payload);
+        resultPayload = await ContentService._bulkAddFillInTheBlankCards(
+          payload,
+          reportProgress
+        );
+        break;
+      }
+      case JobType.BULK_IMPORT_GENERIC_DECK: {
+        const payload = BulkImportGenericDeckPayloadSchema.parse(job.payload);
+        resultPayload = await ContentService._bulkAddGenericCards(payload, reportProgress);
+        break;
+      }
+      case JobType.GENERATE_PRACTICE_PDF: {
+        const payload = GeneratePracticePdfPayloadSchema.parse(job.payload);
+        resultPayload = await PracticeSheetService._generatePracticeSheet(
+          job.id,
+          payload,
+          reportProgress
+        );
+        break;
+      }
+      default:
+        throw new PermanentJobError(
+          `Unknown or unimplemented job type: ${job.type}`
+        );
+    }
+
+    // Mark the job as COMPLETED on success.
+    await releaseJob(job.id, {
+      status: JobStatus.COMPLETED,
+      result: resultPayload as Prisma.InputJsonValue,
+    });
+    return { jobId: job.id, status: 'COMPLETED' };
+  } catch (error) {
+    // This block now catches ZodErrors as well, providing clear feedback on malformed payloads.
+    const errorMessage =
+      error instanceof Error ? error.message : 'An unknown error occurred.';
+    // `attempts` was incremented when the job was locked.
+    const attempt = job.attempts + 1;
+
+    if (!isRetryable(error)) {
+      await releaseJob(job.id, {
+        status: JobStatus.FAILED,
+        error: errorMessage,
+        lastError: errorMessage,
+      });
+      return { jobId: job.id, status: 'FAILED', error: errorMessage };
+    } else if (attempt < job.maxAttempts) {
+      const nextRunAt = new Date(Date.now() + getRetryDelayMs(attempt));
+      await releaseJob(job.id, {
+        status: JobStatus.PENDING,
+        lastError: errorMessage,
+        nextRunAt,
+      });
+      return {
+        jobId: job.id,
+        status: 'RETRY_SCHEDULED',
+        error: errorMessage,
+        attempt,
+        nextRunAt,
+      };
+    } else {
+      await releaseJob(job.id, {
+        status: JobStatus.DEAD_LETTER,
+        error: `Gave up after ${attempt} attempts: ${errorMessage}`,
+        lastError: errorMessage,
+      });
+      return {
+        jobId: job.id,
+        status: 'DEAD_LETTER',
+        error: errorMessage,
+        attempt,
+      };
+    }
+  }
+}
 
 /**
  * Processes all currently pending jobs in the queue.
- * This function is  status-aware and will skip jobs for inactive students.
- * This function is designed to be called by the secure API route.
+ * This function is status-aware: jobs for archived students are skipped and jobs
+ * for paused or inactive students are deferred until the student is active again.
+ * Only jobs whose `nextRunAt` has passed are picked up, highest priority first
+ * and round-robin across teachers within a priority. A failed attempt is
+ * re-queued with exponential backoff until the job's `maxAttempts` is used up,
+ * at which point it is moved to the terminal DEAD_LETTER status.
+ * Locked jobs carry a lease that is extended by a heartbeat; each run first
+ * reaps jobs whose lease expired because their worker died mid-batch.
+ * Up to `batchSize` jobs are locked per run and executed `concurrency` at a time;
+ * locked jobs sharing an idempotency key run once and the rest are SKIPPED.
+ * This function is designed to be called by the secure API route and by the
+ * standalone worker process (`scripts/worker.ts`).
  * It uses a transactional, database-level lock to be completely race-condition-proof.
  */
-export async function processPendingJobs() {
-  // --- Transactional Job Locking (remains the same) ---
+export async function processPendingJobs({
+  batchSize = 10,
+  concurrency = 1,
+}: { batchSize?: number; concurrency?: number } = {}) {
+  // --- Recover jobs abandoned by a crashed worker ---
+  const reaped = await JobService._reapExpiredLeases();
+
+  // --- Transactional Job Locking ---
   const lockedJobs = await prisma.$transaction(async (tx) => {
+    // Highest priority first; within a priority, owners take turns (each
+    // owner's oldest due job, then each owner's second oldest, ...) so one
+    // teacher's large batch cannot starve everyone else's jobs.
     const jobsToProcess = await tx.$queryRaw<Job[]>`
-      SELECT * FROM "Job"
-      WHERE status = 'PENDING'
-      ORDER BY "createdAt" ASC
-      LIMIT 10
-      FOR UPDATE SKIP LOCKED
+      WITH ranked AS (
+        SELECT id, ROW_NUMBER() OVER (
+          PARTITION BY "ownerId", priority
+          ORDER BY "nextRunAt" ASC, "createdAt" ASC
+        ) AS "ownerTurn"
+        FROM "Job"
+        WHERE status = 'PENDING' AND "nextRunAt" <= NOW()
+      )
+      SELECT j.* FROM "Job" j
+      JOIN ranked r ON r.id = j.id
+      WHERE j.status = 'PENDING'
+      ORDER BY j.priority DESC, r."ownerTurn" ASC, j."nextRunAt" ASC, j."createdAt" ASC
+      LIMIT ${batchSize}
+      FOR UPDATE OF j SKIP LOCKED
     `;
     if (jobsToProcess.length === 0) return [];
     await tx.job.updateMany({
       where: { id: { in: jobsToProcess.map((job) => job.id) } },
-      data: { status: JobStatus.RUNNING },
+      data: {
+        status: JobStatus.RUNNING,
+        attempts: { increment: 1 },
+        lockedBy: WORKER_ID,
+        lockedUntil: new Date(Date.now() + LEASE_DURATION_MS),
+        startedAt: new Date(),
+        progress: Prisma.DbNull,
+      },
     });
     return jobsToProcess;
   });
 
   if (lockedJobs.length === 0) {
-    return { processedJobs: 0, jobResults: [] };
+    return { processedJobs: 0, jobResults: [], reaped };
   }
 
-  const jobResults = [];
+  const jobResults: JobRunResult[] = [];
+  const queue: Job[] = [];
 
-  // --- Job Execution ---
+  // --- Coalesce duplicates: run the first job per idempotency key only ---
+  const firstJobByKey = new Map<string, string>();
   for (const job of lockedJobs) {
-    try {
-      // --- Status-Aware Check (remains the same) ---
-      const studentId = (job.payload as { studentId?: string })?.studentId;
-      if (studentId) {
-        const student = await prisma.student.findUnique({
-          where: { id: studentId },
-          select: { status: true, isArchived: true },
-        });
-        if (
-          !student ||
-          student.isArchived ||
-          student.status !== StudentStatus.ACTIVE
-        ) {
-          await prisma.job.update({
-            where: { id: job.id },
-            data: {
-              status: JobStatus.SKIPPED,
-              result: { message: `Student is not active or is archived.` },
-            },
-          });
-          jobResults.push({ jobId: job.id, status: 'SKIPPED' });
-          continue;
-        }
-      }
+    const firstJobId = job.idempotencyKey && firstJobByKey.get(job.idempotencyKey);
+    if (!firstJobId) {
+      if (job.idempotencyKey) firstJobByKey.set(job.idempotencyKey, job.id);
+      queue.push(job);
+      continue;
+    }
+    await releaseJob(job.id, {
+      status: JobStatus.SKIPPED,
+      result: { message: `Duplicate of job ${firstJobId}, which ran instead.`, coalescedInto: firstJobId },
+    });
+    jobResults.push({ jobId: job.id, status: 'SKIPPED' });
+  }
 
-      let resultPayload;
-      // REFINEMENT: Dispatch logic now includes robust payload validation.
-      switch (job.type) {
-        case JobType.INITIALIZE_CARD_STATES: {
-          const payload = InitializeCardStatesPayloadSchema.parse(job.payload);
-          resultPayload = await StudentService._initializeCardStates(payload);
-          break;
-        }
-        case JobType.INITIALIZE_GENERIC_CARD_STATES: {
-          const payload = InitializeCardStatesPayloadSchema.parse(job.payload);
-          resultPayload = await StudentService._initializeGenericCardStates(payload);
-          break;
-        }
-        case JobType.REBUILD_VOCABULARY_FSRS_CACHE: {
-          const payload = RebuildCachePayloadSchema.parse(job.payload);
-          resultPayload = await FSRSService._rebuildCacheForStudent(payload);
-          break;
-        }
-        case JobType.REBUILD_GENERIC_FSRS_CACHE: {
-          const payload = RebuildCachePayloadSchema.parse(job.payload);
-          resultPayload = await FSRSService._rebuildGenericCacheForStudent(payload);
-          break;
-        }
-        case JobType.OPTIMIZE_VOCABULARY_FSRS_PARAMS: {
-          const payload = OptimizeParamsPayloadSchema.parse(job.payload);
-          resultPayload = await FSRSService._optimizeParameters(payload);
-          break;
-        }
-        case JobType.OPTIMIZE_GENERIC_FSRS_PARAMS: {
-          const payload = OptimizeParamsPayloadSchema.parse(job.payload);
-          resultPayload = await FSRSService._optimizeGenericParameters(payload);
-          break;
-        }
-        // --- LISTENING FSRS JOB HANDLERS ---
-        case JobType.OPTIMIZE_LISTENING_FSRS_PARAMS: {
-          const payload = OptimizeParamsPayloadSchema.parse(job.payload);
-          resultPayload = await FSRSService._optimizeListeningParameters(payload);
-          break;
-        }
-        case JobType.REBUILD_LISTENING_FSRS_CACHE: {
-          const payload = RebuildCachePayloadSchema.parse(job.payload);
-          resultPayload = await FSRSService._rebuildListeningCacheForStudent(payload);
-          break;
-        }
-        case JobType.BULK_IMPORT_VOCABULARY: {
-          const payload = BulkImportVocabularyPayloadSchema.parse(job.payload);
-          resultPayload = await ContentService._bulkAddVocabularyCards(payload);
-          break;
-        }
-        case JobType.BULK_IMPORT_STUDENTS: {
-          const payload = BulkImportStudentsPayloadSchema.parse(job.payload);
-          resultPayload = await StudentService._bulkAddStudents(
-            job.ownerId,
-            payload
-          );
-          break;
-        }
-        case JobType.BULK_IMPORT_SCHEDULES: {
-          const payload = BulkImportSchedulesPayloadSchema.parse(job.payload);
-          resultPayload = await StudentService._bulkAddSchedules(payload);
-          break;
-        }
-        case JobType.BULK_IMPORT_FILL_IN_THE_BLANK: {
-          const payload = BulkImportFillInTheBlankPayloadSchema.parse(job.payload);
-          resultPayload = await ContentService._bulkAddFillInTheBlankCards(payload);
-          break;
-        }
-        case JobType.BULK_IMPORT_GENERIC_DECK: {
-          const payload = BulkImportGenericDeckPayloadSchema.parse(job.payload);
-          resultPayload = await ContentService._bulkAddGenericCards(payload);
-          break;
-        }
-        default:
-          throw new Error(`Unknown or unimplemented job type: ${job.type}`);
-      }
+  const stopHeartbeat = startHeartbeat();
 
-      // Mark the job as COMPLETED on success.
-      await prisma.job.update({
-        where: { id: job.id },
-        data: { status: JobStatus.COMPLETED, result: resultPayload },
-      });
-      jobResults.push({ jobId: job.id, status: 'COMPLETED' });
-    } catch (error) {
-      // This block now catches ZodErrors as well, providing clear feedback on malformed payloads.
-      const errorMessage =
-        error instanceof Error ? error.message : 'An unknown error occurred.';
-      await prisma.job.update({
-        where: { id: job.id },
-        data: {
-          status: JobStatus.FAILED,
-          error: errorMessage,
-        },
-      });
-      jobResults.push({
-        jobId: job.id,
-        status: 'FAILED',
-        error: errorMessage,
-      });
-    }
+  // --- Job Execution ---
+  try {
+    await Promise.all(
+      Array.from({ length: Math.min(concurrency, queue.length) }, async () => {
+        for (let job = queue.shift(); job; job = queue.shift()) {
+          jobResults.push(await processJob(job));
+        }
+      })
+    );
+  } finally {
+    stopHeartbeat();
   }
 
-  return { processedJobs: lockedJobs.length, jobResults };
+  return { processedJobs: lockedJobs.length, jobResults, reaped };
 }
 
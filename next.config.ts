@@ -4,7 +4,7 @@ const nextConfig: NextConfig = {
   /* config options here */
   output: 'standalone',
   eslint: { ignoreDuringBuilds: true },
-  serverExternalPackages: ['fsrs-rs-nodejs'],
+  serverExternalPackages: ['fsrs-rs-nodejs', 'pdfkit'],
 };
 
 export default nextConfig;
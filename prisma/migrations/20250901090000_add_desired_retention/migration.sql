@@ -0,0 +1,14 @@
+-- AlterTable
+ALTER TABLE "StudentDeck" ADD COLUMN     "desiredRetention" DOUBLE PRECISION;
+
+-- AlterTable
+ALTER TABLE "StudentGenericDeck" ADD COLUMN     "desiredRetention" DOUBLE PRECISION;
+
+-- AlterTable
+ALTER TABLE "StudentFsrsParams" ADD COLUMN     "desiredRetention" DOUBLE PRECISION NOT NULL DEFAULT 0.9;
+
+-- AlterTable
+ALTER TABLE "ListeningFsrsParams" ADD COLUMN     "desiredRetention" DOUBLE PRECISION NOT NULL DEFAULT 0.9;
+
+-- AlterTable
+ALTER TABLE "GenericFsrsParams" ADD COLUMN     "desiredRetention" DOUBLE PRECISION NOT NULL DEFAULT 0.9;
@@ -0,0 +1,14 @@
+-- AlterTable
+ALTER TABLE "StudentFsrsParams" ADD COLUMN     "baselineScore" DOUBLE PRECISION,
+ADD COLUMN     "isAccepted" BOOLEAN NOT NULL DEFAULT true,
+ADD COLUMN     "rmse" DOUBLE PRECISION;
+
+-- AlterTable
+ALTER TABLE "ListeningFsrsParams" ADD COLUMN     "baselineScore" DOUBLE PRECISION,
+ADD COLUMN     "isAccepted" BOOLEAN NOT NULL DEFAULT true,
+ADD COLUMN     "rmse" DOUBLE PRECISION;
+
+-- AlterTable
+ALTER TABLE "GenericFsrsParams" ADD COLUMN     "baselineScore" DOUBLE PRECISION,
+ADD COLUMN     "isAccepted" BOOLEAN NOT NULL DEFAULT true,
+ADD COLUMN     "rmse" DOUBLE PRECISION;
@@ -0,0 +1,3 @@
+-- AlterTable
+ALTER TABLE "TeacherSettings" ADD COLUMN     "autoOptimizeFsrs" BOOLEAN NOT NULL DEFAULT false,
+ADD COLUMN     "autoOptimizeMinReviews" INTEGER NOT NULL DEFAULT 100;
@@ -0,0 +1,10 @@
+-- AlterTable
+ALTER TABLE "Job" ADD COLUMN     "lockedBy" TEXT,
+ADD COLUMN     "lockedUntil" TIMESTAMP(3);
+
+-- CreateIndex
+CREATE INDEX "Job_status_lockedUntil_idx" ON "Job"("status", "lockedUntil");
+
+-- Jobs left RUNNING before leases existed can never finish; expire them so the
+-- next worker run returns them to the queue.
+UPDATE "Job" SET "lockedUntil" = CURRENT_TIMESTAMP WHERE "status" = 'RUNNING';
@@ -0,0 +1,3 @@
+-- AlterTable
+ALTER TABLE "Job" ADD COLUMN     "progress" JSONB,
+ADD COLUMN     "startedAt" TIMESTAMP(3);
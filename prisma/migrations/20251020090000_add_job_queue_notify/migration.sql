@@ -0,0 +1,15 @@
+-- Wake up listening workers (`npm run worker`) whenever a job becomes PENDING,
+-- whether newly created, retried or returned to the queue.
+CREATE OR REPLACE FUNCTION "notify_job_queue"() RETURNS trigger AS $$
+BEGIN
+  PERFORM pg_notify('job_queue', NEW."id"::text);
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+-- CreateTrigger
+CREATE TRIGGER "Job_notify_queue"
+AFTER INSERT OR UPDATE OF "status" ON "Job"
+FOR EACH ROW
+WHEN (NEW."status" = 'PENDING')
+EXECUTE FUNCTION "notify_job_queue"();
@@ -0,0 +1,13 @@
+-- AlterTable
+ALTER TABLE "Job" ADD COLUMN     "priority" INTEGER NOT NULL DEFAULT 50;
+
+-- Backfill the priority of queued jobs from their type
+UPDATE "Job" SET "priority" = CASE
+  WHEN "type" IN ('INITIALIZE_CARD_STATES', 'INITIALIZE_GENERIC_CARD_STATES', 'INITIALIZE_LISTENING_CARD_STATES', 'GENERATE_PRACTICE_PDF') THEN 100
+  WHEN "type" IN ('REBUILD_VOCABULARY_FSRS_CACHE', 'REBUILD_GENERIC_FSRS_CACHE', 'REBUILD_LISTENING_FSRS_CACHE') THEN 50
+  ELSE 0
+END
+WHERE "status" = 'PENDING';
+
+-- CreateIndex
+CREATE INDEX "Job_status_priority_ownerId_idx" ON "Job"("status", "priority", "ownerId");
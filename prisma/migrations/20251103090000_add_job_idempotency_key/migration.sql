@@ -0,0 +1,5 @@
+-- AlterTable
+ALTER TABLE "Job" ADD COLUMN     "idempotencyKey" TEXT;
+
+-- CreateIndex
+CREATE INDEX "Job_ownerId_idempotencyKey_status_idx" ON "Job"("ownerId", "idempotencyKey", "status");
@@ -0,0 +1,35 @@
+-- AlterTable
+ALTER TABLE "ClassSchedule" ADD COLUMN     "isException" BOOLEAN NOT NULL DEFAULT false,
+ADD COLUMN     "originalTime" TIMESTAMP(3),
+ADD COLUMN     "seriesId" UUID;
+
+-- CreateTable
+CREATE TABLE "ClassScheduleSeries" (
+    "id" UUID NOT NULL,
+    "studentId" UUID NOT NULL,
+    "startTime" TIMESTAMP(3) NOT NULL,
+    "timezone" TEXT NOT NULL,
+    "interval" INTEGER NOT NULL DEFAULT 1,
+    "weekdays" INTEGER[],
+    "until" TIMESTAMP(3),
+    "count" INTEGER,
+    "excludedTimes" TIMESTAMP(3)[],
+    "duration" INTEGER,
+    "notes" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "ClassScheduleSeries_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "ClassSchedule_seriesId_originalTime_idx" ON "ClassSchedule"("seriesId", "originalTime");
+
+-- CreateIndex
+CREATE INDEX "ClassScheduleSeries_studentId_idx" ON "ClassScheduleSeries"("studentId");
+
+-- AddForeignKey
+ALTER TABLE "ClassSchedule" ADD CONSTRAINT "ClassSchedule_seriesId_fkey" FOREIGN KEY ("seriesId") REFERENCES "ClassScheduleSeries"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "ClassScheduleSeries" ADD CONSTRAINT "ClassScheduleSeries_studentId_fkey" FOREIGN KEY ("studentId") REFERENCES "Student"("id") ON DELETE CASCADE ON UPDATE CASCADE;
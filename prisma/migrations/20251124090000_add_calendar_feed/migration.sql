@@ -0,0 +1,8 @@
+-- AlterTable
+ALTER TABLE "ClassSchedule" ADD COLUMN     "updatedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP;
+
+-- AlterTable
+ALTER TABLE "Teacher" ADD COLUMN     "calendarFeedTokenHash" TEXT;
+
+-- CreateIndex
+CREATE UNIQUE INDEX "Teacher_calendarFeedTokenHash_key" ON "Teacher"("calendarFeedTokenHash");
@@ -0,0 +1,5 @@
+-- Rows created only to store a desired retention before the first optimization
+-- (the only rows without a training data size) are not optimizations.
+UPDATE "StudentFsrsParams" SET "version" = 0, "lastOptimized" = 'epoch' WHERE "trainingDataSize" IS NULL;
+UPDATE "ListeningFsrsParams" SET "version" = 0, "lastOptimized" = 'epoch' WHERE "trainingDataSize" IS NULL;
+UPDATE "GenericFsrsParams" SET "version" = 0, "lastOptimized" = 'epoch' WHERE "trainingDataSize" IS NULL;
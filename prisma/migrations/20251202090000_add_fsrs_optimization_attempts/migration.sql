@@ -0,0 +1,11 @@
+-- CreateTable
+CREATE TABLE "FsrsOptimizationAttempt" (
+    "studentId" UUID NOT NULL,
+    "reviewType" "ReviewType" NOT NULL,
+    "attemptedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "FsrsOptimizationAttempt_pkey" PRIMARY KEY ("studentId","reviewType")
+);
+
+-- AddForeignKey
+ALTER TABLE "FsrsOptimizationAttempt" ADD CONSTRAINT "FsrsOptimizationAttempt_studentId_fkey" FOREIGN KEY ("studentId") REFERENCES "Student"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,57 @@
+-- Before versions were numbered, every optimization created a row with the default
+-- version 1. Renumber each student's optimizations in the order they ran, keep one
+-- retention-only row (version 0) per student, and make versions unique.
+
+-- StudentFsrsParams
+DELETE FROM "StudentFsrsParams" p
+WHERE p."version" = 0 AND EXISTS (
+    SELECT 1 FROM "StudentFsrsParams" o
+    WHERE o."studentId" = p."studentId" AND o."version" = 0
+      AND (o."isActive", o."id") > (p."isActive", p."id")
+);
+
+UPDATE "StudentFsrsParams" p SET "version" = r."rowNumber"
+FROM (
+    SELECT "id", ROW_NUMBER() OVER (PARTITION BY "studentId" ORDER BY "lastOptimized", "id") AS "rowNumber"
+    FROM "StudentFsrsParams"
+    WHERE "version" > 0
+) r
+WHERE p."id" = r."id";
+
+CREATE UNIQUE INDEX "StudentFsrsParams_studentId_version_key" ON "StudentFsrsParams"("studentId", "version");
+
+-- ListeningFsrsParams
+DELETE FROM "ListeningFsrsParams" p
+WHERE p."version" = 0 AND EXISTS (
+    SELECT 1 FROM "ListeningFsrsParams" o
+    WHERE o."studentId" = p."studentId" AND o."version" = 0
+      AND (o."isActive", o."id") > (p."isActive", p."id")
+);
+
+UPDATE "ListeningFsrsParams" p SET "version" = r."rowNumber"
+FROM (
+    SELECT "id", ROW_NUMBER() OVER (PARTITION BY "studentId" ORDER BY "lastOptimized", "id") AS "rowNumber"
+    FROM "ListeningFsrsParams"
+    WHERE "version" > 0
+) r
+WHERE p."id" = r."id";
+
+CREATE UNIQUE INDEX "ListeningFsrsParams_studentId_version_key" ON "ListeningFsrsParams"("studentId", "version");
+
+-- GenericFsrsParams
+DELETE FROM "GenericFsrsParams" p
+WHERE p."version" = 0 AND EXISTS (
+    SELECT 1 FROM "GenericFsrsParams" o
+    WHERE o."studentId" = p."studentId" AND o."version" = 0
+      AND (o."isActive", o."id") > (p."isActive", p."id")
+);
+
+UPDATE "GenericFsrsParams" p SET "version" = r."rowNumber"
+FROM (
+    SELECT "id", ROW_NUMBER() OVER (PARTITION BY "studentId" ORDER BY "lastOptimized", "id") AS "rowNumber"
+    FROM "GenericFsrsParams"
+    WHERE "version" > 0
+) r
+WHERE p."id" = r."id";
+
+CREATE UNIQUE INDEX "GenericFsrsParams_studentId_version_key" ON "GenericFsrsParams"("studentId", "version");
@@ -0,0 +1,15 @@
+-- Practice sheets were written to a local directory, which Function Compute
+-- instances do not share. Sheets generated before this migration are not moved
+-- and can no longer be downloaded; generate them again.
+
+-- CreateTable
+CREATE TABLE "PracticeSheet" (
+    "jobId" UUID NOT NULL,
+    "content" BYTEA NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "PracticeSheet_pkey" PRIMARY KEY ("jobId")
+);
+
+-- AddForeignKey
+ALTER TABLE "PracticeSheet" ADD CONSTRAINT "PracticeSheet_jobId_fkey" FOREIGN KEY ("jobId") REFERENCES "Job"("id") ON DELETE CASCADE ON UPDATE CASCADE;
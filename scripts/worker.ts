@@ -0,0 +1,164 @@
+// Standalone background worker: `npm run worker`.
+//
+// An alternative to the scheduler calling `POST /api/worker`. It processes the
+// queue continuously and is woken up through Postgres LISTEN/NOTIFY as soon as
+// a job becomes PENDING, so jobs no longer wait for the next cron tick.
+//
+// Configuration (environment):
+//   DATABASE_URL              Postgres connection string (shared with Prisma)
+//   WORKER_CONCURRENCY        Jobs executed in parallel (default 2)
+//   WORKER_BATCH_SIZE         Jobs locked per run (default 10)
+//   WORKER_POLL_INTERVAL_MS   Fallback polling interval, e.g. for retries whose
+//                             backoff has elapsed (default 30000)
+//   MAINTENANCE_INTERVAL_MS   How often job history and expired sessions are
+//                             pruned (default 86400000, 0 disables)
+//   AUTO_OPTIMIZE_INTERVAL_MS How often automatic FSRS optimizations are
+//                             enqueued (default 86400000, 0 disables)
+
+import { Client } from 'pg';
+import { prisma } from '../lib/db';
+import { JOB_QUEUE_CHANNEL, processPendingJobs } from '../lib/worker';
+import { runMaintenance } from '../lib/maintenance';
+import { FSRSService } from '../lib/actions/fsrs';
+
+const CONCURRENCY = Number(process.env.WORKER_CONCURRENCY ?? 2);
+const BATCH_SIZE = Number(process.env.WORKER_BATCH_SIZE ?? 10);
+const POLL_INTERVAL_MS = Number(process.env.WORKER_POLL_INTERVAL_MS ?? 30000);
+const MAINTENANCE_INTERVAL_MS = Number(process.env.MAINTENANCE_INTERVAL_MS ?? 24 * 60 * 60 * 1000);
+const AUTO_OPTIMIZE_INTERVAL_MS = Number(process.env.AUTO_OPTIMIZE_INTERVAL_MS ?? 24 * 60 * 60 * 1000);
+/** Delay before reconnecting the LISTEN connection after it dropped. */
+const RECONNECT_DELAY_MS = 5000;
+
+let stopping = false;
+let wakeUp: (() => void) | null = null;
+/** Set when a notification arrives while a run is in progress. */
+let notifiedDuringRun = false;
+let listener: Client | null = null;
+let reconnectTimer: NodeJS.Timeout | null = null;
+
+function notify() {
+  if (wakeUp) wakeUp();
+  else notifiedDuringRun = true;
+}
+
+/** Resolves after `ms`, or earlier when a notification arrives or shutdown starts. */
+function sleep(ms: number): Promise<void> {
+  if (notifiedDuringRun || stopping) {
+    notifiedDuringRun = false;
+    return Promise.resolve();
+  }
+  return new Promise((resolve) => {
+    const timer = setTimeout(done, ms);
+    function done() {
+      clearTimeout(timer);
+      wakeUp = null;
+      resolve();
+    }
+    wakeUp = done;
+  });
+}
+
+function scheduleReconnect() {
+  if (!stopping) reconnectTimer = setTimeout(connectListener, RECONNECT_DELAY_MS);
+}
+
+/**
+ * Opens a dedicated connection that LISTENs on the job queue channel.
+ * Polling keeps the worker going while the connection is down.
+ */
+async function connectListener(): Promise<void> {
+  if (stopping) return;
+  const client = new Client({ connectionString: process.env.DATABASE_URL });
+  client.on('notification', notify);
+  client.on('error', (error) => {
+    console.error('[Worker] LISTEN connection error:', error.message);
+    listener = null;
+    client.end().catch(() => undefined);
+    scheduleReconnect();
+  });
+
+  try {
+    await client.connect();
+    await client.query(`LISTEN ${JOB_QUEUE_CHANNEL}`);
+    listener = client;
+    console.log(`[Worker] Listening for new jobs on "${JOB_QUEUE_CHANNEL}"`);
+  } catch (error) {
+    console.error('[Worker] Could not LISTEN for new jobs:', (error as Error).message);
+    client.end().catch(() => undefined);
+    scheduleReconnect();
+  }
+}
+
+async function run(): Promise<void> {
+  console.log(
+    `[Worker] Starting with concurrency ${CONCURRENCY}, batch size ${BATCH_SIZE}, poll interval ${POLL_INTERVAL_MS}ms`
+  );
+  await connectListener();
+
+  let lastMaintenanceAt = 0;
+  let lastAutoOptimizeAt = 0;
+  while (!stopping) {
+    if (MAINTENANCE_INTERVAL_MS > 0 && Date.now() - lastMaintenanceAt >= MAINTENANCE_INTERVAL_MS) {
+      lastMaintenanceAt = Date.now();
+      try {
+        console.log('[Worker] Maintenance:', await runMaintenance());
+      } catch (error) {
+        console.error('[Worker] Maintenance failed:', error);
+      }
+    }
+    if (AUTO_OPTIMIZE_INTERVAL_MS > 0 && Date.now() - lastAutoOptimizeAt >= AUTO_OPTIMIZE_INTERVAL_MS) {
+      lastAutoOptimizeAt = Date.now();
+      try {
+        const { enqueued } = await FSRSService._enqueueAutomaticOptimizations();
+        console.log(`[Worker] Enqueued ${enqueued} automatic optimization jobs`);
+      } catch (error) {
+        console.error('[Worker] Automatic optimization failed:', error);
+      }
+    }
+    try {
+      const { processedJobs, jobResults, reaped } = await processPendingJobs({
+        batchSize: BATCH_SIZE,
+        concurrency: CONCURRENCY,
+      });
+      if (reaped.requeued + reaped.deadLettered > 0) {
+        console.log(`[Worker] Reaped expired leases:`, reaped);
+      }
+      for (const result of jobResults) {
+        console.log(`[Worker] Job ${result.jobId}: ${result.status}${result.error ? ` (${result.error})` : ''}`);
+      }
+      // Keep draining while there is work; otherwise wait for a notification.
+      if (processedJobs > 0) continue;
+    } catch (error) {
+      console.error('[Worker] Run failed:', error);
+    }
+    await sleep(POLL_INTERVAL_MS);
+  }
+
+  if (reconnectTimer) clearTimeout(reconnectTimer);
+  await listener?.end().catch(() => undefined);
+  await prisma.$disconnect();
+  console.log('[Worker] Stopped');
+}
+
+/**
+ * Finishes the jobs of the current run before exiting. Jobs that do not finish
+ * in time keep their lease until it expires and are then re-queued by the next
+ * worker run. A second signal exits immediately.
+ */
+function shutdown(signal: NodeJS.Signals) {
+  if (stopping) {
+    console.log(`[Worker] Received ${signal} again, exiting now`);
+    process.exit(1);
+  }
+  console.log(`[Worker] Received ${signal}, finishing current jobs...`);
+  stopping = true;
+  wakeUp?.();
+}
+
+process.on('SIGTERM', shutdown);
+process.on('SIGINT', shutdown);
+
+run().catch((error) => {
+  console.error('[Worker] Fatal error:', error);
+  process.exit(1);
+});